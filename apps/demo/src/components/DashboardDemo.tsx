@@ -1,23 +1,131 @@
-import { useState, useCallback } from "react";
-import type { ParsedDataset } from "@open-dashboard/shared/types";
+import { useState, useCallback, useMemo } from "react";
+import type {
+  DataField,
+  FieldProfile,
+  ParsedDataset,
+  Widget,
+} from "@open-dashboard/shared/types";
+import {
+  detectSchemaDrift,
+  type ParseDetection,
+} from "@open-dashboard/core-parser";
+import { profileDataset } from "@open-dashboard/core-schema";
+import { rebindWidgets } from "@open-dashboard/dashboard-builder";
 import DataUploader from "./DataUploader";
 import SampleDatasets from "./SampleDatasets";
 
+function formatDetection(dataset: ParsedDataset): string | undefined {
+  const detection = dataset.metadata?.detection as ParseDetection | undefined;
+  if (!detection) return undefined;
+  return `detected as ${detection.adapter.toUpperCase()} (${Math.round(detection.confidence * 100)}%)`;
+}
+
+function formatProfile(field: DataField): string | undefined {
+  const profile = field.metadata?.profile as FieldProfile | undefined;
+  if (!profile) return undefined;
+  const parts = [
+    `${Math.round(profile.nullRate * 100)}% null`,
+    `${profile.distinctApproximate ? "~" : ""}${profile.distinctCount} distinct`,
+  ];
+  if (profile.numeric) {
+    parts.push(`${profile.numeric.min} – ${profile.numeric.max}`);
+  } else if (profile.temporal) {
+    parts.push(
+      `${profile.temporal.min.slice(0, 10)} – ${profile.temporal.max.slice(0, 10)} by ${profile.temporal.granularity}`
+    );
+  } else if (profile.topValues?.length) {
+    parts.push(`top: ${profile.topValues[0].value}`);
+  }
+  return parts.join(" · ");
+}
+
+// The preview table is a widget bound to the dataset's columns, so a
+// refreshed upload that renames or drops columns shows up in it
+function createPreviewWidget(dataset: ParsedDataset): Widget {
+  return {
+    id: `preview-${dataset.name}`,
+    type: "table",
+    datasetId: dataset.id,
+    config: {
+      title: `${dataset.name} preview`,
+      columns: dataset.schema.fields.map((field) => field.name),
+    },
+  };
+}
+
 export default function DashboardDemo() {
   const [datasets, setDatasets] = useState<ParsedDataset[]>([]);
   const [selectedDataset, setSelectedDataset] = useState<ParsedDataset | null>(
     null
   );
+  const [widgets, setWidgets] = useState<Widget[]>([]);
+  // Schema drift and broken widget bindings of the last refreshed dataset,
+  // and whether the drift policy rejected the refresh
+  const [refreshIssues, setRefreshIssues] = useState<string[]>([]);
+  const [refreshRejected, setRefreshRejected] = useState(false);
+  const profiledDataset = useMemo(
+    () => (selectedDataset ? profileDataset(selectedDataset) : null),
+    [selectedDataset]
+  );
+  const previewColumns = useMemo(() => {
+    const columns = widgets.find(
+      (widget) => widget.datasetId === selectedDataset?.id
+    )?.config.columns;
+    return Array.isArray(columns)
+      ? columns.map(String)
+      : (selectedDataset?.schema.fields.map((field) => field.name) ?? []);
+  }, [widgets, selectedDataset]);
 
   const handleDatasetAdded = useCallback(
     (dataset: ParsedDataset) => {
       if (datasets.find((d) => d.id === dataset.id)) {
         return; // Avoid adding duplicates
       }
+
+      // A new upload of a loaded file replaces it and keeps its widgets,
+      // unless its schema drifted in a way the drift policy rejects
+      const previous = datasets.find((d) => d.name === dataset.name);
+      if (previous) {
+        const drift = detectSchemaDrift(previous, dataset);
+        if (drift.action === "reject") {
+          setRefreshIssues(
+            drift.issues
+              .filter((issue) => issue.action !== "accept")
+              .map((issue) => issue.message)
+          );
+          setRefreshRejected(true);
+          setSelectedDataset(previous);
+          return;
+        }
+
+        const rebound = rebindWidgets(
+          widgets,
+          previous.id,
+          dataset,
+          drift.diff.renamedFields
+        );
+        setDatasets((prev) =>
+          prev.map((d) => (d.id === previous.id ? dataset : d))
+        );
+        setWidgets(rebound.widgets);
+        setRefreshIssues([
+          ...drift.issues
+            .filter((issue) => issue.action !== "accept")
+            .map((issue) => issue.message),
+          ...rebound.errors.map((error) => error.message),
+        ]);
+        setRefreshRejected(false);
+        setSelectedDataset(dataset);
+        return;
+      }
+
       setDatasets((prev) => [...prev, dataset]);
+      setWidgets((prev) => [...prev, createPreviewWidget(dataset)]);
+      setRefreshIssues([]);
+      setRefreshRejected(false);
       setSelectedDataset(dataset);
     },
-    [datasets]
+    [datasets, widgets]
   );
 
   const handleDatasetDeleted = useCallback(
@@ -36,12 +144,18 @@ export default function DashboardDemo() {
 
         return updatedDatasets;
       });
+      setWidgets((prev) =>
+        prev.filter((widget) => widget.datasetId !== datasetId)
+      );
     },
     [selectedDataset]
   );
 
   const handleClearAllDatasets = useCallback(() => {
     setDatasets([]);
+    setWidgets([]);
+    setRefreshIssues([]);
+    setRefreshRejected(false);
     setSelectedDataset(null);
   }, []);
 
@@ -108,6 +222,11 @@ export default function DashboardDemo() {
                       {dataset.data.length} rows, {dataset.schema.fields.length}{" "}
                       columns
                     </p>
+                    {formatDetection(dataset) && (
+                      <p className="text-xs text-gray-500">
+                        {formatDetection(dataset)}
+                      </p>
+                    )}
                     <div className="mt-2 flex flex-wrap gap-1">
                       {dataset.schema.fields.slice(0, 3).map((field) => (
                         <span
@@ -154,6 +273,24 @@ export default function DashboardDemo() {
         </div>
       )}
 
+      {/* Refreshed Dataset Issues */}
+      {refreshIssues.length > 0 && (
+        <div className="demo-card border-amber-300 bg-amber-50">
+          <div className="demo-header">
+            <h3 className="demo-title">
+              {refreshRejected
+                ? "Refresh rejected, keeping the current dataset"
+                : "Dataset refreshed with changes"}
+            </h3>
+          </div>
+          <ul className="list-disc pl-5 text-sm text-amber-800 space-y-1">
+            {refreshIssues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Selected Dataset Preview */}
       {selectedDataset && (
         <div className="demo-card">
@@ -170,28 +307,40 @@ export default function DashboardDemo() {
             <table className="min-w-full border-collapse">
               <thead>
                 <tr className="bg-gray-50">
-                  {selectedDataset.schema.fields.map((field) => (
-                    <th
-                      key={field.name}
-                      className="border border-gray-200 px-4 py-2 text-left font-medium"
-                    >
-                      {field.name}
-                      <span className="text-xs text-gray-500 block">
-                        {field.type}
-                      </span>
-                    </th>
-                  ))}
+                  {previewColumns.map((name) => {
+                    const field = (
+                      profiledDataset ?? selectedDataset
+                    ).schema.fields.find((f) => f.name === name);
+                    return (
+                      <th
+                        key={name}
+                        className="border border-gray-200 px-4 py-2 text-left font-medium"
+                      >
+                        {name}
+                        <span
+                          className={`text-xs block ${field ? "text-gray-500" : "text-red-600"}`}
+                        >
+                          {field ? field.type : "missing"}
+                        </span>
+                        {field && formatProfile(field) && (
+                          <span className="text-xs font-normal text-gray-400 block">
+                            {formatProfile(field)}
+                          </span>
+                        )}
+                      </th>
+                    );
+                  })}
                 </tr>
               </thead>
               <tbody>
                 {selectedDataset.data.slice(0, 5).map((row, index) => (
                   <tr key={index} className="hover:bg-gray-50">
-                    {selectedDataset.schema.fields.map((field) => (
+                    {previewColumns.map((name) => (
                       <td
-                        key={field.name}
+                        key={name}
                         className="border border-gray-200 px-4 py-2"
                       >
-                        {String(row[field.name] ?? "")}
+                        {String(row[name] ?? "")}
                       </td>
                     ))}
                   </tr>
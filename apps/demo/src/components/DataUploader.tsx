@@ -1,5 +1,14 @@
-import { useCallback, useState } from "react";
-import { parseData, DataParsingError } from "@open-dashboard/core-parser";
+import { useCallback, useRef, useState } from "react";
+import {
+  parseData,
+  defaultRegistry,
+  DataParsingError,
+  JSONAdapter,
+  PDFAdapter,
+  ExcelAdapter,
+  ParserWorkerPool,
+} from "@open-dashboard/core-parser";
+import pdfWorkerUrl from "pdfjs-dist/legacy/build/pdf.worker.min.mjs?url";
 import { datasetToIPC, ipcToDataset } from "@open-dashboard/core-schema";
 import type { ParsedDataset } from "@open-dashboard/shared/types";
 
@@ -7,22 +16,150 @@ interface DataUploaderProps {
   onDatasetAdded: (dataset: ParsedDataset) => void;
 }
 
+const jsonAdapter = new JSONAdapter();
+const excelAdapter = new ExcelAdapter();
+
+// pdf.js needs its worker script in the browser
+const pdfAdapter = new PDFAdapter({ workerSrc: pdfWorkerUrl });
+defaultRegistry.register("pdf", pdfAdapter);
+
+// Parse up to two files at once off the main thread. PDFs stay on the main
+// thread, where pdf.js is set up with its own worker.
+const parserPool = new ParserWorkerPool({ poolSize: 2 });
+
+/**
+ * Asks the user which array to load when a JSON file contains several
+ */
+async function chooseRecordPath(file: File): Promise<string | undefined> {
+  if (!file.name.toLowerCase().endsWith(".json")) {
+    return undefined;
+  }
+
+  const candidates = await jsonAdapter.discoverRecordArrays(file);
+  if (candidates.length <= 1) {
+    return undefined;
+  }
+
+  const choices = candidates
+    .map(
+      (candidate, index) =>
+        `${index + 1}. ${candidate.path} (${candidate.length} rows${
+          candidate.sampleKeys.length > 0
+            ? `: ${candidate.sampleKeys.slice(0, 4).join(", ")}`
+            : ""
+        })`
+    )
+    .join("\n");
+  const answer = window.prompt(
+    `"${file.name}" contains several tables. Which one should be loaded?\n\n${choices}`,
+    "1"
+  );
+  const selected = candidates[Number(answer) - 1];
+
+  return selected?.path;
+}
+
+/**
+ * Asks the user which table to load when a PDF contains several
+ */
+async function choosePDFTable(file: File): Promise<number | undefined> {
+  if (!file.name.toLowerCase().endsWith(".pdf")) {
+    return undefined;
+  }
+
+  const tables = await pdfAdapter.discoverTables(file);
+  if (tables.length <= 1) {
+    return undefined;
+  }
+
+  const choices = tables
+    .map(
+      (table) =>
+        `${table.index + 1}. Page ${table.page} (${table.rowCount} rows: ${table.header
+          .slice(0, 4)
+          .join(", ")})`
+    )
+    .join("\n");
+  const answer = window.prompt(
+    `"${file.name}" contains several tables. Which one should be loaded?\n\n${choices}`,
+    "1"
+  );
+  const selected = tables[Number(answer) - 1];
+
+  return selected?.index;
+}
+
+/**
+ * Asks the user which sheet to load when a workbook contains several
+ */
+async function chooseExcelSheet(file: File): Promise<number | undefined> {
+  if (!/\.xlsx?$/i.test(file.name)) {
+    return undefined;
+  }
+
+  const sheets = (await excelAdapter.listSheets(file)).filter(
+    (sheet) => !sheet.hidden && sheet.rowCount > 0
+  );
+  if (sheets.length <= 1) {
+    return undefined;
+  }
+
+  const choices = sheets
+    .map(
+      (sheet, index) =>
+        `${index + 1}. ${sheet.name} (${sheet.rowCount} rows, ${sheet.columnCount} columns)`
+    )
+    .join("\n");
+  const answer = window.prompt(
+    `"${file.name}" contains several sheets. Which one should be loaded?\n\n${choices}`,
+    "1"
+  );
+  const selected = sheets[Number(answer) - 1];
+
+  return selected?.index;
+}
+
 export default function DataUploader({ onDatasetAdded }: DataUploaderProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isLoading] = useState(false);
   const [lastDataset, setLastDataset] = useState<ParsedDataset | null>(null);
+  const [progress, setProgress] = useState<{
+    fileName: string;
+    percentage: number;
+    rowsParsed: number;
+  } | null>(null);
+  const abortControllersRef = useRef(new Set<AbortController>());
 
   const processFile = useCallback(
     async (file: File) => {
+      const controller = new AbortController();
+      abortControllersRef.current.add(controller);
       setIsProcessing(true);
 
       try {
-        // Use the new parser package!
-        const dataset = await parseData(file);
+        const recordPath = await chooseRecordPath(file);
+        const pdfTable = await choosePDFTable(file);
+        const excelSheet = await chooseExcelSheet(file);
+        // Parse in a worker so the tab stays responsive and can be cancelled
+        const parse = file.name.toLowerCase().endsWith(".pdf")
+          ? parseData
+          : parserPool.parse.bind(parserPool);
+        const dataset = await parse(file, undefined, {
+          recordPath,
+          pdf: { table: pdfTable },
+          excel: { sheet: excelSheet },
+          streaming: true,
+          signal: controller.signal,
+          onProgress: ({ percentage, rowsParsed }) =>
+            setProgress({ fileName: file.name, percentage, rowsParsed }),
+        });
         setLastDataset(dataset); // Track last uploaded dataset
         onDatasetAdded(dataset);
       } catch (error) {
+        if (controller.signal.aborted) {
+          return; // Cancelled by the user
+        }
         const errorMessage =
           error instanceof DataParsingError
             ? error.message
@@ -31,12 +168,21 @@ export default function DataUploader({ onDatasetAdded }: DataUploaderProps) {
               : "Unknown error";
         alert(`Error processing file "${file.name}": ${errorMessage}`);
       } finally {
-        setIsProcessing(false);
+        abortControllersRef.current.delete(controller);
+        if (abortControllersRef.current.size === 0) {
+          setIsProcessing(false);
+          setProgress(null);
+        }
       }
     },
     [onDatasetAdded]
   );
 
+  const handleCancel = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    abortControllersRef.current.forEach((controller) => controller.abort());
+  }, []);
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
@@ -78,6 +224,27 @@ export default function DataUploader({ onDatasetAdded }: DataUploaderProps) {
         <div className="space-y-2">
           <div className="animate-spin w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full mx-auto"></div>
           <p>Processing files...</p>
+          {progress && (
+            <div className="space-y-1">
+              <p className="text-sm text-gray-600">
+                {progress.fileName}: {progress.percentage.toFixed(0)}% (
+                {progress.rowsParsed.toLocaleString()} rows)
+              </p>
+              <div className="w-full h-2 bg-gray-200 rounded">
+                <div
+                  className="h-2 bg-blue-500 rounded transition-all"
+                  style={{ width: `${progress.percentage}%` }}
+                />
+              </div>
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="px-3 py-1 text-sm text-red-600 border border-red-300 rounded hover:bg-red-50"
+          >
+            Cancel
+          </button>
         </div>
       );
     }
@@ -86,7 +253,9 @@ export default function DataUploader({ onDatasetAdded }: DataUploaderProps) {
       <div className="space-y-2">
         <div className="text-4xl">📁</div>
         <p className="font-medium">Drop files here or click to browse</p>
-        <p className="text-sm text-gray-600">Supports CSV and JSON files</p>
+        <p className="text-sm text-gray-600">
+          Supports CSV, JSON, JSON Lines, Excel, Parquet, PDF and text log files
+        </p>
       </div>
     );
   };
@@ -103,6 +272,22 @@ export default function DataUploader({ onDatasetAdded }: DataUploaderProps) {
         <li>
           <strong>JSON:</strong> Array of objects or object containing an array
         </li>
+        <li>
+          <strong>NDJSON / JSON Lines:</strong> One JSON object per line
+        </li>
+        <li>
+          <strong>PDF:</strong> Tables in text-based PDF reports
+        </li>
+        <li>
+          <strong>Excel:</strong> .xlsx and .xls workbooks, one sheet at a time
+        </li>
+        <li>
+          <strong>Parquet:</strong> Columnar files with their own typed schema
+        </li>
+        <li>
+          <strong>Logs / text:</strong> Apache, nginx, syslog and timestamped
+          application logs, or one row per line
+        </li>
       </ul>
     </div>
   );
@@ -184,7 +369,7 @@ export default function DataUploader({ onDatasetAdded }: DataUploaderProps) {
         <input
           id="file-input"
           type="file"
-          accept=".csv,.json"
+          accept=".csv,.json,.ndjson,.jsonl,.pdf,.log,.txt,.xlsx,.xls,.parquet"
           multiple
           onChange={handleFileSelect}
           className="hidden"
@@ -12,6 +12,11 @@ export default defineConfig({
     }),
     tailwindcss(),
   ],
+  optimizeDeps: {
+    // parquet-wasm loads its .wasm file relative to its own module URL,
+    // which pre-bundling would break
+    exclude: ["parquet-wasm"],
+  },
   server: {
     port: 5173,
     open: true,
@@ -0,0 +1,524 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { APIAdapter } from "./apiAdapter";
+import { DataParsingError } from "./csvAdapter";
+
+const ITEMS = Array.from({ length: 5 }, (_, i) => ({
+  id: i + 1,
+  name: `item ${i + 1}`,
+}));
+
+interface RecordedRequest {
+  url: URL;
+  headers: IncomingMessage["headers"];
+  body: string;
+  time: number;
+}
+
+describe("APIAdapter", () => {
+  let adapter: APIAdapter;
+  let server: Server;
+  let baseURL: string;
+  let requests: RecordedRequest[];
+  let failures: number;
+
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  const handle = (url: URL, req: IncomingMessage, res: ServerResponse) => {
+    const params = url.searchParams;
+
+    switch (url.pathname) {
+      case "/items":
+        return send(res, 200, ITEMS);
+
+      case "/wrapped":
+        return send(res, 200, {
+          meta: { total: 2 },
+          data: { users: [{ id: 1 }, { id: 2 }] },
+        });
+
+      case "/paged": {
+        const page = Number(params.get("page"));
+        const size = Number(params.get("per_page") ?? 2);
+        return send(res, 200, {
+          results: ITEMS.slice((page - 1) * size, page * size),
+        });
+      }
+
+      case "/offset": {
+        const offset = Number(params.get("offset"));
+        const limit = Number(params.get("limit"));
+        return send(res, 200, ITEMS.slice(offset, offset + limit));
+      }
+
+      case "/cursor": {
+        const start = Number(params.get("cursor") ?? 0);
+        const next = start + 2 < ITEMS.length ? String(start + 2) : null;
+        return send(res, 200, {
+          items: ITEMS.slice(start, start + 2),
+          meta: { next },
+        });
+      }
+
+      case "/link": {
+        const page = Number(params.get("p") ?? 1);
+        if (page < 3) {
+          res.setHeader(
+            "Link",
+            `</link?p=1>; rel="first", </link?p=${page + 1}>; rel="next"`
+          );
+        }
+        return send(res, 200, [{ page }]);
+      }
+
+      case "/keyed-link": {
+        if (params.get("key") !== "k1") {
+          return send(res, 403, { error: "forbidden" });
+        }
+        const page = Number(params.get("p") ?? 1);
+        if (page < 2) {
+          res.setHeader("Link", `</keyed-link?p=${page + 1}>; rel="next"`);
+        }
+        return send(res, 200, [{ page }]);
+      }
+
+      case "/external-link":
+        res.setHeader("Link", `<${params.get("next")}>; rel="next"`);
+        return send(res, 200, [{ page: 1 }]);
+
+      case "/secure":
+        return req.headers.authorization === "Bearer s3cret"
+          ? send(res, 200, [{ ok: true }])
+          : send(res, 401, { error: "unauthorized" });
+
+      case "/keyed":
+        return req.headers["x-api-key"] === "k1" || params.get("key") === "k1"
+          ? send(res, 200, [{ ok: true }])
+          : send(res, 403, { error: "forbidden" });
+
+      case "/flaky":
+        if (failures < 2) {
+          failures++;
+          return send(res, 503, { error: "unavailable" });
+        }
+        return send(res, 200, [{ ok: true }]);
+
+      case "/limited":
+        if (failures < 1) {
+          failures++;
+          res.setHeader("Retry-After", "0");
+          return send(res, 429, { error: "slow down" });
+        }
+        return send(res, 200, [{ ok: true }]);
+
+      case "/echo":
+        return send(res, 200, [JSON.parse(requests.at(-1)?.body || "{}")]);
+
+      case "/nested":
+        return send(res, 200, [
+          { id: 1, address: { city: "Oslo" } },
+          { id: 2, address: { city: "Rome" } },
+        ]);
+
+      case "/invalid":
+        res.writeHead(200, { "Content-Type": "application/json" });
+        return res.end("{oops");
+
+      default:
+        return send(res, 404, { error: "not found" });
+    }
+  };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const url = new URL(req.url ?? "/", baseURL);
+        requests.push({ url, headers: req.headers, body, time: Date.now() });
+        handle(url, req, res);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    adapter = new APIAdapter();
+    requests = [];
+    failures = 0;
+  });
+
+  describe("getSupportedTypes", () => {
+    it("should return HTTP protocols", () => {
+      expect(adapter.getSupportedTypes()).toEqual(["http:", "https:"]);
+    });
+  });
+
+  describe("validate", () => {
+    it("should validate HTTP URLs and URL strings", () => {
+      expect(adapter.validate(new URL("https://api.example.com/v1"))).toBe(
+        true
+      );
+      expect(adapter.validate("http://localhost:3000/items")).toBe(true);
+    });
+
+    it("should reject other inputs", () => {
+      expect(adapter.validate(new URL("file:///data.json"))).toBe(false);
+      expect(adapter.validate('{"a":1}')).toBe(false);
+      expect(adapter.validate(new File([""], "data.json"))).toBe(false);
+      expect(adapter.validate(null)).toBe(false);
+    });
+  });
+
+  describe("parse - basic functionality", () => {
+    it("should load records from a JSON array response", async () => {
+      const result = await adapter.parse(new URL(`${baseURL}/items`));
+
+      expect(result.data).toEqual(ITEMS);
+      expect(result.sourceType).toBe("api");
+      expect(result.name).toBe("items");
+      expect(result.schema.fields.map((f) => f.name)).toEqual(["id", "name"]);
+      expect(result.metadata?.pages).toBe(1);
+      expect(result.metadata?.endpoint).toBe(`${baseURL}/items`);
+    });
+
+    it("should accept URL strings", async () => {
+      const result = await adapter.parse(`${baseURL}/items`);
+
+      expect(result.data).toHaveLength(5);
+    });
+
+    it("should select records with recordPath", async () => {
+      const result = await adapter.parse(`${baseURL}/wrapped`, {
+        recordPath: "data.users",
+      });
+
+      expect(result.data).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(result.metadata?.recordPath).toBe("data.users");
+    });
+
+    it("should send configured headers, query parameters and JSON body", async () => {
+      const result = await adapter.parse(`${baseURL}/echo`, {
+        api: {
+          method: "POST",
+          headers: { "X-Client": "dashboard" },
+          query: { region: "eu", active: true },
+          body: { filter: "all" },
+        },
+      });
+
+      const request = requests[0];
+      expect(request.headers["x-client"]).toBe("dashboard");
+      expect(request.headers["content-type"]).toBe("application/json");
+      expect(request.url.searchParams.get("region")).toBe("eu");
+      expect(request.url.searchParams.get("active")).toBe("true");
+      expect(result.data).toEqual([{ filter: "all" }]);
+    });
+
+    it("should flatten nested records when requested", async () => {
+      const result = await adapter.parse(`${baseURL}/nested`, {
+        flatten: true,
+      });
+
+      expect(result.data[0]).toEqual({ id: 1, "address.city": "Oslo" });
+    });
+  });
+
+  describe("parse - authentication", () => {
+    it("should send bearer tokens", async () => {
+      const result = await adapter.parse(`${baseURL}/secure`, {
+        api: { auth: { type: "bearer", token: "s3cret" } },
+      });
+
+      expect(result.data).toEqual([{ ok: true }]);
+    });
+
+    it("should send API keys in a header", async () => {
+      await adapter.parse(`${baseURL}/keyed`, {
+        api: { auth: { type: "apiKey", key: "k1" } },
+      });
+
+      expect(requests[0].headers["x-api-key"]).toBe("k1");
+    });
+
+    it("should send API keys as a query parameter", async () => {
+      await adapter.parse(`${baseURL}/keyed`, {
+        api: { auth: { type: "apiKey", key: "k1", name: "key", in: "query" } },
+      });
+
+      expect(requests[0].url.searchParams.get("key")).toBe("k1");
+    });
+
+    it("should fail without valid credentials and not leak them", async () => {
+      try {
+        await adapter.parse(`${baseURL}/keyed`, {
+          api: {
+            auth: { type: "apiKey", key: "wrong", name: "key", in: "query" },
+          },
+        });
+        expect.fail("Should have thrown error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(DataParsingError);
+        expect((error as Error).message).toContain("status 403");
+        expect((error as Error).message).not.toContain("wrong");
+      }
+    });
+  });
+
+  describe("parse - pagination", () => {
+    it("should follow page-number pagination", async () => {
+      const result = await adapter.parse(`${baseURL}/paged`, {
+        api: {
+          pagination: { type: "page", sizeParam: "per_page", pageSize: 2 },
+        },
+      });
+
+      expect(result.data).toEqual(ITEMS);
+      expect(requests.map((r) => r.url.searchParams.get("page"))).toEqual([
+        "1",
+        "2",
+        "3",
+      ]);
+      expect(result.metadata?.pages).toBe(3);
+    });
+
+    it("should follow offset pagination", async () => {
+      const result = await adapter.parse(`${baseURL}/offset`, {
+        api: { pagination: { type: "offset", limit: 2 } },
+      });
+
+      expect(result.data).toEqual(ITEMS);
+      expect(requests.map((r) => r.url.searchParams.get("offset"))).toEqual([
+        "0",
+        "2",
+        "4",
+      ]);
+    });
+
+    it("should follow cursor pagination", async () => {
+      const result = await adapter.parse(`${baseURL}/cursor`, {
+        recordPath: "items",
+        api: { pagination: { type: "cursor", cursorPath: "meta.next" } },
+      });
+
+      expect(result.data).toEqual(ITEMS);
+      expect(requests).toHaveLength(3);
+    });
+
+    it("should follow Link header pagination", async () => {
+      const result = await adapter.parse(`${baseURL}/link`, {
+        api: { pagination: { type: "link" } },
+      });
+
+      expect(result.data).toEqual([{ page: 1 }, { page: 2 }, { page: 3 }]);
+    });
+
+    it("should send query API keys to every Link header page", async () => {
+      const result = await adapter.parse(`${baseURL}/keyed-link`, {
+        api: {
+          auth: { type: "apiKey", key: "k1", name: "key", in: "query" },
+          pagination: { type: "link" },
+        },
+      });
+
+      expect(result.data).toEqual([{ page: 1 }, { page: 2 }]);
+      expect(requests.map((r) => r.url.searchParams.get("key"))).toEqual([
+        "k1",
+        "k1",
+      ]);
+    });
+
+    it("should not send credentials to Link header pages on other origins", async () => {
+      const external: RecordedRequest[] = [];
+      const other = createServer((req, res) => {
+        external.push({
+          url: new URL(req.url ?? "/", "http://127.0.0.1"),
+          headers: req.headers,
+          body: "",
+          time: Date.now(),
+        });
+        send(res, 200, [{ page: 2 }]);
+      });
+      await new Promise<void>((resolve) =>
+        other.listen(0, "127.0.0.1", resolve)
+      );
+      const otherURL = `http://127.0.0.1:${(other.address() as AddressInfo).port}/page2`;
+
+      try {
+        const result = await adapter.parse(
+          `${baseURL}/external-link?next=${encodeURIComponent(otherURL)}`,
+          {
+            api: {
+              auth: { type: "bearer", token: "s3cret" },
+              pagination: { type: "link" },
+            },
+          }
+        );
+
+        expect(result.data).toEqual([{ page: 1 }, { page: 2 }]);
+        expect(requests[0].headers.authorization).toBe("Bearer s3cret");
+        expect(external).toHaveLength(1);
+        expect(external[0].headers.authorization).toBeUndefined();
+      } finally {
+        await new Promise((resolve) => other.close(resolve));
+      }
+    });
+
+    it("should not send query API keys to other origins", async () => {
+      const external: URL[] = [];
+      const other = createServer((req, res) => {
+        external.push(new URL(req.url ?? "/", "http://127.0.0.1"));
+        send(res, 200, [{ page: 2 }]);
+      });
+      await new Promise<void>((resolve) =>
+        other.listen(0, "127.0.0.1", resolve)
+      );
+      const otherURL = `http://127.0.0.1:${(other.address() as AddressInfo).port}/page2`;
+
+      try {
+        await adapter.parse(
+          `${baseURL}/external-link?next=${encodeURIComponent(otherURL)}`,
+          {
+            api: {
+              auth: { type: "apiKey", key: "k1", name: "key", in: "query" },
+              pagination: { type: "link" },
+            },
+          }
+        );
+
+        expect(requests[0].url.searchParams.get("key")).toBe("k1");
+        expect(external).toHaveLength(1);
+        expect(external[0].searchParams.has("key")).toBe(false);
+      } finally {
+        await new Promise((resolve) => other.close(resolve));
+      }
+    });
+
+    it("should stop at maxPages and report truncation", async () => {
+      const result = await adapter.parse(`${baseURL}/offset`, {
+        api: { pagination: { type: "offset", limit: 1 }, maxPages: 2 },
+      });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.metadata?.truncated).toBe(true);
+    });
+
+    it("should stop requesting pages once maxRows is reached", async () => {
+      const result = await adapter.parse(`${baseURL}/offset`, {
+        maxRows: 3,
+        api: { pagination: { type: "offset", limit: 2 } },
+      });
+
+      expect(result.data).toEqual(ITEMS.slice(0, 3));
+      expect(requests).toHaveLength(2);
+      expect(result.metadata?.truncated).toBe(true);
+    });
+  });
+
+  describe("parse - rate limiting and retries", () => {
+    it("should retry retryable status codes with backoff", async () => {
+      const result = await adapter.parse(`${baseURL}/flaky`, {
+        api: { retry: { retries: 3, baseDelay: 1 } },
+      });
+
+      expect(result.data).toEqual([{ ok: true }]);
+      expect(requests).toHaveLength(3);
+      expect(result.metadata?.retries).toBe(2);
+    });
+
+    it("should honor Retry-After on 429 responses", async () => {
+      const result = await adapter.parse(`${baseURL}/limited`, {
+        api: { retry: { baseDelay: 10000 } },
+      });
+
+      expect(result.data).toEqual([{ ok: true }]);
+      expect(requests).toHaveLength(2);
+    });
+
+    it("should give up after the configured retries", async () => {
+      await expect(
+        adapter.parse(`${baseURL}/flaky`, {
+          api: { retry: { retries: 1, baseDelay: 1 } },
+        })
+      ).rejects.toThrow("status 503");
+      expect(requests).toHaveLength(2);
+    });
+
+    it("should not retry when retries are disabled", async () => {
+      await expect(
+        adapter.parse(`${baseURL}/flaky`, { api: { retry: false } })
+      ).rejects.toThrow(DataParsingError);
+      expect(requests).toHaveLength(1);
+    });
+
+    it("should not retry client errors", async () => {
+      await expect(adapter.parse(`${baseURL}/missing`)).rejects.toThrow(
+        "status 404"
+      );
+      expect(requests).toHaveLength(1);
+    });
+
+    it("should space requests according to the rate limit", async () => {
+      await adapter.parse(`${baseURL}/offset`, {
+        api: {
+          pagination: { type: "offset", limit: 2 },
+          rateLimit: { requests: 1, interval: 40 },
+        },
+      });
+
+      expect(requests).toHaveLength(3);
+      expect(requests[2].time - requests[0].time).toBeGreaterThanOrEqual(70);
+    });
+  });
+
+  describe("parse - error handling", () => {
+    it("should throw for invalid JSON responses", async () => {
+      await expect(adapter.parse(`${baseURL}/invalid`)).rejects.toThrow(
+        "Invalid JSON in API response"
+      );
+    });
+
+    it("should throw when the record path does not match", async () => {
+      await expect(
+        adapter.parse(`${baseURL}/wrapped`, { recordPath: "data.missing" })
+      ).rejects.toThrow('Record path "data.missing" did not match any data');
+    });
+
+    it("should throw when the request is aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        adapter.parse(`${baseURL}/items`, { signal: controller.signal })
+      ).rejects.toThrow("API request was aborted");
+    });
+
+    it("should wrap network errors", async () => {
+      await expect(
+        adapter.parse("http://127.0.0.1:1/items", { api: { retry: false } })
+      ).rejects.toThrow(DataParsingError);
+    });
+
+    it("should throw for unsupported input types", async () => {
+      await expect(adapter.parse(new File([""], "a.json"))).rejects.toThrow(
+        "Unsupported input type"
+      );
+    });
+  });
+});
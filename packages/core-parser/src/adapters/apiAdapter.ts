@@ -0,0 +1,400 @@
+import type {
+  DataAdapter,
+  DetectionSample,
+  ParsedDataset,
+} from "@open-dashboard/shared/types";
+import type {
+  APIPagination,
+  APISourceOptions,
+  ParserOptions,
+} from "../types/parser";
+import { finalizeDataset } from "../utils/schemaBuilder";
+import { resolveRecordPath } from "../utils/recordPath";
+import {
+  annotateFlattenedSchema,
+  flattenRecords,
+  resolveFlattenOptions,
+} from "../utils/flatten";
+import {
+  createRateLimiter,
+  fetchWithRetry,
+  parseLinkHeader,
+} from "../utils/http";
+import { datasetId } from "@open-dashboard/core-schema";
+import { DataParsingError } from "./csvAdapter";
+
+interface Page {
+  url: URL;
+  response: Response;
+  body: unknown;
+  records: unknown[];
+}
+
+/**
+ * Adapter for JSON REST APIs.
+ *
+ * The input is the endpoint URL; request, pagination and retry settings are
+ * passed as `options.api`. Records are taken from `options.recordPath` or,
+ * like the JSON adapter, from the response itself or its first array.
+ */
+export class APIAdapter implements DataAdapter {
+  getSupportedTypes(): string[] {
+    return ["http:", "https:"];
+  }
+
+  validate(input: unknown): boolean {
+    return this.toURL(input) !== undefined;
+  }
+
+  detect(sample: DetectionSample): number {
+    if (!sample.url || !this.validate(sample.url)) return 0;
+    // Addresses of files (e.g. ".../export.csv") are better left to the
+    // adapter for that format
+    const lastSegment = sample.url.pathname.split("/").pop() ?? "";
+    return /\.(?!json$)\w+$/i.test(lastSegment) ? 0.3 : 0.9;
+  }
+
+  async parse(
+    input: string | File | URL,
+    options: ParserOptions = {}
+  ): Promise<ParsedDataset> {
+    const startTime = performance.now();
+    const url = this.toURL(input);
+    if (!url) {
+      throw new DataParsingError("Unsupported input type for API adapter");
+    }
+
+    const api = options.api ?? {};
+    const name = url.pathname.split("/").pop() || url.hostname;
+    const endpoint = `${url.origin}${url.pathname}`;
+    const maxPages = api.maxPages ?? 100;
+    const throttle = createRateLimiter(api.rateLimit);
+
+    let data: Record<string, unknown>[] = [];
+    let pages = 0;
+    let retries = 0;
+    let truncated = false;
+
+    try {
+      let pageURL: URL | undefined = this.firstPageURL(url, api);
+
+      while (pageURL) {
+        const page = await this.fetchPage(pageURL, api, options, name, {
+          origin: url.origin,
+          throttle,
+          onRetry: () => retries++,
+        });
+        pages++;
+        page.records.forEach((item) => {
+          data.push(
+            typeof item === "object" && item !== null && !Array.isArray(item)
+              ? (item as Record<string, unknown>)
+              : { value: item, index: data.length }
+          );
+        });
+
+        options.onProgress?.({
+          percentage: 0,
+          rowsParsed: data.length,
+          currentRow: data[data.length - 1],
+        });
+
+        const nextURL = this.nextPageURL(page, api.pagination);
+
+        if (options.maxRows !== undefined && data.length >= options.maxRows) {
+          truncated = data.length > options.maxRows || nextURL !== undefined;
+          break;
+        }
+        if (nextURL && pages >= maxPages) {
+          truncated = true;
+          break;
+        }
+
+        pageURL = nextURL;
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new DataParsingError("API request was aborted", name);
+      }
+      if (error instanceof DataParsingError) {
+        throw error;
+      }
+      throw new DataParsingError(
+        `API request to ${endpoint} failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        name
+      );
+    }
+
+    if (options.maxRows !== undefined) {
+      data = data.slice(0, options.maxRows);
+    }
+
+    if (data.length === 0) {
+      throw new DataParsingError("No data found in API response", name);
+    }
+
+    const flatten = resolveFlattenOptions(options.flatten);
+    const flattened = flatten ? flattenRecords(data, flatten) : undefined;
+    if (flattened) {
+      data = flattened.data;
+    }
+
+    const allFields = new Set<string>();
+    data.forEach((row) => {
+      Object.keys(row).forEach((key) => allFields.add(key));
+    });
+
+    const schema = finalizeDataset(data, Array.from(allFields), options);
+    if (!schema) {
+      throw new DataParsingError(
+        "Invalid schema generated from API response",
+        name
+      );
+    }
+
+    if (flattened) {
+      annotateFlattenedSchema(schema, flattened.fields, flatten);
+    }
+
+    options.onProgress?.({
+      percentage: 100,
+      rowsParsed: data.length,
+      currentRow: data[data.length - 1],
+    });
+
+    return {
+      id: datasetId(data, schema),
+      name,
+      data,
+      schema,
+      sourceType: "api",
+      createdAt: new Date(),
+      metadata: {
+        parseTime: performance.now() - startTime,
+        rowCount: data.length,
+        columnCount: schema.fields.length,
+        endpoint,
+        pages,
+        retries,
+        truncated,
+        ...(options.recordPath && { recordPath: options.recordPath }),
+        ...(flatten && { flatten }),
+      },
+    };
+  }
+
+  private toURL(input: unknown): URL | undefined {
+    let url: URL;
+    if (input instanceof URL) {
+      url = input;
+    } else if (typeof input === "string") {
+      try {
+        url = new URL(input.trim());
+      } catch {
+        return undefined;
+      }
+    } else {
+      return undefined;
+    }
+
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url
+      : undefined;
+  }
+
+  private firstPageURL(url: URL, api: APISourceOptions): URL {
+    const pageURL = new URL(url);
+
+    Object.entries(api.query ?? {}).forEach(([key, value]) => {
+      pageURL.searchParams.set(key, String(value));
+    });
+
+    const pagination = api.pagination;
+    if (pagination?.type === "page") {
+      pageURL.searchParams.set(
+        pagination.pageParam ?? "page",
+        String(pagination.startPage ?? 1)
+      );
+      if (pagination.sizeParam && pagination.pageSize) {
+        pageURL.searchParams.set(
+          pagination.sizeParam,
+          String(pagination.pageSize)
+        );
+      }
+    } else if (pagination?.type === "offset") {
+      const offsetParam = pagination.offsetParam ?? "offset";
+      if (!pageURL.searchParams.has(offsetParam)) {
+        pageURL.searchParams.set(offsetParam, "0");
+      }
+      pageURL.searchParams.set(
+        pagination.limitParam ?? "limit",
+        String(pagination.limit ?? 100)
+      );
+    }
+
+    return pageURL;
+  }
+
+  /**
+   * Returns the URL of the page after `page`, or undefined on the last page
+   */
+  private nextPageURL(
+    page: Page,
+    pagination: APIPagination | undefined
+  ): URL | undefined {
+    const next = new URL(page.url);
+    const count = page.records.length;
+
+    switch (pagination?.type) {
+      case "page": {
+        const pageParam = pagination.pageParam ?? "page";
+        if (
+          count === 0 ||
+          (pagination.pageSize && count < pagination.pageSize)
+        ) {
+          return undefined;
+        }
+        const current = Number(next.searchParams.get(pageParam));
+        next.searchParams.set(pageParam, String(current + 1));
+        return next;
+      }
+
+      case "offset": {
+        const offsetParam = pagination.offsetParam ?? "offset";
+        if (count < (pagination.limit ?? 100)) return undefined;
+        const current = Number(next.searchParams.get(offsetParam));
+        next.searchParams.set(offsetParam, String(current + count));
+        return next;
+      }
+
+      case "cursor": {
+        const cursorParam = pagination.cursorParam ?? "cursor";
+        let cursor: unknown;
+        try {
+          cursor = resolveRecordPath(page.body, pagination.cursorPath)?.[0];
+        } catch {
+          cursor = undefined;
+        }
+        if (
+          cursor === undefined ||
+          cursor === null ||
+          cursor === "" ||
+          String(cursor) === next.searchParams.get(cursorParam)
+        ) {
+          return undefined;
+        }
+        next.searchParams.set(cursorParam, String(cursor));
+        return next;
+      }
+
+      case "link": {
+        const link = parseLinkHeader(page.response.headers.get("link")).next;
+        return link ? new URL(link, page.url) : undefined;
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  private async fetchPage(
+    url: URL,
+    api: APISourceOptions,
+    options: ParserOptions,
+    name: string,
+    hooks: {
+      /** Origin of the requested endpoint, the only one sent credentials */
+      origin: string;
+      throttle: () => Promise<void>;
+      onRetry: () => void;
+    }
+  ): Promise<Page> {
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      ...api.headers,
+    };
+    // Pages on other origins, e.g. from a Link header, are fetched without
+    // credentials. The query key is added here so `Page.url` never holds it.
+    const requestURL = new URL(url);
+    if (url.origin === hooks.origin) {
+      if (api.auth?.type === "bearer") {
+        headers.Authorization = `Bearer ${api.auth.token}`;
+      } else if (api.auth?.type === "apiKey" && api.auth.in === "query") {
+        requestURL.searchParams.set(api.auth.name ?? "X-API-Key", api.auth.key);
+      } else if (api.auth?.type === "apiKey") {
+        headers[api.auth.name ?? "X-API-Key"] = api.auth.key;
+      }
+    }
+
+    const method = api.method ?? "GET";
+    let body: string | undefined;
+    if (method === "POST" && api.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+      body = JSON.stringify(api.body);
+    }
+
+    const response = await fetchWithRetry(
+      requestURL,
+      { method, headers, body, signal: options.signal },
+      { retry: api.retry, throttle: hooks.throttle, onRetry: hooks.onRetry }
+    );
+
+    if (!response.ok) {
+      throw new DataParsingError(
+        `API request to ${url.origin}${url.pathname} failed with status ${response.status}: ${response.statusText}`,
+        name
+      );
+    }
+
+    const text = await response.text();
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new DataParsingError(
+        `Invalid JSON in API response: ${error instanceof Error ? error.message : "Unknown error"}`,
+        name
+      );
+    }
+
+    return {
+      url,
+      response,
+      body: parsed,
+      records: this.extractRecords(parsed, options.recordPath, name),
+    };
+  }
+
+  private extractRecords(
+    body: unknown,
+    recordPath: string | undefined,
+    name: string
+  ): unknown[] {
+    if (recordPath) {
+      let resolved: unknown[] | undefined;
+      try {
+        resolved = resolveRecordPath(body, recordPath);
+      } catch (error) {
+        throw new DataParsingError(
+          error instanceof Error ? error.message : String(error),
+          name
+        );
+      }
+      if (!resolved) {
+        throw new DataParsingError(
+          `Record path "${recordPath}" did not match any data`,
+          name
+        );
+      }
+      return resolved;
+    }
+
+    if (Array.isArray(body)) {
+      return body;
+    }
+    if (typeof body === "object" && body !== null) {
+      return Object.values(body).find(Array.isArray) ?? [body];
+    }
+    return [body];
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { CSVAdapter, DataParsingError } from "./csvAdapter";
+import type { ParsedDataset } from "@open-dashboard/shared/types";
 
 describe("CSVAdapter", () => {
   let adapter: CSVAdapter;
@@ -97,14 +98,16 @@ describe("CSVAdapter", () => {
       expect(result.metadata?.encoding).toBe("UTF-8");
     });
 
-    it("should generate unique IDs for each parse", async () => {
+    it("should generate the same ID for the same content", async () => {
       const csvContent = "name\nAlice";
 
       const result1 = await adapter.parse(csvContent);
       const result2 = await adapter.parse(csvContent);
+      const result3 = await adapter.parse("name\nBob");
 
-      expect(result1.id).not.toBe(result2.id);
-      expect(result1.id).toMatch(/^\d+-[a-z0-9]+$/);
+      expect(result1.id).toBe(result2.id);
+      expect(result1.id).toMatch(/^[0-9a-f]{16}-[0-9a-f]{16}$/);
+      expect(result3.id).not.toBe(result1.id);
     });
 
     it("should include metadata with parse time and counts", async () => {
@@ -130,15 +133,15 @@ describe("CSVAdapter", () => {
       expect(nameField?.type).toBe("string");
     });
 
-    it("should infer number types", async () => {
+    it("should infer integer types", async () => {
       const csvContent = "name,age,salary\nAlice,30,95000\nBob,25,80000";
 
       const result = await adapter.parse(csvContent);
 
       const ageField = result.schema.fields.find((f) => f.name === "age");
       const salaryField = result.schema.fields.find((f) => f.name === "salary");
-      expect(ageField?.type).toBe("number");
-      expect(salaryField?.type).toBe("number");
+      expect(ageField?.type).toBe("integer");
+      expect(salaryField?.type).toBe("integer");
     });
 
     it("should infer date types", async () => {
@@ -152,6 +155,38 @@ describe("CSVAdapter", () => {
       expect(dateField?.type).toBe("date");
     });
 
+    it("should detect day-first dates and their format", async () => {
+      const csvContent = "order,shipped\n1,05/03/2024\n2,28/03/2024";
+
+      const result = await adapter.parse(csvContent);
+
+      expect(result.schema.fields[1]).toMatchObject({
+        type: "date",
+        metadata: { dateFormat: "DD/MM/YYYY" },
+      });
+    });
+
+    it("should apply type overrides and renames", async () => {
+      const csvContent = "zip,sku,qty\n02134,0042,3\n10001,0043,5";
+
+      const result = await adapter.parse(csvContent, {
+        typeMapping: {
+          zip: { type: "string", rename: "postcode" },
+          sku: "categorical",
+        },
+      });
+
+      expect(result.data).toEqual([
+        { postcode: "02134", sku: "0042", qty: 3 },
+        { postcode: "10001", sku: "0043", qty: 5 },
+      ]);
+      expect(result.schema.fields.map((f) => [f.name, f.type])).toEqual([
+        ["postcode", "string"],
+        ["sku", "categorical"],
+        ["qty", "integer"],
+      ]);
+    });
+
     it("should handle mixed numeric types correctly", async () => {
       const csvContent = "id,price\n1,19.99\n2,29.99";
 
@@ -160,6 +195,39 @@ describe("CSVAdapter", () => {
       expect(result.data[0].id).toBe(1);
       expect(result.data[0].price).toBe(19.99);
     });
+
+    it("should read currencies, percentages and accounting negatives", async () => {
+      const csvContent =
+        'item,price,margin,balance\nA,"$1,200",12%,(300)\nB,$80.50,7.5%,450';
+
+      const result = await adapter.parse(csvContent);
+
+      expect(result.data).toEqual([
+        { item: "A", price: 1200, margin: 0.12, balance: -300 },
+        { item: "B", price: 80.5, margin: 0.075, balance: 450 },
+      ]);
+      expect(result.schema.fields.map((f) => f.metadata?.format)).toEqual([
+        undefined,
+        "currency",
+        "percentage",
+        undefined,
+      ]);
+      expect(result.schema.fields[1].metadata?.currency).toBe("USD");
+    });
+
+    it("should read numbers in the given locale", async () => {
+      const csvContent = "city;sales;share\nKöln;1.234,56;0,5\nBonn;2.000;1";
+
+      const result = await adapter.parse(csvContent, {
+        delimiter: ";",
+        locale: "de-DE",
+      });
+
+      expect(result.data).toEqual([
+        { city: "Köln", sales: 1234.56, share: 0.5 },
+        { city: "Bonn", sales: 2000, share: 1 },
+      ]);
+    });
   });
 
   describe("parse - options", () => {
@@ -197,8 +265,16 @@ describe("CSVAdapter", () => {
       const result = await adapter.parse(csvContent, { hasHeader: false });
 
       expect(result.data).toHaveLength(2);
-      // PapaParse will use default column names like "0", "1", "2"
-      expect(result.schema.fields.length).toBeGreaterThan(0);
+      expect(result.data[0]).toEqual({
+        column_1: "Alice",
+        column_2: 30,
+        column_3: "NYC",
+      });
+      expect(result.schema.fields.map((field) => field.name)).toEqual([
+        "column_1",
+        "column_2",
+        "column_3",
+      ]);
     });
 
     it("should respect inferTypes option set to false", async () => {
@@ -224,6 +300,23 @@ describe("CSVAdapter", () => {
       expect(result.schema.fields).toBeDefined();
     });
 
+    it("should report values past the sample that do not fit the type", async () => {
+      const rows = Array.from({ length: 150 }, (_, i) =>
+        i < 100 ? `${i},${i * 2}` : `${i},N/A`
+      );
+      const csvContent = `id,score\n${rows.join("\n")}`;
+
+      const head = await adapter.parse(csvContent);
+      const full = await adapter.parse(csvContent, { sampling: "full" });
+
+      expect(head.schema.fields[1]).toMatchObject({
+        type: "integer",
+        metadata: { coercionFailures: 50 },
+      });
+      expect(full.schema.fields[1].metadata?.sampleSize).toBe(150);
+      expect(full.schema.fields[1].metadata?.confidence).toBeCloseTo(2 / 3);
+    });
+
     it("should respect custom encoding option in metadata", async () => {
       const csvContent = "name,age\nAlice,30";
 
@@ -380,6 +473,433 @@ describe("CSVAdapter", () => {
     });
   });
 
+  describe("parse - streaming", () => {
+    const buildCSV = (rows: number) =>
+      "name,age\n" +
+      Array.from({ length: rows }, (_, i) => `"Person ${i}",${20 + i}`).join(
+        "\n"
+      );
+
+    it("should parse the same rows as the non-streaming path", async () => {
+      const csvContent = buildCSV(500);
+
+      const streamed = await adapter.parse(csvContent, {
+        streaming: true,
+        chunkSize: 64,
+      });
+      const buffered = await adapter.parse(csvContent);
+
+      expect(streamed.data).toEqual(buffered.data);
+      expect(streamed.schema.fields.map((f) => f.type)).toEqual(
+        buffered.schema.fields.map((f) => f.type)
+      );
+      expect(streamed.metadata?.streamed).toBe(true);
+      expect(streamed.metadata?.truncated).toBe(false);
+    });
+
+    it("should keep quoted values that span chunk boundaries intact", async () => {
+      const csvContent =
+        'name,note\nAlice,"line one\nline two, still quoted"\nBob,plain';
+
+      const result = await adapter.parse(csvContent, {
+        streaming: true,
+        chunkSize: 8,
+      });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0].note).toBe("line one\nline two, still quoted");
+      expect(result.data[1].name).toBe("Bob");
+    });
+
+    it("should stream File inputs", async () => {
+      const file = new File([buildCSV(100)], "people.csv", {
+        type: "text/csv",
+      });
+
+      const result = await adapter.parse(file, {
+        streaming: true,
+        chunkSize: 128,
+      });
+
+      expect(result.name).toBe("people.csv");
+      expect(result.data).toHaveLength(100);
+    });
+
+    it("should report increasing progress ending at 100%", async () => {
+      const progress: Array<{ percentage: number; rowsParsed: number }> = [];
+
+      await adapter.parse(buildCSV(200), {
+        streaming: true,
+        chunkSize: 256,
+        onProgress: ({ percentage, rowsParsed }) =>
+          progress.push({ percentage, rowsParsed }),
+      });
+
+      expect(progress.length).toBeGreaterThan(2);
+      for (let i = 1; i < progress.length; i++) {
+        expect(progress[i].percentage).toBeGreaterThanOrEqual(
+          progress[i - 1].percentage
+        );
+        expect(progress[i].rowsParsed).toBeGreaterThanOrEqual(
+          progress[i - 1].rowsParsed
+        );
+      }
+      expect(progress[progress.length - 1]).toEqual({
+        percentage: 100,
+        rowsParsed: 200,
+      });
+    });
+
+    it("should stop reading once maxRows is reached", async () => {
+      const progress: number[] = [];
+
+      const result = await adapter.parse(buildCSV(1000), {
+        streaming: true,
+        chunkSize: 64,
+        maxRows: 10,
+        onProgress: ({ percentage }) => progress.push(percentage),
+      });
+
+      expect(result.data).toHaveLength(10);
+      expect(result.data[9].name).toBe("Person 9");
+      expect(result.metadata?.truncated).toBe(true);
+      // Only the first few chunks should have been read
+      expect(progress.filter((p) => p < 100).every((p) => p < 10)).toBe(true);
+    });
+
+    it("should abort when the signal fires", async () => {
+      const controller = new AbortController();
+
+      const promise = adapter.parse(buildCSV(1000), {
+        streaming: true,
+        chunkSize: 64,
+        signal: controller.signal,
+        onProgress: ({ rowsParsed }) => {
+          if (rowsParsed > 5) controller.abort();
+        },
+      });
+
+      await expect(promise).rejects.toThrow(DataParsingError);
+      await expect(promise).rejects.toThrow("CSV parsing was aborted");
+    });
+
+    it("should reject immediately with an already aborted signal", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        adapter.parse("name\nAlice", { signal: controller.signal })
+      ).rejects.toThrow("CSV parsing was aborted");
+    });
+
+    it("should reject malformed rows while streaming", async () => {
+      const csvContent = "name,age\nAlice,30\nBob,25,extra,columns";
+
+      await expect(
+        adapter.parse(csvContent, { streaming: true, chunkSize: 16 })
+      ).rejects.toThrow(/CSV parsing error|Too many fields/);
+    });
+
+    it("should throw for empty input while streaming", async () => {
+      await expect(adapter.parse("", { streaming: true })).rejects.toThrow(
+        "CSV file is empty"
+      );
+    });
+  });
+
+  describe("parse - error policy", () => {
+    const crmExport = [
+      "id,name,amount",
+      "1,Alice,10",
+      "2,Bob,20,oops",
+      "3,Carol,30",
+      "4,Dave",
+      "5,Eve,50",
+    ].join("\n");
+
+    it("should fail on the first malformed row by default", async () => {
+      await expect(adapter.parse(crmExport)).rejects.toThrow(
+        "CSV parsing error: Too many fields"
+      );
+      await expect(
+        adapter.parse(crmExport, { csv: { errorPolicy: "fail" } })
+      ).rejects.toThrow(DataParsingError);
+    });
+
+    it("should skip malformed rows", async () => {
+      const result = await adapter.parse(crmExport, {
+        csv: { errorPolicy: "skip" },
+      });
+
+      expect(result.data.map((row) => row.id)).toEqual([1, 3, 5]);
+      expect(result.metadata).toMatchObject({
+        rowCount: 3,
+        errorPolicy: "skip",
+        malformedRows: 2,
+      });
+      expect(result.metadata?.quarantine).toBeUndefined();
+      expect(result.metadata?.warnings).toEqual([
+        "2 malformed row(s) skipped (row 2: Too many fields: expected 3 fields but parsed 4; row 4: Too few fields: expected 3 fields but parsed 2)",
+      ]);
+    });
+
+    it("should quarantine malformed rows in a side dataset", async () => {
+      const result = await adapter.parse(crmExport, {
+        csv: { errorPolicy: "quarantine" },
+      });
+      const quarantine = result.metadata?.quarantine as ParsedDataset;
+
+      expect(result.data.map((row) => row.id)).toEqual([1, 3, 5]);
+      expect(result.metadata?.malformedRows).toBe(2);
+      expect(quarantine.name).toBe("unknown.csv (quarantine)");
+      expect(quarantine.schema.fields.map((f) => f.name)).toEqual([
+        "row",
+        "reason",
+        "content",
+      ]);
+      expect(quarantine.data).toEqual([
+        {
+          row: 2,
+          reason: "Too many fields: expected 3 fields but parsed 4",
+          content: "2,Bob,20,oops",
+        },
+        {
+          row: 4,
+          reason: "Too few fields: expected 3 fields but parsed 2",
+          content: "4,Dave",
+        },
+      ]);
+    });
+
+    it("should report counts when every row is well-formed", async () => {
+      const result = await adapter.parse("id,name\n1,Alice", {
+        csv: { errorPolicy: "quarantine" },
+      });
+
+      expect(result.metadata?.malformedRows).toBe(0);
+      expect(result.metadata?.warnings).toBeUndefined();
+      expect((result.metadata?.quarantine as ParsedDataset).data).toEqual([]);
+    });
+
+    it("should apply the policy while streaming", async () => {
+      const result = await adapter.parse(crmExport, {
+        streaming: true,
+        chunkSize: 16,
+        csv: { errorPolicy: "quarantine" },
+      });
+      const quarantine = result.metadata?.quarantine as ParsedDataset;
+
+      expect(result.data.map((row) => row.id)).toEqual([1, 3, 5]);
+      expect(quarantine.data.map((row) => row.row)).toEqual([2, 4]);
+    });
+
+    it("should quarantine a row with an unterminated quote", async () => {
+      // The open quote swallows the remaining lines into the row's last field
+      const csvContent = 'id,name\n1,Alice\n2,"Bob\n3,Carol';
+
+      const result = await adapter.parse(csvContent, {
+        csv: { errorPolicy: "quarantine" },
+      });
+      const quarantine = result.metadata?.quarantine as ParsedDataset;
+
+      expect(result.data).toEqual([{ id: 1, name: "Alice" }]);
+      expect(quarantine.data).toEqual([
+        {
+          row: 2,
+          reason: "Quoted field unterminated",
+          content: '2,"Bob\n3,Carol"',
+        },
+      ]);
+    });
+
+    it("should throw when no row is well-formed", async () => {
+      await expect(
+        adapter.parse("a,b\n1,2,3\n4", { csv: { errorPolicy: "skip" } })
+      ).rejects.toThrow("CSV file has no well-formed rows (2 malformed)");
+    });
+  });
+
+  describe("parse - dialect", () => {
+    it("should skip title lines, blank lines and comments", async () => {
+      const csvContent =
+        "Quarterly sales\nExported 2024-04-01\n\n# internal\nregion,amount\nNorth,10\n# total below\nSouth,20";
+
+      const result = await adapter.parse(csvContent);
+
+      expect(result.data).toEqual([
+        { region: "North", amount: 10 },
+        { region: "South", amount: 20 },
+      ]);
+      expect(result.metadata?.dialect).toMatchObject({
+        skipLines: 4,
+        comments: "#",
+      });
+    });
+
+    it("should detect semicolons and decimal commas", async () => {
+      const csvContent = "product;price\nTea;1,50\nCoffee;2,75";
+
+      const result = await adapter.parse(csvContent);
+
+      expect(result.data).toEqual([
+        { product: "Tea", price: 1.5 },
+        { product: "Coffee", price: 2.75 },
+      ]);
+      expect(result.metadata?.dialect).toMatchObject({
+        delimiter: ";",
+        decimalSeparator: ",",
+      });
+    });
+
+    it("should detect files without a header", async () => {
+      const result = await adapter.parse("2024-03-04,10\n2024-03-05,12");
+
+      expect(result.data).toEqual([
+        { column_1: "2024-03-04", column_2: 10 },
+        { column_1: "2024-03-05", column_2: 12 },
+      ]);
+      expect(result.schema.fields.map((field) => field.name)).toEqual([
+        "column_1",
+        "column_2",
+      ]);
+      expect(result.metadata?.dialect).toMatchObject({ hasHeader: false });
+    });
+
+    it("should name the columns of streamed files without a header", async () => {
+      const file = new File(["Paris,open,3\nLyon,closed,5"], "shops.csv");
+
+      const result = await adapter.parse(file, {
+        typeMapping: { column_3: "string" },
+      });
+
+      expect(result.data).toEqual([
+        { column_1: "Paris", column_2: "open", column_3: "3" },
+        { column_1: "Lyon", column_2: "closed", column_3: "5" },
+      ]);
+      expect(result.metadata?.dialect).toMatchObject({ hasHeader: false });
+    });
+
+    it("should read single quotes escaped with backslashes", async () => {
+      const csvContent =
+        "name,quote\n'Smith, J','He said \\'hi\\''\n'Doe, A','Fine'";
+
+      const result = await adapter.parse(csvContent);
+
+      expect(result.data[0]).toEqual({
+        name: "Smith, J",
+        quote: "He said 'hi'",
+      });
+      expect(result.metadata?.dialect).toMatchObject({
+        quoteChar: "'",
+        escapeChar: "\\",
+      });
+    });
+
+    it("should reuse a recorded dialect and apply overrides", async () => {
+      const first = await adapter.parse("Report\nid,name\n1,Alice");
+      const dialect = first.metadata?.dialect as Record<string, unknown>;
+
+      const again = await adapter.parse("Report\nid,name\n2,Bob", {
+        csv: { dialect },
+      });
+      const headerless = await adapter.parse("Report\nid,name\n2,Bob", {
+        csv: { dialect: { ...dialect, hasHeader: false } },
+      });
+
+      expect(again.data).toEqual([{ id: 2, name: "Bob" }]);
+      expect(again.metadata?.dialect).toEqual(dialect);
+      expect(headerless.data).toHaveLength(2);
+    });
+
+    it("should sniff the dialect of streamed files", async () => {
+      const file = new File(
+        ["Inventory export\nsku;stock\nA-1;4\nB-2;7"],
+        "stock.csv"
+      );
+
+      const result = await adapter.parse(file, { streaming: true });
+
+      expect(result.data).toEqual([
+        { sku: "A-1", stock: 4 },
+        { sku: "B-2", stock: 7 },
+      ]);
+      expect(result.metadata?.dialect).toMatchObject({
+        delimiter: ";",
+        skipLines: 1,
+      });
+    });
+  });
+
+  describe("parse - encodings", () => {
+    // "Name,Stadt\nMüller,Köln\nWeiß,Düsseldorf" in ISO-8859-1
+    const latin1 = new Uint8Array([
+      ...Array.from("Name,Stadt\nM", (c) => c.charCodeAt(0)),
+      0xfc,
+      ...Array.from("ller,K", (c) => c.charCodeAt(0)),
+      0xf6,
+      ...Array.from("ln\nWei", (c) => c.charCodeAt(0)),
+      0xdf,
+      ...Array.from(",D", (c) => c.charCodeAt(0)),
+      0xfc,
+      ...Array.from("sseldorf", (c) => c.charCodeAt(0)),
+    ]);
+
+    it("should detect Latin-1 files", async () => {
+      const result = await adapter.parse(new File([latin1], "crm.csv"));
+
+      expect(result.data).toEqual([
+        { Name: "Müller", Stadt: "Köln" },
+        { Name: "Weiß", Stadt: "Düsseldorf" },
+      ]);
+      expect(result.metadata?.encoding).toBe("ISO-8859-1");
+      expect(result.metadata?.encodingConfidence).toBeGreaterThan(0.8);
+    });
+
+    it("should detect encodings while streaming", async () => {
+      const result = await adapter.parse(new File([latin1], "crm.csv"), {
+        streaming: true,
+      });
+
+      expect(result.data[1]).toEqual({ Name: "Weiß", Stadt: "Düsseldorf" });
+      expect(result.metadata?.encoding).toBe("ISO-8859-1");
+    });
+
+    it("should decode UTF-16 files with a byte order mark", async () => {
+      const text = "name,city\nZoë,Zürich";
+      const bytes = new Uint8Array(2 + text.length * 2);
+      bytes.set([0xff, 0xfe]);
+      Array.from(text).forEach((char, i) => {
+        bytes[2 + i * 2] = char.charCodeAt(0);
+      });
+
+      const result = await adapter.parse(new File([bytes], "people.csv"));
+
+      expect(result.data).toEqual([{ name: "Zoë", city: "Zürich" }]);
+      expect(result.metadata).toMatchObject({
+        encoding: "UTF-16LE",
+        encodingConfidence: 1,
+      });
+    });
+
+    it("should use an explicit encoding", async () => {
+      const result = await adapter.parse(new File([latin1], "crm.csv"), {
+        encoding: "windows-1252",
+      });
+
+      expect(result.data[0]).toEqual({ Name: "Müller", Stadt: "Köln" });
+      expect(result.metadata).toMatchObject({
+        encoding: "windows-1252",
+        encodingConfidence: 1,
+      });
+    });
+
+    it("should throw for unsupported encodings", async () => {
+      await expect(
+        adapter.parse(new File([latin1], "crm.csv"), { encoding: "klingon" })
+      ).rejects.toThrow('Unsupported encoding "klingon"');
+    });
+  });
+
   describe("parse - URL support", () => {
     it("should handle URL input type check", async () => {
       // Note: Actual fetch will fail in test environment without mocking
@@ -1,7 +1,44 @@
 import Papa from "papaparse";
-import type { DataAdapter, ParsedDataset } from "@open-dashboard/shared/types";
-import type { ParserOptions } from "../types/parser";
-import { buildSchemaFromData, validateSchema } from "../utils/schemaBuilder";
+import type {
+  DataAdapter,
+  DatasetSchema,
+  DetectionSample,
+  ParsedDataset,
+} from "@open-dashboard/shared/types";
+import type { CSVDialect, ParserOptions } from "../types/parser";
+import { finalizeDataset, resolveTypeOverride } from "../utils/schemaBuilder";
+import { chunkPercentage, readTextChunks } from "../utils/streaming";
+import {
+  decodeText,
+  detectEncoding,
+  isSupportedEncoding,
+  type EncodingDetection,
+} from "../utils/encoding";
+import {
+  DETECTION_SAMPLE_BYTES,
+  isBinarySample,
+  sampleLines,
+  scoreDelimiters,
+  sniffCSVDialect,
+} from "../utils/sniff";
+import { parseLocaleNumber } from "../utils/typeInference";
+import { datasetId } from "@open-dashboard/core-schema";
+
+/** Number of malformed rows quoted in the error policy warning */
+const MAX_MALFORMED_EXAMPLES = 3;
+
+/** Locale numbers are read in when the decimal separator is a comma */
+const DECIMAL_COMMA_LOCALE = "de-DE";
+
+/** A row dropped by the `skip` or `quarantine` error policy */
+type MalformedRow = {
+  /** 1-based data row number, not counting the header */
+  row: number;
+  /** Parser error messages for the row */
+  reason: string;
+  /** The row's values written back as CSV */
+  content: string;
+};
 
 export class DataParsingError extends Error {
   constructor(
@@ -31,44 +68,96 @@ export class CSVAdapter implements DataAdapter {
     return false;
   }
 
+  detect(sample: DetectionSample): number {
+    if (isBinarySample(sample)) return 0;
+    const lines = sampleLines(sample);
+    // Leading brackets point to JSON, whose commas look like delimiters
+    if (lines.length === 0 || /^[[{]/.test(lines[0].trim())) return 0;
+    return scoreDelimiters(lines)?.confidence ?? 0;
+  }
+
   async parse(
     input: string | File | URL,
     options: ParserOptions = {}
   ): Promise<ParsedDataset> {
     const startTime = performance.now();
-    let content: string;
+    let content: string | Blob | ReadableStream<Uint8Array>;
+    let totalBytes: number | undefined;
     let filename = "unknown.csv";
+    // Strings are already decoded, so `encoding` is only recorded for them
+    let encoding: EncodingDetection = {
+      encoding: options.encoding || "UTF-8",
+      confidence: 1,
+    };
 
     // Extract content from different input types
     if (typeof input === "string") {
       content = input;
     } else if (input instanceof File) {
       filename = input.name;
-      content = await input.text();
+      content = input;
     } else if (input instanceof URL) {
       filename = input.pathname.split("/").pop() || "remote.csv";
-      const response = await fetch(input);
+      const response = await fetch(input, { signal: options.signal });
       if (!response.ok) {
         throw new DataParsingError(
           `Failed to fetch CSV from ${input.toString()}: ${response.statusText}`,
           filename
         );
       }
-      content = await response.text();
+      if (options.streaming && response.body) {
+        content = response.body;
+        totalBytes =
+          Number(response.headers.get("content-length")) || undefined;
+      } else {
+        content = await response.blob();
+      }
     } else {
       throw new DataParsingError("Unsupported input type for CSV parser");
     }
 
-    try {
-      const parseResult = await this.parseCSVContent(
-        content,
-        options,
+    if (options.signal?.aborted) {
+      throw new DataParsingError("CSV parsing was aborted", filename);
+    }
+    if (options.encoding && !isSupportedEncoding(options.encoding)) {
+      throw new DataParsingError(
+        `Unsupported encoding "${options.encoding}"`,
         filename
       );
+    }
+
+    try {
+      if (content instanceof Blob && !options.streaming) {
+        const decoded = decodeText(
+          new Uint8Array(await content.arrayBuffer()),
+          options.encoding
+        );
+        content = decoded.text;
+        encoding = decoded;
+      }
+
+      const dialect = await this.resolveDialect(content, options);
+      const parseOptions = dialect ? applyDialect(options, dialect) : options;
+      const parseResult =
+        typeof content === "string" && !options.streaming
+          ? await this.parseCSVContent(content, parseOptions, filename)
+          : await this.parseCSVStream(
+              typeof content === "string" ? new Blob([content]) : content,
+              {
+                ...parseOptions,
+                encoding:
+                  typeof input === "string" ? "UTF-8" : options.encoding,
+              },
+              filename,
+              totalBytes
+            );
+      encoding = parseResult.encoding ?? encoding;
       const parseTime = performance.now() - startTime;
+      const errorPolicy = options.csv?.errorPolicy ?? "fail";
+      const malformed = parseResult.malformed ?? [];
 
       return {
-        id: this.generateId(),
+        id: datasetId(parseResult.data, parseResult.schema),
         name: filename,
         data: parseResult.data,
         schema: parseResult.schema,
@@ -78,7 +167,23 @@ export class CSVAdapter implements DataAdapter {
           parseTime,
           rowCount: parseResult.data.length,
           columnCount: parseResult.schema.fields.length,
-          encoding: options.encoding || "UTF-8",
+          encoding: encoding.encoding,
+          encodingConfidence: encoding.confidence,
+          ...(dialect && { dialect }),
+          ...(options.streaming && {
+            streamed: true,
+            truncated: parseResult.truncated ?? false,
+          }),
+          ...(errorPolicy !== "fail" && {
+            errorPolicy,
+            malformedRows: malformed.length,
+          }),
+          ...(errorPolicy === "quarantine" && {
+            quarantine: this.buildQuarantine(malformed, filename),
+          }),
+          ...(malformed.length > 0 && {
+            warnings: [describeMalformedRows(malformed, errorPolicy)],
+          }),
         },
       };
     } catch (error) {
@@ -92,57 +197,139 @@ export class CSVAdapter implements DataAdapter {
     }
   }
 
+  /**
+   * Sniffs the dialect from the start of the content and applies the
+   * dialect options on top. Streams fetched from URLs cannot be sampled
+   * before parsing, so only the options apply to them.
+   */
+  private async resolveDialect(
+    content: string | Blob | ReadableStream<Uint8Array>,
+    options: ParserOptions
+  ): Promise<CSVDialect | undefined> {
+    let sample: string;
+    if (typeof content === "string") {
+      sample = content;
+    } else if (content instanceof Blob) {
+      const bytes = new Uint8Array(
+        await content.slice(0, DETECTION_SAMPLE_BYTES).arrayBuffer()
+      );
+      sample = decodeText(
+        bytes,
+        options.encoding ?? detectEncoding(bytes).encoding
+      ).text;
+      // Drop the last line, which the sample may cut short
+      if (content.size > DETECTION_SAMPLE_BYTES) {
+        sample = sample.slice(0, sample.lastIndexOf("\n") + 1);
+      }
+    } else {
+      return undefined;
+    }
+
+    return {
+      ...sniffCSVDialect(sample),
+      ...options.csv?.dialect,
+      ...(options.delimiter && { delimiter: options.delimiter }),
+      ...(options.hasHeader !== undefined && { hasHeader: options.hasHeader }),
+    };
+  }
+
+  private getPapaConfig(options: ParserOptions) {
+    const inferTypes = options.inferTypes !== false;
+    const textFields = getTextFields(options);
+    const dialect = options.csv?.dialect;
+    return {
+      header: options.hasHeader !== false,
+      // Guessed from `delimitersToGuess` when unset
+      delimiter: options.delimiter,
+      quoteChar: dialect?.quoteChar,
+      escapeChar: dialect?.escapeChar,
+      comments: dialect?.comments ?? false,
+      skipFirstNLines: dialect?.skipLines,
+      // Fields forced to text types keep values such as ZIP codes as written
+      dynamicTyping:
+        inferTypes &&
+        ((field: string | number) => !textFields.has(columnName(field))),
+      transformHeader: (header: string) => header.trim(),
+      // Add these to handle malformed CSV more gracefully:
+      skipEmptyLines: "greedy" as const, // Skip empty lines more aggressively
+      delimitersToGuess: [",", "\t", "|", ";"], // Auto-detect delimiter
+      // PapaParse only types plain numbers, so rewrite the locale's first
+      ...(options.locale &&
+        inferTypes && {
+          transform: (value: string, field: string | number) =>
+            textFields.has(columnName(field))
+              ? value
+              : canonicalNumber(value, options.locale),
+        }),
+    };
+  }
+
   private async parseCSVContent(
     content: string,
     options: ParserOptions,
     filename: string
   ): Promise<{
     data: Record<string, unknown>[];
-    schema: import("@open-dashboard/shared/types").DatasetSchema;
+    schema: DatasetSchema;
+    truncated?: boolean;
+    encoding?: EncodingDetection;
+    malformed?: MalformedRow[];
   }> {
     return new Promise((resolve, reject) => {
       Papa.parse(content, {
-        header: options.hasHeader !== false,
-        delimiter: options.delimiter || ",",
-        dynamicTyping: options.inferTypes !== false,
-        transformHeader: (header: string) => header.trim(),
-        // Add these to handle malformed CSV more gracefully:
-        skipEmptyLines: "greedy", // Skip empty lines more aggressively
-        delimitersToGuess: [",", "\t", "|", ";"], // Auto-detect delimiter
+        ...this.getPapaConfig(options),
 
         complete: (results) => {
           // Only reject if there are critical errors
-          const criticalErrors = results.errors.filter(
-            (err) => err.type === "Quotes" || err.type === "FieldMismatch"
-          );
+          const criticalErrors = results.errors.filter(isCriticalError);
+          const fatalError = this.findFatalError(criticalErrors, options);
 
-          if (criticalErrors.length > 0) {
-            const firstError = criticalErrors[0];
+          if (fatalError) {
             reject(
               new DataParsingError(
-                `CSV parsing error: ${firstError.message}`,
+                `CSV parsing error: ${fatalError.message}`,
                 filename,
-                firstError.row
+                fatalError.row
               )
             );
             return;
           }
 
-          const data = results.data as Record<string, unknown>[];
+          const rowErrors = groupRowErrors(
+            criticalErrors,
+            0,
+            headerLines(options)
+          );
+          const data: Record<string, unknown>[] = [];
+          const malformed: MalformedRow[] = [];
+          results.data.map(toRecord).forEach((row, index) => {
+            const reason = rowErrors.get(index);
+            if (reason) {
+              malformed.push({
+                row: index + 1,
+                reason,
+                content: serializeRow(row, results.meta.delimiter),
+              });
+            } else {
+              data.push(row);
+            }
+          });
 
           if (data.length === 0) {
-            reject(new DataParsingError("CSV file is empty", filename));
+            reject(
+              new DataParsingError(
+                malformed.length > 0
+                  ? `CSV file has no well-formed rows (${malformed.length} malformed)`
+                  : "CSV file is empty",
+                filename
+              )
+            );
             return;
           }
 
           const fieldNames = Object.keys(data[0]);
-          const schema = buildSchemaFromData(
-            data,
-            fieldNames,
-            options.sampleSize
-          );
-
-          if (!validateSchema(schema)) {
+          const schema = finalizeDataset(data, fieldNames, options);
+          if (!schema) {
             reject(
               new DataParsingError(
                 "Invalid schema generated from CSV",
@@ -155,7 +342,7 @@ export class CSVAdapter implements DataAdapter {
           const limitedData = options.maxRows
             ? data.slice(0, options.maxRows)
             : data;
-          resolve({ data: limitedData, schema });
+          resolve({ data: limitedData, schema, malformed });
         },
         error: (error: { message: unknown }) => {
           reject(
@@ -169,7 +356,375 @@ export class CSVAdapter implements DataAdapter {
     });
   }
 
-  private generateId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  /**
+   * Parses CSV incrementally, chunk by chunk.
+   *
+   * Stops reading as soon as `maxRows` rows have been collected, reports
+   * progress after every chunk and honours `options.signal`.
+   */
+  private async parseCSVStream(
+    source: Blob | ReadableStream<Uint8Array>,
+    options: ParserOptions,
+    filename: string,
+    totalBytes?: number
+  ): Promise<{
+    data: Record<string, unknown>[];
+    schema: DatasetSchema;
+    truncated: boolean;
+    encoding?: EncodingDetection;
+    malformed: MalformedRow[];
+  }> {
+    const data: Record<string, unknown>[] = [];
+    const malformed: MalformedRow[] = [];
+    const readable = new PapaReadable();
+    let parseError: DataParsingError | undefined;
+    let stopped = false;
+    let truncated = false;
+    let encoding: EncodingDetection | undefined;
+    // Data rows parsed so far, well-formed or not
+    let rowsSeen = 0;
+
+    Papa.parse(readable as unknown as Papa.LocalFile, {
+      ...this.getPapaConfig(options),
+
+      chunk: (results, parser) => {
+        const criticalErrors = results.errors.filter(isCriticalError);
+        const fatalError = this.findFatalError(criticalErrors, options);
+        if (fatalError) {
+          parseError = new DataParsingError(
+            `CSV parsing error: ${fatalError.message}`,
+            filename,
+            fatalError.row !== undefined
+              ? rowsSeen +
+                chunkRowIndex(fatalError, rowsSeen, headerLines(options))
+              : undefined
+          );
+          stopped = true;
+          parser.abort();
+          return;
+        }
+
+        const rowErrors = groupRowErrors(
+          criticalErrors,
+          rowsSeen,
+          headerLines(options)
+        );
+        const rows = results.data.map(toRecord);
+        for (const [index, row] of rows.entries()) {
+          if (options.maxRows && data.length >= options.maxRows) {
+            truncated = true;
+            break;
+          }
+          const reason = rowErrors.get(index);
+          if (reason) {
+            malformed.push({
+              row: rowsSeen + index + 1,
+              reason,
+              content: serializeRow(row, results.meta.delimiter),
+            });
+          } else {
+            data.push(row);
+          }
+        }
+        rowsSeen += rows.length;
+
+        if (options.maxRows && data.length >= options.maxRows) {
+          stopped = true;
+          parser.abort();
+        }
+      },
+      // Rows are collected chunk by chunk; the reader loop below drives completion
+      complete: () => undefined,
+      error: (error: Error) => {
+        parseError = new DataParsingError(
+          `PapaParse error: ${error.message}`,
+          filename
+        );
+        stopped = true;
+      },
+    });
+
+    for await (const chunk of readTextChunks(source, {
+      chunkSize: options.chunkSize,
+      totalBytes,
+      signal: options.signal,
+      encoding: options.encoding,
+    })) {
+      encoding = chunk.encoding;
+      readable.push(chunk.text);
+
+      if (!parseError) {
+        options.onProgress?.({
+          percentage: chunkPercentage(chunk),
+          rowsParsed: data.length,
+          currentRow: data[data.length - 1],
+          bytesRead: chunk.bytesRead,
+          totalBytes: chunk.totalBytes,
+        });
+      }
+
+      if (stopped) {
+        // The rest of the input is never read, so the dataset is cut short
+        truncated = !parseError;
+        break;
+      }
+    }
+
+    if (options.signal?.aborted) {
+      throw new DataParsingError("CSV parsing was aborted", filename);
+    }
+
+    if (!stopped) {
+      readable.end();
+    }
+
+    if (parseError) {
+      throw parseError;
+    }
+
+    if (data.length === 0) {
+      throw new DataParsingError(
+        malformed.length > 0
+          ? `CSV file has no well-formed rows (${malformed.length} malformed)`
+          : "CSV file is empty",
+        filename
+      );
+    }
+
+    const fieldNames = Object.keys(data[0]);
+    const schema = finalizeDataset(data, fieldNames, options);
+    if (!schema) {
+      throw new DataParsingError("Invalid schema generated from CSV", filename);
+    }
+
+    options.onProgress?.({
+      percentage: 100,
+      rowsParsed: data.length,
+      currentRow: data[data.length - 1],
+    });
+
+    return { data, schema, truncated, encoding, malformed };
+  }
+
+  /**
+   * Returns the error that rejects the whole file: the first critical error
+   * under the `fail` policy, or one that cannot be tied to a row
+   */
+  private findFatalError(
+    errors: Papa.ParseError[],
+    options: ParserOptions
+  ): Papa.ParseError | undefined {
+    if ((options.csv?.errorPolicy ?? "fail") === "fail") {
+      return errors[0];
+    }
+    return errors.find((error) => error.row === undefined);
+  }
+
+  /**
+   * Builds the side dataset holding rows dropped by the quarantine policy
+   */
+  private buildQuarantine(
+    malformed: MalformedRow[],
+    filename: string
+  ): ParsedDataset {
+    const schema: DatasetSchema = {
+      fields: [
+        { name: "row", type: "number", nullable: false },
+        { name: "reason", type: "string", nullable: false },
+        { name: "content", type: "string", nullable: false },
+      ],
+    };
+    return {
+      id: datasetId(malformed, schema),
+      name: `${filename} (quarantine)`,
+      data: malformed,
+      schema,
+      sourceType: "csv",
+      createdAt: new Date(),
+      metadata: { rowCount: malformed.length, columnCount: 3 },
+    };
+  }
+}
+
+function isCriticalError(error: Papa.ParseError): boolean {
+  return error.type === "Quotes" || error.type === "FieldMismatch";
+}
+
+/**
+ * Returns the fields whose `typeMapping` entry forces a type that is read
+ * from text (strings, categories, dates, times and durations)
+ */
+function getTextFields(options: ParserOptions): Set<string> {
+  const fields = new Set<string>();
+  for (const [name, mapping] of Object.entries(options.typeMapping ?? {})) {
+    const { type, dateFormat } = resolveTypeOverride(mapping);
+    if (
+      type === "string" ||
+      type === "categorical" ||
+      type === "date" ||
+      type === "timestamp" ||
+      type === "time" ||
+      type === "duration" ||
+      (!type && dateFormat)
+    ) {
+      fields.add(name);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Rewrites a number formatted for the locale ("1.234,5") in plain notation.
+ * Currencies and percentages are kept for schema inference.
+ */
+function canonicalNumber(value: string, locale?: string): string {
+  const parsed = parseLocaleNumber(value, locale);
+  return parsed && !parsed.format ? String(parsed.value) : value;
+}
+
+/**
+ * Returns options that parse with a resolved dialect. A comma decimal
+ * separator reads numbers in a locale that uses one, unless a locale is set.
+ */
+function applyDialect(
+  options: ParserOptions,
+  dialect: CSVDialect
+): ParserOptions {
+  return {
+    ...options,
+    delimiter: dialect.delimiter,
+    hasHeader: dialect.hasHeader,
+    locale:
+      options.locale ??
+      (dialect.decimalSeparator === "," ? DECIMAL_COMMA_LOCALE : undefined),
+    csv: { ...options.csv, dialect },
+  };
+}
+
+/**
+ * Names the columns of files without a header row `column_1`, `column_2`
+ * and so on, as PapaParse only numbers them
+ */
+function columnName(field: string | number): string {
+  return typeof field === "number" ? `column_${field + 1}` : field;
+}
+
+/**
+ * Turns a row of a file without a header, which PapaParse returns as an
+ * array, into a record keyed by `columnName`
+ */
+function toRecord(row: unknown): Record<string, unknown> {
+  if (!Array.isArray(row)) return row as Record<string, unknown>;
+  return Object.fromEntries(
+    row.map((value, index) => [columnName(index), value])
+  );
+}
+
+function headerLines(options: ParserOptions): number {
+  return options.hasHeader !== false ? 1 : 0;
+}
+
+/**
+ * Returns the index of an error's row within the current chunk. PapaParse
+ * numbers field count errors by data row across the whole input, but quote
+ * errors by line within the chunk, counting the header line of the first one.
+ */
+function chunkRowIndex(
+  error: Papa.ParseError,
+  rowsBefore: number,
+  headerLines: number
+): number {
+  const row = error.row ?? 0;
+  return error.type === "FieldMismatch"
+    ? row - rowsBefore
+    : row - (rowsBefore === 0 ? headerLines : 0);
+}
+
+/**
+ * Joins the messages of all errors reported for the same row, keyed by the
+ * row's index within the chunk
+ */
+function groupRowErrors(
+  errors: Papa.ParseError[],
+  rowsBefore: number,
+  headerLines: number
+): Map<number, string> {
+  const reasons = new Map<number, string>();
+  for (const error of errors) {
+    if (error.row === undefined) continue;
+    const index = chunkRowIndex(error, rowsBefore, headerLines);
+    const previous = reasons.get(index);
+    reasons.set(
+      index,
+      previous ? `${previous}; ${error.message}` : error.message
+    );
+  }
+  return reasons;
+}
+
+/**
+ * Writes a parsed row back as a CSV line, including surplus fields
+ */
+function serializeRow(row: Record<string, unknown>, delimiter: string): string {
+  const { __parsed_extra: extra, ...fields } = row;
+  const values = [
+    ...Object.values(fields),
+    ...(Array.isArray(extra) ? extra : []),
+  ];
+  return Papa.unparse([values], { delimiter, newline: "" });
+}
+
+function describeMalformedRows(
+  malformed: MalformedRow[],
+  errorPolicy: "fail" | "skip" | "quarantine"
+): string {
+  const examples = malformed
+    .slice(0, MAX_MALFORMED_EXAMPLES)
+    .map(({ row, reason }) => `row ${row}: ${reason}`)
+    .join("; ");
+  const action = errorPolicy === "quarantine" ? "quarantined" : "skipped";
+  return `${malformed.length} malformed row(s) ${action} (${examples})`;
+}
+
+type PapaStreamListener = (chunk?: unknown) => void;
+
+/**
+ * Minimal readable-stream facade that lets PapaParse consume text chunks we
+ * push into it. PapaParse keeps the partial trailing row of each chunk and
+ * prepends it to the next one, so rows split across chunks are parsed intact.
+ */
+class PapaReadable {
+  readonly readable = true;
+  private listeners = new Map<string, PapaStreamListener[]>();
+
+  read(): null {
+    return null;
+  }
+
+  on(event: string, listener: PapaStreamListener): this {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  removeListener(event: string, listener: PapaStreamListener): this {
+    this.listeners.set(
+      event,
+      (this.listeners.get(event) ?? []).filter((l) => l !== listener)
+    );
+    return this;
+  }
+
+  push(text: string): void {
+    this.emit("data", text);
+  }
+
+  end(): void {
+    this.emit("end");
+  }
+
+  private emit(event: string, payload?: unknown): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      listener(payload);
+    }
   }
 }
@@ -0,0 +1,388 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import * as XLSX from "xlsx";
+import { ExcelAdapter } from "./excelAdapter";
+import { DataParsingError } from "./csvAdapter";
+
+type SheetSpec = {
+  name: string;
+  rows: unknown[][];
+  merges?: string[];
+  /** Number formats by cell address, e.g. { C2: "yyyy-mm-dd" } */
+  formats?: Record<string, string>;
+  hidden?: boolean;
+};
+
+/**
+ * Builds a workbook File from rows of cell values
+ */
+function buildWorkbook(
+  sheets: SheetSpec[],
+  filename = "report.xlsx",
+  bookType: XLSX.BookType = "xlsx"
+): File {
+  const workbook = XLSX.utils.book_new();
+
+  sheets.forEach(({ name, rows, merges, formats, hidden }) => {
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    if (merges) {
+      sheet["!merges"] = merges.map((ref) => XLSX.utils.decode_range(ref));
+    }
+    Object.entries(formats ?? {}).forEach(([address, format]) => {
+      sheet[address].z = format;
+    });
+    XLSX.utils.book_append_sheet(workbook, sheet, name);
+    if (hidden) {
+      workbook.Workbook ??= {};
+      workbook.Workbook.Sheets ??= [];
+      workbook.Workbook.Sheets[workbook.SheetNames.length - 1] = { Hidden: 1 };
+    }
+  });
+
+  const bytes = XLSX.write(workbook, { type: "array", bookType });
+  return new File([bytes], filename);
+}
+
+const ordersSheet: SheetSpec = {
+  name: "Orders",
+  rows: [
+    ["Order", "Customer", "Ordered", "Total"],
+    [1001, "Acme", 45292, 120.5],
+    [1002, "Globex", 45323.5, 80],
+    [1003, "Initech", null, 42],
+  ],
+  formats: { C2: "yyyy-mm-dd", C3: "m/d/yy h:mm" },
+};
+
+const quarterlySheet: SheetSpec = {
+  name: "Quarterly",
+  rows: [
+    ["Region", "Q1", null, "Q2", null],
+    [null, "Revenue", "Cost", "Revenue", "Cost"],
+    ["EU", 100, 60, 120, 70],
+    ["US", 200, 90, 210, 95],
+  ],
+  merges: ["A1:A2", "B1:C1", "D1:E1"],
+};
+
+describe("ExcelAdapter", () => {
+  let adapter: ExcelAdapter;
+
+  beforeEach(() => {
+    adapter = new ExcelAdapter();
+  });
+
+  describe("getSupportedTypes", () => {
+    it("should return workbook extensions and MIME types", () => {
+      expect(adapter.getSupportedTypes()).toEqual([
+        ".xlsx",
+        ".xls",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "application/vnd.ms-excel",
+      ]);
+    });
+  });
+
+  describe("validate", () => {
+    it("should validate workbook files", () => {
+      expect(adapter.validate(new File([""], "Budget.XLSX"))).toBe(true);
+      expect(adapter.validate(new File([""], "legacy.xls"))).toBe(true);
+      expect(
+        adapter.validate(
+          new File([""], "download", { type: "application/vnd.ms-excel" })
+        )
+      ).toBe(true);
+    });
+
+    it("should reject other inputs", () => {
+      expect(adapter.validate(new File([""], "data.csv"))).toBe(false);
+      expect(adapter.validate("a,b\n1,2")).toBe(false);
+      expect(adapter.validate(undefined)).toBe(false);
+    });
+  });
+
+  describe("parse", () => {
+    it("should parse the first sheet through the schema pipeline", async () => {
+      const result = await adapter.parse(buildWorkbook([ordersSheet]));
+
+      expect(result.name).toBe("report.xlsx");
+      expect(result.sourceType).toBe("excel");
+      expect(result.schema.fields.map((f) => [f.name, f.type])).toEqual([
+        ["Order", "integer"],
+        ["Customer", "string"],
+        ["Ordered", "date"],
+        ["Total", "number"],
+      ]);
+      expect(result.data[1]).toEqual({
+        Order: 1002,
+        Customer: "Globex",
+        Ordered: new Date("2024-02-01T12:00:00.000Z"),
+        Total: 80,
+      });
+      expect(result.data[2].Ordered).toBeNull();
+    });
+
+    it("should convert date serials to UTC dates", async () => {
+      const result = await adapter.parse(buildWorkbook([ordersSheet]));
+
+      expect((result.data[0].Ordered as Date).toISOString()).toBe(
+        "2024-01-01T00:00:00.000Z"
+      );
+    });
+
+    it("should keep numbers with non-date formats as numbers", async () => {
+      const result = await adapter.parse(
+        buildWorkbook([
+          {
+            name: "Prices",
+            rows: [
+              ["Price", "Share"],
+              [1234.5, 0.25],
+            ],
+            formats: { A2: '#,##0.00 "days"', B2: "0.0%" },
+          },
+        ])
+      );
+
+      expect(result.data[0]).toEqual({ Price: 1234.5, Share: 0.25 });
+    });
+
+    it("should read legacy .xls workbooks", async () => {
+      const result = await adapter.parse(
+        buildWorkbook([ordersSheet], "legacy.xls", "biff8")
+      );
+
+      expect(result.data).toHaveLength(3);
+      expect(result.data[0].Ordered).toEqual(new Date("2024-01-01"));
+    });
+
+    it("should record sheet provenance in metadata", async () => {
+      const result = await adapter.parse(buildWorkbook([ordersSheet]));
+
+      expect(result.metadata).toMatchObject({
+        sheetName: "Orders",
+        sheetIndex: 0,
+        sheets: ["Orders"],
+        range: "A1:D4",
+        headerRows: 1,
+        truncated: false,
+      });
+      expect(result.metadata?.warnings).toBeUndefined();
+    });
+
+    it("should keep displayed text when type inference is disabled", async () => {
+      const result = await adapter.parse(buildWorkbook([ordersSheet]), {
+        inferTypes: false,
+      });
+
+      expect(result.data[0].Ordered).toBe("2024-01-01");
+      expect(result.data[0].Order).toBe("1001");
+    });
+
+    it("should respect maxRows", async () => {
+      const result = await adapter.parse(buildWorkbook([ordersSheet]), {
+        maxRows: 2,
+      });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.metadata?.truncated).toBe(true);
+    });
+  });
+
+  describe("parse - headers", () => {
+    it("should combine merged header cells into column names", async () => {
+      const result = await adapter.parse(buildWorkbook([quarterlySheet]));
+
+      expect(result.schema.fields.map((f) => f.name)).toEqual([
+        "Region",
+        "Q1 Revenue",
+        "Q1 Cost",
+        "Q2 Revenue",
+        "Q2 Cost",
+      ]);
+      expect(result.data[0]).toEqual({
+        Region: "EU",
+        "Q1 Revenue": 100,
+        "Q1 Cost": 60,
+        "Q2 Revenue": 120,
+        "Q2 Cost": 70,
+      });
+      expect(result.metadata?.headerRows).toBe(2);
+    });
+
+    it("should use the configured number of header rows", async () => {
+      const result = await adapter.parse(buildWorkbook([quarterlySheet]), {
+        excel: { headerRows: 1 },
+      });
+
+      expect(result.schema.fields.map((f) => f.name)).toEqual([
+        "Region",
+        "Q1",
+        "Q1_2",
+        "Q2",
+        "Q2_2",
+      ]);
+      expect(result.data).toHaveLength(3);
+    });
+
+    it("should name columns when there is no header row", async () => {
+      const result = await adapter.parse(buildWorkbook([ordersSheet]), {
+        hasHeader: false,
+      });
+
+      expect(result.data[0]).toEqual({
+        column_1: "Order",
+        column_2: "Customer",
+        column_3: "Ordered",
+        column_4: "Total",
+      });
+    });
+
+    it("should read only the configured range and skip empty rows", async () => {
+      const result = await adapter.parse(
+        buildWorkbook([
+          {
+            name: "Report",
+            rows: [
+              ["Sales report"],
+              [],
+              [null, "Product", "Units"],
+              [null, "Widget", 5],
+              [],
+              [null, "Gadget", 3],
+            ],
+          },
+        ]),
+        { excel: { range: "B3:C6" } }
+      );
+
+      expect(result.data).toEqual([
+        { Product: "Widget", Units: 5 },
+        { Product: "Gadget", Units: 3 },
+      ]);
+    });
+  });
+
+  describe("parse - sheet selection", () => {
+    const workbook = () =>
+      buildWorkbook([
+        { name: "Notes", rows: [["Note"], ["Internal"]], hidden: true },
+        ordersSheet,
+        quarterlySheet,
+      ]);
+
+    it("should load the first visible sheet and warn about the others", async () => {
+      const result = await adapter.parse(workbook());
+
+      expect(result.metadata?.sheetName).toBe("Orders");
+      expect(result.metadata?.warnings).toEqual([
+        'Workbook contains 2 sheets (Orders, Quarterly). Loaded "Orders"; set excel.sheet to choose another.',
+      ]);
+    });
+
+    it("should select sheets by name or index", async () => {
+      const byName = await adapter.parse(workbook(), {
+        excel: { sheet: "Quarterly" },
+      });
+      const byIndex = await adapter.parse(workbook(), {
+        excel: { sheet: 0 },
+      });
+
+      expect(byName.metadata?.sheetIndex).toBe(2);
+      expect(byIndex.data).toEqual([{ Note: "Internal" }]);
+      expect(byIndex.metadata?.warnings).toBeUndefined();
+    });
+
+    it("should throw for an unknown sheet", async () => {
+      await expect(
+        adapter.parse(workbook(), { excel: { sheet: "Missing" } })
+      ).rejects.toThrow('Sheet "Missing" not found');
+    });
+  });
+
+  describe("parseSheets", () => {
+    it("should parse every visible sheet into a dataset", async () => {
+      const progress: number[] = [];
+
+      const datasets = await adapter.parseSheets(
+        buildWorkbook([
+          ordersSheet,
+          { name: "Hidden", rows: [["x"], [1]], hidden: true },
+          quarterlySheet,
+        ]),
+        { onProgress: ({ percentage }) => progress.push(percentage) }
+      );
+
+      expect(datasets.map((dataset) => dataset.name)).toEqual([
+        "report.xlsx (Orders)",
+        "report.xlsx (Quarterly)",
+      ]);
+      expect(datasets[1].metadata?.sheetIndex).toBe(2);
+      expect(new Set(datasets.map((dataset) => dataset.id)).size).toBe(2);
+      expect(progress).toEqual([50, 100]);
+    });
+  });
+
+  describe("listSheets", () => {
+    it("should list sheets with their size and visibility", async () => {
+      const sheets = await adapter.listSheets(
+        buildWorkbook([
+          ordersSheet,
+          { name: "Notes", rows: [["Internal"]], hidden: true },
+        ])
+      );
+
+      expect(sheets).toEqual([
+        {
+          index: 0,
+          name: "Orders",
+          hidden: false,
+          range: "A1:D4",
+          rowCount: 4,
+          columnCount: 4,
+        },
+        {
+          index: 1,
+          name: "Notes",
+          hidden: true,
+          range: "A1",
+          rowCount: 1,
+          columnCount: 1,
+        },
+      ]);
+    });
+  });
+
+  describe("parse - error handling", () => {
+    it("should throw when the sheet has no data rows", async () => {
+      await expect(
+        adapter.parse(buildWorkbook([{ name: "Empty", rows: [["Header"]] }]))
+      ).rejects.toThrow('No data rows found in sheet "Empty"');
+    });
+
+    it("should throw DataParsingError for corrupt files", async () => {
+      const file = new File(["PK\x03\x04 garbage"], "broken.xlsx");
+
+      try {
+        await adapter.parse(file);
+        expect.fail("Should have thrown error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(DataParsingError);
+        expect((error as DataParsingError).filename).toBe("broken.xlsx");
+      }
+    });
+
+    it("should throw for unsupported input", async () => {
+      await expect(adapter.parse("not a workbook")).rejects.toThrow(
+        "Input is not an Excel workbook"
+      );
+    });
+
+    it("should throw for an invalid range", async () => {
+      await expect(
+        adapter.parse(buildWorkbook([ordersSheet]), {
+          excel: { range: "nonsense" },
+        })
+      ).rejects.toThrow('Invalid cell range "nonsense"');
+    });
+  });
+});
@@ -0,0 +1,558 @@
+import type {
+  DataAdapter,
+  DetectionSample,
+  ParsedDataset,
+} from "@open-dashboard/shared/types";
+import type { CellObject, Range, WorkBook, WorkSheet } from "xlsx";
+import type { ParserOptions } from "../types/parser";
+import { finalizeDataset } from "../utils/schemaBuilder";
+import { datasetId } from "@open-dashboard/core-schema";
+import { DataParsingError } from "./csvAdapter";
+
+const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+const XLS_MIME_TYPE = "application/vnd.ms-excel";
+
+/** Leading bytes of .xlsx (zip) and .xls (OLE compound file) workbooks */
+const WORKBOOK_SIGNATURES = ["PK\x03\x04", "\xD0\xCF\x11\xE0"];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+type SheetUtils = typeof import("xlsx").utils;
+
+export interface ExcelSheetSummary {
+  /** Index to pass as `excel.sheet` */
+  index: number;
+  name: string;
+  /** Hidden sheets are skipped unless selected explicitly */
+  hidden: boolean;
+  /** Used range in A1 notation, or undefined for empty sheets */
+  range?: string;
+  rowCount: number;
+  columnCount: number;
+}
+
+/**
+ * Adapter for Excel workbooks (.xlsx and legacy .xls), read with SheetJS.
+ *
+ * One sheet becomes one dataset. Header cells merged across columns (e.g. a
+ * "Q1" group over "Revenue" and "Cost") are combined into column names such
+ * as "Q1 Revenue", and date-formatted cells are converted from Excel serial
+ * numbers to `Date` values so they are not inferred as numbers.
+ */
+export class ExcelAdapter implements DataAdapter {
+  getSupportedTypes(): string[] {
+    return [".xlsx", ".xls", XLSX_MIME_TYPE, XLS_MIME_TYPE];
+  }
+
+  validate(input: unknown): boolean {
+    if (typeof input === "string") {
+      return isWorkbookString(input);
+    }
+    if (input instanceof File) {
+      const name = input.name.toLowerCase();
+      return (
+        name.endsWith(".xlsx") ||
+        name.endsWith(".xls") ||
+        input.type === XLSX_MIME_TYPE ||
+        input.type === XLS_MIME_TYPE
+      );
+    }
+    return false;
+  }
+
+  detect(sample: DetectionSample): number {
+    // Binary strings keep one byte per character; files are read as bytes
+    const head =
+      sample.source === "string"
+        ? sample.text.slice(0, 4)
+        : String.fromCharCode(...sample.bytes.subarray(0, 4));
+    if (head === WORKBOOK_SIGNATURES[0]) {
+      // Any ZIP archive starts like this; workbooks contain an xl/ folder
+      return sample.text.includes("xl/") ? 0.95 : 0.5;
+    }
+    return head === WORKBOOK_SIGNATURES[1] ? 0.8 : 0;
+  }
+
+  async parse(
+    input: string | File | URL,
+    options: ParserOptions = {}
+  ): Promise<ParsedDataset> {
+    const startTime = performance.now();
+    const { workbook, filename, utils } = await this.readWorkbook(
+      input,
+      options
+    );
+    const warnings: string[] = [];
+    const sheetIndex = this.selectSheet(
+      workbook,
+      utils,
+      options,
+      warnings,
+      filename
+    );
+
+    return this.parseSheet(
+      workbook,
+      utils,
+      sheetIndex,
+      filename,
+      filename,
+      options,
+      warnings,
+      startTime
+    );
+  }
+
+  /**
+   * Parses every visible, non-empty sheet into its own dataset
+   *
+   * Dataset names combine the file and sheet name, e.g. "sales.xlsx (Q1)".
+   * `excel.sheet` is ignored; the other options apply to every sheet.
+   */
+  async parseSheets(
+    input: string | File | URL,
+    options: ParserOptions = {}
+  ): Promise<ParsedDataset[]> {
+    const startTime = performance.now();
+    const { workbook, filename, utils } = await this.readWorkbook(
+      input,
+      options
+    );
+    const sheets = this.summarizeSheets(workbook, utils).filter(
+      (sheet) => !sheet.hidden && sheet.rowCount > 0
+    );
+
+    if (sheets.length === 0) {
+      throw new DataParsingError("No data found in workbook", filename);
+    }
+
+    const datasets: ParsedDataset[] = [];
+    for (const [i, sheet] of sheets.entries()) {
+      if (options.signal?.aborted) {
+        throw new DataParsingError("Excel parsing was aborted", filename);
+      }
+
+      datasets.push(
+        this.parseSheet(
+          workbook,
+          utils,
+          sheet.index,
+          filename,
+          `${filename} (${sheet.name})`,
+          options,
+          [],
+          i === 0 ? startTime : performance.now()
+        )
+      );
+
+      options.onProgress?.({
+        percentage: ((i + 1) / sheets.length) * 100,
+        rowsParsed: datasets.reduce(
+          (sum, dataset) => sum + dataset.data.length,
+          0
+        ),
+      });
+    }
+
+    return datasets;
+  }
+
+  /**
+   * Lists the sheets of a workbook
+   *
+   * Lets callers (e.g. an upload dialog) ask the user which sheet to load
+   * and pass the chosen `index` back as `excel.sheet`.
+   */
+  async listSheets(
+    input: string | File | URL,
+    options: ParserOptions = {}
+  ): Promise<ExcelSheetSummary[]> {
+    const { workbook, utils } = await this.readWorkbook(input, options);
+    return this.summarizeSheets(workbook, utils);
+  }
+
+  private async readWorkbook(
+    input: string | File | URL,
+    options: ParserOptions
+  ): Promise<{ workbook: WorkBook; filename: string; utils: SheetUtils }> {
+    let data: Uint8Array | string;
+    let filename: string;
+
+    if (typeof input === "string") {
+      if (!isWorkbookString(input)) {
+        throw new DataParsingError("Input is not an Excel workbook");
+      }
+      data = input;
+      filename = "unknown.xlsx";
+    } else if (input instanceof File) {
+      data = new Uint8Array(await input.arrayBuffer());
+      filename = input.name;
+    } else if (input instanceof URL) {
+      filename = input.pathname.split("/").pop() || "remote.xlsx";
+      const response = await fetch(input, { signal: options.signal });
+      if (!response.ok) {
+        throw new DataParsingError(
+          `Failed to fetch workbook from ${input.toString()}: ${response.statusText}`,
+          filename
+        );
+      }
+      data = new Uint8Array(await response.arrayBuffer());
+    } else {
+      throw new DataParsingError("Unsupported input type for Excel parser");
+    }
+
+    if (options.signal?.aborted) {
+      throw new DataParsingError("Excel parsing was aborted", filename);
+    }
+
+    const XLSX = await import("xlsx");
+    try {
+      const workbook = XLSX.read(data, {
+        type: typeof data === "string" ? "binary" : "array",
+        // Keep number formats so date serials can be recognised
+        cellNF: true,
+        cellDates: false,
+        dense: false,
+      });
+      return { workbook, filename, utils: XLSX.utils };
+    } catch (error) {
+      throw new DataParsingError(
+        `Invalid Excel workbook: ${error instanceof Error ? error.message : "Unknown error"}`,
+        filename
+      );
+    }
+  }
+
+  /**
+   * Returns the index of the sheet to load, warning when the workbook has
+   * other sheets that were not loaded
+   */
+  private selectSheet(
+    workbook: WorkBook,
+    utils: SheetUtils,
+    options: ParserOptions,
+    warnings: string[],
+    filename: string
+  ): number {
+    const requested = options.excel?.sheet;
+    const sheets = this.summarizeSheets(workbook, utils);
+
+    if (requested !== undefined) {
+      const index =
+        typeof requested === "number"
+          ? requested
+          : workbook.SheetNames.indexOf(requested);
+      if (!sheets[index]) {
+        throw new DataParsingError(
+          `Sheet ${typeof requested === "number" ? requested : `"${requested}"`} not found; the workbook contains ${sheets
+            .map((sheet) => `"${sheet.name}"`)
+            .join(", ")}`,
+          filename
+        );
+      }
+      return index;
+    }
+
+    const visible = sheets.filter((sheet) => !sheet.hidden);
+    const selected =
+      visible.find((sheet) => sheet.rowCount > 0) ?? visible[0] ?? sheets[0];
+
+    if (visible.length > 1) {
+      warnings.push(
+        `Workbook contains ${visible.length} sheets (${visible
+          .map((sheet) => sheet.name)
+          .join(
+            ", "
+          )}). Loaded "${selected.name}"; set excel.sheet to choose another.`
+      );
+    }
+
+    return selected.index;
+  }
+
+  private parseSheet(
+    workbook: WorkBook,
+    utils: SheetUtils,
+    sheetIndex: number,
+    filename: string,
+    datasetName: string,
+    options: ParserOptions,
+    warnings: string[],
+    startTime: number
+  ): ParsedDataset {
+    const sheetName = workbook.SheetNames[sheetIndex];
+    const sheet = workbook.Sheets[sheetName];
+    const range = this.resolveRange(sheet, utils, options, filename);
+
+    if (!range) {
+      throw new DataParsingError(
+        `No data found in sheet "${sheetName}"`,
+        filename
+      );
+    }
+
+    const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+    const inferTypes = options.inferTypes !== false;
+    const hasHeader = options.hasHeader !== false;
+    const headerRows = hasHeader
+      ? (options.excel?.headerRows ?? this.detectHeaderRows(sheet, range))
+      : 0;
+
+    const columnIndexes: number[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      columnIndexes.push(c);
+    }
+
+    const headerNames = this.buildHeader(sheet, utils, range, headerRows);
+    const rows: Record<string, unknown>[] = [];
+    const rawRows: unknown[][] = [];
+    let truncated = false;
+
+    for (let r = range.s.r + headerRows; r <= range.e.r; r++) {
+      const values = columnIndexes.map((c) =>
+        convertCell(sheet[utils.encode_cell({ r, c })], inferTypes, date1904)
+      );
+      if (values.every((value) => value === null)) {
+        continue;
+      }
+      if (options.maxRows !== undefined && rawRows.length >= options.maxRows) {
+        truncated = true;
+        break;
+      }
+      rawRows.push(values);
+    }
+
+    // Columns without a header or any values are spreadsheet padding
+    const keep = columnIndexes
+      .map((_, i) => i)
+      .filter(
+        (i) =>
+          headerNames[i] !== "" || rawRows.some((values) => values[i] !== null)
+      );
+    const columns = dedupeColumnNames(
+      keep.map((i) => headerNames[i] || `column_${i + 1}`)
+    );
+
+    rawRows.forEach((values) => {
+      const record: Record<string, unknown> = {};
+      keep.forEach((i, k) => {
+        record[columns[k]] = values[i];
+      });
+      rows.push(record);
+    });
+
+    if (rows.length === 0) {
+      throw new DataParsingError(
+        `No data rows found in sheet "${sheetName}"`,
+        filename
+      );
+    }
+
+    const schema = finalizeDataset(rows, columns, options);
+    if (!schema) {
+      throw new DataParsingError(
+        `Invalid schema generated from sheet "${sheetName}"`,
+        filename
+      );
+    }
+
+    return {
+      id: datasetId(rows, schema),
+      name: datasetName,
+      data: rows,
+      schema,
+      sourceType: "excel",
+      createdAt: new Date(),
+      metadata: {
+        parseTime: performance.now() - startTime,
+        rowCount: rows.length,
+        columnCount: schema.fields.length,
+        sheetName,
+        sheetIndex,
+        sheets: workbook.SheetNames,
+        range: utils.encode_range(range),
+        headerRows,
+        truncated,
+        ...(warnings.length > 0 && { warnings }),
+      },
+    };
+  }
+
+  private resolveRange(
+    sheet: WorkSheet,
+    utils: SheetUtils,
+    options: ParserOptions,
+    filename: string
+  ): Range | undefined {
+    const ref = options.excel?.range ?? sheet["!ref"];
+    if (!ref) {
+      return undefined;
+    }
+
+    const range = utils.decode_range(ref);
+    if (
+      [range.s.r, range.s.c, range.e.r, range.e.c].some(
+        (n) => !Number.isInteger(n) || n < 0
+      )
+    ) {
+      throw new DataParsingError(`Invalid cell range "${ref}"`, filename);
+    }
+    return range;
+  }
+
+  /**
+   * Extends the header down to the last row of any merged cell that starts
+   * in the first row, e.g. "Region" merged over A1:A2 next to "Q1" over B1:C1
+   * means the header spans two rows.
+   */
+  private detectHeaderRows(sheet: WorkSheet, range: Range): number {
+    const merges = sheet["!merges"] ?? [];
+    const lastRow = merges
+      .filter(
+        (merge) =>
+          merge.s.r === range.s.r &&
+          merge.s.c <= range.e.c &&
+          merge.e.c >= range.s.c
+      )
+      .reduce((last, merge) => Math.max(last, merge.e.r), range.s.r);
+
+    return Math.min(lastRow, range.e.r) - range.s.r + 1;
+  }
+
+  /**
+   * Combines the header rows into one name per column, spreading merged
+   * header cells over every column they cover
+   */
+  private buildHeader(
+    sheet: WorkSheet,
+    utils: SheetUtils,
+    range: Range,
+    headerRows: number
+  ): string[] {
+    const merges = sheet["!merges"] ?? [];
+    const headerText = (r: number, c: number): string => {
+      const merge = merges.find(
+        (m) => r >= m.s.r && r <= m.e.r && c >= m.s.c && c <= m.e.c
+      );
+      const cell = sheet[utils.encode_cell(merge ? merge.s : { r, c })];
+      return cellText(cell);
+    };
+
+    const names: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const parts: string[] = [];
+      for (let r = range.s.r; r < range.s.r + headerRows; r++) {
+        const text = headerText(r, c);
+        // Cells merged down repeat their text on every row
+        if (text !== "" && parts[parts.length - 1] !== text) {
+          parts.push(text);
+        }
+      }
+      names.push(parts.join(" "));
+    }
+    return names;
+  }
+
+  private summarizeSheets(
+    workbook: WorkBook,
+    utils: SheetUtils
+  ): ExcelSheetSummary[] {
+    return workbook.SheetNames.map((name, index) => {
+      const ref = workbook.Sheets[name]?.["!ref"];
+      const range = ref ? utils.decode_range(ref) : undefined;
+      const hidden = Boolean(workbook.Workbook?.Sheets?.[index]?.Hidden);
+
+      return {
+        index,
+        name,
+        hidden,
+        range: ref,
+        rowCount: range ? range.e.r - range.s.r + 1 : 0,
+        columnCount: range ? range.e.c - range.s.c + 1 : 0,
+      };
+    });
+  }
+}
+
+function isWorkbookString(input: string): boolean {
+  return WORKBOOK_SIGNATURES.some((signature) => input.startsWith(signature));
+}
+
+/**
+ * Converts a cell to a dataset value. Date-formatted numbers become UTC
+ * dates; with type inference disabled, cells keep their displayed text.
+ */
+function convertCell(
+  cell: CellObject | undefined,
+  inferTypes: boolean,
+  date1904: boolean
+): unknown {
+  if (!cell || cell.t === "z" || cell.t === "e" || cell.v === undefined) {
+    return null;
+  }
+  if (cell.t === "s" && String(cell.v).trim() === "") {
+    return null;
+  }
+  if (!inferTypes) {
+    return cellText(cell);
+  }
+
+  switch (cell.t) {
+    case "n":
+      return typeof cell.z === "string" && isDateFormat(cell.z)
+        ? excelSerialToDate(cell.v as number, date1904)
+        : cell.v;
+    case "d":
+      return cell.v instanceof Date ? cell.v : new Date(String(cell.v));
+    case "b":
+      return cell.v;
+    default:
+      return String(cell.v);
+  }
+}
+
+function cellText(cell: CellObject | undefined): string {
+  if (!cell || cell.v === undefined || cell.v === null) {
+    return "";
+  }
+  return (cell.w ?? String(cell.v)).trim();
+}
+
+/**
+ * Checks whether a number format displays dates or times, ignoring quoted
+ * literals, escapes, colours and locale blocks
+ */
+function isDateFormat(format: string): boolean {
+  if (format === "General") {
+    return false;
+  }
+  const stripped = format
+    .split(";")[0]
+    .replace(/"[^"]*"/g, "")
+    .replace(/\\./g, "")
+    .replace(/\[(?!h\]|hh\]|m\]|mm\]|s\]|ss\])[^\]]*\]/gi, "");
+  return /[dmyhs]/i.test(stripped) && !/^[#0.,%\s]*$/.test(stripped);
+}
+
+/**
+ * Converts an Excel date serial to a UTC date
+ *
+ * Serials count days from 1900-01-00 (or 1904-01-01 in the 1904 date
+ * system); the fractional part is the time of day. Excel's phantom
+ * 1900-02-29 (serial 60) is skipped.
+ */
+function excelSerialToDate(serial: number, date1904 = false): Date {
+  const days = date1904 ? serial + 1462 : serial < 60 ? serial + 1 : serial;
+  // 25569 is the serial of 1970-01-01
+  return new Date(Math.round((days - 25569) * MS_PER_DAY));
+}
+
+function dedupeColumnNames(names: string[]): string[] {
+  const seen = new Map<string, number>();
+  return names.map((name) => {
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name}_${count}` : name;
+  });
+}
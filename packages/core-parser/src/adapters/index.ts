@@ -1,2 +1,8 @@
 export { CSVAdapter, DataParsingError } from "./csvAdapter";
 export { JSONAdapter } from "./jsonAdapter";
+export { NDJSONAdapter } from "./ndjsonAdapter";
+export { APIAdapter } from "./apiAdapter";
+export { PDFAdapter } from "./pdfAdapter";
+export { TextAdapter } from "./textAdapter";
+export { ExcelAdapter } from "./excelAdapter";
+export { ParquetAdapter } from "./parquetAdapter";
@@ -121,14 +121,28 @@ describe("JSONAdapter", () => {
       expect(result.name).toBe("employees.json");
     });
 
-    it("should generate unique IDs for each parse", async () => {
+    it("should decode files in other encodings", async () => {
+      // [{"city": "Zürich"}] in ISO-8859-1
+      const bytes = Uint8Array.from('[{"city": "Zürich"}]', (char) =>
+        char.charCodeAt(0)
+      );
+
+      const result = await adapter.parse(new File([bytes], "cities.json"));
+
+      expect(result.data).toEqual([{ city: "Zürich" }]);
+      expect(result.metadata?.encoding).toBe("ISO-8859-1");
+    });
+
+    it("should generate the same ID for the same content", async () => {
       const jsonContent = JSON.stringify([{ name: "Alice" }]);
 
       const result1 = await adapter.parse(jsonContent);
       const result2 = await adapter.parse(jsonContent);
+      const result3 = await adapter.parse(JSON.stringify([{ name: "Bob" }]));
 
-      expect(result1.id).not.toBe(result2.id);
-      expect(result1.id).toMatch(/^\d+-[a-z0-9]+$/);
+      expect(result1.id).toBe(result2.id);
+      expect(result1.id).toMatch(/^[0-9a-f]{16}-[0-9a-f]{16}$/);
+      expect(result3.id).not.toBe(result1.id);
     });
 
     it("should include metadata with parse time and counts", async () => {
@@ -212,6 +226,166 @@ describe("JSONAdapter", () => {
     });
   });
 
+  describe("parse - recordPath", () => {
+    const apiResponse = {
+      meta: [{ page: 1 }],
+      data: {
+        items: [
+          { id: 1, name: "Alice" },
+          { id: 2, name: "Bob" },
+          { id: 3, name: "Carol" },
+        ],
+      },
+      results: [
+        { sku: "A1", qty: 4 },
+        { sku: "B2", qty: 1 },
+      ],
+    };
+
+    it("should load the array selected by recordPath", async () => {
+      const result = await adapter.parse(JSON.stringify(apiResponse), {
+        recordPath: "results",
+      });
+
+      expect(result.data).toEqual(apiResponse.results);
+      expect(result.metadata?.recordPath).toBe("results");
+      expect(result.metadata?.warnings).toBeUndefined();
+    });
+
+    it("should support nested paths with wildcards", async () => {
+      const result = await adapter.parse(JSON.stringify(apiResponse), {
+        recordPath: "$.data.items[*]",
+      });
+
+      expect(result.data).toHaveLength(3);
+      expect(result.data[2]).toEqual({ id: 3, name: "Carol" });
+    });
+
+    it("should throw when recordPath matches nothing", async () => {
+      await expect(
+        adapter.parse(JSON.stringify(apiResponse), {
+          recordPath: "data.rows",
+        })
+      ).rejects.toThrow('Record path "data.rows" did not match any data');
+    });
+
+    it("should throw DataParsingError for malformed recordPath", async () => {
+      await expect(
+        adapter.parse(JSON.stringify(apiResponse), { recordPath: "data..x" })
+      ).rejects.toThrow(DataParsingError);
+    });
+
+    it("should warn when several arrays could be loaded", async () => {
+      const result = await adapter.parse(JSON.stringify(apiResponse));
+
+      expect(result.data).toEqual(apiResponse.meta);
+      expect(result.metadata?.recordPath).toBe("meta");
+      expect(result.metadata?.warnings).toEqual([
+        expect.stringContaining('Loaded "meta"'),
+      ]);
+    });
+
+    it("should record the root path for top-level arrays", async () => {
+      const result = await adapter.parse(JSON.stringify([{ a: 1 }]));
+
+      expect(result.metadata?.recordPath).toBe("$");
+      expect(result.metadata?.warnings).toBeUndefined();
+    });
+  });
+
+  describe("discoverRecordArrays", () => {
+    it("should list every candidate array with length and sample keys", async () => {
+      const candidates = await adapter.discoverRecordArrays(
+        JSON.stringify({
+          meta: [{ page: 1 }],
+          data: { items: [{ id: 1, name: "Alice" }, { id: 2 }] },
+        })
+      );
+
+      expect(candidates).toEqual([
+        { path: "meta", length: 1, sampleKeys: ["page"], objectRatio: 1 },
+        {
+          path: "data.items",
+          length: 2,
+          sampleKeys: ["id", "name"],
+          objectRatio: 1,
+        },
+      ]);
+    });
+
+    it("should read File inputs", async () => {
+      const file = new File([JSON.stringify([1, 2])], "values.json");
+
+      const candidates = await adapter.discoverRecordArrays(file);
+
+      expect(candidates).toEqual([
+        { path: "$", length: 2, sampleKeys: [], objectRatio: 0 },
+      ]);
+    });
+
+    it("should throw DataParsingError for invalid JSON", async () => {
+      await expect(adapter.discoverRecordArrays("{oops")).rejects.toThrow(
+        DataParsingError
+      );
+    });
+  });
+
+  describe("parse - flatten", () => {
+    const content = JSON.stringify([
+      {
+        id: 1,
+        address: { city: "Oslo", zip: "0150" },
+        items: [{ sku: "A" }, { sku: "B" }],
+      },
+      { id: 2, address: { city: "Bergen", zip: "5003" }, items: [] },
+    ]);
+
+    it("should keep nested objects as values by default", async () => {
+      const result = await adapter.parse(content);
+
+      expect(result.data[0].address).toEqual({ city: "Oslo", zip: "0150" });
+      expect(result.metadata?.flatten).toBeUndefined();
+    });
+
+    it("should flatten nested objects into dotted columns", async () => {
+      const result = await adapter.parse(content, { flatten: true });
+
+      expect(result.schema.fields.map((f) => f.name)).toEqual([
+        "id",
+        "address.city",
+        "address.zip",
+        "items",
+      ]);
+      expect(result.data[0]["address.city"]).toBe("Oslo");
+      expect(result.data[0].items).toBe('[{"sku":"A"},{"sku":"B"}]');
+      expect(result.metadata?.flatten).toMatchObject({ arrayPolicy: "json" });
+    });
+
+    it("should record the flattening in field metadata", async () => {
+      const result = await adapter.parse(content, { flatten: true });
+      const city = result.schema.fields.find((f) => f.name === "address.city");
+      const items = result.schema.fields.find((f) => f.name === "items");
+
+      expect(city?.metadata?.flattenPath).toBe('["address","city"]');
+      expect(items?.metadata?.flattenEncoding).toBe("json");
+    });
+
+    it("should explode arrays into rows", async () => {
+      const result = await adapter.parse(content, {
+        flatten: { arrayPolicy: "explode" },
+      });
+
+      expect(result.data).toHaveLength(3);
+      expect(result.data.map((row) => row["items.sku"])).toEqual([
+        "A",
+        "B",
+        undefined,
+      ]);
+      expect(result.data.map((row) => row._record)).toEqual([0, 0, 1]);
+      expect(result.metadata?.rowCount).toBe(3);
+    });
+  });
+
   describe("parse - type inference", () => {
     it("should infer string types", async () => {
       const jsonContent = JSON.stringify([
@@ -225,7 +399,7 @@ describe("JSONAdapter", () => {
       expect(nameField?.type).toBe("string");
     });
 
-    it("should infer number types", async () => {
+    it("should infer integer types", async () => {
       const jsonContent = JSON.stringify([
         { name: "Alice", age: 30, salary: 95000 },
         { name: "Bob", age: 25, salary: 80000 },
@@ -235,8 +409,8 @@ describe("JSONAdapter", () => {
 
       const ageField = result.schema.fields.find((f) => f.name === "age");
       const salaryField = result.schema.fields.find((f) => f.name === "salary");
-      expect(ageField?.type).toBe("number");
-      expect(salaryField?.type).toBe("number");
+      expect(ageField?.type).toBe("integer");
+      expect(salaryField?.type).toBe("integer");
     });
 
     it("should infer date types", async () => {
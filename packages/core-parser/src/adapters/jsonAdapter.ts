@@ -1,6 +1,27 @@
-import type { DataAdapter, ParsedDataset } from "@open-dashboard/shared/types";
+import type {
+  DataAdapter,
+  DetectionSample,
+  ParsedDataset,
+} from "@open-dashboard/shared/types";
 import type { ParserOptions } from "../types/parser";
-import { buildSchemaFromData, validateSchema } from "../utils/schemaBuilder";
+import { finalizeDataset } from "../utils/schemaBuilder";
+import {
+  annotateFlattenedSchema,
+  flattenRecords,
+  resolveFlattenOptions,
+} from "../utils/flatten";
+import {
+  findRecordArrays,
+  resolveRecordPath,
+  type RecordArrayCandidate,
+} from "../utils/recordPath";
+import { isBinarySample, sampleLines } from "../utils/sniff";
+import {
+  decodeText,
+  isSupportedEncoding,
+  type EncodingDetection,
+} from "../utils/encoding";
+import { datasetId } from "@open-dashboard/core-schema";
 import { DataParsingError } from "./csvAdapter";
 
 export class JSONAdapter implements DataAdapter {
@@ -27,41 +48,64 @@ export class JSONAdapter implements DataAdapter {
     return false;
   }
 
+  detect(sample: DetectionSample): number {
+    if (isBinarySample(sample)) return 0;
+    const text = sample.text.trim();
+    if (!/^[[{]/.test(text)) return 0;
+
+    if (!sample.truncated) {
+      try {
+        JSON.parse(text);
+        return 0.95;
+      } catch {
+        // Several complete values, one per line, are NDJSON
+        return 0.1;
+      }
+    }
+    // A complete object on the first line is probably NDJSON as well
+    const [firstLine] = sampleLines(sample);
+    try {
+      JSON.parse(firstLine);
+      return 0.2;
+    } catch {
+      return text.startsWith("[") ? 0.8 : 0.6;
+    }
+  }
+
   async parse(
     input: string | File | URL,
     options: ParserOptions = {}
   ): Promise<ParsedDataset> {
     const startTime = performance.now();
-    let content: string;
-    let filename = "unknown.json";
-
-    if (typeof input === "string") {
-      content = input;
-    } else if (input instanceof File) {
-      filename = input.name;
-      content = await input.text();
-    } else if (input instanceof URL) {
-      filename = input.pathname.split("/").pop() || "remote.json";
-      const response = await fetch(input);
-      if (!response.ok) {
-        throw new DataParsingError(
-          `Failed to fetch JSON from ${input.toString()}: ${response.statusText}`,
-          filename
-        );
-      }
-      content = await response.text();
-    } else {
-      throw new DataParsingError("Unsupported input type for JSON parser");
-    }
+    const { content, filename, encoding } = await this.readContent(
+      input,
+      options.encoding
+    );
 
     try {
       const parsed = JSON.parse(content);
-      const data = this.extractDataArray(parsed);
+      const warnings: string[] = [];
+      let recordPath: string | undefined;
+      let data: Record<string, unknown>[];
+
+      if (options.recordPath) {
+        recordPath = options.recordPath;
+        data = this.extractRecordPath(parsed, recordPath, filename);
+      } else {
+        recordPath = this.describeDefaultRecordPath(parsed, warnings);
+        data = this.extractDataArray(parsed);
+      }
 
       if (data.length === 0) {
         throw new DataParsingError("No data found in JSON", filename);
       }
 
+      const flatten = resolveFlattenOptions(options.flatten);
+      const flattened = flatten ? flattenRecords(data, flatten) : undefined;
+      if (flattened) {
+        data = flattened.data;
+      }
+
       const allFields = new Set<string>();
       data.forEach((row) => {
         if (typeof row === "object" && row !== null) {
@@ -70,22 +114,25 @@ export class JSONAdapter implements DataAdapter {
       });
 
       const fieldNames = Array.from(allFields);
-      const schema = buildSchemaFromData(data, fieldNames, options.sampleSize);
-
-      if (!validateSchema(schema)) {
+      const schema = finalizeDataset(data, fieldNames, options);
+      if (!schema) {
         throw new DataParsingError(
           "Invalid schema generated from JSON",
           filename
         );
       }
 
+      if (flattened) {
+        annotateFlattenedSchema(schema, flattened.fields, flatten);
+      }
+
       const limitedData = options.maxRows
         ? data.slice(0, options.maxRows)
         : data;
       const parseTime = performance.now() - startTime;
 
       return {
-        id: this.generateId(),
+        id: datasetId(limitedData, schema),
         name: filename,
         data: limitedData,
         schema,
@@ -95,6 +142,11 @@ export class JSONAdapter implements DataAdapter {
           parseTime,
           rowCount: limitedData.length,
           columnCount: schema.fields.length,
+          recordPath,
+          encoding: encoding.encoding,
+          encodingConfidence: encoding.confidence,
+          ...(flatten && { flatten }),
+          ...(warnings.length > 0 && { warnings }),
         },
       };
     } catch (error) {
@@ -114,6 +166,130 @@ export class JSONAdapter implements DataAdapter {
     }
   }
 
+  /**
+   * Lists every array in a JSON input that could be loaded as a table
+   *
+   * Lets callers (e.g. an upload dialog) ask the user which array to load
+   * and pass the chosen `path` back as `recordPath`.
+   *
+   * @param input - JSON string, File or URL
+   * @param encoding - Text encoding of Files and URLs (default: detected)
+   * @returns Candidate arrays with their length and sample keys
+   */
+  async discoverRecordArrays(
+    input: string | File | URL,
+    encoding?: string
+  ): Promise<RecordArrayCandidate[]> {
+    const { content, filename } = await this.readContent(input, encoding);
+
+    try {
+      return findRecordArrays(JSON.parse(content));
+    } catch (error) {
+      throw new DataParsingError(
+        `Invalid JSON syntax: ${error instanceof Error ? error.message : "Unknown error"}`,
+        filename
+      );
+    }
+  }
+
+  private async readContent(
+    input: string | File | URL,
+    encoding?: string
+  ): Promise<{
+    content: string;
+    filename: string;
+    encoding: EncodingDetection;
+  }> {
+    if (typeof input === "string") {
+      return {
+        content: input,
+        filename: "unknown.json",
+        encoding: { encoding: encoding || "UTF-8", confidence: 1 },
+      };
+    }
+    if (input instanceof File) {
+      return this.decode(await input.arrayBuffer(), input.name, encoding);
+    }
+    if (input instanceof URL) {
+      const filename = input.pathname.split("/").pop() || "remote.json";
+      const response = await fetch(input);
+      if (!response.ok) {
+        throw new DataParsingError(
+          `Failed to fetch JSON from ${input.toString()}: ${response.statusText}`,
+          filename
+        );
+      }
+      return this.decode(await response.arrayBuffer(), filename, encoding);
+    }
+    throw new DataParsingError("Unsupported input type for JSON parser");
+  }
+
+  private decode(
+    buffer: ArrayBuffer,
+    filename: string,
+    encoding?: string
+  ): { content: string; filename: string; encoding: EncodingDetection } {
+    if (encoding && !isSupportedEncoding(encoding)) {
+      throw new DataParsingError(
+        `Unsupported encoding "${encoding}"`,
+        filename
+      );
+    }
+    const { text, ...detected } = decodeText(new Uint8Array(buffer), encoding);
+    return { content: text, filename, encoding: detected };
+  }
+
+  private extractRecordPath(
+    parsed: unknown,
+    recordPath: string,
+    filename: string
+  ): Record<string, unknown>[] {
+    let records: unknown[] | undefined;
+    try {
+      records = resolveRecordPath(parsed, recordPath);
+    } catch (error) {
+      throw new DataParsingError(
+        error instanceof Error ? error.message : String(error),
+        filename
+      );
+    }
+
+    if (!records) {
+      throw new DataParsingError(
+        `Record path "${recordPath}" did not match any data`,
+        filename
+      );
+    }
+
+    return this.extractDataArray(records);
+  }
+
+  /**
+   * Returns the path that extractDataArray will pick without a recordPath,
+   * warning when the choice between several arrays is ambiguous
+   */
+  private describeDefaultRecordPath(
+    parsed: unknown,
+    warnings: string[]
+  ): string | undefined {
+    if (Array.isArray(parsed)) {
+      return "$";
+    }
+
+    const candidates = findRecordArrays(parsed, { maxDepth: 1 });
+    if (candidates.length > 1) {
+      warnings.push(
+        `Found ${candidates.length} arrays (${candidates
+          .map((c) => c.path)
+          .join(
+            ", "
+          )}). Loaded "${candidates[0].path}"; set recordPath to choose another.`
+      );
+    }
+
+    return candidates[0]?.path;
+  }
+
   private extractDataArray(parsed: unknown): Record<string, unknown>[] {
     if (Array.isArray(parsed)) {
       return parsed.map((item, index) => {
@@ -139,8 +315,4 @@ export class JSONAdapter implements DataAdapter {
       "JSON must be an array or object containing an array"
     );
   }
-
-  private generateId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  }
 }
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { NDJSONAdapter } from "./ndjsonAdapter";
+import { DataParsingError } from "./csvAdapter";
+
+describe("NDJSONAdapter", () => {
+  let adapter: NDJSONAdapter;
+
+  beforeEach(() => {
+    adapter = new NDJSONAdapter();
+  });
+
+  describe("getSupportedTypes", () => {
+    it("should return NDJSON file extensions and MIME types", () => {
+      const types = adapter.getSupportedTypes();
+
+      expect(types).toContain(".ndjson");
+      expect(types).toContain(".jsonl");
+      expect(types).toContain("application/x-ndjson");
+      expect(types).toHaveLength(3);
+    });
+  });
+
+  describe("validate", () => {
+    it("should validate strings with one JSON value per line", () => {
+      const content = '{"a":1}\n{"a":2}\n';
+
+      expect(adapter.validate(content)).toBe(true);
+    });
+
+    it("should reject strings containing a non-JSON line", () => {
+      expect(adapter.validate('{"a":1}\nnot json')).toBe(false);
+    });
+
+    it("should reject a pretty-printed JSON document", () => {
+      expect(adapter.validate('[\n  {"a": 1}\n]')).toBe(false);
+    });
+
+    it("should reject empty strings", () => {
+      expect(adapter.validate("  \n ")).toBe(false);
+    });
+
+    it("should validate files by extension and MIME type", () => {
+      expect(adapter.validate(new File([""], "events.jsonl"))).toBe(true);
+      expect(adapter.validate(new File([""], "events.ndjson"))).toBe(true);
+      expect(
+        adapter.validate(
+          new File([""], "events.log", { type: "application/x-ndjson" })
+        )
+      ).toBe(true);
+      expect(adapter.validate(new File([""], "events.json"))).toBe(false);
+    });
+
+    it("should reject non-string and non-File inputs", () => {
+      expect(adapter.validate(123)).toBe(false);
+      expect(adapter.validate(null)).toBe(false);
+      expect(adapter.validate({})).toBe(false);
+    });
+  });
+
+  describe("parse - basic functionality", () => {
+    it("should parse one record per line", async () => {
+      const content =
+        '{"event":"login","user":"alice","ms":120}\n' +
+        '{"event":"logout","user":"bob","ms":80}\n';
+
+      const result = await adapter.parse(content);
+
+      expect(result.data).toEqual([
+        { event: "login", user: "alice", ms: 120 },
+        { event: "logout", user: "bob", ms: 80 },
+      ]);
+      expect(result.sourceType).toBe("json");
+      expect(result.name).toBe("unknown.ndjson");
+      expect(result.metadata?.format).toBe("ndjson");
+      expect(result.metadata?.rowCount).toBe(2);
+    });
+
+    it("should skip blank lines and handle CRLF line endings", async () => {
+      const content = '{"a":1}\r\n\r\n{"a":2}\r\n   \n{"a":3}';
+
+      const result = await adapter.parse(content);
+
+      expect(result.data.map((row) => row.a)).toEqual([1, 2, 3]);
+    });
+
+    it("should union keys across records into the schema", async () => {
+      const content = '{"a":1}\n{"b":"x"}\n{"a":2,"c":true}';
+
+      const result = await adapter.parse(content);
+
+      expect(result.schema.fields.map((f) => f.name)).toEqual(["a", "b", "c"]);
+    });
+
+    it("should wrap primitive lines into value rows", async () => {
+      const result = await adapter.parse("1\n2\n3");
+
+      expect(result.data).toEqual([
+        { value: 1, index: 0 },
+        { value: 2, index: 1 },
+        { value: 3, index: 2 },
+      ]);
+    });
+
+    it("should parse File inputs", async () => {
+      const file = new File(['{"a":1}\n{"a":2}'], "events.jsonl", {
+        type: "application/x-ndjson",
+      });
+
+      const result = await adapter.parse(file);
+
+      expect(result.name).toBe("events.jsonl");
+      expect(result.data).toHaveLength(2);
+    });
+
+    it("should parse lines split across chunk boundaries", async () => {
+      const lines = Array.from(
+        { length: 50 },
+        (_, i) => `{"id":${i},"label":"item ${i}"}`
+      );
+
+      const result = await adapter.parse(lines.join("\n"), { chunkSize: 7 });
+
+      expect(result.data).toHaveLength(50);
+      expect(result.data[49]).toEqual({ id: 49, label: "item 49" });
+    });
+  });
+
+  describe("parse - options", () => {
+    it("should stop after maxRows records", async () => {
+      const content = Array.from({ length: 100 }, (_, i) => `{"i":${i}}`).join(
+        "\n"
+      );
+
+      const result = await adapter.parse(content, {
+        maxRows: 5,
+        chunkSize: 16,
+      });
+
+      expect(result.data).toHaveLength(5);
+      expect(result.metadata?.truncated).toBe(true);
+    });
+
+    it("should report progress", async () => {
+      const content = Array.from({ length: 100 }, (_, i) => `{"i":${i}}`).join(
+        "\n"
+      );
+      const progress: number[] = [];
+
+      await adapter.parse(content, {
+        chunkSize: 64,
+        onProgress: ({ percentage }) => progress.push(percentage),
+      });
+
+      expect(progress.length).toBeGreaterThan(1);
+      expect(progress[progress.length - 1]).toBe(100);
+    });
+
+    it("should abort when the signal fires", async () => {
+      const controller = new AbortController();
+      const content = Array.from({ length: 100 }, (_, i) => `{"i":${i}}`).join(
+        "\n"
+      );
+
+      await expect(
+        adapter.parse(content, {
+          chunkSize: 16,
+          signal: controller.signal,
+          onProgress: () => controller.abort(),
+        })
+      ).rejects.toThrow("NDJSON parsing was aborted");
+    });
+  });
+
+  describe("parse - flatten", () => {
+    it("should flatten nested records", async () => {
+      const content =
+        '{"user":{"id":1,"name":"a"},"tags":["x","y"]}\n' +
+        '{"user":{"id":2,"name":"b"},"tags":[]}';
+
+      const result = await adapter.parse(content, {
+        flatten: { arrayPolicy: "join", joinSeparator: ";" },
+      });
+
+      expect(result.data).toEqual([
+        { "user.id": 1, "user.name": "a", tags: "x;y" },
+        { "user.id": 2, "user.name": "b", tags: "" },
+      ]);
+      expect(
+        result.schema.fields.find((f) => f.name === "tags")?.metadata
+      ).toMatchObject({ flattenEncoding: "join", flattenJoinSeparator: ";" });
+    });
+  });
+
+  describe("parse - error handling", () => {
+    it("should report malformed lines with their line number", async () => {
+      const content = '{"a":1}\n\n{"a":2}\n{"a":\n{"a":4}';
+
+      try {
+        await adapter.parse(content);
+        expect.fail("Should have thrown error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(DataParsingError);
+        expect((error as DataParsingError).line).toBe(4);
+        expect((error as DataParsingError).message).toContain("line 4");
+      }
+    });
+
+    it("should report a malformed final line without trailing newline", async () => {
+      const file = new File(['{"a":1}\n{"a":'], "broken.jsonl");
+
+      try {
+        await adapter.parse(file);
+        expect.fail("Should have thrown error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(DataParsingError);
+        expect((error as DataParsingError).line).toBe(2);
+        expect((error as DataParsingError).filename).toBe("broken.jsonl");
+      }
+    });
+
+    it("should throw for empty input", async () => {
+      await expect(adapter.parse("\n\n")).rejects.toThrow(
+        "No data found in NDJSON"
+      );
+    });
+
+    it("should throw for unsupported input type", async () => {
+      await expect(adapter.parse(123 as unknown as string)).rejects.toThrow(
+        "Unsupported input type"
+      );
+    });
+  });
+});
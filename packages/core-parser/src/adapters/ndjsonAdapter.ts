@@ -0,0 +1,242 @@
+import type {
+  DataAdapter,
+  DetectionSample,
+  ParsedDataset,
+} from "@open-dashboard/shared/types";
+import type { ParserOptions } from "../types/parser";
+import { finalizeDataset } from "../utils/schemaBuilder";
+import {
+  annotateFlattenedSchema,
+  flattenRecords,
+  resolveFlattenOptions,
+} from "../utils/flatten";
+import { chunkPercentage, readTextChunks } from "../utils/streaming";
+import { isBinarySample, sampleLines } from "../utils/sniff";
+import { isSupportedEncoding, type EncodingDetection } from "../utils/encoding";
+import { datasetId } from "@open-dashboard/core-schema";
+import { DataParsingError } from "./csvAdapter";
+
+/**
+ * Adapter for newline-delimited JSON (NDJSON / JSON Lines).
+ *
+ * Each non-empty line holds one JSON value. Input is always read chunk by
+ * chunk, so large event logs never have to be held as a single string.
+ */
+export class NDJSONAdapter implements DataAdapter {
+  getSupportedTypes(): string[] {
+    return [".ndjson", ".jsonl", "application/x-ndjson"];
+  }
+
+  validate(input: unknown): boolean {
+    if (typeof input === "string") {
+      const lines = input
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line !== "")
+        .slice(0, 10);
+
+      if (lines.length === 0) return false;
+
+      return lines.every((line) => {
+        try {
+          JSON.parse(line);
+          return true;
+        } catch {
+          return false;
+        }
+      });
+    }
+    if (input instanceof File) {
+      const name = input.name.toLowerCase();
+      return (
+        name.endsWith(".ndjson") ||
+        name.endsWith(".jsonl") ||
+        input.type === "application/x-ndjson"
+      );
+    }
+    return false;
+  }
+
+  detect(sample: DetectionSample): number {
+    if (isBinarySample(sample)) return 0;
+    const lines = sampleLines(sample, 10);
+    if (lines.length === 0) return 0;
+
+    const allObjects = lines.every((line) => {
+      try {
+        const value: unknown = JSON.parse(line);
+        return typeof value === "object" && value !== null;
+      } catch {
+        return false;
+      }
+    });
+    if (!allObjects) return 0;
+    // A single line is just as likely to be a plain JSON document
+    return lines.length > 1 ? 0.9 : 0.4;
+  }
+
+  async parse(
+    input: string | File | URL,
+    options: ParserOptions = {}
+  ): Promise<ParsedDataset> {
+    const startTime = performance.now();
+    let source: Blob | ReadableStream<Uint8Array>;
+    let totalBytes: number | undefined;
+    let filename = "unknown.ndjson";
+
+    if (typeof input === "string") {
+      source = new Blob([input]);
+    } else if (input instanceof File) {
+      filename = input.name;
+      source = input;
+    } else if (input instanceof URL) {
+      filename = input.pathname.split("/").pop() || "remote.ndjson";
+      const response = await fetch(input, { signal: options.signal });
+      if (!response.ok) {
+        throw new DataParsingError(
+          `Failed to fetch NDJSON from ${input.toString()}: ${response.statusText}`,
+          filename
+        );
+      }
+      if (response.body) {
+        source = response.body;
+        totalBytes =
+          Number(response.headers.get("content-length")) || undefined;
+      } else {
+        source = await response.blob();
+      }
+    } else {
+      throw new DataParsingError("Unsupported input type for NDJSON parser");
+    }
+    if (options.encoding && !isSupportedEncoding(options.encoding)) {
+      throw new DataParsingError(
+        `Unsupported encoding "${options.encoding}"`,
+        filename
+      );
+    }
+    let encoding: EncodingDetection = { encoding: "UTF-8", confidence: 1 };
+
+    let data: Record<string, unknown>[] = [];
+    let lineNumber = 0;
+    let pending = "";
+    let truncated = false;
+
+    const parseLine = (line: string): void => {
+      lineNumber++;
+      const trimmed = line.trim();
+      if (trimmed === "") return;
+
+      let value: unknown;
+      try {
+        value = JSON.parse(trimmed);
+      } catch (error) {
+        throw new DataParsingError(
+          `Invalid JSON on line ${lineNumber}: ${error instanceof Error ? error.message : "Unknown error"}`,
+          filename,
+          lineNumber
+        );
+      }
+
+      data.push(
+        typeof value === "object" && value !== null && !Array.isArray(value)
+          ? (value as Record<string, unknown>)
+          : { value, index: data.length }
+      );
+    };
+
+    const limitReached = () =>
+      options.maxRows !== undefined && data.length >= options.maxRows;
+
+    for await (const chunk of readTextChunks(source, {
+      chunkSize: options.chunkSize,
+      totalBytes,
+      signal: options.signal,
+      // Strings are wrapped in a UTF-8 Blob
+      encoding: typeof input === "string" ? "UTF-8" : options.encoding,
+    })) {
+      encoding = chunk.encoding ?? encoding;
+      const lines = (pending + chunk.text).split("\n");
+      pending = lines.pop() ?? "";
+
+      for (const line of lines) {
+        parseLine(line);
+        if (limitReached()) break;
+      }
+
+      options.onProgress?.({
+        percentage: chunkPercentage(chunk),
+        rowsParsed: data.length,
+        currentRow: data[data.length - 1],
+        bytesRead: chunk.bytesRead,
+        totalBytes: chunk.totalBytes,
+      });
+
+      if (limitReached()) {
+        truncated = true;
+        break;
+      }
+    }
+
+    if (options.signal?.aborted) {
+      throw new DataParsingError("NDJSON parsing was aborted", filename);
+    }
+
+    if (!truncated && pending.trim() !== "") {
+      parseLine(pending);
+    }
+
+    if (data.length === 0) {
+      throw new DataParsingError("No data found in NDJSON", filename);
+    }
+
+    const recordCount = data.length;
+    const flatten = resolveFlattenOptions(options.flatten);
+    const flattened = flatten ? flattenRecords(data, flatten) : undefined;
+    if (flattened) {
+      data = flattened.data;
+    }
+
+    const allFields = new Set<string>();
+    data.forEach((row) => {
+      Object.keys(row).forEach((key) => allFields.add(key));
+    });
+
+    const schema = finalizeDataset(data, Array.from(allFields), options);
+    if (!schema) {
+      throw new DataParsingError(
+        "Invalid schema generated from NDJSON",
+        filename
+      );
+    }
+
+    if (flattened) {
+      annotateFlattenedSchema(schema, flattened.fields, flatten);
+    }
+
+    options.onProgress?.({
+      percentage: 100,
+      rowsParsed: recordCount,
+      currentRow: data[data.length - 1],
+    });
+
+    return {
+      id: datasetId(data, schema),
+      name: filename,
+      data,
+      schema,
+      sourceType: "json",
+      createdAt: new Date(),
+      metadata: {
+        parseTime: performance.now() - startTime,
+        rowCount: data.length,
+        columnCount: schema.fields.length,
+        format: "ndjson",
+        linesRead: lineNumber,
+        encoding: encoding.encoding,
+        encodingConfidence: encoding.confidence,
+        truncated,
+        ...(flatten && { flatten }),
+      },
+    };
+  }
+}
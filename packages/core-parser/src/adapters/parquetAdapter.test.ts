@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { datasetToParquet } from "@open-dashboard/core-schema";
+import type { ParsedDataset } from "@open-dashboard/shared/types";
+import { ParquetAdapter } from "./parquetAdapter";
+import { DataParsingError } from "./csvAdapter";
+
+const orders: ParsedDataset = {
+  id: "orders",
+  name: "orders",
+  sourceType: "csv",
+  createdAt: new Date(),
+  schema: {
+    fields: [
+      { name: "id", type: "number", nullable: false },
+      { name: "customer", type: "string", nullable: true },
+      { name: "orderedAt", type: "date", nullable: true },
+      { name: "status", type: "categorical", nullable: true },
+    ],
+  },
+  data: [
+    {
+      id: 1,
+      customer: "Acme",
+      orderedAt: new Date("2024-01-01T10:00:00Z"),
+      status: "open",
+    },
+    {
+      id: 2,
+      customer: null,
+      orderedAt: new Date("2024-01-02T11:30:00Z"),
+      status: "closed",
+    },
+    {
+      id: 3,
+      customer: "Initech",
+      orderedAt: null,
+      status: "open",
+    },
+  ],
+};
+
+async function buildParquetFile(
+  dataset = orders,
+  filename = "orders.parquet"
+): Promise<File> {
+  const { buffer } = await datasetToParquet(dataset);
+  return new File([buffer], filename);
+}
+
+describe("ParquetAdapter", () => {
+  let adapter: ParquetAdapter;
+
+  beforeEach(() => {
+    adapter = new ParquetAdapter();
+  });
+
+  describe("getSupportedTypes", () => {
+    it("should return Parquet extension and MIME type", () => {
+      expect(adapter.getSupportedTypes()).toEqual([
+        ".parquet",
+        "application/vnd.apache.parquet",
+      ]);
+    });
+  });
+
+  describe("validate", () => {
+    it("should validate Parquet files", () => {
+      expect(adapter.validate(new File([""], "DATA.PARQUET"))).toBe(true);
+      expect(
+        adapter.validate(
+          new File([""], "data", { type: "application/vnd.apache.parquet" })
+        )
+      ).toBe(true);
+    });
+
+    it("should reject other inputs", () => {
+      expect(adapter.validate(new File([""], "data.csv"))).toBe(false);
+      expect(adapter.validate("PAR1")).toBe(false);
+      expect(adapter.validate(null)).toBe(false);
+    });
+  });
+
+  describe("parse", () => {
+    it("should load data with the file's own schema", async () => {
+      const result = await adapter.parse(await buildParquetFile());
+
+      expect(result.name).toBe("orders.parquet");
+      expect(result.sourceType).toBe("parquet");
+      expect(result.schema.fields.map((f) => [f.name, f.type])).toEqual([
+        ["id", "number"],
+        ["customer", "string"],
+        ["orderedAt", "date"],
+        ["status", "categorical"],
+      ]);
+      expect(result.data).toEqual(orders.data);
+    });
+
+    it("should include parse metadata", async () => {
+      const result = await adapter.parse(await buildParquetFile());
+
+      expect(result.metadata).toMatchObject({
+        rowCount: 3,
+        columnCount: 4,
+        truncated: false,
+      });
+      expect(result.metadata?.parseTime).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should respect maxRows", async () => {
+      const result = await adapter.parse(await buildParquetFile(), {
+        maxRows: 2,
+      });
+
+      expect(result.data.map((row) => row.id)).toEqual([1, 2]);
+      expect(result.metadata?.truncated).toBe(true);
+    });
+
+    it("should report progress when done", async () => {
+      const progress: number[] = [];
+
+      await adapter.parse(await buildParquetFile(), {
+        onProgress: ({ percentage }) => progress.push(percentage),
+      });
+
+      expect(progress).toEqual([100]);
+    });
+  });
+
+  describe("parse - error handling", () => {
+    it("should throw for files that are not Parquet", async () => {
+      const file = new File(["id,name\n1,a"], "fake.parquet");
+
+      try {
+        await adapter.parse(file);
+        expect.fail("Should have thrown error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(DataParsingError);
+        expect((error as DataParsingError).message).toBe(
+          "Input is not a Parquet file"
+        );
+        expect((error as DataParsingError).filename).toBe("fake.parquet");
+      }
+    });
+
+    it("should throw DataParsingError for corrupt files", async () => {
+      const file = new File(["PAR1 garbage PAR1"], "broken.parquet");
+
+      await expect(adapter.parse(file)).rejects.toThrow(DataParsingError);
+    });
+
+    it("should throw for empty files", async () => {
+      const file = await buildParquetFile({ ...orders, data: [] });
+
+      await expect(adapter.parse(file)).rejects.toThrow(
+        "No data found in Parquet file"
+      );
+    });
+
+    it("should throw for string input", async () => {
+      await expect(adapter.parse("PAR1")).rejects.toThrow(
+        "Unsupported input type for Parquet parser"
+      );
+    });
+  });
+});
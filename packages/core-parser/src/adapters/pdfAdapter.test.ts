@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { PDFAdapter } from "./pdfAdapter";
+import { DataParsingError } from "./csvAdapter";
+
+type TextRun = [x: number, y: number, text: string];
+
+/**
+ * Builds a minimal PDF with one page per entry, placing each text run at
+ * its coordinates in 10pt Helvetica
+ */
+function buildPDF(pages: TextRun[][]): string {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+  const pagesId = 2 + pages.length * 2;
+  const pageIds: number[] = [];
+
+  for (const runs of pages) {
+    const content = runs
+      .map(([x, y, text]) => `BT /F1 10 Tf ${x} ${y} Td (${text}) Tj ET`)
+      .join("\n");
+    const contentId = add(
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+    pageIds.push(
+      add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 612 792] ` +
+          `/Contents ${contentId} 0 R /Resources << /Font << /F1 1 0 R >> >> >>`
+      )
+    );
+  }
+
+  add(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`
+  );
+  const catalogId = add(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\n`;
+  pdf += `startxref\n${xref}\n%%EOF`;
+
+  return pdf;
+}
+
+const expensesTable: TextRun[] = [
+  [50, 750, "Monthly expenses"],
+  [50, 700, "Category"],
+  [200, 700, "Amount"],
+  [300, 700, "Owner"],
+  [50, 685, "Rent"],
+  [200, 685, "1,500.00"],
+  [300, 685, "Facilities"],
+  [50, 670, "Travel"],
+  [200, 670, "320.5"],
+  [300, 670, "Sales"],
+  [50, 655, "Software"],
+  [200, 655, "89"],
+];
+
+const summaryTable: TextRun[] = [
+  [50, 700, "Quarter"],
+  [200, 700, "Total"],
+  [50, 685, "Q1"],
+  [200, 685, "4200"],
+];
+
+describe("PDFAdapter", () => {
+  let adapter: PDFAdapter;
+
+  beforeEach(() => {
+    adapter = new PDFAdapter();
+  });
+
+  describe("getSupportedTypes", () => {
+    it("should return PDF file extension and MIME type", () => {
+      expect(adapter.getSupportedTypes()).toEqual([".pdf", "application/pdf"]);
+    });
+  });
+
+  describe("validate", () => {
+    it("should validate PDF files and binary strings", () => {
+      expect(adapter.validate(new File([""], "report.PDF"))).toBe(true);
+      expect(
+        adapter.validate(new File([""], "report", { type: "application/pdf" }))
+      ).toBe(true);
+      expect(adapter.validate("%PDF-1.7\n...")).toBe(true);
+    });
+
+    it("should reject other inputs", () => {
+      expect(adapter.validate(new File([""], "report.csv"))).toBe(false);
+      expect(adapter.validate("a,b\n1,2")).toBe(false);
+      expect(adapter.validate(null)).toBe(false);
+    });
+  });
+
+  describe("parse", () => {
+    it("should extract a table into a dataset", async () => {
+      const file = new File([buildPDF([expensesTable])], "expenses.pdf", {
+        type: "application/pdf",
+      });
+
+      const result = await adapter.parse(file);
+
+      expect(result.name).toBe("expenses.pdf");
+      expect(result.sourceType).toBe("pdf");
+      expect(result.schema.fields.map((f) => f.name)).toEqual([
+        "Category",
+        "Amount",
+        "Owner",
+      ]);
+      expect(result.data).toEqual([
+        { Category: "Rent", Amount: 1500, Owner: "Facilities" },
+        { Category: "Travel", Amount: 320.5, Owner: "Sales" },
+        { Category: "Software", Amount: 89, Owner: null },
+      ]);
+      expect(result.schema.fields.find((f) => f.name === "Amount")?.type).toBe(
+        "number"
+      );
+    });
+
+    it("should record page and table provenance in metadata", async () => {
+      const result = await adapter.parse(buildPDF([expensesTable]));
+
+      expect(result.metadata?.pageCount).toBe(1);
+      expect(result.metadata?.table).toMatchObject({
+        index: 0,
+        page: 1,
+        indexOnPage: 0,
+      });
+      expect(result.metadata?.tables).toHaveLength(1);
+    });
+
+    it("should load the largest table and warn when there are several", async () => {
+      const result = await adapter.parse(
+        buildPDF([summaryTable, expensesTable])
+      );
+
+      expect(result.metadata?.table).toMatchObject({ index: 1, page: 2 });
+      expect(result.metadata?.warnings).toEqual([
+        expect.stringContaining("Found 2 tables"),
+      ]);
+    });
+
+    it("should load the table selected with pdf.table", async () => {
+      const result = await adapter.parse(
+        buildPDF([summaryTable, expensesTable]),
+        { pdf: { table: 0 } }
+      );
+
+      expect(result.data).toEqual([{ Quarter: "Q1", Total: 4200 }]);
+      expect(result.metadata?.warnings).toBeUndefined();
+    });
+
+    it("should only scan the requested pages", async () => {
+      const result = await adapter.parse(
+        buildPDF([summaryTable, expensesTable]),
+        { pdf: { pages: [1] } }
+      );
+
+      expect(result.metadata?.table).toMatchObject({ page: 1 });
+      expect(result.metadata?.tables).toHaveLength(1);
+    });
+
+    it("should name columns when there is no header row", async () => {
+      const result = await adapter.parse(buildPDF([summaryTable]), {
+        hasHeader: false,
+      });
+
+      expect(result.data[0]).toEqual({
+        column_1: "Quarter",
+        column_2: "Total",
+      });
+      expect(result.data).toHaveLength(2);
+    });
+
+    it("should keep cells as text when type inference is disabled", async () => {
+      const result = await adapter.parse(buildPDF([summaryTable]), {
+        inferTypes: false,
+      });
+
+      expect(result.data[0].Total).toBe("4200");
+    });
+
+    it("should respect maxRows", async () => {
+      const result = await adapter.parse(buildPDF([expensesTable]), {
+        maxRows: 2,
+      });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.metadata?.truncated).toBe(true);
+    });
+
+    it("should report progress per page", async () => {
+      const progress: number[] = [];
+
+      await adapter.parse(buildPDF([summaryTable, expensesTable]), {
+        onProgress: ({ percentage }) => progress.push(percentage),
+      });
+
+      expect(progress).toEqual([50, 100]);
+    });
+  });
+
+  describe("discoverTables", () => {
+    it("should list detected tables with their headers", async () => {
+      const tables = await adapter.discoverTables(
+        buildPDF([summaryTable, expensesTable])
+      );
+
+      expect(tables).toEqual([
+        expect.objectContaining({
+          index: 0,
+          page: 1,
+          rowCount: 2,
+          columnCount: 2,
+          header: ["Quarter", "Total"],
+        }),
+        expect.objectContaining({
+          index: 1,
+          page: 2,
+          rowCount: 4,
+          columnCount: 3,
+          header: ["Category", "Amount", "Owner"],
+        }),
+      ]);
+    });
+  });
+
+  describe("parse - error handling", () => {
+    it("should throw when the PDF has no tables", async () => {
+      await expect(
+        adapter.parse(buildPDF([[[50, 700, "Just a sentence."]]]))
+      ).rejects.toThrow("No tables found in PDF");
+    });
+
+    it("should throw for an unknown table index", async () => {
+      await expect(
+        adapter.parse(buildPDF([summaryTable]), { pdf: { table: 3 } })
+      ).rejects.toThrow("Table 3 not found");
+    });
+
+    it("should throw DataParsingError for corrupt files", async () => {
+      const file = new File(["%PDF-1.4 garbage"], "broken.pdf");
+
+      try {
+        await adapter.parse(file);
+        expect.fail("Should have thrown error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(DataParsingError);
+        expect((error as DataParsingError).filename).toBe("broken.pdf");
+      }
+    });
+
+    it("should throw for unsupported input", async () => {
+      await expect(adapter.parse("not a pdf")).rejects.toThrow(
+        "Input is not a PDF document"
+      );
+    });
+  });
+});
@@ -0,0 +1,334 @@
+import type {
+  DataAdapter,
+  DetectionSample,
+  ParsedDataset,
+} from "@open-dashboard/shared/types";
+import type { ParserOptions } from "../types/parser";
+import { finalizeDataset } from "../utils/schemaBuilder";
+import { detectTables, type PDFTable } from "../utils/pdfTables";
+import { datasetId } from "@open-dashboard/core-schema";
+import { DataParsingError } from "./csvAdapter";
+
+export interface PDFAdapterConfig {
+  /**
+   * URL of the pdf.js worker script. Required in browsers; Node runs the
+   * worker in-process without it.
+   */
+  workerSrc?: string;
+}
+
+export interface PDFTableSummary {
+  /** Index to pass as `pdf.table` */
+  index: number;
+  /** 1-based page number */
+  page: number;
+  rowCount: number;
+  columnCount: number;
+  /** Text of the table's first row */
+  header: string[];
+  /** Bounding box on the page in PDF units: [left, bottom, right, top] */
+  bbox: [number, number, number, number];
+}
+
+/**
+ * Adapter for tables in text-based PDF documents (e.g. exported reports).
+ *
+ * Text positions are read with pdf.js and rebuilt into rows and columns by
+ * {@link detectTables}. Scanned PDFs without a text layer yield no tables.
+ */
+export class PDFAdapter implements DataAdapter {
+  private readonly workerSrc?: string;
+
+  constructor(config: PDFAdapterConfig = {}) {
+    this.workerSrc = config.workerSrc;
+  }
+
+  getSupportedTypes(): string[] {
+    return [".pdf", "application/pdf"];
+  }
+
+  validate(input: unknown): boolean {
+    if (typeof input === "string") {
+      return input.startsWith("%PDF-");
+    }
+    if (input instanceof File) {
+      return (
+        input.name.toLowerCase().endsWith(".pdf") ||
+        input.type === "application/pdf"
+      );
+    }
+    return false;
+  }
+
+  detect(sample: DetectionSample): number {
+    return sample.text.startsWith("%PDF-") ? 0.99 : 0;
+  }
+
+  async parse(
+    input: string | File | URL,
+    options: ParserOptions = {}
+  ): Promise<ParsedDataset> {
+    const startTime = performance.now();
+    const { bytes, filename } = await this.readBytes(input, options);
+    const { tables, pageCount } = await this.extractTables(
+      bytes,
+      options,
+      filename
+    );
+
+    if (tables.length === 0) {
+      throw new DataParsingError("No tables found in PDF", filename);
+    }
+
+    const warnings: string[] = [];
+    const tableIndex = this.selectTable(tables, options, warnings, filename);
+    const table = tables[tableIndex];
+
+    const hasHeader = options.hasHeader !== false;
+    const columns = this.buildColumnNames(
+      hasHeader ? table.rows[0] : table.rows[0].map(() => "")
+    );
+    const rows = hasHeader ? table.rows.slice(1) : table.rows;
+    const limitedRows = options.maxRows ? rows.slice(0, options.maxRows) : rows;
+
+    const data = limitedRows.map((row) => {
+      const record: Record<string, unknown> = {};
+      columns.forEach((column, i) => {
+        record[column] = this.convertCell(row[i], options.inferTypes !== false);
+      });
+      return record;
+    });
+
+    if (data.length === 0) {
+      throw new DataParsingError("No data rows found in PDF table", filename);
+    }
+
+    const schema = finalizeDataset(data, columns, options);
+    if (!schema) {
+      throw new DataParsingError("Invalid schema generated from PDF", filename);
+    }
+
+    return {
+      id: datasetId(data, schema),
+      name: filename,
+      data,
+      schema,
+      sourceType: "pdf",
+      createdAt: new Date(),
+      metadata: {
+        parseTime: performance.now() - startTime,
+        rowCount: data.length,
+        columnCount: schema.fields.length,
+        pageCount,
+        table: {
+          index: tableIndex,
+          page: table.page,
+          indexOnPage: table.index,
+          bbox: table.bbox,
+        },
+        tables: tables.map((candidate, index) =>
+          this.summarize(candidate, index)
+        ),
+        truncated: data.length < rows.length,
+        ...(warnings.length > 0 && { warnings }),
+      },
+    };
+  }
+
+  /**
+   * Lists the tables detected in a PDF
+   *
+   * Lets callers (e.g. an upload dialog) ask the user which table to load
+   * and pass the chosen `index` back as `pdf.table`.
+   *
+   * @param input - PDF File, URL or binary string
+   * @param options - Page and detection settings (`pdf.pages`, `pdf.columnGap`)
+   */
+  async discoverTables(
+    input: string | File | URL,
+    options: ParserOptions = {}
+  ): Promise<PDFTableSummary[]> {
+    const { bytes, filename } = await this.readBytes(input, options);
+    const { tables } = await this.extractTables(bytes, options, filename);
+
+    return tables.map((table, index) => this.summarize(table, index));
+  }
+
+  private async readBytes(
+    input: string | File | URL,
+    options: ParserOptions
+  ): Promise<{ bytes: Uint8Array; filename: string }> {
+    if (typeof input === "string") {
+      if (!input.startsWith("%PDF-")) {
+        throw new DataParsingError("Input is not a PDF document");
+      }
+      // Binary string: one byte per character
+      return {
+        bytes: Uint8Array.from(input, (char) => char.charCodeAt(0) & 0xff),
+        filename: "unknown.pdf",
+      };
+    }
+    if (input instanceof File) {
+      return {
+        bytes: new Uint8Array(await input.arrayBuffer()),
+        filename: input.name,
+      };
+    }
+    if (input instanceof URL) {
+      const filename = input.pathname.split("/").pop() || "remote.pdf";
+      const response = await fetch(input, { signal: options.signal });
+      if (!response.ok) {
+        throw new DataParsingError(
+          `Failed to fetch PDF from ${input.toString()}: ${response.statusText}`,
+          filename
+        );
+      }
+      return {
+        bytes: new Uint8Array(await response.arrayBuffer()),
+        filename,
+      };
+    }
+    throw new DataParsingError("Unsupported input type for PDF parser");
+  }
+
+  private async extractTables(
+    bytes: Uint8Array,
+    options: ParserOptions,
+    filename: string
+  ): Promise<{ tables: PDFTable[]; pageCount: number }> {
+    const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+    if (this.workerSrc) {
+      pdfjs.GlobalWorkerOptions.workerSrc = this.workerSrc;
+    }
+
+    let document: Awaited<ReturnType<typeof pdfjs.getDocument>["promise"]>;
+    try {
+      document = await pdfjs.getDocument({
+        data: bytes,
+        isEvalSupported: false,
+        verbosity: pdfjs.VerbosityLevel.ERRORS,
+      }).promise;
+    } catch (error) {
+      throw new DataParsingError(
+        `Invalid PDF: ${error instanceof Error ? error.message : "Unknown error"}`,
+        filename
+      );
+    }
+
+    try {
+      const pageNumbers = (
+        options.pdf?.pages ??
+        Array.from({ length: document.numPages }, (_, i) => i + 1)
+      ).filter((page) => page >= 1 && page <= document.numPages);
+      const tables: PDFTable[] = [];
+
+      for (const [i, pageNumber] of pageNumbers.entries()) {
+        if (options.signal?.aborted) {
+          throw new DataParsingError("PDF parsing was aborted", filename);
+        }
+
+        const page = await document.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const items = content.items
+          .filter((item) => "str" in item)
+          .map((item) => ({
+            text: item.str,
+            x: item.transform[4],
+            y: item.transform[5],
+            width: item.width,
+            height:
+              item.height || Math.hypot(item.transform[2], item.transform[3]),
+          }));
+
+        tables.push(
+          ...detectTables(items, pageNumber, {
+            columnGap: options.pdf?.columnGap,
+          })
+        );
+
+        options.onProgress?.({
+          percentage: ((i + 1) / pageNumbers.length) * 100,
+          rowsParsed: tables.reduce((sum, table) => sum + table.rows.length, 0),
+        });
+      }
+
+      return { tables, pageCount: document.numPages };
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  /**
+   * Returns the index of the table to load, warning when the choice between
+   * several tables is ambiguous
+   */
+  private selectTable(
+    tables: PDFTable[],
+    options: ParserOptions,
+    warnings: string[],
+    filename: string
+  ): number {
+    const requested = options.pdf?.table;
+    if (requested !== undefined) {
+      if (!tables[requested]) {
+        throw new DataParsingError(
+          `Table ${requested} not found; the PDF contains ${tables.length} table(s)`,
+          filename
+        );
+      }
+      return requested;
+    }
+
+    const size = (table: PDFTable) => table.rows.length * table.rows[0].length;
+    const largest = tables.reduce(
+      (best, table, index) => (size(table) > size(tables[best]) ? index : best),
+      0
+    );
+
+    if (tables.length > 1) {
+      warnings.push(
+        `Found ${tables.length} tables (${tables
+          .map((table, index) => `${index}: page ${table.page}`)
+          .join(
+            ", "
+          )}). Loaded table ${largest}; set pdf.table to choose another.`
+      );
+    }
+
+    return largest;
+  }
+
+  private buildColumnNames(header: string[]): string[] {
+    const seen = new Map<string, number>();
+
+    return header.map((text, i) => {
+      const base = text.trim() || `column_${i + 1}`;
+      const count = (seen.get(base) ?? 0) + 1;
+      seen.set(base, count);
+      return count > 1 ? `${base}_${count}` : base;
+    });
+  }
+
+  private convertCell(text: string | undefined, inferTypes: boolean): unknown {
+    const value = text?.trim() ?? "";
+    if (value === "") {
+      return null;
+    }
+    // Plain numbers, optionally with thousands separators (1,234.50)
+    if (inferTypes && /^-?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/.test(value)) {
+      return Number(value.replace(/,/g, ""));
+    }
+    return value;
+  }
+
+  private summarize(table: PDFTable, index: number): PDFTableSummary {
+    return {
+      index,
+      page: table.page,
+      rowCount: table.rows.length,
+      columnCount: table.rows[0].length,
+      header: table.rows[0],
+      bbox: table.bbox,
+    };
+  }
+}
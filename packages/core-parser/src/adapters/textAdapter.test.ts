@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { TextAdapter } from "./textAdapter";
+import { DataParsingError } from "./csvAdapter";
+
+const accessLog = [
+  '10.0.0.1 - - [01/Feb/2024:08:00:01 +0000] "GET / HTTP/1.1" 200 512 "-" "curl/8.0"',
+  '10.0.0.2 - - [01/Feb/2024:08:00:02 +0000] "POST /login HTTP/1.1" 302 0 "-" "Mozilla/5.0"',
+  '10.0.0.1 - - [01/Feb/2024:08:00:03 +0000] "GET /missing HTTP/1.1" 404 153 "-" "curl/8.0"',
+].join("\n");
+
+const appLog = [
+  "2024-03-01T10:15:00Z INFO Service started",
+  "2024-03-01T10:15:05Z ERROR Payment failed",
+  "java.lang.IllegalStateException: card declined",
+  "    at com.shop.Payments.charge(Payments.java:42)",
+  "    at com.shop.Checkout.run(Checkout.java:17)",
+  "2024-03-01T10:15:06Z WARN Retrying payment",
+].join("\n");
+
+describe("TextAdapter", () => {
+  let adapter: TextAdapter;
+
+  beforeEach(() => {
+    adapter = new TextAdapter();
+  });
+
+  describe("getSupportedTypes", () => {
+    it("should return log and text file types", () => {
+      expect(adapter.getSupportedTypes()).toEqual([
+        ".log",
+        ".txt",
+        "text/x-log",
+      ]);
+    });
+  });
+
+  describe("validate", () => {
+    it("should validate non-empty strings and log files", () => {
+      expect(adapter.validate("some text")).toBe(true);
+      expect(adapter.validate(new File([""], "app.log"))).toBe(true);
+      expect(adapter.validate(new File([""], "notes.txt"))).toBe(true);
+    });
+
+    it("should reject other inputs", () => {
+      expect(adapter.validate("  \n")).toBe(false);
+      expect(adapter.validate(new File([""], "data.csv"))).toBe(false);
+      expect(adapter.validate(42)).toBe(false);
+    });
+  });
+
+  describe("parse - built-in formats", () => {
+    it("should parse access logs with an explicit format", async () => {
+      const result = await adapter.parse(accessLog, {
+        text: { format: "nginx" },
+      });
+
+      expect(result.sourceType).toBe("text");
+      expect(result.data).toHaveLength(3);
+      expect(result.data[1]).toMatchObject({
+        clientip: "10.0.0.2",
+        method: "POST",
+        request: "/login",
+        status: 302,
+      });
+      expect(result.metadata?.format).toBe("nginx");
+      expect(result.schema.fields.find((f) => f.name === "status")?.type).toBe(
+        "integer"
+      );
+    });
+
+    it("should detect the format when none is given", async () => {
+      const result = await adapter.parse(
+        "Oct 11 22:14:15 web01 sshd[812]: Accepted publickey\n" +
+          "Oct 11 22:14:16 web01 cron[90]: Job started"
+      );
+
+      expect(result.metadata?.format).toBe("syslog");
+      expect(result.data.map((row) => row.program)).toEqual(["sshd", "cron"]);
+    });
+
+    it("should fall back to one row per line for unstructured text", async () => {
+      const result = await adapter.parse("first note\n\nsecond note\r\n");
+
+      expect(result.metadata?.format).toBe("lines");
+      expect(result.data).toEqual([
+        { lineNumber: 1, text: "first note" },
+        { lineNumber: 3, text: "second note" },
+      ]);
+    });
+  });
+
+  describe("parse - custom patterns", () => {
+    it("should extract named groups from a regular expression", async () => {
+      const result = await adapter.parse("cpu=12 mem=40\ncpu=15 mem=42", {
+        text: { pattern: /cpu=(?<cpu>\d+) mem=(?<mem>\d+)/ },
+      });
+
+      expect(result.data).toEqual([
+        { cpu: "12", mem: "40" },
+        { cpu: "15", mem: "42" },
+      ]);
+      expect(result.metadata?.format).toBe("custom");
+    });
+
+    it("should extract fields from a grok expression", async () => {
+      const result = await adapter.parse("job=42 took 1.5s\njob=43 took 0.2s", {
+        text: {
+          pattern: "job=%{JOBID:job:int} took %{NUMBER:seconds:float}s",
+          grokPatterns: { JOBID: "%{INT}" },
+        },
+      });
+
+      expect(result.data).toEqual([
+        { job: 42, seconds: 1.5 },
+        { job: 43, seconds: 0.2 },
+      ]);
+    });
+
+    it("should throw DataParsingError for invalid patterns", async () => {
+      await expect(
+        adapter.parse("x", { text: { pattern: "%{MISSING:x}" } })
+      ).rejects.toThrow(DataParsingError);
+      await expect(
+        adapter.parse("x", { text: { pattern: "(?<a>" } })
+      ).rejects.toThrow("Invalid text pattern");
+    });
+  });
+
+  describe("parse - unmatched lines", () => {
+    it("should count unmatched lines and report them as warnings", async () => {
+      const content = `${accessLog}\n-- log rotated --\ngarbage`;
+
+      const result = await adapter.parse(content, {
+        text: { format: "apache" },
+      });
+
+      expect(result.data).toHaveLength(3);
+      expect(result.metadata?.unmatchedLines).toBe(2);
+      expect(result.metadata?.warnings).toEqual([
+        '2 line(s) did not match the apache pattern (line 4: "-- log rotated --"; line 5: "garbage")',
+      ]);
+    });
+
+    it("should throw when no line matches", async () => {
+      await expect(
+        adapter.parse("nothing here", { text: { format: "syslog" } })
+      ).rejects.toThrow("No lines matched the syslog pattern");
+    });
+  });
+
+  describe("parse - multi-line records", () => {
+    it("should join continuation lines into the previous record", async () => {
+      const result = await adapter.parse(appLog, {
+        text: { format: "app", multiline: true },
+      });
+
+      expect(result.data).toHaveLength(3);
+      expect(result.data[1].level).toBe("ERROR");
+      expect(result.data[1].message).toBe(
+        "Payment failed\n" +
+          "java.lang.IllegalStateException: card declined\n" +
+          "    at com.shop.Payments.charge(Payments.java:42)\n" +
+          "    at com.shop.Checkout.run(Checkout.java:17)"
+      );
+      expect(result.metadata?.unmatchedLines).toBe(0);
+    });
+
+    it("should detect the format of multi-line logs", async () => {
+      const result = await adapter.parse(appLog, {
+        text: { multiline: true },
+      });
+
+      expect(result.metadata?.format).toBe("app");
+      expect(result.data).toHaveLength(3);
+    });
+
+    it("should start records at an explicit start pattern", async () => {
+      const content = "BEGIN a\nline 1\nBEGIN b\nline 2\nline 3";
+
+      const result = await adapter.parse(content, {
+        text: {
+          pattern: /^BEGIN (?<name>\w+)\n(?<body>.*)/,
+          multiline: { startPattern: "^BEGIN " },
+        },
+      });
+
+      expect(result.data).toEqual([
+        { name: "a", body: "line 1" },
+        { name: "b", body: "line 2\nline 3" },
+      ]);
+    });
+
+    it("should report continuation lines before the first record", async () => {
+      const result = await adapter.parse(
+        `    at orphan.frame(Unknown)\n${appLog}`,
+        { text: { format: "app", multiline: true } }
+      );
+
+      expect(result.metadata?.unmatchedLines).toBe(1);
+    });
+  });
+
+  describe("parse - options", () => {
+    it("should parse File inputs across chunk boundaries", async () => {
+      const file = new File([accessLog], "access.log");
+
+      const result = await adapter.parse(file, { chunkSize: 16 });
+
+      expect(result.name).toBe("access.log");
+      expect(result.data).toHaveLength(3);
+      expect(result.metadata?.format).toBe("apache");
+    });
+
+    it("should stop after maxRows records", async () => {
+      const result = await adapter.parse(accessLog, {
+        maxRows: 2,
+        text: { format: "apache" },
+      });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.metadata?.truncated).toBe(true);
+    });
+
+    it("should abort when the signal fires", async () => {
+      const controller = new AbortController();
+      const content = Array.from({ length: 100 }, (_, i) => `line ${i}`).join(
+        "\n"
+      );
+
+      await expect(
+        adapter.parse(content, {
+          chunkSize: 16,
+          signal: controller.signal,
+          onProgress: () => controller.abort(),
+        })
+      ).rejects.toThrow("Text parsing was aborted");
+    });
+
+    it("should throw for empty input", async () => {
+      await expect(adapter.parse("\n \n")).rejects.toThrow(
+        "No data found in text"
+      );
+    });
+  });
+});
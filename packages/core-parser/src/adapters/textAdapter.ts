@@ -0,0 +1,373 @@
+import type {
+  DataAdapter,
+  DetectionSample,
+  ParsedDataset,
+} from "@open-dashboard/shared/types";
+import type { ParserOptions, TextSourceOptions } from "../types/parser";
+import { finalizeDataset } from "../utils/schemaBuilder";
+import { chunkPercentage, readTextChunks } from "../utils/streaming";
+import {
+  LOG_FORMATS,
+  compileGrok,
+  compileRegex,
+  type CompiledPattern,
+  type LogFormat,
+} from "../utils/grok";
+import { isBinarySample, sampleLines } from "../utils/sniff";
+import { isSupportedEncoding, type EncodingDetection } from "../utils/encoding";
+import { datasetId } from "@open-dashboard/core-schema";
+import { DataParsingError } from "./csvAdapter";
+
+/** Number of leading lines used to detect a built-in log format */
+const DETECTION_SAMPLE_SIZE = 20;
+
+/** Number of unmatched lines quoted in warnings */
+const MAX_UNMATCHED_EXAMPLES = 3;
+
+/**
+ * Adapter for plain-text and log files.
+ *
+ * Each line (or multi-line record) is matched against a named-capture regex
+ * or grok expression and its captures become the row's fields. Without a
+ * pattern, a built-in log format is detected from the first lines; if none
+ * fits, every line becomes a `{ lineNumber, text }` row.
+ */
+export class TextAdapter implements DataAdapter {
+  getSupportedTypes(): string[] {
+    return [".log", ".txt", "text/x-log"];
+  }
+
+  validate(input: unknown): boolean {
+    if (typeof input === "string") {
+      return input.trim() !== "";
+    }
+    if (input instanceof File) {
+      const name = input.name.toLowerCase();
+      return (
+        name.endsWith(".log") ||
+        name.endsWith(".txt") ||
+        input.type === "text/x-log"
+      );
+    }
+    return false;
+  }
+
+  detect(sample: DetectionSample): number {
+    if (isBinarySample(sample)) return 0;
+    const lines = sampleLines(sample, DETECTION_SAMPLE_SIZE);
+    if (lines.length === 0) return 0;
+
+    const format = this.detectFormat(lines, false);
+    if (!format) {
+      // Any text can be loaded line by line, so stay a last resort
+      return 0.1;
+    }
+    const { regex } = compileGrok(LOG_FORMATS[format]);
+    const matches = lines.filter((line) => regex.test(line)).length;
+    return 0.9 * (matches / lines.length);
+  }
+
+  async parse(
+    input: string | File | URL,
+    options: ParserOptions = {}
+  ): Promise<ParsedDataset> {
+    const startTime = performance.now();
+    const textOptions = options.text ?? {};
+    let source: Blob | ReadableStream<Uint8Array>;
+    let totalBytes: number | undefined;
+    let filename = "unknown.log";
+
+    if (typeof input === "string") {
+      source = new Blob([input]);
+    } else if (input instanceof File) {
+      filename = input.name;
+      source = input;
+    } else if (input instanceof URL) {
+      filename = input.pathname.split("/").pop() || "remote.log";
+      const response = await fetch(input, { signal: options.signal });
+      if (!response.ok) {
+        throw new DataParsingError(
+          `Failed to fetch text from ${input.toString()}: ${response.statusText}`,
+          filename
+        );
+      }
+      if (response.body) {
+        source = response.body;
+        totalBytes =
+          Number(response.headers.get("content-length")) || undefined;
+      } else {
+        source = await response.blob();
+      }
+    } else {
+      throw new DataParsingError("Unsupported input type for text parser");
+    }
+    if (options.encoding && !isSupportedEncoding(options.encoding)) {
+      throw new DataParsingError(
+        `Unsupported encoding "${options.encoding}"`,
+        filename
+      );
+    }
+    let encoding: EncodingDetection = { encoding: "UTF-8", confidence: 1 };
+
+    const multiline = Boolean(textOptions.multiline);
+    let format: LogFormat | "custom" | "lines" | undefined;
+    let pattern: CompiledPattern | undefined;
+    let startPattern: RegExp | undefined;
+
+    try {
+      if (textOptions.pattern !== undefined) {
+        format = "custom";
+        pattern = this.compilePattern(textOptions, multiline);
+      } else if (textOptions.format) {
+        format = textOptions.format;
+        pattern = compileGrok(LOG_FORMATS[format], {}, multiline ? "s" : "");
+      }
+      if (typeof textOptions.multiline === "object") {
+        const start = textOptions.multiline.startPattern;
+        startPattern = start instanceof RegExp ? start : new RegExp(start);
+      }
+    } catch (error) {
+      throw new DataParsingError(
+        `Invalid text pattern: ${error instanceof Error ? error.message : "Unknown error"}`,
+        filename
+      );
+    }
+
+    const data: Record<string, unknown>[] = [];
+    const unmatchedExamples: { line: number; text: string }[] = [];
+    let unmatched = 0;
+    let lineNumber = 0;
+    let pendingLine = "";
+    let record: { text: string; line: number } | undefined;
+    let truncated = false;
+
+    const limitReached = () =>
+      options.maxRows !== undefined && data.length >= options.maxRows;
+
+    const reportUnmatched = (line: number, text: string) => {
+      unmatched++;
+      if (unmatchedExamples.length < MAX_UNMATCHED_EXAMPLES) {
+        unmatchedExamples.push({ line, text });
+      }
+    };
+
+    const emit = (text: string, line: number) => {
+      if (!pattern) {
+        data.push({ lineNumber: line, text });
+        return;
+      }
+      const fields = pattern.match(text);
+      if (fields) {
+        data.push(fields);
+      } else {
+        reportUnmatched(line, text);
+      }
+    };
+
+    const isRecordStart = (line: string) =>
+      startPattern ? startPattern.test(line) : pattern?.regex.test(line);
+
+    const processLine = (rawLine: string) => {
+      lineNumber++;
+      const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+      if (line.trim() === "") return;
+
+      if (!multiline || !pattern) {
+        emit(line, lineNumber);
+        return;
+      }
+
+      if (isRecordStart(line)) {
+        if (record) emit(record.text, record.line);
+        record = { text: line, line: lineNumber };
+      } else if (record) {
+        record.text += `\n${line}`;
+      } else {
+        reportUnmatched(lineNumber, line);
+      }
+    };
+
+    // Lines are held back until enough are available to detect the format
+    let detectionBuffer: string[] | undefined =
+      format === undefined ? [] : undefined;
+
+    const detect = (extraLine?: string) => {
+      const lines = detectionBuffer ?? [];
+      const sample = [...lines, extraLine ?? ""].filter(
+        (line) => line.trim() !== ""
+      );
+      const detected = this.detectFormat(sample, multiline);
+      format = detected ?? "lines";
+      if (detected) {
+        pattern = compileGrok(LOG_FORMATS[detected], {}, multiline ? "s" : "");
+      }
+      detectionBuffer = undefined;
+      for (const line of lines) {
+        processLine(line);
+        if (limitReached()) break;
+      }
+    };
+
+    for await (const chunk of readTextChunks(source, {
+      chunkSize: options.chunkSize,
+      totalBytes,
+      signal: options.signal,
+      // Strings are wrapped in a UTF-8 Blob
+      encoding: typeof input === "string" ? "UTF-8" : options.encoding,
+    })) {
+      encoding = chunk.encoding ?? encoding;
+      const lines = (pendingLine + chunk.text).split("\n");
+      pendingLine = lines.pop() ?? "";
+
+      if (detectionBuffer) {
+        detectionBuffer.push(...lines);
+        if (
+          detectionBuffer.filter((line) => line.trim() !== "").length >=
+          DETECTION_SAMPLE_SIZE
+        ) {
+          detect();
+        }
+      } else {
+        for (const line of lines) {
+          processLine(line);
+          if (limitReached()) break;
+        }
+      }
+
+      options.onProgress?.({
+        percentage: chunkPercentage(chunk),
+        rowsParsed: data.length,
+        currentRow: data[data.length - 1],
+        bytesRead: chunk.bytesRead,
+        totalBytes: chunk.totalBytes,
+      });
+
+      if (limitReached()) {
+        truncated = true;
+        break;
+      }
+    }
+
+    if (detectionBuffer && !options.signal?.aborted) {
+      detect(pendingLine);
+      truncated = limitReached();
+    }
+
+    if (options.signal?.aborted) {
+      throw new DataParsingError("Text parsing was aborted", filename);
+    }
+
+    if (!truncated) {
+      if (pendingLine !== "") processLine(pendingLine);
+      if (record && !limitReached()) emit(record.text, record.line);
+    }
+
+    if (data.length === 0) {
+      throw new DataParsingError(
+        unmatched > 0
+          ? `No lines matched the ${format} pattern`
+          : "No data found in text",
+        filename
+      );
+    }
+
+    const allFields = new Set<string>(pattern?.fields);
+    data.forEach((row) => {
+      Object.keys(row).forEach((key) => allFields.add(key));
+    });
+
+    // Captured values stay as written; grok types convert them explicitly
+    const schema = finalizeDataset(data, Array.from(allFields), {
+      ...options,
+      inferTypes: false,
+    });
+    if (!schema) {
+      throw new DataParsingError(
+        "Invalid schema generated from text",
+        filename
+      );
+    }
+
+    const warnings: string[] = [];
+    if (unmatched > 0) {
+      const examples = unmatchedExamples
+        .map(({ line, text }) => `line ${line}: "${truncate(text, 80)}"`)
+        .join("; ");
+      warnings.push(
+        `${unmatched} line(s) did not match the ${format} pattern (${examples})`
+      );
+    }
+
+    options.onProgress?.({
+      percentage: 100,
+      rowsParsed: data.length,
+      currentRow: data[data.length - 1],
+    });
+
+    return {
+      id: datasetId(data, schema),
+      name: filename,
+      data,
+      schema,
+      sourceType: "text",
+      createdAt: new Date(),
+      metadata: {
+        parseTime: performance.now() - startTime,
+        rowCount: data.length,
+        columnCount: schema.fields.length,
+        format,
+        linesRead: lineNumber,
+        encoding: encoding.encoding,
+        encodingConfidence: encoding.confidence,
+        unmatchedLines: unmatched,
+        truncated,
+        ...(warnings.length > 0 && { warnings }),
+      },
+    };
+  }
+
+  private compilePattern(
+    options: TextSourceOptions,
+    multiline: boolean
+  ): CompiledPattern {
+    const flags = multiline ? "s" : "";
+    const pattern = options.pattern as RegExp | string;
+
+    if (typeof pattern === "string" && pattern.includes("%{")) {
+      return compileGrok(pattern, options.grokPatterns, flags);
+    }
+    return compileRegex(pattern, flags);
+  }
+
+  /**
+   * Picks the built-in format matching most of the sample lines
+   */
+  private detectFormat(
+    lines: string[],
+    multiline: boolean
+  ): LogFormat | undefined {
+    const sample = lines.slice(0, DETECTION_SAMPLE_SIZE);
+    if (sample.length === 0) return undefined;
+
+    // Continuation lines of multi-line records never match a format
+    const required = multiline ? 1 : Math.ceil(sample.length / 2);
+    let best: { format: LogFormat; matches: number } | undefined;
+
+    for (const format of Object.keys(LOG_FORMATS) as LogFormat[]) {
+      const { regex } = compileGrok(LOG_FORMATS[format]);
+      const matches = sample.filter((line) => regex.test(line)).length;
+      if (matches >= required && matches > (best?.matches ?? 0)) {
+        best = { format, matches };
+      }
+    }
+
+    return best?.format;
+  }
+}
+
+function truncate(text: string, length: number): string {
+  const firstLine = text.split("\n")[0];
+  return firstLine.length > length
+    ? `${firstLine.slice(0, length - 1)}…`
+    : firstLine;
+}
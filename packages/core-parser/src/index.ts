@@ -1,38 +1,106 @@
 import { CSVAdapter } from "./adapters/csvAdapter";
 import { JSONAdapter } from "./adapters/jsonAdapter";
+import { NDJSONAdapter } from "./adapters/ndjsonAdapter";
+import { APIAdapter } from "./adapters/apiAdapter";
+import { PDFAdapter } from "./adapters/pdfAdapter";
+import { TextAdapter } from "./adapters/textAdapter";
+import { ExcelAdapter } from "./adapters/excelAdapter";
+import { ParquetAdapter } from "./adapters/parquetAdapter";
 import { defaultRegistry } from "./registry/AdapterRegistry";
+import { applyRecipe } from "./utils/recipe";
 
 // Register default adapters
 defaultRegistry.register("csv", new CSVAdapter());
 defaultRegistry.register("json", new JSONAdapter());
+defaultRegistry.register("ndjson", new NDJSONAdapter());
+defaultRegistry.register("api", new APIAdapter());
+defaultRegistry.register("pdf", new PDFAdapter());
+defaultRegistry.register("text", new TextAdapter());
+defaultRegistry.register("excel", new ExcelAdapter());
+defaultRegistry.register("parquet", new ParquetAdapter());
 
 // Export everything
 export { CSVAdapter, DataParsingError } from "./adapters/csvAdapter";
 export { JSONAdapter } from "./adapters/jsonAdapter";
+export { NDJSONAdapter } from "./adapters/ndjsonAdapter";
+export { APIAdapter } from "./adapters/apiAdapter";
+export { PDFAdapter } from "./adapters/pdfAdapter";
+export { TextAdapter } from "./adapters/textAdapter";
+export { ExcelAdapter } from "./adapters/excelAdapter";
+export { ParquetAdapter } from "./adapters/parquetAdapter";
+export type { PDFAdapterConfig, PDFTableSummary } from "./adapters/pdfAdapter";
+export type { ExcelSheetSummary } from "./adapters/excelAdapter";
 export { AdapterRegistry, defaultRegistry } from "./registry/AdapterRegistry";
+export { ParserWorkerPool } from "./worker/ParserWorkerPool";
+export type {
+  ParserWorkerPoolOptions,
+  WorkerParseResult,
+} from "./worker/ParserWorkerPool";
 
 export * from "./utils/typeInference";
+export * from "./utils/semanticInference";
+export * from "./utils/sampling";
 export * from "./utils/schemaBuilder";
+export * from "./utils/recordPath";
+export * from "./utils/flatten";
+export * from "./utils/http";
+export * from "./utils/pdfTables";
+export * from "./utils/grok";
+export * from "./utils/sniff";
+export * from "./utils/encoding";
+export * from "./utils/expression";
+export * from "./utils/recipe";
+// Fingerprints live in core-schema so its converters can name datasets too
+export {
+  datasetId,
+  fingerprintDataset,
+  hashSchema,
+  hashRows,
+  compareDatasets,
+  type DatasetFingerprint,
+  type DatasetRelation,
+  type DatasetComparison,
+} from "@open-dashboard/core-schema";
+export * from "./utils/append";
+export * from "./utils/schemaDiff";
 export * from "./types/parser";
 
-// Convenience function
+// Convenience function. Without an adapter name the format is detected from
+// the input's content, and the outcome is stored as `metadata.detection`.
+// A `recipe` option is applied to the parsed dataset; see `applyRecipe`.
 export async function parseData(
   input: string | File | URL,
   adapterName?: string,
   options?: import("./types/parser").ParserOptions
 ) {
-  let adapter;
+  const dataset = await parseWithAdapter(input, adapterName, options);
+  return options?.recipe?.length
+    ? applyRecipe(dataset, options.recipe, options)
+    : dataset;
+}
 
+async function parseWithAdapter(
+  input: string | File | URL,
+  adapterName?: string,
+  options?: import("./types/parser").ParserOptions
+) {
   if (adapterName) {
-    adapter = defaultRegistry.get(adapterName);
-  } else if (input instanceof File) {
-    const ext = input.name.split(".").pop();
-    adapter = ext ? defaultRegistry.getByFileExtension(ext) : undefined;
+    const adapter = defaultRegistry.get(adapterName);
+    if (!adapter) {
+      throw new Error("No suitable adapter found for the input");
+    }
+    return adapter.parse(input, options);
   }
 
-  if (!adapter) {
+  const detected = await defaultRegistry.detect(input);
+  if (!detected) {
     throw new Error("No suitable adapter found for the input");
   }
 
-  return adapter.parse(input, options);
+  const dataset = await detected.adapter.parse(input, options);
+  const detection: import("./types/parser").ParseDetection = {
+    adapter: detected.name,
+    confidence: detected.confidence,
+  };
+  return { ...dataset, metadata: { ...dataset.metadata, detection } };
 }
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import * as XLSX from "xlsx";
+import { datasetToParquet } from "@open-dashboard/core-schema";
+import { AdapterRegistry } from "./AdapterRegistry";
+import { CSVAdapter } from "../adapters/csvAdapter";
+import { JSONAdapter } from "../adapters/jsonAdapter";
+import { NDJSONAdapter } from "../adapters/ndjsonAdapter";
+import { APIAdapter } from "../adapters/apiAdapter";
+import { PDFAdapter } from "../adapters/pdfAdapter";
+import { TextAdapter } from "../adapters/textAdapter";
+import { ExcelAdapter } from "../adapters/excelAdapter";
+import { ParquetAdapter } from "../adapters/parquetAdapter";
+import { parseData } from "../index";
+
+const csv = "id,name,amount\n1,Alice,10.5\n2,Bob,20\n3,Carol,7.25";
+
+const accessLog = [
+  '10.0.0.1 - - [01/Feb/2024:08:00:01 +0000] "GET / HTTP/1.1" 200 512 "-" "curl/8.0"',
+  '10.0.0.2 - - [01/Feb/2024:08:00:02 +0000] "POST /login HTTP/1.1" 302 0 "-" "Mozilla/5.0"',
+  '10.0.0.1 - - [01/Feb/2024:08:00:03 +0000] "GET /missing HTTP/1.1" 404 153 "-" "curl/8.0"',
+].join("\n");
+
+function buildWorkbook(filename: string): File {
+  const workbook = XLSX.utils.book_new();
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ["id", "name"],
+    [1, "Alice"],
+  ]);
+  XLSX.utils.book_append_sheet(workbook, sheet, "Sheet1");
+  return new File([XLSX.write(workbook, { type: "array" })], filename);
+}
+
+async function buildParquet(filename: string): Promise<File> {
+  const { buffer } = await datasetToParquet({
+    id: "orders",
+    name: "orders",
+    sourceType: "csv",
+    createdAt: new Date(),
+    schema: { fields: [{ name: "id", type: "number" }] },
+    data: [{ id: 1 }, { id: 2 }],
+  });
+  return new File([buffer], filename);
+}
+
+describe("AdapterRegistry", () => {
+  let registry: AdapterRegistry;
+
+  beforeEach(() => {
+    registry = new AdapterRegistry();
+    registry.register("csv", new CSVAdapter());
+    registry.register("json", new JSONAdapter());
+    registry.register("ndjson", new NDJSONAdapter());
+    registry.register("api", new APIAdapter());
+    registry.register("pdf", new PDFAdapter());
+    registry.register("text", new TextAdapter());
+    registry.register("excel", new ExcelAdapter());
+    registry.register("parquet", new ParquetAdapter());
+  });
+
+  describe("lookup", () => {
+    it("should find adapters by name, extension and MIME type", () => {
+      expect(registry.get("csv")).toBeInstanceOf(CSVAdapter);
+      expect(registry.getByFileExtension("JSONL")).toBeInstanceOf(
+        NDJSONAdapter
+      );
+      expect(registry.getByMimeType("application/pdf")).toBeInstanceOf(
+        PDFAdapter
+      );
+      expect(registry.get("missing")).toBeUndefined();
+    });
+
+    it("should list adapters in registration order", () => {
+      expect(registry.list()).toEqual([
+        "csv",
+        "json",
+        "ndjson",
+        "api",
+        "pdf",
+        "text",
+        "excel",
+        "parquet",
+      ]);
+    });
+  });
+
+  describe("detect", () => {
+    it.each([
+      ["CSV", csv, "csv"],
+      ["semicolon-delimited", "a;b;c\n1;2;3\n4;5;6", "csv"],
+      ["a JSON document", '[{"id": 1}, {"id": 2}]', "json"],
+      ["NDJSON", '{"id": 1}\n{"id": 2}\n{"id": 3}', "ndjson"],
+      ["an access log", accessLog, "text"],
+      ["an API address", "https://api.example.com/v1/users", "api"],
+    ])("should detect %s strings", async (_, input, expected) => {
+      const result = await registry.detect(input);
+
+      expect(result?.name).toBe(expected);
+      expect(result?.confidence).toBeGreaterThan(0.8);
+    });
+
+    it("should fall back to the text adapter with low confidence", async () => {
+      const result = await registry.detect("Just a sentence of prose.");
+
+      expect(result?.name).toBe("text");
+      expect(result?.confidence).toBeLessThan(0.2);
+    });
+
+    it("should return undefined when nothing matches", async () => {
+      expect(await registry.detect("")).toBeUndefined();
+    });
+
+    it("should detect binary formats by their magic bytes", async () => {
+      const pdf = new File(["%PDF-1.7\n1 0 obj"], "download");
+
+      expect((await registry.detect(pdf))?.name).toBe("pdf");
+      expect((await registry.detect(buildWorkbook("download")))?.name).toBe(
+        "excel"
+      );
+      expect(
+        (await registry.detect(await buildParquet("download")))?.name
+      ).toBe("parquet");
+    });
+
+    it("should let content outweigh a misleading extension", async () => {
+      const result = await registry.detect(await buildParquet("orders.csv"));
+
+      expect(result?.name).toBe("parquet");
+      expect(result?.candidates.map((candidate) => candidate.name)).toEqual([
+        "parquet",
+        "csv",
+      ]);
+    });
+
+    it("should combine content, extension and MIME type", async () => {
+      const named = await registry.detect(new File([csv], "data.csv"));
+      const typed = await registry.detect(
+        new File([csv], "data.csv", { type: "text/csv" })
+      );
+      const txt = await registry.detect(new File([csv], "export.txt"));
+
+      expect(named?.name).toBe("csv");
+      expect(typed?.confidence).toBeGreaterThan(named?.confidence ?? 1);
+      expect(txt?.name).toBe("csv");
+    });
+
+    it("should sniff files in other encodings", async () => {
+      const text = "name,city\nZoë,Zürich\nAli,Köln";
+      const utf16 = new Uint8Array(text.length * 2);
+      Array.from(text).forEach((char, i) => {
+        utf16[i * 2] = char.charCodeAt(0);
+      });
+
+      const result = await registry.detect(new File([utf16], "download"));
+
+      expect(result?.name).toBe("csv");
+    });
+
+    it("should rank candidates best first", async () => {
+      const result = await registry.detect('{"id": 1}');
+      const confidences = result?.candidates.map((c) => c.confidence) ?? [];
+
+      expect(result?.name).toBe("json");
+      expect(result?.candidates.map((c) => c.name)).toContain("ndjson");
+      expect(confidences).toEqual([...confidences].sort((a, b) => b - a));
+    });
+
+    it("should judge URLs by their address", async () => {
+      const file = await registry.detect(
+        new URL("https://example.com/exports/orders.csv")
+      );
+      const api = await registry.detect(
+        new URL("https://api.example.com/v1/orders")
+      );
+
+      expect(file?.name).toBe("csv");
+      expect(api?.name).toBe("api");
+    });
+  });
+});
+
+describe("parseData", () => {
+  it("should store the detected adapter and confidence", async () => {
+    const result = await parseData(csv);
+
+    expect(result.sourceType).toBe("csv");
+    expect(result.metadata?.detection).toEqual({
+      adapter: "csv",
+      confidence: expect.any(Number),
+    });
+  });
+
+  it("should use an explicit adapter without detection", async () => {
+    const result = await parseData('{"id": 1}\n{"id": 2}', "ndjson");
+
+    expect(result.data).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(result.metadata?.detection).toBeUndefined();
+  });
+
+  it("should replay a stored recipe on the parsed dataset", async () => {
+    const recipe = [{ op: "filter" as const, expression: "id > 1" }];
+
+    const result = await parseData('{"id": 1}\n{"id": 2}', "ndjson", {
+      recipe,
+    });
+
+    expect(result.data).toEqual([{ id: 2 }]);
+    expect(result.metadata?.recipe).toEqual(recipe);
+  });
+
+  it("should throw when no adapter fits", async () => {
+    await expect(parseData("")).rejects.toThrow(
+      "No suitable adapter found for the input"
+    );
+    await expect(parseData(csv, "missing")).rejects.toThrow(
+      "No suitable adapter found for the input"
+    );
+  });
+});
@@ -1,5 +1,14 @@
 import type { DataAdapter } from "@open-dashboard/shared/types";
-import type { AdapterRegistry as IAdapterRegistry } from "../types/parser";
+import type {
+  AdapterRegistry as IAdapterRegistry,
+  DetectionResult,
+} from "../types/parser";
+import { readDetectionSample } from "../utils/sniff";
+
+// How strongly a matching file extension or MIME type counts towards the
+// detection confidence, next to the adapter's own content score
+const EXTENSION_WEIGHT = 0.6;
+const MIME_TYPE_WEIGHT = 0.5;
 
 export class AdapterRegistry implements IAdapterRegistry {
   private adapters = new Map<string, DataAdapter>();
@@ -41,6 +50,49 @@ export class AdapterRegistry implements IAdapterRegistry {
   list(): string[] {
     return Array.from(this.adapters.keys());
   }
+
+  /**
+   * Picks the adapter most likely to parse an input.
+   *
+   * Every adapter scores a sample of the input's content through its
+   * `detect` method; a matching file extension and MIME type add to that
+   * score as independent evidence. URLs are judged by their address only.
+   *
+   * @returns The best adapter, or undefined if none recognizes the input
+   */
+  async detect(
+    input: string | File | URL
+  ): Promise<DetectionResult | undefined> {
+    const sample = await readDetectionSample(input);
+    const extension = sample.filename?.match(/\.[^.]+$/)?.[0].toLowerCase();
+    const mimeType = sample.mimeType?.split(";")[0].trim().toLowerCase();
+
+    const scores = Array.from(this.adapters, ([name, adapter]) => {
+      const supportedTypes = adapter.getSupportedTypes();
+      const content = adapter.detect?.(sample) ?? 0;
+      const byExtension =
+        extension && supportedTypes.includes(extension) ? EXTENSION_WEIGHT : 0;
+      const byMimeType =
+        mimeType && supportedTypes.includes(mimeType) ? MIME_TYPE_WEIGHT : 0;
+      const confidence =
+        1 - (1 - content) * (1 - byExtension) * (1 - byMimeType);
+      return { name, adapter, confidence };
+    });
+
+    // Stable sort, so ties go to the adapter registered first
+    const candidates = scores
+      .filter((score) => score.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence);
+    if (candidates.length === 0) return undefined;
+
+    return {
+      ...candidates[0],
+      candidates: candidates.map(({ name, confidence }) => ({
+        name,
+        confidence,
+      })),
+    };
+  }
 }
 
 export const defaultRegistry = new AdapterRegistry();
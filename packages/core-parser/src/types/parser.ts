@@ -1,11 +1,178 @@
 import type {
   ParsedDataset,
+  DataField,
   DataAdapter,
-  ParserOptions,
+  ParserOptions as BaseParserOptions,
+  SemanticType,
 } from "@open-dashboard/shared/types";
 
-// Re-export ParserOptions for convenience
-export type { ParserOptions } from "@open-dashboard/shared/types";
+// Parser options extended with runtime-only hooks (not serializable)
+export interface ParserOptions extends BaseParserOptions {
+  /** Parse the input incrementally in chunks instead of all at once */
+  streaming?: boolean;
+  /** Chunk size in bytes when streaming (default 1 MB) */
+  chunkSize?: number;
+  /** Called after each parsed chunk while streaming */
+  onProgress?: ParseProgressCallback;
+  /** Cancels parsing when aborted */
+  signal?: AbortSignal;
+  /** Malformed row handling for the CSV adapter */
+  csv?: CSVSourceOptions;
+  /** Request, pagination and retry settings for the API adapter */
+  api?: APISourceOptions;
+  /** Table selection and detection settings for the PDF adapter */
+  pdf?: PDFSourceOptions;
+  /** Pattern and multi-line settings for the text adapter */
+  text?: TextSourceOptions;
+  /** Sheet and header settings for the Excel adapter */
+  excel?: ExcelSourceOptions;
+}
+
+// CSV source configuration
+export interface CSVSourceOptions {
+  /**
+   * What happens to rows with unbalanced quotes or the wrong number of
+   * fields: `fail` rejects the file (default), `skip` drops the rows and
+   * `quarantine` drops them and keeps them in `metadata.quarantine`
+   */
+  errorPolicy?: "fail" | "skip" | "quarantine";
+  /**
+   * Dialect settings used instead of the sniffed ones, such as the
+   * `metadata.dialect` of an earlier parse. The top-level `delimiter`,
+   * `hasHeader` and `locale` options take precedence.
+   */
+  dialect?: Partial<CSVDialect>;
+}
+
+// Stored as `metadata.dialect` on parsed CSV datasets
+export interface CSVDialect {
+  delimiter: string;
+  /** Character that quotes values (`"` or `'`) */
+  quoteChar: string;
+  /** Escapes quotes inside quoted values: the quote itself when doubled, or a backslash */
+  escapeChar: string;
+  decimalSeparator: "." | ",";
+  /** Whether the first row of the table holds the column names */
+  hasHeader: boolean;
+  /** Title, blank and comment lines before the table */
+  skipLines: number;
+  /** Prefix of comment lines, or false if there are none */
+  comments: string | false;
+}
+
+// PDF source configuration
+export interface PDFSourceOptions {
+  /** Index of the table to load, as listed by `discoverTables` (default: largest) */
+  table?: number;
+  /** 1-based page numbers to scan (default: all pages) */
+  pages?: number[];
+  /** Minimum gap between columns, in multiples of the font size (default 1) */
+  columnGap?: number;
+}
+
+// REST API source configuration
+export type APIAuth =
+  | { type: "bearer"; token: string }
+  | {
+      type: "apiKey";
+      key: string;
+      /** Header or query parameter name (default "X-API-Key") */
+      name?: string;
+      /** Where the key is sent (default "header") */
+      in?: "header" | "query";
+    };
+
+export type APIPagination =
+  | {
+      type: "page";
+      /** Query parameter holding the page number (default "page") */
+      pageParam?: string;
+      /** First page number (default 1) */
+      startPage?: number;
+      /** Query parameter holding the page size */
+      sizeParam?: string;
+      /** Records per page; a shorter page ends pagination */
+      pageSize?: number;
+    }
+  | {
+      type: "offset";
+      /** Query parameter holding the offset (default "offset") */
+      offsetParam?: string;
+      /** Query parameter holding the limit (default "limit") */
+      limitParam?: string;
+      /** Records per request (default 100) */
+      limit?: number;
+    }
+  | {
+      type: "cursor";
+      /** Query parameter the cursor is sent in (default "cursor") */
+      cursorParam?: string;
+      /** Path to the next cursor in the response body (e.g. "meta.next") */
+      cursorPath: string;
+    }
+  | {
+      /** Follows the rel="next" URL of the Link response header */
+      type: "link";
+    };
+
+export interface APIRetryOptions {
+  /** Retries after the first attempt (default 3) */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled on each retry (default 500) */
+  baseDelay?: number;
+  /** Upper bound for a single delay in ms (default 10000) */
+  maxDelay?: number;
+  /** HTTP status codes that are retried (default 408, 429, 500, 502-504) */
+  retryOn?: number[];
+}
+
+export interface APISourceOptions {
+  /** HTTP method (default "GET") */
+  method?: "GET" | "POST";
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Extra query parameters */
+  query?: Record<string, string | number | boolean>;
+  /** JSON request body (POST only) */
+  body?: unknown;
+  auth?: APIAuth;
+  pagination?: APIPagination;
+  /** Stops after this many requests for pages (default 100) */
+  maxPages?: number;
+  /** Allows at most `requests` requests per `interval` ms */
+  rateLimit?: { requests: number; interval: number };
+  /** Retry settings; `false` disables retries */
+  retry?: APIRetryOptions | false;
+}
+
+// Plain-text / log source configuration
+export interface TextSourceOptions {
+  /** Built-in log format; detected from the first lines if neither this nor `pattern` is set */
+  format?: "apache" | "nginx" | "syslog" | "app";
+  /** Regular expression with named groups, or a grok expression using `%{NAME:field}` */
+  pattern?: RegExp | string;
+  /** Additional grok sub-patterns referenced by `pattern` */
+  grokPatterns?: Record<string, string>;
+  /**
+   * Joins continuation lines (e.g. stack traces) into the previous record.
+   * `true` starts a record at every line the pattern matches; `startPattern`
+   * marks record starts explicitly.
+   */
+  multiline?: boolean | { startPattern: RegExp | string };
+}
+
+// Excel workbook source configuration
+export interface ExcelSourceOptions {
+  /** Sheet name or 0-based index (default: first visible sheet) */
+  sheet?: string | number;
+  /**
+   * Number of header rows combined into column names. Detected from merged
+   * cells in the first row by default.
+   */
+  headerRows?: number;
+  /** Cell range to read in A1 notation, e.g. "B3:F200" (default: used range) */
+  range?: string;
+}
 
 // Extended parser-specific interfaces
 export interface ParseResult {
@@ -18,23 +185,75 @@ export interface ParseResult {
     rowsParsed: number;
     columnsDetected: number;
     encoding?: string;
+    /** Confidence of the detected encoding (1 when given explicitly) */
+    encodingConfidence?: number;
+    /** Rows skipped or quarantined by the CSV error policy */
+    malformedRows?: number;
     fileSize?: number;
   };
 }
 
 export interface TypeInferenceResult {
-  type: "string" | "number" | "date" | "boolean" | "categorical";
+  type: DataField["type"];
   confidence: number;
   samples: unknown[];
   nullable: boolean;
+  /** Digits that hold every amount of a decimal field */
+  precision?: number;
+  /** Decimal places of a decimal field */
+  scale?: number;
+  /** Time zone of a timestamp field ("UTC" unless all values share an offset) */
+  timezone?: string;
+  /** What the values mean, such as emails or coordinates, when most samples agree */
+  semantic?: SemanticTypeResult;
   metadata?: {
     fieldName?: string;
     sampleCount?: number;
     uniqueValueCount?: number;
+    /** Unit of formatted numbers, matching `MetricConfig.format` */
+    format?: "currency" | "percentage";
+    /** ISO 4217 code of the currency in formatted numbers */
+    currency?: string;
+    /** Format of date values, in core-schema's date tokens (e.g. "DD/MM/YYYY") */
+    dateFormat?: string;
+    /** UTC offset shared by all date values ("UTC", "+02:00") */
+    timezone?: string;
     warnings?: string[];
   };
 }
 
+// Values that do not fit the type inferred for their field
+export interface CoercionReport {
+  /** Rows checked */
+  rowCount: number;
+  /** Non-empty values that would become null when stored */
+  failedValues: number;
+  /** Fields with failed values, by name */
+  fields: Record<
+    string,
+    {
+      type: DataField["type"];
+      failed: number;
+      /** Non-empty values checked */
+      checked: number;
+      /** Up to five of the failed values */
+      examples: unknown[];
+    }
+  >;
+}
+
+export interface SemanticTypeResult {
+  type: SemanticType;
+  /** Share of the non-empty samples that match */
+  confidence: number;
+  /** Sampled values that match */
+  samples: unknown[];
+  metadata?: {
+    sampleCount?: number;
+    matchCount?: number;
+  };
+}
+
 // Adapter registry for dynamic loading
 export interface AdapterRegistry {
   register(name: string, adapter: DataAdapter): void;
@@ -42,6 +261,24 @@ export interface AdapterRegistry {
   getByFileExtension(extension: string): DataAdapter | undefined;
   getByMimeType(mimeType: string): DataAdapter | undefined;
   list(): string[];
+  detect(input: string | File | URL): Promise<DetectionResult | undefined>;
+}
+
+// Outcome of content-sniffing format detection
+export interface DetectionResult {
+  /** Registered name of the chosen adapter */
+  name: string;
+  adapter: DataAdapter;
+  /** Combined confidence between 0 and 1 */
+  confidence: number;
+  /** Every adapter with a non-zero confidence, best first */
+  candidates: { name: string; confidence: number }[];
+}
+
+// Stored as `metadata.detection` on datasets whose adapter was detected
+export interface ParseDetection {
+  adapter: string;
+  confidence: number;
 }
 
 // Parsing context for complex operations
@@ -53,9 +290,14 @@ export interface ParseContext {
   options: ParserOptions;
 }
 
-// Progress callback for large file parsing
-export type ParseProgressCallback = (progress: {
+// Progress of large file parsing
+export interface ParseProgress {
   percentage: number;
   rowsParsed: number;
   currentRow?: Record<string, unknown>;
-}) => void;
+  bytesRead?: number;
+  totalBytes?: number;
+}
+
+// Progress callback for large file parsing
+export type ParseProgressCallback = (progress: ParseProgress) => void;
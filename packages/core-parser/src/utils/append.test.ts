@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import type { DataField, ParsedDataset } from "@open-dashboard/shared/types";
+import { appendToDataset } from "./append";
+import { datasetId } from "@open-dashboard/core-schema";
+
+function createDataset(
+  data: Record<string, unknown>[],
+  fields: DataField[]
+): ParsedDataset {
+  return {
+    id: "sales",
+    name: "sales.csv",
+    data,
+    schema: { fields },
+    metadata: { source: "sales.csv", rowCount: data.length },
+    sourceType: "csv",
+    createdAt: new Date(),
+  };
+}
+
+const monday = createDataset(
+  [
+    { day: "2024-03-04", store: "Paris", quantity: 3 },
+    { day: "2024-03-04", store: "Lyon", quantity: 5 },
+  ],
+  [
+    { name: "day", type: "date" },
+    { name: "store", type: "categorical" },
+    {
+      name: "quantity",
+      type: "integer",
+      metadata: { profile: { count: 2 } },
+    },
+  ]
+);
+
+describe("appendToDataset", () => {
+  it("should append rows after the existing ones", () => {
+    const tuesday = createDataset(
+      [{ day: "2024-03-05", store: "Paris", quantity: 4 }],
+      monday.schema.fields
+    );
+
+    const result = appendToDataset(monday, tuesday);
+
+    expect(result.dataset.data.map((row) => row.day)).toEqual([
+      "2024-03-04",
+      "2024-03-04",
+      "2024-03-05",
+    ]);
+    expect(result.appendedRows).toBe(1);
+    expect(result.addedFields).toEqual([]);
+    expect(result.removedFields).toEqual([]);
+    expect(result.changedFields).toEqual([]);
+    expect(result.dataset.metadata).toMatchObject({
+      source: "sales.csv",
+      rowCount: 3,
+      columnCount: 3,
+    });
+    expect(result.dataset.id).toBe(
+      datasetId(result.dataset.data, result.dataset.schema)
+    );
+  });
+
+  it("should widen types instead of falling back to text", () => {
+    const tuesday = createDataset(
+      [{ day: "2024-03-05T10:30:00Z", store: "Paris", quantity: 2.5 }],
+      [
+        { name: "day", type: "timestamp" },
+        { name: "store", type: "string" },
+        { name: "quantity", type: "number" },
+      ]
+    );
+
+    const result = appendToDataset(monday, tuesday);
+
+    expect(result.dataset.schema.fields.map((field) => field.type)).toEqual([
+      "timestamp",
+      "string",
+      "number",
+    ]);
+    expect(result.changedFields).toEqual([
+      { name: "day", from: "date", to: "timestamp" },
+      { name: "store", from: "categorical", to: "string" },
+      { name: "quantity", from: "integer", to: "number" },
+    ]);
+    expect(result.dataset.data.map((row) => row.quantity)).toEqual([3, 5, 2.5]);
+  });
+
+  it("should convert values to text when types are incompatible", () => {
+    const tuesday = createDataset(
+      [{ day: "2024-03-05", store: "Paris", quantity: "n/a" }],
+      [
+        { name: "day", type: "date" },
+        { name: "store", type: "categorical" },
+        { name: "quantity", type: "string" },
+      ]
+    );
+
+    const result = appendToDataset(monday, tuesday);
+    const quantity = result.dataset.schema.fields[2];
+
+    expect(quantity.type).toBe("string");
+    expect(quantity.metadata?.warnings).toEqual([
+      "Type conflict: integer vs string. Defaulting to string.",
+    ]);
+    expect(result.dataset.data.map((row) => row.quantity)).toEqual([
+      "3",
+      "5",
+      "n/a",
+    ]);
+  });
+
+  it("should report added and removed columns and fill them with nulls", () => {
+    const tuesday = createDataset(
+      [{ day: "2024-03-05", quantity: 1, channel: "web" }],
+      [
+        { name: "day", type: "date" },
+        { name: "quantity", type: "integer" },
+        { name: "channel", type: "string" },
+      ]
+    );
+
+    const result = appendToDataset(monday, tuesday);
+
+    expect(result.addedFields).toEqual(["channel"]);
+    expect(result.removedFields).toEqual(["store"]);
+    expect(result.dataset.schema.fields.map((field) => field.name)).toEqual([
+      "day",
+      "store",
+      "quantity",
+      "channel",
+    ]);
+    expect(result.dataset.data[0].channel).toBeNull();
+    expect(result.dataset.data[2].store).toBeNull();
+  });
+
+  it("should leave the inputs unchanged and drop stale profiles", () => {
+    const tuesday = createDataset(
+      [{ day: "2024-03-05", store: "Nice", quantity: 1, channel: "web" }],
+      [...monday.schema.fields, { name: "channel", type: "string" }]
+    );
+
+    const result = appendToDataset(monday, tuesday);
+
+    expect(monday.data).toHaveLength(2);
+    expect(monday.data[0]).not.toHaveProperty("channel");
+    expect(result.dataset.schema.fields[2].metadata?.profile).toBeUndefined();
+    expect(monday.schema.fields[2].metadata?.profile).toEqual({ count: 2 });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Appending to datasets
+ *
+ * Adds the rows of a newly parsed file, such as a daily export, to a
+ * dataset that is already loaded. The schemas are merged with
+ * `mergeSchemas`, so columns the new file adds are kept and types are
+ * widened where the files disagree.
+ */
+
+import type {
+  DataField,
+  ParsedDataset,
+  SchemaChanges,
+} from "@open-dashboard/shared/types";
+import { datasetId } from "@open-dashboard/core-schema";
+import { mergeSchemas } from "./schemaBuilder";
+
+export interface AppendResult extends SchemaChanges {
+  /** The dataset with the incoming rows after its own */
+  dataset: ParsedDataset;
+  /** Number of rows taken from the incoming dataset */
+  appendedRows: number;
+}
+
+/**
+ * Appends the rows of one dataset to another
+ *
+ * Rows are copied, so neither input is changed. Fields one dataset lacks
+ * are null in its rows. When a field's types cannot be widened, its values
+ * become text. Field profiles are removed, since they describe the rows
+ * before appending.
+ *
+ * The report compares the incoming schema with the existing one: its
+ * `changedFields` are the fields whose type in the result differs from the
+ * existing dataset's.
+ *
+ * @example
+ * ```typescript
+ * const today = await parseData(file);
+ * const { dataset, addedFields, changedFields } = appendToDataset(
+ *   sales,
+ *   today
+ * );
+ * // changedFields: [{ name: "quantity", from: "integer", to: "decimal" }]
+ * ```
+ */
+export function appendToDataset(
+  existing: ParsedDataset,
+  incoming: ParsedDataset
+): AppendResult {
+  const merged = mergeSchemas(existing.schema, incoming.schema);
+  const fields = merged.fields.map(withoutProfile);
+
+  const existingFields = new Map(
+    existing.schema.fields.map((field) => [field.name, field])
+  );
+  const incomingNames = new Set(
+    incoming.schema.fields.map((field) => field.name)
+  );
+  const changes: SchemaChanges = {
+    addedFields: fields
+      .filter((field) => !existingFields.has(field.name))
+      .map((field) => field.name),
+    removedFields: existing.schema.fields
+      .filter((field) => !incomingNames.has(field.name))
+      .map((field) => field.name),
+    changedFields: fields.flatMap((field) => {
+      const before = existingFields.get(field.name);
+      return before && before.type !== field.type
+        ? [{ name: field.name, from: before.type, to: field.type }]
+        : [];
+    }),
+  };
+
+  const conform = (source: ParsedDataset) => {
+    const sourceTypes = new Map(
+      source.schema.fields.map((field) => [field.name, field.type])
+    );
+    // Fields whose values must become text to fit the merged type
+    const textFields = fields
+      .filter((field) => {
+        const type = sourceTypes.get(field.name);
+        return (
+          field.type === "string" &&
+          type !== undefined &&
+          type !== "string" &&
+          type !== "categorical"
+        );
+      })
+      .map((field) => field.name);
+
+    return source.data.map((row) => {
+      const copy: Record<string, unknown> = {};
+      for (const field of fields) copy[field.name] = row[field.name] ?? null;
+      for (const name of textFields) {
+        const value = copy[name];
+        if (value !== null && typeof value !== "string") {
+          copy[name] =
+            value instanceof Date ? value.toISOString() : String(value);
+        }
+      }
+      return copy;
+    });
+  };
+
+  const data = [...conform(existing), ...conform(incoming)];
+  const schema = { ...existing.schema, fields };
+  return {
+    dataset: {
+      ...existing,
+      id: datasetId(data, schema),
+      data,
+      schema,
+      metadata: {
+        ...existing.metadata,
+        rowCount: data.length,
+        columnCount: fields.length,
+      },
+    },
+    appendedRows: incoming.data.length,
+    ...changes,
+  };
+}
+
+function withoutProfile(field: DataField): DataField {
+  if (!field.metadata || !("profile" in field.metadata)) return field;
+  const metadata = { ...field.metadata };
+  delete metadata.profile;
+  return { ...field, metadata };
+}
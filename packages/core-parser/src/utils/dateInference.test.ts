@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectDateFormat,
+  detectEpochFormat,
+  matchDateFormat,
+} from "./dateInference";
+
+describe("dateInference", () => {
+  describe("matchDateFormat", () => {
+    it.each([
+      ["2024-03-05", "YYYY-MM-DD"],
+      ["2024-03", "YYYY-MM"],
+      ["2024-03-05T10:30:00Z", "YYYY-MM-DDTHH:mm:ssZ"],
+      ["2024-03-05T10:30:00.250", "YYYY-MM-DDTHH:mm:ss.SSS"],
+      ["2024-03-05 10:30", "YYYY-MM-DD HH:mm"],
+      ["Mar 5, 2024", "MMM D, YYYY"],
+      ["5 March 2024", "D MMMM YYYY"],
+      ["05-MAR-2024", "DD-MMM-YYYY"],
+      ["3/5/2024 2:30 PM", "M/D/YYYY h:mm A"],
+      ["25/12/2024", "DD/MM/YYYY"],
+    ])("should match %s as %s", (value, expected) => {
+      expect(matchDateFormat(value)).toBe(expected);
+    });
+
+    it("should reject values that are not dates", () => {
+      expect(matchDateFormat("2024-02-30")).toBeUndefined();
+      expect(matchDateFormat("13/13/2024")).toBeUndefined();
+      expect(matchDateFormat("hello")).toBeUndefined();
+      expect(matchDateFormat("1234")).toBeUndefined();
+    });
+  });
+
+  describe("detectDateFormat", () => {
+    it("should resolve day and month order from all samples", () => {
+      const result = detectDateFormat([
+        "05/03/2024",
+        "07/03/2024",
+        "13/02/2024",
+      ]);
+
+      expect(result).toEqual({ format: "DD/MM/YYYY", confidence: 1 });
+    });
+
+    it("should flag columns where day and month cannot be told apart", () => {
+      const result = detectDateFormat(["05/03/2024", "07/04/2024"]);
+
+      expect(result).toMatchObject({ format: "MM/DD/YYYY", ambiguous: true });
+    });
+
+    it("should pick the format most values match", () => {
+      const result = detectDateFormat([
+        "2024-03-05",
+        "2024-03-06",
+        "not a date",
+        null,
+      ]);
+
+      expect(result?.format).toBe("YYYY-MM-DD");
+      expect(result?.confidence).toBeCloseTo(2 / 3);
+    });
+
+    it("should report a shared UTC offset as the timezone", () => {
+      expect(
+        detectDateFormat(["2024-03-05T10:00:00Z", "2024-03-06T10:00:00Z"])
+          ?.timezone
+      ).toBe("UTC");
+      expect(
+        detectDateFormat([
+          "2024-03-05T10:00:00-05:00",
+          "2024-03-06T10:00:00-0500",
+        ])?.timezone
+      ).toBe("-05:00");
+      expect(
+        detectDateFormat([
+          "2024-03-05T10:00:00+01:00",
+          "2024-03-06T10:00:00+02:00",
+        ])?.timezone
+      ).toBeUndefined();
+    });
+
+    it("should only try the given formats", () => {
+      const result = detectDateFormat(["05/03/2024"], ["DD/MM/YYYY"]);
+
+      expect(result).toEqual({ format: "DD/MM/YYYY", confidence: 1 });
+    });
+
+    it("should return undefined when no value is a date", () => {
+      expect(detectDateFormat(["a", "b"])).toBeUndefined();
+      expect(detectDateFormat([1, 2])).toBeUndefined();
+    });
+  });
+
+  describe("detectEpochFormat", () => {
+    it("should tell seconds from milliseconds", () => {
+      expect(detectEpochFormat(1709632800)).toBe("X");
+      expect(detectEpochFormat(1709632800000)).toBe("x");
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { parseDateWithFormat, parseOffset } from "@open-dashboard/core-schema";
+
+export interface DateFormatDetection {
+  /** Format in core-schema's date tokens, e.g. "DD/MM/YYYY" */
+  format: string;
+  /** UTC offset shared by all values ("UTC", "+02:00"); absent when values have none */
+  timezone?: string;
+  /** Share of the string samples that match the format */
+  confidence: number;
+  /** Whether day and month could not be told apart, so month first was assumed */
+  ambiguous?: boolean;
+}
+
+const ISO_DATES = ["YYYY-MM-DD"];
+
+const ISO_TIMES = ["T", " "].flatMap((separator) =>
+  [":ss.SSS", ":ss", ""].flatMap((seconds) =>
+    ["Z", ""].map((zone) => `${separator}HH:mm${seconds}${zone}`)
+  )
+);
+
+// Month first comes before day first, so ambiguous columns read as US dates
+const LOCAL_DATES = [
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "M/D/YYYY",
+  "D/M/YYYY",
+  "MM/DD/YY",
+  "DD/MM/YY",
+  "M/D/YY",
+  "D/M/YY",
+  "DD.MM.YYYY",
+  "D.M.YYYY",
+  "MMM D, YYYY",
+  "MMMM D, YYYY",
+  "D MMM YYYY",
+  "D MMMM YYYY",
+  "DD-MMM-YYYY",
+];
+
+const LOCAL_TIMES = [" H:mm", " H:mm:ss", " h:mm A", " h:mm:ss A"];
+
+/**
+ * Date formats recognised by inference, most specific first
+ */
+export const DATE_FORMATS: string[] = [
+  ...ISO_DATES.flatMap((date) => ISO_TIMES.map((time) => date + time)),
+  ...ISO_DATES,
+  "YYYY-MM",
+  ...LOCAL_DATES.flatMap((date) => LOCAL_TIMES.map((time) => date + time)),
+  ...LOCAL_DATES,
+];
+
+const OFFSET_PATTERN = /(Z|[+-]\d{2}(?::?\d{2})?)$/i;
+
+/**
+ * Returns the first known format that a string parses with
+ */
+export function matchDateFormat(value: string): string | undefined {
+  const trimmed = value.trim();
+  // Cheap rejection before trying every format
+  if (trimmed.length > 40 || !/\d/.test(trimmed)) return undefined;
+  return DATE_FORMATS.find(
+    (format) => parseDateWithFormat(trimmed, format) !== undefined
+  );
+}
+
+/**
+ * Detects the date format of a column by trying every candidate format on
+ * all string samples. The format most samples parse with wins, so a single
+ * "13/02/2024" settles whether "05/03/2024" is in March or May.
+ *
+ * @example
+ * ```typescript
+ * detectDateFormat(["05/03/2024", "13/02/2024"]);
+ * // { format: "DD/MM/YYYY", confidence: 1 }
+ * ```
+ */
+export function detectDateFormat(
+  samples: unknown[],
+  formats = DATE_FORMATS
+): DateFormatDetection | undefined {
+  const values = samples
+    .filter((sample): sample is string => typeof sample === "string")
+    .map((sample) => sample.trim())
+    .filter((sample) => sample !== "");
+  if (values.length === 0) return undefined;
+
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value.length > 40 || !/\d/.test(value)) continue;
+    for (const format of formats) {
+      if (parseDateWithFormat(value, format) !== undefined) {
+        counts.set(format, (counts.get(format) ?? 0) + 1);
+      }
+    }
+  }
+
+  let best: string | undefined;
+  for (const format of formats) {
+    if ((counts.get(format) ?? 0) > (counts.get(best ?? "") ?? 0)) {
+      best = format;
+    }
+  }
+  if (!best) return undefined;
+
+  const count = counts.get(best) ?? 0;
+  const ambiguous = counts.get(swapDayAndMonth(best)) === count;
+  const timezone = hasOffsetToken(best) ? detectTimezone(values) : undefined;
+
+  return {
+    format: best,
+    confidence: count / values.length,
+    ...(timezone && { timezone }),
+    ...(ambiguous && { ambiguous }),
+  };
+}
+
+/**
+ * Checks whether a format reads a UTC offset, so its values are instants
+ * rather than local dates and times
+ */
+export function hasOffsetToken(format: string): boolean {
+  // "[Z]" is a literal, not the offset token
+  return format.replace(/\[[^\]]*\]/g, "").includes("Z");
+}
+
+/**
+ * Detects whether a numeric timestamp column holds seconds ("X") or
+ * milliseconds ("x") since the Unix epoch
+ */
+export function detectEpochFormat(value: number): "X" | "x" {
+  // 1e11 seconds is in the year 5138, but 1e11 milliseconds is in 1973
+  return Math.abs(value) < 1e11 ? "X" : "x";
+}
+
+function swapDayAndMonth(format: string): string {
+  return format.replace(/\b(MM|M|DD|D)\b/g, (token) =>
+    token.startsWith("M") ? token.replace(/M/g, "D") : token.replace(/D/g, "M")
+  );
+}
+
+/**
+ * Returns the UTC offset shared by all values, or undefined if they differ
+ */
+function detectTimezone(values: string[]): string | undefined {
+  const offsets = new Set<number>();
+  for (const value of values) {
+    const match = value.match(OFFSET_PATTERN);
+    if (match) offsets.add(parseOffset(match[1]));
+  }
+  if (offsets.size !== 1) return undefined;
+
+  const [minutes] = offsets;
+  if (minutes === 0) return "UTC";
+  const sign = minutes < 0 ? "-" : "+";
+  const hours = String(Math.floor(Math.abs(minutes) / 60)).padStart(2, "0");
+  const rest = String(Math.abs(minutes) % 60).padStart(2, "0");
+  return `${sign}${hours}:${rest}`;
+}
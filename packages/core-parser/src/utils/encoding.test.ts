@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import {
+  createChunkDecoder,
+  decodeText,
+  detectEncoding,
+  isSupportedEncoding,
+} from "./encoding";
+
+function bytes(...parts: Array<string | number>): Uint8Array {
+  return new Uint8Array(
+    parts.flatMap((part) =>
+      typeof part === "number"
+        ? [part]
+        : Array.from(part, (char) => char.charCodeAt(0))
+    )
+  );
+}
+
+function hexBytes(hex: string): Uint8Array {
+  const digits = hex.replace(/\s/g, "");
+  return new Uint8Array(
+    Array.from({ length: digits.length / 2 }, (_, i) =>
+      parseInt(digits.slice(i * 2, i * 2 + 2), 16)
+    )
+  );
+}
+
+function utf16(text: string, littleEndian: boolean): Uint8Array {
+  const result = new Uint8Array(text.length * 2);
+  const view = new DataView(result.buffer);
+  Array.from(text).forEach((char, i) => {
+    view.setUint16(i * 2, char.charCodeAt(0), littleEndian);
+  });
+  return result;
+}
+
+describe("encoding", () => {
+  describe("detectEncoding", () => {
+    it.each([
+      [[0xef, 0xbb, 0xbf], "UTF-8"],
+      [[0xff, 0xfe], "UTF-16LE"],
+      [[0xfe, 0xff], "UTF-16BE"],
+    ])("should honor the byte order mark %j", (bom, expected) => {
+      const result = detectEncoding(bytes(...bom, "a,b"));
+
+      expect(result).toEqual({ encoding: expected, confidence: 1 });
+    });
+
+    it("should detect UTF-16 without a byte order mark", () => {
+      const text = "name,city\nAlice,Berlin\n";
+
+      expect(detectEncoding(utf16(text, true)).encoding).toBe("UTF-16LE");
+      expect(detectEncoding(utf16(text, false)).encoding).toBe("UTF-16BE");
+    });
+
+    it("should treat ASCII as UTF-8", () => {
+      expect(detectEncoding(bytes("id,name\n1,a"))).toEqual({
+        encoding: "UTF-8",
+        confidence: 1,
+      });
+    });
+
+    it("should detect valid UTF-8", () => {
+      const result = detectEncoding(new TextEncoder().encode("Müller,Köln"));
+
+      expect(result.encoding).toBe("UTF-8");
+      expect(result.confidence).toBeGreaterThan(0.9);
+    });
+
+    it("should tolerate a character cut off at the end of the sample", () => {
+      const encoded = new TextEncoder().encode("Zürich");
+
+      expect(detectEncoding(encoded.subarray(0, 2)).encoding).toBe("UTF-8");
+    });
+
+    it("should detect ISO-8859-1", () => {
+      const result = detectEncoding(
+        bytes("Name;Ort\nM", 0xfc, "ller;K", 0xf6, "ln\nWei", 0xdf, ";Gera")
+      );
+
+      expect(result.encoding).toBe("ISO-8859-1");
+      expect(result.confidence).toBeGreaterThan(0.8);
+    });
+
+    it("should detect windows-1252 from its extra characters", () => {
+      // "Preis: 5 €" and „Zitat“
+      const result = detectEncoding(
+        bytes("Preis: 5 ", 0x80, "\n", 0x84, "Zitat", 0x93)
+      );
+
+      expect(result.encoding).toBe("windows-1252");
+    });
+
+    it("should detect Shift-JIS", () => {
+      // "名前,都市\nさくら,東京" in Shift-JIS
+      const result = detectEncoding(
+        hexBytes("96bc914f 2c 93738e73 0a 82b382ad82e7 2c 938c8b9e")
+      );
+
+      expect(result.encoding).toBe("Shift_JIS");
+      expect(result.confidence).toBeGreaterThan(0.8);
+    });
+  });
+
+  describe("decodeText", () => {
+    it("should decode with the detected encoding", () => {
+      const result = decodeText(bytes("Stra", 0xdf, "e"));
+
+      expect(result.text).toBe("Straße");
+      expect(result.encoding).toBe("ISO-8859-1");
+    });
+
+    it("should check the whole input before decoding it as UTF-8", () => {
+      const head = "name,city\n" + "Anna,Berlin\n".repeat(6000);
+      const result = decodeText(bytes(head, "J", 0xfc, "rgen,K", 0xf6, "ln"));
+
+      expect(head.length).toBeGreaterThan(64 * 1024);
+      expect(result.encoding).toBe("ISO-8859-1");
+      expect(result.text.endsWith("Jürgen,Köln")).toBe(true);
+    });
+
+    it("should strip the byte order mark", () => {
+      expect(decodeText(bytes(0xef, 0xbb, 0xbf, "id")).text).toBe("id");
+    });
+
+    it("should prefer an explicit encoding", () => {
+      const result = decodeText(bytes("Stra", 0xdf, "e"), "UTF-8");
+
+      expect(result.text).toBe("Stra�e");
+      expect(result).toMatchObject({ encoding: "UTF-8", confidence: 1 });
+    });
+
+    it("should throw for unsupported encodings", () => {
+      expect(() => decodeText(bytes("a"), "klingon")).toThrow(
+        'Unsupported encoding "klingon"'
+      );
+    });
+  });
+
+  describe("createChunkDecoder", () => {
+    it("should decode characters split across chunks as UTF-8", () => {
+      const decoder = createChunkDecoder();
+      const text = [
+        decoder.decode(hexBytes("4d c3"), true),
+        decoder.decode(hexBytes("bc 6e"), true),
+        decoder.decode(),
+      ].join("");
+
+      expect(text).toBe("Mün");
+      expect(decoder.encoding?.encoding).toBe("UTF-8");
+    });
+
+    it("should decode the rest with a legacy encoding after invalid UTF-8", () => {
+      const decoder = createChunkDecoder();
+      const text = [
+        decoder.decode(bytes("id,city\n1,"), true),
+        decoder.decode(bytes("K", 0xf6, "ln"), true),
+        decoder.decode(bytes(0xe9), false),
+      ].join("");
+
+      expect(text).toBe("id,city\n1,Kölné");
+      expect(decoder.encoding?.encoding).toBe("ISO-8859-1");
+    });
+
+    it("should keep the bytes of a cut-off character when falling back", () => {
+      const decoder = createChunkDecoder();
+      const text = [
+        decoder.decode(bytes("a", 0xe9), true),
+        decoder.decode(bytes("b"), false),
+      ].join("");
+
+      expect(text).toBe("aéb");
+    });
+
+    it("should not switch encodings when one is given", () => {
+      const decoder = createChunkDecoder("UTF-8");
+
+      expect(decoder.decode(bytes("K", 0xf6, "ln"))).toBe("K�ln");
+      expect(decoder.encoding).toEqual({ encoding: "UTF-8", confidence: 1 });
+    });
+  });
+
+  describe("isSupportedEncoding", () => {
+    it("should accept encoding labels known to TextDecoder", () => {
+      expect(isSupportedEncoding("latin1")).toBe(true);
+      expect(isSupportedEncoding("Shift_JIS")).toBe(true);
+      expect(isSupportedEncoding("klingon")).toBe(false);
+    });
+  });
+});
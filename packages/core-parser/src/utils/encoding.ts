@@ -0,0 +1,309 @@
+/**
+ * Number of leading bytes inspected when detecting an encoding (64 KB)
+ */
+export const ENCODING_SAMPLE_BYTES = 64 * 1024;
+
+export interface EncodingDetection {
+  /** Encoding name, e.g. "UTF-8", "windows-1252" or "Shift_JIS" */
+  encoding: string;
+  /**
+   * Confidence between 0 and 1 that the text decodes correctly with this
+   * encoding. A byte order mark, pure ASCII or an explicit encoding give 1.
+   */
+  confidence: number;
+}
+
+export interface DecodedText extends EncodingDetection {
+  text: string;
+}
+
+const BYTE_ORDER_MARKS: Array<[number[], string]> = [
+  [[0xef, 0xbb, 0xbf], "UTF-8"],
+  [[0xff, 0xfe], "UTF-16LE"],
+  [[0xfe, 0xff], "UTF-16BE"],
+];
+
+// Kana, CJK punctuation, kanji and full-width forms
+const JAPANESE_CHARACTER = /[\u3000-\u30ff\u4e00-\u9fff\uff00-\uffef]/;
+const KANA = /[\u3040-\u30ff]/;
+// Accented letters and the symbols found in Western European text
+const LATIN_CHARACTER = /[\p{L}€£¥°§©®«»„“”‘’–—…·±×÷]/u;
+
+/**
+ * Detects the character encoding of raw bytes.
+ *
+ * A byte order mark wins outright. Otherwise UTF-16 is recognized by the
+ * zero bytes of ASCII characters, and input that is valid UTF-8 is taken as
+ * UTF-8. Anything else is scored as Shift-JIS or as Western European text
+ * (ISO-8859-1, or windows-1252 when its extra characters occur).
+ *
+ * @example
+ * ```typescript
+ * detectEncoding(new Uint8Array([0x4d, 0xfc, 0x6c, 0x6c, 0x65, 0x72]));
+ * // { encoding: "ISO-8859-1", confidence: 0.9 } ("Müller")
+ * ```
+ */
+export function detectEncoding(bytes: Uint8Array): EncodingDetection {
+  const sample = bytes.subarray(0, ENCODING_SAMPLE_BYTES);
+
+  const bom = byteOrderMark(sample);
+  if (bom) return { encoding: bom, confidence: 1 };
+
+  const utf16 = detectUTF16(sample);
+  if (utf16) return utf16;
+
+  if (sample.every((byte) => byte < 0x80)) {
+    return { encoding: "UTF-8", confidence: 1 };
+  }
+  if (isValidUTF8(sample)) {
+    return { encoding: "UTF-8", confidence: 0.99 };
+  }
+  return guessLegacyEncoding(sample);
+}
+
+/**
+ * Decodes bytes with an explicit encoding, or with the detected one.
+ * Detection only samples the leading bytes, so text detected as UTF-8 is
+ * checked in full and decoded with a legacy encoding if it is not UTF-8.
+ *
+ * @throws Error if the encoding is not supported
+ */
+export function decodeText(bytes: Uint8Array, encoding?: string): DecodedText {
+  if (encoding) {
+    return {
+      encoding,
+      confidence: 1,
+      text: createTextDecoder(encoding).decode(bytes),
+    };
+  }
+
+  const detection = detectEncoding(bytes);
+  if (detection.encoding === "UTF-8" && !byteOrderMark(bytes)) {
+    try {
+      const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+      return { ...detection, text };
+    } catch {
+      const legacy = guessLegacyEncoding(bytes);
+      return {
+        ...legacy,
+        text: createTextDecoder(legacy.encoding).decode(bytes),
+      };
+    }
+  }
+  return {
+    ...detection,
+    text: createTextDecoder(detection.encoding).decode(bytes),
+  };
+}
+
+export interface ChunkDecoder {
+  /**
+   * Decodes the next chunk; pass `stream: false` (or no bytes) for the last
+   * one to flush a character cut off at the end
+   */
+  decode(bytes?: Uint8Array, stream?: boolean): string;
+  /** Encoding in use, once the first chunk has been decoded */
+  readonly encoding: EncodingDetection | undefined;
+}
+
+/**
+ * Creates a decoder for text read in chunks, with an explicit encoding or
+ * the one detected from the first chunk. Like `decodeText`, text detected as
+ * UTF-8 is checked as it is read: from the first chunk that is not UTF-8 on,
+ * the rest is decoded with a legacy encoding guessed from that chunk.
+ *
+ * @throws Error if the encoding is not supported
+ */
+export function createChunkDecoder(encoding?: string): ChunkDecoder {
+  let detection: EncodingDetection | undefined;
+  let decoder: TextDecoder | undefined;
+  let checkUTF8 = false;
+  // Leading bytes of a character cut off at the end of the last chunk
+  let pending = new Uint8Array(0);
+
+  return {
+    get encoding() {
+      return detection;
+    },
+    decode(bytes = new Uint8Array(0), stream = false) {
+      if (!decoder) {
+        detection = encoding
+          ? { encoding, confidence: 1 }
+          : detectEncoding(bytes);
+        checkUTF8 =
+          !encoding && detection.encoding === "UTF-8" && !byteOrderMark(bytes);
+        decoder = checkUTF8
+          ? new TextDecoder("utf-8", { fatal: true })
+          : createTextDecoder(detection.encoding);
+      }
+      if (!checkUTF8) return decoder.decode(bytes, { stream });
+
+      const unread = pending.length > 0 ? concatBytes(pending, bytes) : bytes;
+      try {
+        const text = decoder.decode(bytes, { stream });
+        pending = unread.slice(unread.length - incompleteUTF8Tail(unread));
+        return text;
+      } catch {
+        detection = guessLegacyEncoding(unread);
+        decoder = createTextDecoder(detection.encoding);
+        checkUTF8 = false;
+        return decoder.decode(unread, { stream });
+      }
+    },
+  };
+}
+
+/**
+ * Counts the bytes at the end of UTF-8 text that start a character without
+ * completing it
+ */
+function incompleteUTF8Tail(bytes: Uint8Array): number {
+  for (let i = bytes.length - 1; i >= Math.max(0, bytes.length - 3); i--) {
+    const byte = bytes[i];
+    if ((byte & 0xc0) === 0x80) continue;
+    if (byte < 0xc0) return 0;
+    const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : 2;
+    return bytes.length - i < length ? bytes.length - i : 0;
+  }
+  return 0;
+}
+
+function concatBytes(head: Uint8Array, tail: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(head.length + tail.length);
+  bytes.set(head);
+  bytes.set(tail, head.length);
+  return bytes;
+}
+
+/**
+ * Scores bytes that are not Unicode as Shift-JIS or as Western European
+ * text
+ */
+function guessLegacyEncoding(sample: Uint8Array): EncodingDetection {
+  const shiftJIS = scoreShiftJIS(sample);
+  const latin = scoreLatin(sample);
+  if (shiftJIS > latin) {
+    return { encoding: "Shift_JIS", confidence: shiftJIS };
+  }
+  // windows-1252 puts printable characters where ISO-8859-1 has controls
+  const usesWindowsRange = sample.some((byte) => byte >= 0x80 && byte < 0xa0);
+  return {
+    encoding: usesWindowsRange ? "windows-1252" : "ISO-8859-1",
+    confidence: latin,
+  };
+}
+
+/**
+ * Checks whether text can be decoded with an encoding label
+ */
+export function isSupportedEncoding(encoding: string): boolean {
+  try {
+    new TextDecoder(encoding);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates a decoder that strips a leading byte order mark
+ *
+ * @throws Error if the encoding is not supported
+ */
+export function createTextDecoder(encoding: string): TextDecoder {
+  try {
+    return new TextDecoder(encoding);
+  } catch {
+    throw new Error(`Unsupported encoding "${encoding}"`);
+  }
+}
+
+function byteOrderMark(bytes: Uint8Array): string | undefined {
+  return BYTE_ORDER_MARKS.find(
+    ([bom]) => bytes.length >= bom.length && bom.every((b, i) => bytes[i] === b)
+  )?.[1];
+}
+
+/**
+ * UTF-16 stores ASCII characters with a zero high byte, so one byte of
+ * most pairs is zero while the other one never is
+ */
+function detectUTF16(sample: Uint8Array): EncodingDetection | undefined {
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs < 2) return undefined;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+
+  const ratio = Math.max(evenZeros, oddZeros) / pairs;
+  if (ratio < 0.3 || Math.min(evenZeros, oddZeros) / pairs > 0.05) {
+    return undefined;
+  }
+  return {
+    encoding: evenZeros > oddZeros ? "UTF-16BE" : "UTF-16LE",
+    confidence: Math.min(0.95, 0.5 + ratio / 2),
+  };
+}
+
+function isValidUTF8(sample: Uint8Array): boolean {
+  try {
+    // Streaming mode tolerates a character cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Scores the share of non-ASCII characters that are Japanese. Text without
+ * any kana is unlikely to be Japanese, even when it decodes.
+ */
+function scoreShiftJIS(sample: Uint8Array): number {
+  let text: string;
+  try {
+    text = new TextDecoder("shift_jis", { fatal: true }).decode(sample, {
+      stream: true,
+    });
+  } catch {
+    return 0;
+  }
+
+  const nonASCII = [...text].filter((char) => char.charCodeAt(0) >= 0x80);
+  if (nonASCII.length === 0) return 0;
+
+  const japanese = nonASCII.filter((char) => JAPANESE_CHARACTER.test(char));
+  const share = japanese.length / nonASCII.length;
+  return (KANA.test(text) ? 0.95 : 0.5) * share;
+}
+
+/**
+ * Scores the share of non-ASCII characters that are letters or common
+ * symbols. Accented letters mostly stand alone between ASCII letters, while
+ * multi-byte encodings produce runs of them.
+ */
+function scoreLatin(sample: Uint8Array): number {
+  const text = new TextDecoder("windows-1252").decode(sample);
+  let nonASCII = 0;
+  let plausible = 0;
+  let isolated = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 0x80) continue;
+    nonASCII++;
+    if (LATIN_CHARACTER.test(text[i])) plausible++;
+    if (
+      (i === 0 || text.charCodeAt(i - 1) < 0x80) &&
+      (i === text.length - 1 || text.charCodeAt(i + 1) < 0x80)
+    ) {
+      isolated++;
+    }
+  }
+
+  if (nonASCII === 0) return 0;
+  return 0.9 * (plausible / nonASCII) * (0.5 + (0.5 * isolated) / nonASCII);
+}
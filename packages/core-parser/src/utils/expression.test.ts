@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { compileExpression, isTruthy } from "./expression";
+
+const row = {
+  amount: 12.5,
+  quantity: 4,
+  region: "North",
+  "unit price": "2.5",
+  notes: null,
+};
+
+describe("expression", () => {
+  describe("compileExpression", () => {
+    it.each([
+      ["amount * quantity", 50],
+      ["[unit price] * 2", 5],
+      ["amount - quantity * 2", 4.5],
+      ["(amount - quantity) * 2", 17],
+      ["-amount + 1", -11.5],
+      ["amount % 5", 2.5],
+      ["region + '-' + quantity", "North-4"],
+      ['"it\\"s"', 'it"s'],
+      ["amount > 10 && region == 'North'", true],
+      ["amount < 10 || !(quantity >= 4)", false],
+      ["region != 'South'", true],
+      ["quantity == '4'", true],
+      ["upper(region)", "NORTH"],
+      ["round(amount / 3, 2)", 4.17],
+      ["coalesce(notes, region)", "North"],
+      ["if(amount > 100, 'large', 'small')", "small"],
+      ["concat(region, notes, '!')", "North!"],
+      ["length(region)", 5],
+      ["contains(region, 'or')", true],
+    ])("should evaluate %s", (source, expected) => {
+      expect(compileExpression(source)(row)).toBe(expected);
+    });
+
+    it("should propagate missing values through arithmetic", () => {
+      expect(compileExpression("notes * 2")(row)).toBeNull();
+      expect(compileExpression("missing + 1")(row)).toBeNull();
+      expect(compileExpression("amount / 0")(row)).toBeNull();
+    });
+
+    it("should read inherited properties as missing fields", () => {
+      expect(compileExpression("constructor")(row)).toBeNull();
+      expect(compileExpression("[toString] == null")(row)).toBe(true);
+    });
+
+    it("should list the fields an expression reads", () => {
+      expect(
+        compileExpression("round([unit price] * quantity, 2) + quantity").fields
+      ).toEqual(["unit price", "quantity"]);
+      expect(compileExpression("upper('x') == null").fields).toEqual([]);
+    });
+
+    it("should only match null with == null", () => {
+      expect(compileExpression("notes == null")(row)).toBe(true);
+      expect(compileExpression("notes < 5")(row)).toBe(false);
+      expect(compileExpression("notes != null")(row)).toBe(false);
+    });
+
+    it("should compare text that is not numeric as text", () => {
+      expect(compileExpression("region < 'South'")(row)).toBe(true);
+    });
+
+    it("should report where an expression is malformed", () => {
+      expect(() => compileExpression("amount *")).toThrow(
+        'Invalid expression "amount *" at position 9: unexpected end'
+      );
+      expect(() => compileExpression("amount ) 1")).toThrow(/position 8/);
+      expect(() => compileExpression("amount # 1")).toThrow(/position 8/);
+    });
+
+    it("should reject unknown functions", () => {
+      expect(() => compileExpression("eval('1')")).toThrow(
+        /unknown function "eval"/
+      );
+      expect(() => compileExpression("constructor(1)")).toThrow(
+        /unknown function/
+      );
+    });
+  });
+
+  describe("isTruthy", () => {
+    it("should treat empty values, false and zero as false", () => {
+      expect([null, undefined, "", false, 0, NaN].some(isTruthy)).toBe(false);
+      expect([true, 1, "no", -1].every(isTruthy)).toBe(true);
+    });
+  });
+});
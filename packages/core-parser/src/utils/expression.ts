@@ -0,0 +1,343 @@
+/**
+ * Row expressions for transform recipes, used to filter rows and derive
+ * columns. Expressions are parsed into closures; nothing is passed to
+ * `eval`.
+ *
+ * Supported syntax:
+ * - field references: `amount`, or `[unit price]` for names that are not
+ *   identifiers
+ * - literals: numbers, `'text'` or `"text"`, `true`, `false`, `null`
+ * - operators, loosest first: `||`, `&&`, `== !=`, `< <= > >=`, `+ -`,
+ *   `* / %`, unary `!` and `-`. `+` joins text when either side is text.
+ * - functions: see `EXPRESSION_FUNCTIONS`
+ *
+ * Arithmetic on a missing value gives null, and comparisons with null are
+ * false except `== null` and `!= null`.
+ */
+
+export type RowExpression = (row: Record<string, unknown>) => unknown;
+
+export type CompiledExpression = RowExpression & {
+  /** Names of the fields the expression reads, in order of first use */
+  fields: string[];
+};
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "string"; value: string; position: number }
+  | { type: "name"; value: string; position: number }
+  | { type: "field"; value: string; position: number }
+  | { type: "operator"; value: string; position: number };
+
+const TOKEN_PATTERN =
+  /\s*(?:(\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.\d+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|([A-Za-z_][\w]*)|\[([^\]]+)\]|(\|\||&&|==|!=|<=|>=|[-+*/%<>!(),]))/y;
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "==": 3,
+  "!=": 3,
+  "<": 4,
+  "<=": 4,
+  ">": 4,
+  ">=": 4,
+  "+": 5,
+  "-": 5,
+  "*": 6,
+  "/": 6,
+  "%": 6,
+};
+
+/**
+ * Functions available in expressions, by name
+ */
+export const EXPRESSION_FUNCTIONS: Record<
+  string,
+  (...args: unknown[]) => unknown
+> = {
+  upper: (value) => (isMissing(value) ? null : String(value).toUpperCase()),
+  lower: (value) => (isMissing(value) ? null : String(value).toLowerCase()),
+  trim: (value) => (isMissing(value) ? null : String(value).trim()),
+  length: (value) => (isMissing(value) ? null : String(value).length),
+  contains: (value, part) =>
+    !isMissing(value) && String(value).includes(String(part)),
+  concat: (...values) => values.filter((value) => !isMissing(value)).join(""),
+  coalesce: (...values) => values.find((value) => !isMissing(value)) ?? null,
+  if: (condition, then, otherwise = null) =>
+    isTruthy(condition) ? then : otherwise,
+  abs: (value) => mapNumber(value, Math.abs),
+  floor: (value) => mapNumber(value, Math.floor),
+  ceil: (value) => mapNumber(value, Math.ceil),
+  round: (value, digits = 0) =>
+    mapNumber(value, (number) => {
+      const factor = 10 ** (toNumber(digits) ?? 0);
+      return Math.round(number * factor) / factor;
+    }),
+  number: (value) => toNumber(value),
+  text: (value) => (isMissing(value) ? null : String(value)),
+};
+
+/**
+ * Parses an expression into a function of a row. Fields missing from a row,
+ * including inherited properties such as `constructor`, read as null; check
+ * the names in `fields` against the dataset to catch typos.
+ *
+ * @throws {Error} If the expression is malformed or calls an unknown function
+ *
+ * @example
+ * ```typescript
+ * const total = compileExpression("round([unit price] * quantity, 2)");
+ * total({ "unit price": 2.5, quantity: 3 }); // 7.5
+ * total.fields; // ["unit price", "quantity"]
+ * ```
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const tokens = tokenize(source);
+  const fields = new Set<string>();
+  let index = 0;
+
+  const fail = (message: string, token = tokens[index]): never => {
+    const position = token ? token.position + 1 : source.length + 1;
+    throw new Error(
+      `Invalid expression "${source}" at position ${position}: ${message}`
+    );
+  };
+  const isOperator = (value: string) =>
+    tokens[index]?.type === "operator" && tokens[index].value === value;
+  const expect = (value: string) => {
+    if (!isOperator(value)) fail(`expected "${value}"`);
+    index++;
+  };
+
+  const parseBinary = (minPrecedence: number): RowExpression => {
+    let left = parseUnary();
+    for (;;) {
+      const token = tokens[index];
+      if (token?.type !== "operator") return left;
+      const precedence = BINARY_PRECEDENCE[token.value];
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      index++;
+      const right = parseBinary(precedence + 1);
+      left = binary(token.value, left, right);
+    }
+  };
+
+  const parseUnary = (): RowExpression => {
+    if (isOperator("!")) {
+      index++;
+      const operand = parseUnary();
+      return (row) => !isTruthy(operand(row));
+    }
+    if (isOperator("-")) {
+      index++;
+      const operand = parseUnary();
+      return (row) => {
+        const value = toNumber(operand(row));
+        return value === null ? null : -value;
+      };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): RowExpression => {
+    const token = tokens[index];
+    if (!token) return fail("unexpected end");
+    index++;
+
+    switch (token.type) {
+      case "number":
+      case "string": {
+        const value = token.value;
+        return () => value;
+      }
+      case "field":
+        return readField(token.value);
+      case "name": {
+        if (isOperator("(")) return parseCall(token);
+        const name = token.value;
+        if (name === "true") return () => true;
+        if (name === "false") return () => false;
+        if (name === "null") return () => null;
+        return readField(name);
+      }
+      default:
+        if (token.value === "(") {
+          const inner = parseBinary(1);
+          expect(")");
+          return inner;
+        }
+        return fail(`unexpected "${token.value}"`, token);
+    }
+  };
+
+  const readField = (name: string): RowExpression => {
+    fields.add(name);
+    return (row) => (Object.hasOwn(row, name) ? (row[name] ?? null) : null);
+  };
+
+  const parseCall = (token: Token): RowExpression => {
+    const name = String(token.value).toLowerCase();
+    const fn = Object.hasOwn(EXPRESSION_FUNCTIONS, name)
+      ? EXPRESSION_FUNCTIONS[name]
+      : undefined;
+    if (!fn) return fail(`unknown function "${token.value}"`, token);
+
+    expect("(");
+    const args: RowExpression[] = [];
+    if (!isOperator(")")) {
+      args.push(parseBinary(1));
+      while (isOperator(",")) {
+        index++;
+        args.push(parseBinary(1));
+      }
+    }
+    expect(")");
+    return (row) => fn(...args.map((arg) => arg(row)));
+  };
+
+  const expression = parseBinary(1);
+  if (index < tokens.length) fail(`unexpected "${tokens[index].value}"`);
+  return Object.assign(expression, { fields: [...fields] });
+}
+
+/**
+ * Whether a value counts as true in a filter: anything but null, false, 0,
+ * NaN and ""
+ */
+export function isTruthy(value: unknown): boolean {
+  return (
+    !isMissing(value) && value !== false && value !== 0 && !Number.isNaN(value)
+  );
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    TOKEN_PATTERN.lastIndex = position;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      const rest = source.slice(position);
+      if (rest.trim() === "") break;
+      throw new Error(
+        `Invalid expression "${source}" at position ${position + rest.search(/\S/) + 1}`
+      );
+    }
+
+    const [text, number, single, double, name, field, operator] = match;
+    const start = position + text.length - text.trimStart().length;
+    if (number !== undefined) {
+      tokens.push({ type: "number", value: Number(number), position: start });
+    } else if (single !== undefined || double !== undefined) {
+      const value = (single ?? double).replace(/\\(.)/g, "$1");
+      tokens.push({ type: "string", value, position: start });
+    } else if (name !== undefined) {
+      tokens.push({ type: "name", value: name, position: start });
+    } else if (field !== undefined) {
+      tokens.push({ type: "field", value: field.trim(), position: start });
+    } else {
+      tokens.push({ type: "operator", value: operator, position: start });
+    }
+    position += text.length;
+  }
+
+  return tokens;
+}
+
+function binary(
+  operator: string,
+  left: RowExpression,
+  right: RowExpression
+): RowExpression {
+  switch (operator) {
+    case "||":
+      return (row) => isTruthy(left(row)) || isTruthy(right(row));
+    case "&&":
+      return (row) => isTruthy(left(row)) && isTruthy(right(row));
+    case "==":
+      return (row) => equals(left(row), right(row));
+    case "!=":
+      return (row) => !equals(left(row), right(row));
+    case "+":
+      return (row) => {
+        const a = left(row);
+        const b = right(row);
+        if (isMissing(a) || isMissing(b)) return null;
+        if (typeof a === "string" || typeof b === "string") {
+          return String(a) + String(b);
+        }
+        return arithmetic(a, b, (x, y) => x + y);
+      };
+    case "-":
+      return (row) => arithmetic(left(row), right(row), (x, y) => x - y);
+    case "*":
+      return (row) => arithmetic(left(row), right(row), (x, y) => x * y);
+    case "/":
+      return (row) =>
+        arithmetic(left(row), right(row), (x, y) => (y === 0 ? null : x / y));
+    case "%":
+      return (row) =>
+        arithmetic(left(row), right(row), (x, y) => (y === 0 ? null : x % y));
+    default:
+      return (row) => compare(operator, left(row), right(row));
+  }
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (isMissing(a) || isMissing(b)) return isMissing(a) && isMissing(b);
+  if (typeof a === "number" || typeof b === "number") {
+    return toNumber(a) === toNumber(b);
+  }
+  return String(a) === String(b);
+}
+
+function compare(operator: string, a: unknown, b: unknown): boolean {
+  if (isMissing(a) || isMissing(b)) return false;
+  const x = toNumber(a);
+  const y = toNumber(b);
+  const [left, right] =
+    x !== null && y !== null ? [x, y] : [String(a), String(b)];
+  switch (operator) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    default:
+      return left >= right;
+  }
+}
+
+function arithmetic(
+  a: unknown,
+  b: unknown,
+  operation: (x: number, y: number) => number | null
+): number | null {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  return x === null || y === null ? null : operation(x, y);
+}
+
+function mapNumber(
+  value: unknown,
+  operation: (number: number) => number
+): number | null {
+  const number = toNumber(value);
+  return number === null ? null : operation(number);
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
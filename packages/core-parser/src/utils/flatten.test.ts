@@ -0,0 +1,282 @@
+import { describe, it, expect } from "vitest";
+import type { DatasetSchema } from "@open-dashboard/shared/types";
+import {
+  RECORD_INDEX_FIELD,
+  annotateFlattenedSchema,
+  flattenRecords,
+  readFlattenInfo,
+  resolveFlattenOptions,
+  unflattenRecords,
+} from "./flatten";
+
+function schemaFor(
+  result: ReturnType<typeof flattenRecords>,
+  options = {}
+): DatasetSchema {
+  const schema: DatasetSchema = {
+    fields: Array.from(result.fields.keys()).map((name) => ({
+      name,
+      type: "string",
+    })),
+  };
+  return annotateFlattenedSchema(schema, result.fields, options);
+}
+
+describe("flatten", () => {
+  describe("resolveFlattenOptions", () => {
+    it("should return undefined when flattening is disabled", () => {
+      expect(resolveFlattenOptions(undefined)).toBeUndefined();
+      expect(resolveFlattenOptions(false)).toBeUndefined();
+    });
+
+    it("should fill in defaults", () => {
+      expect(resolveFlattenOptions(true)).toEqual({
+        maxDepth: 5,
+        separator: ".",
+        arrayPolicy: "json",
+        joinSeparator: ", ",
+      });
+      expect(
+        resolveFlattenOptions({ arrayPolicy: "explode" })?.arrayPolicy
+      ).toBe("explode");
+    });
+  });
+
+  describe("flattenRecords", () => {
+    it("should flatten nested objects into dotted columns", () => {
+      const result = flattenRecords([
+        { id: 1, address: { city: "Oslo", geo: { lat: 59.9 } } },
+      ]);
+
+      expect(result.data).toEqual([
+        { id: 1, "address.city": "Oslo", "address.geo.lat": 59.9 },
+      ]);
+      expect(result.fields.get("address.geo.lat")).toEqual({
+        path: ["address", "geo", "lat"],
+        arrayDepth: undefined,
+      });
+    });
+
+    it("should keep objects beyond maxDepth as JSON", () => {
+      const result = flattenRecords(
+        [{ address: { geo: { lat: 1, lng: 2 } } }],
+        { maxDepth: 2 }
+      );
+
+      expect(result.data).toEqual([{ "address.geo": '{"lat":1,"lng":2}' }]);
+      expect(result.fields.get("address.geo")?.encoding).toBe("json");
+    });
+
+    it("should use a custom separator", () => {
+      const result = flattenRecords([{ a: { b: 1 } }], { separator: "_" });
+
+      expect(result.data).toEqual([{ a_b: 1 }]);
+    });
+
+    it("should store arrays as JSON by default", () => {
+      const result = flattenRecords([{ tags: ["a", "b"] }]);
+
+      expect(result.data).toEqual([{ tags: '["a","b"]' }]);
+    });
+
+    it("should join primitive arrays", () => {
+      const result = flattenRecords([{ tags: ["a", "b"], items: [{ x: 1 }] }], {
+        arrayPolicy: "join",
+        joinSeparator: "|",
+      });
+
+      expect(result.data).toEqual([{ tags: "a|b", items: '[{"x":1}]' }]);
+      expect(result.fields.get("tags")?.encoding).toBe("join");
+      expect(result.fields.get("items")?.encoding).toBe("json");
+    });
+
+    it("should explode arrays into one row per element", () => {
+      const result = flattenRecords(
+        [
+          {
+            order: 1,
+            items: [
+              { sku: "A", qty: 2 },
+              { sku: "B", qty: 1 },
+            ],
+            note: "x",
+          },
+          { order: 2, items: [], note: "y" },
+        ],
+        { arrayPolicy: "explode" }
+      );
+
+      expect(result.data).toEqual([
+        {
+          [RECORD_INDEX_FIELD]: 0,
+          order: 1,
+          "items.sku": "A",
+          "items.qty": 2,
+          note: "x",
+        },
+        {
+          [RECORD_INDEX_FIELD]: 0,
+          order: 1,
+          "items.sku": "B",
+          "items.qty": 1,
+          note: "x",
+        },
+        { [RECORD_INDEX_FIELD]: 1, order: 2, items: null, note: "y" },
+      ]);
+      expect(result.fields.get("items.sku")).toEqual({
+        path: ["items", "sku"],
+        arrayDepth: 1,
+      });
+    });
+
+    it("should explode several arrays side by side", () => {
+      const result = flattenRecords([{ a: [1, 2, 3], b: ["x"] }], {
+        arrayPolicy: "explode",
+      });
+
+      expect(result.data.map((row) => [row.a, row.b])).toEqual([
+        [1, "x"],
+        [2, null],
+        [3, null],
+      ]);
+    });
+
+    it("should not add a record index when nothing was exploded", () => {
+      const result = flattenRecords([{ a: { b: 1 } }], {
+        arrayPolicy: "explode",
+      });
+
+      expect(result.data).toEqual([{ "a.b": 1 }]);
+      expect(result.fields.has(RECORD_INDEX_FIELD)).toBe(false);
+    });
+  });
+
+  describe("annotateFlattenedSchema", () => {
+    it("should write primitive metadata values", () => {
+      const result = flattenRecords([{ tags: ["a"], user: { name: "x" } }], {
+        arrayPolicy: "join",
+      });
+      const schema = schemaFor(result, { arrayPolicy: "join" });
+
+      expect(schema.fields[0].metadata).toEqual({
+        flattenPath: '["tags"]',
+        flattenEncoding: "join",
+        flattenJoinSeparator: ", ",
+      });
+      expect(schema.fields[1].metadata).toEqual({
+        flattenPath: '["user","name"]',
+      });
+    });
+
+    it("should mark the record index column", () => {
+      const result = flattenRecords([{ a: [1] }], { arrayPolicy: "explode" });
+      const schema = schemaFor(result);
+
+      expect(schema.fields[0].metadata).toEqual({
+        flattenRole: "recordIndex",
+      });
+      expect(schema.fields[1].metadata?.flattenArrayDepth).toBe(1);
+    });
+  });
+
+  describe("readFlattenInfo", () => {
+    it("should read metadata stringified by Arrow", () => {
+      const info = readFlattenInfo({
+        name: "items.sku",
+        type: "string",
+        metadata: {
+          flattenPath: '["items","sku"]',
+          flattenArrayDepth: "1",
+        },
+      });
+
+      expect(info).toEqual({ path: ["items", "sku"], arrayDepth: 1 });
+    });
+
+    it("should return undefined for fields that were not flattened", () => {
+      expect(readFlattenInfo({ name: "a", type: "string" })).toBeUndefined();
+      expect(
+        readFlattenInfo({
+          name: "a",
+          type: "string",
+          metadata: { flattenPath: "not json" },
+        })
+      ).toBeUndefined();
+    });
+  });
+
+  describe("unflattenRecords", () => {
+    const records = [
+      {
+        id: 1,
+        user: { name: "Ada", address: { city: "London" } },
+        tags: ["math", "code"],
+        items: [
+          { sku: "A", price: { amount: 3 } },
+          { sku: "B", price: { amount: 5 } },
+        ],
+      },
+      {
+        id: 2,
+        user: { name: "Alan", address: { city: "Wilmslow" } },
+        tags: [],
+        items: [{ sku: "C", price: { amount: 1 } }],
+      },
+    ];
+
+    it.each(["json", "explode"] as const)(
+      "should restore records flattened with the %s policy",
+      (arrayPolicy) => {
+        const result = flattenRecords(records, { arrayPolicy });
+        const schema = schemaFor(result, { arrayPolicy });
+
+        expect(unflattenRecords(result.data, schema)).toEqual(records);
+      }
+    );
+
+    it("should restore __proto__ keys as data without touching prototypes", () => {
+      const records = JSON.parse(
+        '[{"id":1,"__proto__":{"polluted":"yes"},"constructor":{"prototype":{"x":1}}}]'
+      ) as Record<string, unknown>[];
+      const result = flattenRecords(records);
+
+      const [restored] = unflattenRecords(result.data, schemaFor(result));
+
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(Object.getPrototypeOf(restored)).toBe(Object.prototype);
+      expect(Object.hasOwn(restored, "__proto__")).toBe(true);
+      expect(restored).toEqual(records[0]);
+    });
+
+    it("should restore joined arrays as strings", () => {
+      const options = { arrayPolicy: "join" as const };
+      const result = flattenRecords(
+        [{ tags: ["a", "b"] }, { tags: [] }],
+        options
+      );
+      const schema = schemaFor(result, options);
+
+      expect(unflattenRecords(result.data, schema)).toEqual([
+        { tags: ["a", "b"] },
+        { tags: [] },
+      ]);
+    });
+
+    it("should restore objects kept as JSON beyond maxDepth", () => {
+      const options = { maxDepth: 1 };
+      const result = flattenRecords([{ a: { b: { c: 1 } } }], options);
+
+      expect(unflattenRecords(result.data, schemaFor(result, options))).toEqual(
+        [{ a: { b: { c: 1 } } }]
+      );
+    });
+
+    it("should keep columns without flatten metadata at the top level", () => {
+      const schema: DatasetSchema = {
+        fields: [{ name: "a.b", type: "number" }],
+      };
+
+      expect(unflattenRecords([{ "a.b": 1 }], schema)).toEqual([{ "a.b": 1 }]);
+    });
+  });
+});
@@ -0,0 +1,408 @@
+import type {
+  DatasetSchema,
+  DataField,
+  FlattenOptions,
+} from "@open-dashboard/shared/types";
+
+/**
+ * Flattening of nested records into dotted columns.
+ *
+ * `{ address: { city: "Oslo" } }` becomes `{ "address.city": "Oslo" }`.
+ * Every produced column is described by field metadata (`flattenPath`,
+ * `flattenArrayDepth`, `flattenEncoding`, `flattenJoinSeparator`) holding only
+ * primitive values, so the description survives Arrow conversion and
+ * {@link unflattenRecords} can rebuild the original nesting on export.
+ */
+
+/**
+ * Column added when arrays are exploded, holding the index of the source
+ * record so that exploded rows can be regrouped
+ */
+export const RECORD_INDEX_FIELD = "_record";
+
+export interface FlattenFieldInfo {
+  /** Keys leading from the record root to the value */
+  path: string[];
+  /** Number of leading path segments that point at an exploded array */
+  arrayDepth?: number;
+  /** How the value was encoded into a single cell */
+  encoding?: "json" | "join";
+}
+
+export interface FlattenResult {
+  /** Flattened rows */
+  data: Record<string, unknown>[];
+  /** Description of every produced column, in column order */
+  fields: Map<string, FlattenFieldInfo>;
+}
+
+type Row = Record<string, unknown>;
+
+type Slot =
+  | { type: "cell"; name: string; value: unknown }
+  | { type: "explode"; path: string[]; items: unknown[] };
+
+/**
+ * Fills in defaults for the `flatten` parser option
+ *
+ * @returns The resolved options, or undefined if flattening is disabled
+ */
+export function resolveFlattenOptions(
+  option: boolean | FlattenOptions | undefined
+): Required<FlattenOptions> | undefined {
+  if (!option) {
+    return undefined;
+  }
+
+  const options = option === true ? {} : option;
+  return {
+    maxDepth: options.maxDepth ?? 5,
+    separator: options.separator ?? ".",
+    arrayPolicy: options.arrayPolicy ?? "json",
+    joinSeparator: options.joinSeparator ?? ", ",
+  };
+}
+
+/**
+ * Flattens nested objects into columns named by their path
+ *
+ * Objects nested deeper than `maxDepth` segments are stored as JSON strings.
+ * Arrays follow `arrayPolicy`:
+ * - `json`: the array is stored as a JSON string
+ * - `join`: primitive elements are joined with `joinSeparator` (arrays
+ *   holding objects fall back to JSON)
+ * - `explode`: one row per element, with object elements flattened further.
+ *   Several arrays in the same record are exploded side by side (row n holds
+ *   element n of each), and an empty array still yields one row. Arrays nested
+ *   inside exploded elements are stored as JSON.
+ */
+export function flattenRecords(
+  records: Row[],
+  options: FlattenOptions = {}
+): FlattenResult {
+  const { maxDepth, separator, arrayPolicy, joinSeparator } =
+    resolveFlattenOptions(options) as Required<FlattenOptions>;
+  const fields = new Map<string, FlattenFieldInfo>();
+  const rows: Row[] = [];
+  const recordIndexes: number[] = [];
+  let exploded = false;
+
+  const cell = (
+    target: Slot[] | Row,
+    info: FlattenFieldInfo,
+    value: unknown
+  ): void => {
+    const name = info.path.join(separator);
+    if (!fields.has(name)) {
+      fields.set(name, info);
+    }
+    if (Array.isArray(target)) {
+      target.push({ type: "cell", name, value });
+    } else {
+      setOwn(target, name, value);
+    }
+  };
+
+  const walk = (
+    value: Row,
+    path: string[],
+    target: Slot[] | Row,
+    arrayDepth?: number
+  ): void => {
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = [...path, key];
+      const info: FlattenFieldInfo = { path: childPath, arrayDepth };
+
+      if (isPlainObject(child) && Object.keys(child).length > 0) {
+        if (childPath.length < maxDepth) {
+          walk(child, childPath, target, arrayDepth);
+        } else {
+          cell(target, { ...info, encoding: "json" }, JSON.stringify(child));
+        }
+      } else if (isPlainObject(child)) {
+        cell(target, { ...info, encoding: "json" }, JSON.stringify(child));
+      } else if (Array.isArray(child)) {
+        if (arrayPolicy === "explode" && Array.isArray(target)) {
+          target.push({ type: "explode", path: childPath, items: child });
+        } else if (
+          arrayPolicy === "join" &&
+          child.every((item) => item === null || typeof item !== "object")
+        ) {
+          cell(
+            target,
+            { ...info, encoding: "join" },
+            child.map((item) => item ?? "").join(joinSeparator)
+          );
+        } else {
+          cell(target, { ...info, encoding: "json" }, JSON.stringify(child));
+        }
+      } else {
+        cell(target, info, child);
+      }
+    }
+  };
+
+  records.forEach((record, recordIndex) => {
+    const slots: Slot[] = [];
+    walk(record, [], slots);
+
+    const rowCount = Math.max(
+      1,
+      ...slots.map((slot) => (slot.type === "explode" ? slot.items.length : 1))
+    );
+
+    for (let i = 0; i < rowCount; i++) {
+      const row: Row = {};
+
+      for (const slot of slots) {
+        if (slot.type === "cell") {
+          setOwn(row, slot.name, slot.value);
+          continue;
+        }
+
+        exploded = true;
+        const item = slot.items[i];
+        const info: FlattenFieldInfo = {
+          path: slot.path,
+          arrayDepth: slot.path.length,
+        };
+
+        if (isPlainObject(item) && Object.keys(item).length > 0) {
+          walk(
+            { [slot.path[slot.path.length - 1]]: item },
+            slot.path.slice(0, -1),
+            row,
+            slot.path.length
+          );
+        } else if (typeof item === "object" && item !== null) {
+          cell(row, { ...info, encoding: "json" }, JSON.stringify(item));
+        } else {
+          cell(row, info, item ?? null);
+        }
+      }
+
+      rows.push(row);
+      recordIndexes.push(recordIndex);
+    }
+  });
+
+  if (!exploded) {
+    return { data: rows, fields };
+  }
+
+  return {
+    data: rows.map((row, i) => ({
+      [RECORD_INDEX_FIELD]: recordIndexes[i],
+      ...row,
+    })),
+    fields: new Map([
+      [RECORD_INDEX_FIELD, { path: [RECORD_INDEX_FIELD] }],
+      ...fields,
+    ]),
+  };
+}
+
+/**
+ * Records how each column was flattened in the schema's field metadata
+ */
+export function annotateFlattenedSchema(
+  schema: DatasetSchema,
+  fields: Map<string, FlattenFieldInfo>,
+  options: FlattenOptions = {}
+): DatasetSchema {
+  const { joinSeparator } = resolveFlattenOptions(
+    options
+  ) as Required<FlattenOptions>;
+
+  schema.fields.forEach((field) => {
+    const info = fields.get(field.name);
+    if (!info) return;
+
+    if (field.name === RECORD_INDEX_FIELD && info.arrayDepth === undefined) {
+      field.metadata = { ...field.metadata, flattenRole: "recordIndex" };
+      return;
+    }
+
+    field.metadata = {
+      ...field.metadata,
+      flattenPath: JSON.stringify(info.path),
+      ...(info.arrayDepth !== undefined && {
+        flattenArrayDepth: info.arrayDepth,
+      }),
+      ...(info.encoding && { flattenEncoding: info.encoding }),
+      ...(info.encoding === "join" && { flattenJoinSeparator: joinSeparator }),
+    };
+  });
+
+  return schema;
+}
+
+/**
+ * Reads the flattening description written by {@link annotateFlattenedSchema}
+ *
+ * Accepts metadata that went through Arrow, where numbers became strings.
+ *
+ * @returns The description, or undefined if the field was not flattened
+ */
+export function readFlattenInfo(
+  field: DataField
+): FlattenFieldInfo | undefined {
+  const metadata = field.metadata;
+  if (typeof metadata?.flattenPath !== "string") {
+    return undefined;
+  }
+
+  let path: unknown;
+  try {
+    path = JSON.parse(metadata.flattenPath);
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(path) || !path.every((key) => typeof key === "string")) {
+    return undefined;
+  }
+
+  const arrayDepth = Number(metadata.flattenArrayDepth);
+  const encoding = metadata.flattenEncoding;
+
+  return {
+    path,
+    ...(Number.isInteger(arrayDepth) && arrayDepth > 0 && { arrayDepth }),
+    ...((encoding === "json" || encoding === "join") && { encoding }),
+  };
+}
+
+/**
+ * Rebuilds nested records from rows produced by {@link flattenRecords}
+ *
+ * Uses the schema's field metadata to restore nesting, decode JSON and joined
+ * cells and regroup exploded rows by the record index column. Columns without
+ * flatten metadata are kept as top-level keys. Joined values come back as
+ * strings, and nulls that padded shorter exploded arrays are dropped.
+ */
+export function unflattenRecords(data: Row[], schema: DatasetSchema): Row[] {
+  const recordField = schema.fields.find(
+    (field) => field.metadata?.flattenRole === "recordIndex"
+  );
+  const columns = schema.fields
+    .filter((field) => field !== recordField)
+    .map((field) => ({
+      name: field.name,
+      info: readFlattenInfo(field) ?? { path: [field.name] },
+      joinSeparator: String(field.metadata?.flattenJoinSeparator ?? ", "),
+    }));
+
+  const groups = new Map<unknown, Row[]>();
+  data.forEach((row, i) => {
+    const key = recordField ? row[recordField.name] : i;
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+
+  const decode = (value: unknown, column: (typeof columns)[number]) => {
+    if (typeof value !== "string") return value;
+    if (column.info.encoding === "json") {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    if (column.info.encoding === "join") {
+      return value === "" ? [] : value.split(column.joinSeparator);
+    }
+    return value;
+  };
+
+  return Array.from(groups.values()).map((rows) => {
+    const record: Row = {};
+    const builtArrays = new Set<string>();
+
+    for (const column of columns) {
+      const { path, arrayDepth } = column.info;
+
+      if (arrayDepth === undefined) {
+        setPath(record, path, decode(rows[0][column.name], column));
+        continue;
+      }
+
+      const arrayPath = path.slice(0, arrayDepth);
+      const arrayKey = JSON.stringify(arrayPath);
+      if (builtArrays.has(arrayKey)) continue;
+      builtArrays.add(arrayKey);
+
+      const elementColumns = columns.filter(
+        (other) =>
+          other.info.arrayDepth === arrayDepth &&
+          JSON.stringify(other.info.path.slice(0, arrayDepth)) === arrayKey
+      );
+
+      const items = rows.map((row) => {
+        let element: unknown = null;
+        for (const other of elementColumns) {
+          const value = decode(row[other.name], other);
+          if (value === null || value === undefined) continue;
+
+          if (other.info.path.length === arrayDepth) {
+            return value;
+          }
+          if (!isPlainObject(element)) {
+            element = {};
+          }
+          setPath(element as Row, other.info.path.slice(arrayDepth), value);
+        }
+        return element;
+      });
+
+      while (items.length > 0 && items[items.length - 1] === null) {
+        items.pop();
+      }
+      setPath(record, arrayPath, items);
+    }
+
+    return record;
+  });
+}
+
+/**
+ * Assigns a value at a nested path, creating intermediate objects
+ *
+ * Missing values are skipped, and nulls never create intermediate objects.
+ */
+function setPath(target: Row, path: string[], value: unknown): void {
+  if (value === undefined) return;
+
+  let node = target;
+  for (const key of path.slice(0, -1)) {
+    if (!Object.hasOwn(node, key)) {
+      if (value === null) return;
+      setOwn(node, key, {});
+    }
+    const next = node[key];
+    if (!isPlainObject(next)) return;
+    node = next;
+  }
+
+  setOwn(node, path[path.length - 1], value);
+}
+
+/**
+ * Sets an own property, so keys such as "__proto__" stay data instead of
+ * replacing the prototype
+ */
+function setOwn(target: Row, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+function isPlainObject(value: unknown): value is Row {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { LOG_FORMATS, compileGrok, compileRegex } from "./grok";
+
+describe("grok", () => {
+  describe("compileGrok", () => {
+    it("should capture named fields", () => {
+      const pattern = compileGrok(
+        "%{IP:client} %{WORD:method} %{NOTSPACE:path}"
+      );
+
+      expect(pattern.fields).toEqual(["client", "method", "path"]);
+      expect(pattern.match("10.0.0.1 GET /index.html")).toEqual({
+        client: "10.0.0.1",
+        method: "GET",
+        path: "/index.html",
+      });
+    });
+
+    it("should convert int and float fields", () => {
+      const pattern = compileGrok("%{INT:status:int} %{NUMBER:ms:float}");
+
+      expect(pattern.match("200 12.5")).toEqual({ status: 200, ms: 12.5 });
+    });
+
+    it("should allow field names that are not identifiers", () => {
+      const pattern = compileGrok("%{WORD:http.method}");
+
+      expect(pattern.match("POST")).toEqual({ "http.method": "POST" });
+    });
+
+    it("should return undefined for lines that do not match", () => {
+      expect(compileGrok("%{INT:n}").match("abc")).toBeUndefined();
+    });
+
+    it("should anchor patterns at the start of the line", () => {
+      expect(compileGrok("%{INT:n}").match("x 42")).toBeUndefined();
+    });
+
+    it("should set optional fields that did not match to null", () => {
+      const pattern = compileGrok("%{WORD:a}(?: %{INT:b:int})?");
+
+      expect(pattern.match("x")).toEqual({ a: "x", b: null });
+    });
+
+    it("should support custom sub-patterns", () => {
+      const pattern = compileGrok("%{ORDER:order}", {
+        ORDER: "ORD-%{INT}",
+      });
+
+      expect(pattern.match("ORD-1234")).toEqual({ order: "ORD-1234" });
+    });
+
+    it("should throw for unknown and circular sub-patterns", () => {
+      expect(() => compileGrok("%{NOPE:x}")).toThrow(
+        'Unknown grok pattern "NOPE"'
+      );
+      expect(() => compileGrok("%{A}", { A: "%{B}", B: "%{A}" })).toThrow(
+        "Circular grok pattern: A -> B -> A"
+      );
+    });
+  });
+
+  describe("compileRegex", () => {
+    it("should capture named groups from a RegExp or string", () => {
+      const fromRegExp = compileRegex(/(?<key>\w+)=(?<value>\w+)/);
+      const fromString = compileRegex("(?<key>\\w+)=(?<value>\\w+)");
+
+      expect(fromRegExp.match("a=1")).toEqual({ key: "a", value: "1" });
+      expect(fromString.match("a=1")).toEqual({ key: "a", value: "1" });
+    });
+
+    it("should keep pattern flags and drop the global flag", () => {
+      const pattern = compileRegex(/(?<word>hello)/gi);
+
+      expect(pattern.regex.flags).toBe("i");
+      expect(pattern.match("HELLO")).toEqual({ word: "HELLO" });
+      expect(pattern.match("HELLO")).toEqual({ word: "HELLO" });
+    });
+
+    it("should require named groups", () => {
+      expect(() => compileRegex(/(\d+)/)).toThrow("named capture group");
+    });
+  });
+
+  describe("LOG_FORMATS", () => {
+    it("should parse Apache combined log lines", () => {
+      const line =
+        '127.0.0.1 - frank [10/Oct/2000:13:55:36 -0700] "GET /apache_pb.gif HTTP/1.0" 200 2326 "http://www.example.com/start.html" "Mozilla/4.08"';
+
+      expect(compileGrok(LOG_FORMATS.apache).match(line)).toEqual({
+        clientip: "127.0.0.1",
+        ident: "-",
+        auth: "frank",
+        timestamp: "10/Oct/2000:13:55:36 -0700",
+        method: "GET",
+        request: "/apache_pb.gif",
+        httpversion: "1.0",
+        rawrequest: null,
+        status: 200,
+        bytes: 2326,
+        referrer: "http://www.example.com/start.html",
+        agent: "Mozilla/4.08",
+      });
+    });
+
+    it("should parse nginx lines without a body size", () => {
+      const line =
+        '192.168.1.5 - - [01/Feb/2024:08:00:01 +0000] "HEAD /health HTTP/1.1" 204 - "-" "curl/8.0"';
+      const fields = compileGrok(LOG_FORMATS.nginx).match(line);
+
+      expect(fields?.status).toBe(204);
+      expect(fields?.bytes).toBeNull();
+      expect(fields?.agent).toBe("curl/8.0");
+    });
+
+    it("should parse syslog lines", () => {
+      const line = "Oct 11 22:14:15 mymachine su[230]: 'su root' failed";
+
+      expect(compileGrok(LOG_FORMATS.syslog).match(line)).toEqual({
+        timestamp: "Oct 11 22:14:15",
+        host: "mymachine",
+        program: "su",
+        pid: 230,
+        message: "'su root' failed",
+      });
+    });
+
+    it("should parse ISO-timestamped application logs", () => {
+      const pattern = compileGrok(LOG_FORMATS.app);
+
+      expect(
+        pattern.match("2024-03-01T10:15:00.123Z ERROR Payment failed")
+      ).toEqual({
+        timestamp: "2024-03-01T10:15:00.123Z",
+        level: "ERROR",
+        message: "Payment failed",
+      });
+      expect(
+        pattern.match("2024-03-01 10:15:00,456 [warn] - Slow query")
+      ).toMatchObject({ level: "warn", message: "Slow query" });
+    });
+  });
+});
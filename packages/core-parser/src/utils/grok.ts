@@ -0,0 +1,184 @@
+/**
+ * Grok-style patterns for extracting fields from text lines.
+ *
+ * A grok expression is a regular expression with `%{NAME}` references to
+ * named sub-patterns. `%{NAME:field}` captures the match as `field`, and
+ * `%{NAME:field:int}` / `%{NAME:field:float}` also converts it to a number.
+ */
+
+/**
+ * Base sub-patterns, a subset of the Logstash grok library
+ */
+export const GROK_PATTERNS: Record<string, string> = {
+  USERNAME: "[a-zA-Z0-9._-]+",
+  USER: "%{USERNAME}",
+  INT: "[+-]?\\d+",
+  POSINT: "\\b[1-9]\\d*\\b",
+  NUMBER: "[+-]?(?:\\d+(?:\\.\\d+)?|\\.\\d+)",
+  WORD: "\\b\\w+\\b",
+  NOTSPACE: "\\S+",
+  SPACE: "\\s*",
+  DATA: ".*?",
+  GREEDYDATA: ".*",
+  QUOTEDSTRING: '"(?:[^"\\\\]|\\\\.)*"',
+  IPV4: "(?:\\d{1,3}\\.){3}\\d{1,3}",
+  IPV6: "(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}",
+  IP: "(?:%{IPV6}|%{IPV4})",
+  HOSTNAME:
+    "\\b[0-9A-Za-z][0-9A-Za-z-]{0,62}(?:\\.[0-9A-Za-z][0-9A-Za-z-]{0,62})*\\.?",
+  IPORHOST: "(?:%{IP}|%{HOSTNAME})",
+  MONTH:
+    "\\b(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:tember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\b",
+  MONTHDAY: "(?:0?[1-9]|[12]\\d|3[01])",
+  TIME: "\\d{2}:\\d{2}:\\d{2}(?:[.,]\\d+)?",
+  HTTPDATE: "\\d{2}/\\w{3}/\\d{4}:\\d{2}:\\d{2}:\\d{2} [+-]\\d{4}",
+  SYSLOGTIMESTAMP: "%{MONTH} +%{MONTHDAY} %{TIME}",
+  TIMESTAMP_ISO8601:
+    "\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}(?::\\d{2}(?:[.,]\\d+)?)?(?:Z|[+-]\\d{2}:?\\d{2})?",
+  LOGLEVEL:
+    "(?:TRACE|DEBUG|INFO|NOTICE|WARN(?:ING)?|ERR(?:OR)?|CRIT(?:ICAL)?|ALERT|FATAL|SEVERE|EMERG(?:ENCY)?|[Tt]race|[Dd]ebug|[Ii]nfo|[Nn]otice|[Ww]arn(?:ing)?|[Ee]rr(?:or)?|[Cc]rit(?:ical)?|[Aa]lert|[Ff]atal|[Ss]evere)",
+  PROG: "[\\w._/%-]+",
+  COMMONAPACHELOG:
+    '%{IPORHOST:clientip} %{USER:ident} %{USER:auth} \\[%{HTTPDATE:timestamp}\\] "(?:%{WORD:method} %{NOTSPACE:request}(?: HTTP/%{NUMBER:httpversion})?|%{DATA:rawrequest})" %{INT:status:int} (?:%{INT:bytes:int}|-)',
+  COMBINEDAPACHELOG:
+    '%{COMMONAPACHELOG}(?: "%{DATA:referrer}" "%{DATA:agent}")?',
+};
+
+/**
+ * Built-in grok expressions for common log formats
+ */
+export const LOG_FORMATS = {
+  /** Apache common or combined access log */
+  apache: "%{COMBINEDAPACHELOG}",
+  /** nginx access log (default "combined" format) */
+  nginx: "%{COMBINEDAPACHELOG}",
+  /** BSD syslog (RFC 3164): `Oct 11 22:14:15 host app[42]: message` */
+  syslog:
+    "%{SYSLOGTIMESTAMP:timestamp} %{IPORHOST:host} %{PROG:program}(?:\\[%{POSINT:pid:int}\\])?: %{GREEDYDATA:message}",
+  /** Application log with ISO timestamp and level: `2024-01-02T03:04:05Z ERROR message` */
+  app: "%{TIMESTAMP_ISO8601:timestamp}\\s+\\[?%{LOGLEVEL:level}\\]?\\s*[:-]?\\s*%{GREEDYDATA:message}",
+} as const;
+
+export type LogFormat = keyof typeof LOG_FORMATS;
+
+export interface CompiledPattern {
+  regex: RegExp;
+  /** Field names in capture order */
+  fields: string[];
+  /** Extracts the fields of a matching line, or returns undefined */
+  match(text: string): Record<string, unknown> | undefined;
+}
+
+/**
+ * Compiles a grok expression into a regular expression
+ *
+ * @param pattern - Grok expression, e.g. `%{IP:client} %{WORD:method}`
+ * @param customPatterns - Additional or overriding sub-patterns
+ * @param flags - Regular expression flags
+ * @throws {Error} If a sub-pattern is unknown or references are circular
+ */
+export function compileGrok(
+  pattern: string,
+  customPatterns: Record<string, string> = {},
+  flags = ""
+): CompiledPattern {
+  const library = { ...GROK_PATTERNS, ...customPatterns };
+  const fields: string[] = [];
+  const converters: ((value: string) => unknown)[] = [];
+
+  const expand = (expression: string, stack: string[]): string =>
+    expression.replace(
+      /%\{(\w+)(?::([^:}]+))?(?::(int|float))?\}/g,
+      (_, name: string, field?: string, type?: "int" | "float") => {
+        const definition = library[name];
+        if (definition === undefined) {
+          throw new Error(`Unknown grok pattern "${name}"`);
+        }
+        if (stack.includes(name)) {
+          throw new Error(
+            `Circular grok pattern: ${[...stack, name].join(" -> ")}`
+          );
+        }
+
+        const body = expand(definition, [...stack, name]);
+        if (!field) {
+          return `(?:${body})`;
+        }
+
+        // Capture groups get generated names so that field names may
+        // contain characters that are not valid in group names (e.g. dots)
+        fields.push(field);
+        converters.push(
+          type === "int"
+            ? (value) => parseInt(value, 10)
+            : type === "float"
+              ? (value) => parseFloat(value)
+              : (value) => value
+        );
+        return `(?<f${fields.length - 1}>${body})`;
+      }
+    );
+
+  const regex = new RegExp(`^${expand(pattern, [])}`, flags);
+
+  return {
+    regex,
+    fields,
+    match(text) {
+      const groups = regex.exec(text)?.groups;
+      if (!groups) return undefined;
+
+      const record: Record<string, unknown> = {};
+      fields.forEach((field, i) => {
+        const value = groups[`f${i}`];
+        // A field captured in several alternatives keeps the first match
+        if (value !== undefined || !(field in record)) {
+          record[field] = value === undefined ? null : converters[i](value);
+        }
+      });
+      return record;
+    },
+  };
+}
+
+/**
+ * Wraps a regular expression with named capture groups
+ *
+ * @param pattern - RegExp or regular expression source
+ * @param flags - Flags added to those of the pattern
+ * @throws {Error} If the pattern has no named capture groups
+ */
+export function compileRegex(
+  pattern: RegExp | string,
+  flags = ""
+): CompiledPattern {
+  const source = typeof pattern === "string" ? pattern : pattern.source;
+  const baseFlags = typeof pattern === "string" ? "" : pattern.flags;
+  const regex = new RegExp(
+    source,
+    Array.from(new Set(baseFlags.replace("g", "") + flags)).join("")
+  );
+
+  const fields = Array.from(
+    source.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g),
+    (match) => match[1]
+  );
+  if (fields.length === 0) {
+    throw new Error("Pattern must contain at least one named capture group");
+  }
+
+  return {
+    regex,
+    fields,
+    match(text) {
+      const groups = regex.exec(text)?.groups;
+      if (!groups) return undefined;
+
+      const record: Record<string, unknown> = {};
+      fields.forEach((field) => {
+        record[field] = groups[field] ?? null;
+      });
+      return record;
+    },
+  };
+}
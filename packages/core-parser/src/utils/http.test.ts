@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  backoffDelay,
+  createRateLimiter,
+  parseLinkHeader,
+  parseRetryAfter,
+} from "./http";
+
+describe("http utilities", () => {
+  describe("parseLinkHeader", () => {
+    it("should map relations to URLs", () => {
+      const header =
+        '<https://api.test/items?page=2>; rel="next", ' +
+        '<https://api.test/items?page=9>; rel="last"';
+
+      expect(parseLinkHeader(header)).toEqual({
+        next: "https://api.test/items?page=2",
+        last: "https://api.test/items?page=9",
+      });
+    });
+
+    it("should handle unquoted and multiple relations", () => {
+      expect(
+        parseLinkHeader('</p/2>; rel=next, </p/1>; rel="prev first"')
+      ).toEqual({
+        next: "/p/2",
+        prev: "/p/1",
+        first: "/p/1",
+      });
+    });
+
+    it("should return an empty map for missing headers", () => {
+      expect(parseLinkHeader(null)).toEqual({});
+      expect(parseLinkHeader("</p/2>; title=x")).toEqual({});
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse delta seconds", () => {
+      expect(parseRetryAfter("3")).toBe(3000);
+    });
+
+    it("should parse HTTP dates", () => {
+      const date = new Date(Date.now() + 60_000).toUTCString();
+      const delay = parseRetryAfter(date) ?? 0;
+
+      expect(delay).toBeGreaterThan(50_000);
+      expect(delay).toBeLessThanOrEqual(60_000);
+    });
+
+    it("should return undefined for missing or invalid values", () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+
+  describe("backoffDelay", () => {
+    it("should double the delay on each attempt up to maxDelay", () => {
+      const retry = { baseDelay: 100, maxDelay: 500 };
+
+      expect([0, 1, 2, 3].map((i) => backoffDelay(i, retry))).toEqual([
+        100, 200, 400, 500,
+      ]);
+    });
+  });
+
+  describe("createRateLimiter", () => {
+    it("should not wait without a limit", async () => {
+      const throttle = createRateLimiter();
+      const start = Date.now();
+
+      await Promise.all([throttle(), throttle(), throttle()]);
+
+      expect(Date.now() - start).toBeLessThan(20);
+    });
+
+    it("should delay requests beyond the limit", async () => {
+      const throttle = createRateLimiter({ requests: 2, interval: 50 });
+      const start = Date.now();
+
+      await throttle();
+      await throttle();
+      await throttle();
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import type { APIRetryOptions } from "../types/parser";
+
+/**
+ * HTTP status codes retried by default (timeouts, rate limits and
+ * transient server errors)
+ */
+export const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export interface FetchWithRetryOptions {
+  /** Retry settings; `false` disables retries */
+  retry?: APIRetryOptions | false;
+  /** Awaited before every attempt, e.g. a rate limiter */
+  throttle?: () => Promise<void>;
+  /** Called before waiting for a retry */
+  onRetry?: (attempt: number, delay: number, reason: string) => void;
+}
+
+/**
+ * Fetches a URL, retrying network errors and retryable status codes
+ *
+ * Delays grow exponentially from `baseDelay`. A `Retry-After` header on the
+ * response takes precedence, capped at `maxDelay`. The last response is
+ * returned as is once retries are exhausted, so callers still inspect `ok`.
+ */
+export async function fetchWithRetry(
+  url: URL,
+  init: RequestInit = {},
+  options: FetchWithRetryOptions = {}
+): Promise<Response> {
+  const retry = options.retry === false ? { retries: 0 } : options.retry;
+  const retries = retry?.retries ?? 3;
+  const retryOn = retry?.retryOn ?? DEFAULT_RETRY_STATUSES;
+
+  for (let attempt = 0; ; attempt++) {
+    await options.throttle?.();
+
+    let delay: number;
+    let reason: string;
+    try {
+      const response = await fetch(url, init);
+      if (
+        response.ok ||
+        attempt >= retries ||
+        !retryOn.includes(response.status)
+      ) {
+        return response;
+      }
+
+      delay =
+        parseRetryAfter(response.headers.get("retry-after")) ??
+        backoffDelay(attempt, retry);
+      reason = `HTTP ${response.status}`;
+      await response.body?.cancel();
+    } catch (error) {
+      if (init.signal?.aborted || attempt >= retries) {
+        throw error;
+      }
+      delay = backoffDelay(attempt, retry);
+      reason = error instanceof Error ? error.message : String(error);
+    }
+
+    delay = Math.min(delay, retry?.maxDelay ?? 10000);
+    options.onRetry?.(attempt + 1, delay, reason);
+    await sleep(delay, init.signal ?? undefined);
+  }
+}
+
+/**
+ * Exponential backoff delay in ms for a zero-based retry attempt
+ */
+export function backoffDelay(
+  attempt: number,
+  retry: APIRetryOptions = {}
+): number {
+  const baseDelay = retry.baseDelay ?? 500;
+  return Math.min(baseDelay * 2 ** attempt, retry.maxDelay ?? 10000);
+}
+
+/**
+ * Parses a `Retry-After` header (delta seconds or HTTP date) into ms
+ *
+ * @returns The delay, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  if (/^\d+$/.test(header.trim())) {
+    return parseInt(header, 10) * 1000;
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Parses an RFC 8288 `Link` header into a map of relation to URL
+ *
+ * @example
+ * parseLinkHeader('<https://api.test/items?page=2>; rel="next"')
+ * // => { next: "https://api.test/items?page=2" }
+ */
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  for (const match of header.matchAll(/<([^>]*)>([^,<]*)/g)) {
+    const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2]);
+    if (!rel) continue;
+
+    // A single link may carry several space-separated relations
+    rel[1]
+      .trim()
+      .split(/\s+/)
+      .forEach((name) => {
+        links[name.toLowerCase()] ??= match[1];
+      });
+  }
+
+  return links;
+}
+
+/**
+ * Creates a limiter allowing at most `requests` calls per `interval` ms
+ *
+ * The returned function resolves once another request may be sent.
+ */
+export function createRateLimiter(limit?: {
+  requests: number;
+  interval: number;
+}): () => Promise<void> {
+  if (!limit || limit.requests <= 0 || limit.interval <= 0) {
+    return async () => undefined;
+  }
+
+  const sent: number[] = [];
+
+  return async () => {
+    while (sent.length >= limit.requests) {
+      const wait = sent[0] + limit.interval - Date.now();
+      if (wait <= 0) {
+        sent.shift();
+      } else {
+        await sleep(wait);
+      }
+    }
+    sent.push(Date.now());
+  };
+}
+
+/**
+ * Waits for the given number of ms, resolving early when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+}
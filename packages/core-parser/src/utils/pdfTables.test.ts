@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import { detectTables, type PDFTextItem } from "./pdfTables";
+
+/** Creates a text item with an approximate Helvetica width */
+function text(x: number, y: number, str: string, size = 10): PDFTextItem {
+  return { text: str, x, y, width: str.length * size * 0.5, height: size };
+}
+
+describe("detectTables", () => {
+  it("should rebuild rows and columns from text positions", () => {
+    const items = [
+      text(50, 700, "Region"),
+      text(200, 700, "Revenue"),
+      text(50, 685, "North"),
+      text(200, 685, "1,200"),
+      text(50, 670, "South"),
+      text(200, 670, "950"),
+    ];
+
+    const tables = detectTables(items, 1);
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].rows).toEqual([
+      ["Region", "Revenue"],
+      ["North", "1,200"],
+      ["South", "950"],
+    ]);
+    expect(tables[0].page).toBe(1);
+    expect(tables[0].index).toBe(0);
+    expect(tables[0].bbox).toEqual([50, 670, 235, 710]);
+  });
+
+  it("should be independent of item order", () => {
+    const items = [
+      text(200, 685, "2"),
+      text(50, 700, "a"),
+      text(50, 685, "b"),
+      text(200, 700, "1"),
+    ];
+
+    expect(detectTables(items, 1)[0].rows).toEqual([
+      ["a", "1"],
+      ["b", "2"],
+    ]);
+  });
+
+  it("should join runs of the same cell and ignore whitespace items", () => {
+    const items = [
+      text(50, 700, "Cost"),
+      text(72, 700, "center"),
+      text(80, 700, " "),
+      text(200, 700, "Total"),
+      text(50, 685, "Head"),
+      text(72, 685, "office"),
+      text(200, 685, "10"),
+    ];
+
+    expect(detectTables(items, 1)[0].rows).toEqual([
+      ["Cost center", "Total"],
+      ["Head office", "10"],
+    ]);
+  });
+
+  it("should tolerate small baseline differences within a line", () => {
+    const items = [
+      text(50, 700, "a"),
+      text(200, 701.5, "b"),
+      text(50, 685, "c"),
+      text(200, 684, "d"),
+    ];
+
+    expect(detectTables(items, 1)[0].rows).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  it("should leave empty cells for missing values", () => {
+    const items = [
+      text(50, 700, "Name"),
+      text(150, 700, "Q1"),
+      text(250, 700, "Q2"),
+      text(50, 685, "Ada"),
+      text(250, 685, "7"),
+    ];
+
+    expect(detectTables(items, 1)[0].rows).toEqual([
+      ["Name", "Q1", "Q2"],
+      ["Ada", "", "7"],
+    ]);
+  });
+
+  it("should merge right-aligned values into their header's column", () => {
+    const items = [
+      text(50, 700, "Item"),
+      text(200, 700, "Amount"),
+      text(50, 685, "Rent"),
+      text(215, 685, "1,500"),
+      text(50, 670, "Power"),
+      text(225, 670, "80"),
+    ];
+
+    expect(detectTables(items, 1)[0].rows).toEqual([
+      ["Item", "Amount"],
+      ["Rent", "1,500"],
+      ["Power", "80"],
+    ]);
+  });
+
+  it("should split tables at prose and large vertical gaps", () => {
+    const items = [
+      text(50, 750, "Monthly report"),
+      text(50, 700, "A"),
+      text(200, 700, "B"),
+      text(50, 685, "1"),
+      text(200, 685, "2"),
+      text(50, 640, "This paragraph is not a table."),
+      text(50, 600, "C"),
+      text(200, 600, "D"),
+      text(50, 585, "3"),
+      text(200, 585, "4"),
+      text(50, 400, "E"),
+      text(200, 400, "F"),
+      text(50, 385, "5"),
+      text(200, 385, "6"),
+    ];
+
+    const tables = detectTables(items, 2);
+
+    expect(tables.map((table) => table.rows[0])).toEqual([
+      ["A", "B"],
+      ["C", "D"],
+      ["E", "F"],
+    ]);
+    expect(tables.map((table) => table.index)).toEqual([0, 1, 2]);
+    expect(tables.every((table) => table.page === 2)).toBe(true);
+  });
+
+  it("should ignore single tabular lines and plain text", () => {
+    const items = [
+      text(50, 700, "Title"),
+      text(50, 685, "Left"),
+      text(200, 685, "Right"),
+      text(50, 640, "Footer"),
+    ];
+
+    expect(detectTables(items, 1)).toEqual([]);
+  });
+
+  it("should honor the column gap option", () => {
+    const items = [
+      text(50, 700, "a"),
+      text(70, 700, "b"),
+      text(50, 685, "c"),
+      text(70, 685, "d"),
+    ];
+
+    expect(detectTables(items, 1)[0].rows[0]).toEqual(["a", "b"]);
+    expect(detectTables(items, 1, { columnGap: 2 })).toEqual([]);
+  });
+});
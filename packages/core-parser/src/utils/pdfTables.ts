@@ -0,0 +1,200 @@
+/**
+ * Table detection from positioned PDF text.
+ *
+ * PDFs store text as runs placed at x/y coordinates, with no notion of rows
+ * or cells. Tables are rebuilt by grouping runs into lines by baseline,
+ * splitting lines into cells at wide horizontal gaps, and treating
+ * consecutive lines with several cells as one table whose columns are the
+ * union of the cells' horizontal extents.
+ */
+
+export interface PDFTextItem {
+  text: string;
+  /** Left edge in PDF units */
+  x: number;
+  /** Baseline in PDF units (origin at the bottom of the page) */
+  y: number;
+  width: number;
+  /** Font size in PDF units */
+  height: number;
+}
+
+export interface PDFTable {
+  /** 1-based page number */
+  page: number;
+  /** 0-based position of the table on its page */
+  index: number;
+  /** Cell text, row by row, with "" for empty cells */
+  rows: string[][];
+  /** Bounding box in PDF units: [left, bottom, right, top] */
+  bbox: [number, number, number, number];
+}
+
+export interface DetectTablesOptions {
+  /** Minimum gap between cells, in multiples of the font size (default 1) */
+  columnGap?: number;
+  /** Minimum number of lines, including the header (default 2) */
+  minRows?: number;
+  /** Minimum number of columns (default 2) */
+  minColumns?: number;
+}
+
+interface Cell {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface Line {
+  y: number;
+  height: number;
+  cells: Cell[];
+}
+
+/**
+ * Detects tables among the text items of one page
+ *
+ * @param items - Text runs of the page
+ * @param page - 1-based page number recorded on the tables
+ * @param options - Detection thresholds
+ * @returns Tables in reading order (top to bottom)
+ */
+export function detectTables(
+  items: PDFTextItem[],
+  page: number,
+  options: DetectTablesOptions = {}
+): PDFTable[] {
+  const columnGap = options.columnGap ?? 1;
+  const minRows = options.minRows ?? 2;
+  const minColumns = options.minColumns ?? 2;
+
+  const lines = groupLines(items, columnGap);
+  const tables: PDFTable[] = [];
+  let region: Line[] = [];
+
+  const flush = () => {
+    if (region.length >= minRows) {
+      const table = buildTable(region, page, tables.length);
+      if (table.rows[0].length >= minColumns) {
+        tables.push(table);
+      }
+    }
+    region = [];
+  };
+
+  for (const line of lines) {
+    const previous = region[region.length - 1];
+    const isTabular = line.cells.length >= minColumns;
+    // Blank space of more than about two lines separates tables
+    const isAdjacent =
+      !previous || previous.y - line.y <= 3 * Math.max(previous.height, 1);
+
+    if (!isTabular || !isAdjacent) {
+      flush();
+    }
+    if (isTabular) {
+      region.push(line);
+    }
+  }
+  flush();
+
+  return tables;
+}
+
+/**
+ * Groups text items into lines (top to bottom) of cells (left to right)
+ */
+function groupLines(items: PDFTextItem[], columnGap: number): Line[] {
+  const sorted = items
+    .filter((item) => item.text.trim() !== "")
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const rawLines: { y: number; height: number; items: PDFTextItem[] }[] = [];
+  for (const item of sorted) {
+    const line = rawLines[rawLines.length - 1];
+    if (
+      line &&
+      Math.abs(line.y - item.y) <= Math.max(line.height, item.height) / 2
+    ) {
+      line.items.push(item);
+      line.height = Math.max(line.height, item.height);
+    } else {
+      rawLines.push({ y: item.y, height: item.height, items: [item] });
+    }
+  }
+
+  return rawLines.map((line) => {
+    const cells: Cell[] = [];
+    const lineItems = line.items.sort((a, b) => a.x - b.x);
+
+    for (const item of lineItems) {
+      const cell = cells[cells.length - 1];
+      const gap = cell ? item.x - cell.x1 : Infinity;
+
+      if (cell && gap < columnGap * Math.max(item.height, 1)) {
+        // Runs of the same cell; keep word breaks that the PDF encoded as gaps
+        const separator =
+          gap > item.height * 0.15 &&
+          !cell.text.endsWith(" ") &&
+          !item.text.startsWith(" ")
+            ? " "
+            : "";
+        cell.text += separator + item.text;
+        cell.x1 = Math.max(cell.x1, item.x + item.width);
+      } else {
+        cells.push({ text: item.text, x0: item.x, x1: item.x + item.width });
+      }
+    }
+
+    cells.forEach((cell) => {
+      cell.text = cell.text.replace(/\s+/g, " ").trim();
+    });
+
+    return { y: line.y, height: line.height, cells };
+  });
+}
+
+/**
+ * Builds a table from adjacent lines, deriving columns from cell extents
+ */
+function buildTable(lines: Line[], page: number, index: number): PDFTable {
+  // Merge overlapping horizontal extents into column bands
+  const extents = lines
+    .flatMap((line) => line.cells.map((cell) => [cell.x0, cell.x1]))
+    .sort((a, b) => a[0] - b[0]);
+  const columns: number[][] = [];
+  for (const [x0, x1] of extents) {
+    const column = columns[columns.length - 1];
+    if (column && x0 <= column[1]) {
+      column[1] = Math.max(column[1], x1);
+    } else {
+      columns.push([x0, x1]);
+    }
+  }
+
+  const rows = lines.map((line) => {
+    const row: string[] = columns.map(() => "");
+    for (const cell of line.cells) {
+      const column = columns.findIndex(
+        ([x0, x1]) => cell.x0 >= x0 && cell.x0 <= x1
+      );
+      row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+    }
+    return row;
+  });
+
+  const first = lines[0];
+  const last = lines[lines.length - 1];
+
+  return {
+    page,
+    index,
+    rows,
+    bbox: [
+      columns[0][0],
+      last.y,
+      columns[columns.length - 1][1],
+      first.y + first.height,
+    ],
+  };
+}
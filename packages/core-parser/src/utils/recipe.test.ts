@@ -0,0 +1,247 @@
+import { describe, it, expect } from "vitest";
+import type { ParsedDataset } from "@open-dashboard/shared/types";
+import { datasetId } from "@open-dashboard/core-schema";
+import { applyRecipe } from "./recipe";
+
+function createDataset(): ParsedDataset {
+  return {
+    id: "orders",
+    name: "orders.csv",
+    data: [
+      { id: 1, customer: " Ada Lovelace ", amount: "10,5", city: "Paris" },
+      { id: 2, customer: "Grace Hopper", amount: "20", city: "" },
+      { id: 2, customer: "Grace Hopper", amount: "20", city: "" },
+      { id: 3, customer: "Alan Turing", amount: "n/a", city: "London" },
+    ],
+    schema: {
+      fields: [
+        { name: "id", type: "integer" },
+        { name: "customer", type: "string" },
+        {
+          name: "amount",
+          type: "string",
+          metadata: { profile: { count: 4 } },
+        },
+        { name: "city", type: "string" },
+      ],
+    },
+    metadata: { source: "orders.csv", rowCount: 4, columnCount: 4 },
+    sourceType: "csv",
+    createdAt: new Date(),
+  };
+}
+
+const fieldNames = (dataset: ParsedDataset) =>
+  dataset.schema.fields.map((field) => field.name);
+
+describe("applyRecipe", () => {
+  it("should trim, dedupe and fill nulls", () => {
+    const result = applyRecipe(createDataset(), [
+      { op: "trim", fields: ["customer"] },
+      { op: "dedupe" },
+      { op: "fillNulls", values: { city: "Unknown" } },
+    ]);
+
+    expect(result.data.map((row) => row.customer)).toEqual([
+      "Ada Lovelace",
+      "Grace Hopper",
+      "Alan Turing",
+    ]);
+    expect(result.data.map((row) => row.city)).toEqual([
+      "Paris",
+      "Unknown",
+      "London",
+    ]);
+    expect(result.metadata?.rowCount).toBe(3);
+  });
+
+  it("should rename and drop fields in the rows and the schema", () => {
+    const result = applyRecipe(createDataset(), [
+      { op: "rename", fields: { customer: "name" } },
+      { op: "drop", fields: ["city"] },
+    ]);
+
+    expect(fieldNames(result)).toEqual(["id", "name", "amount"]);
+    expect(Object.keys(result.data[0])).toEqual(["id", "name", "amount"]);
+    expect(result.metadata?.columnCount).toBe(3);
+  });
+
+  it("should cast values and report the ones that cannot be read", () => {
+    const result = applyRecipe(
+      createDataset(),
+      [{ op: "cast", field: "amount", to: "number" }],
+      { locale: "de-DE" }
+    );
+    const amount = result.schema.fields[2];
+
+    expect(amount.type).toBe("number");
+    expect(result.data.map((row) => row.amount)).toEqual([10.5, 20, 20, "n/a"]);
+    expect(amount.metadata?.coercionFailures).toBe(1);
+    expect(amount.metadata?.profile).toBeUndefined();
+  });
+
+  it("should cast dates with a format", () => {
+    const dataset = createDataset();
+    dataset.data.forEach((row, i) => (row.city = `0${i + 1}/02/2024`));
+
+    const result = applyRecipe(dataset, [
+      { op: "cast", field: "city", to: "date:DD/MM/YYYY" },
+    ]);
+
+    expect(result.schema.fields[3]).toMatchObject({
+      type: "date",
+      metadata: { dateFormat: "DD/MM/YYYY" },
+    });
+  });
+
+  it("should filter rows with an expression", () => {
+    const result = applyRecipe(createDataset(), [
+      { op: "filter", expression: "id >= 2 && city != null" },
+    ]);
+
+    expect(result.data.map((row) => row.id)).toEqual([3]);
+  });
+
+  it("should split a field into typed fields in its place", () => {
+    const dataset = createDataset();
+    dataset.data.forEach((row, i) => (row.city = `${row.city}|${i * 10}`));
+
+    const result = applyRecipe(dataset, [
+      { op: "trim" },
+      {
+        op: "split",
+        field: "customer",
+        separator: " ",
+        into: ["first", "last"],
+      },
+      { op: "split", field: "city", separator: "|", into: ["city", "zone"] },
+    ]);
+
+    expect(fieldNames(result)).toEqual([
+      "id",
+      "first",
+      "last",
+      "amount",
+      "city",
+      "zone",
+    ]);
+    expect(result.data[0]).toMatchObject({
+      first: "Ada",
+      last: "Lovelace",
+      city: "Paris",
+      zone: 0,
+    });
+    expect(result.data[1].city).toBeNull();
+    expect(result.schema.fields[5].type).toBe("integer");
+  });
+
+  it("should merge fields into a text field", () => {
+    const result = applyRecipe(createDataset(), [
+      {
+        op: "merge",
+        fields: ["customer", "city"],
+        into: "label",
+        separator: " / ",
+        keep: true,
+      },
+    ]);
+
+    expect(fieldNames(result)).toEqual([
+      "id",
+      "customer",
+      "amount",
+      "city",
+      "label",
+    ]);
+    expect(result.data.map((row) => row.label)).toEqual([
+      " Ada Lovelace  / Paris",
+      "Grace Hopper",
+      "Grace Hopper",
+      "Alan Turing / London",
+    ]);
+  });
+
+  it("should derive fields and infer their type", () => {
+    const result = applyRecipe(createDataset(), [
+      { op: "derive", field: "big", expression: "id > 1" },
+      { op: "derive", field: "amount", expression: "id * 100" },
+    ]);
+
+    expect(result.schema.fields[2]).toMatchObject({
+      name: "amount",
+      type: "integer",
+    });
+    expect(result.schema.fields[4]).toMatchObject({
+      name: "big",
+      type: "boolean",
+    });
+    expect(result.data[1]).toMatchObject({ amount: 200, big: true });
+  });
+
+  it("should leave the input dataset unchanged", () => {
+    const dataset = createDataset();
+
+    applyRecipe(dataset, [
+      { op: "trim" },
+      { op: "derive", field: "total", expression: "id * 2" },
+    ]);
+
+    expect(dataset.data[0].customer).toBe(" Ada Lovelace ");
+    expect(dataset.data[0]).not.toHaveProperty("total");
+    expect(fieldNames(dataset)).toHaveLength(4);
+  });
+
+  it("should identify the result by its cleaned rows", () => {
+    const recipe = [{ op: "dedupe" as const }];
+    const result = applyRecipe(createDataset(), recipe);
+
+    expect(result.id).toBe(datasetId(result.data, result.schema));
+    expect(applyRecipe(createDataset(), recipe).id).toBe(result.id);
+  });
+
+  it("should record the recipe after earlier steps", () => {
+    const first = applyRecipe(createDataset(), [{ op: "dedupe" }]);
+    const second = applyRecipe(first, [{ op: "drop", fields: ["city"] }]);
+
+    expect(second.metadata?.recipe).toEqual([
+      { op: "dedupe" },
+      { op: "drop", fields: ["city"] },
+    ]);
+    expect(JSON.parse(JSON.stringify(second.metadata?.recipe))).toEqual(
+      second.metadata?.recipe
+    );
+  });
+
+  it("should reject expressions that read unknown fields", () => {
+    expect(() =>
+      applyRecipe(createDataset(), [{ op: "filter", expression: "amout > 0" }])
+    ).toThrow(/Unknown field "amout"/);
+    expect(() =>
+      applyRecipe(createDataset(), [
+        { op: "derive", field: "kind", expression: "constructor" },
+      ])
+    ).toThrow(/Unknown field "constructor"/);
+  });
+
+  it("should name the step that fails", () => {
+    expect(() =>
+      applyRecipe(createDataset(), [
+        { op: "trim" },
+        { op: "drop", fields: ["missing", "other"] },
+      ])
+    ).toThrow('Recipe step 2 (drop) failed: Unknown fields "missing", "other"');
+    expect(() =>
+      applyRecipe(createDataset(), [
+        { op: "rename", fields: { customer: "city" } },
+      ])
+    ).toThrow(/unique names/);
+    expect(() =>
+      applyRecipe(createDataset(), [
+        { op: "merge", fields: ["customer"], into: "city" },
+      ])
+    ).toThrow(/"city" already exists/);
+    expect(() =>
+      applyRecipe(createDataset(), [{ op: "filter", expression: "id >" }])
+    ).toThrow(/Invalid expression/);
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * Transform recipes
+ *
+ * A recipe is a JSON array of cleaning steps (trim, rename, cast, fill
+ * nulls, drop, dedupe, filter, split, merge, derive) that runs against a
+ * parsed dataset and keeps its schema in step with the rows. The steps are
+ * recorded in `metadata.recipe`, so a refreshed export is cleaned the same
+ * way by passing them as the `recipe` option of `parseData`.
+ */
+
+import type {
+  DataField,
+  DatasetSchema,
+  ParsedDataset,
+  ParserOptions,
+  TransformRecipe,
+  TransformStep,
+} from "@open-dashboard/shared/types";
+import { coerceValue, datasetId } from "@open-dashboard/core-schema";
+import { compileExpression, isTruthy } from "./expression";
+import { DEFAULT_SAMPLE_SIZE } from "./sampling";
+import {
+  buildSchemaFromData,
+  normalizeNumericValues,
+  resolveTypeOverride,
+  validateCoercion,
+} from "./schemaBuilder";
+
+type RecipeOptions = Pick<ParserOptions, "locale" | "sampleSize">;
+
+interface RecipeState {
+  data: Record<string, unknown>[];
+  fields: DataField[];
+}
+
+/**
+ * Applies the steps of a recipe to a dataset in order
+ *
+ * Rows are copied, so the input dataset is left unchanged, and the result
+ * gets the id of its cleaned rows. Field profiles are removed, since they
+ * describe the data before cleaning. Fields created by casts, splits and
+ * derived columns get their types inferred as in `buildSchemaFromData`,
+ * and values a cast cannot read are reported in the field's warnings (see
+ * `validateCoercion`).
+ *
+ * @throws {Error} If a step names a field that does not exist, would create
+ * a field that already exists, or has an invalid expression
+ *
+ * @example
+ * ```typescript
+ * const cleaned = applyRecipe(dataset, [
+ *   { op: "trim" },
+ *   { op: "rename", fields: { "Cust Name": "customer" } },
+ *   { op: "cast", field: "signup", to: "date:DD/MM/YYYY" },
+ *   { op: "filter", expression: "amount > 0" },
+ *   { op: "derive", field: "total", expression: "amount * quantity" },
+ * ]);
+ *
+ * // Later, clean a refreshed export the same way
+ * await parseData(file, undefined, { recipe: cleaned.metadata?.recipe });
+ * ```
+ */
+export function applyRecipe(
+  dataset: ParsedDataset,
+  recipe: TransformRecipe,
+  options: RecipeOptions = {}
+): ParsedDataset {
+  const state: RecipeState = {
+    data: dataset.data.map((row) => ({ ...row })),
+    fields: dataset.schema.fields.map(withoutProfile),
+  };
+
+  recipe.forEach((step, i) => {
+    try {
+      applyStep(state, step, options);
+    } catch (error) {
+      throw new Error(
+        `Recipe step ${i + 1} (${step.op}) failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+
+  const previous = Array.isArray(dataset.metadata?.recipe)
+    ? (dataset.metadata.recipe as TransformRecipe)
+    : [];
+  const schema = { ...dataset.schema, fields: state.fields };
+  return {
+    ...dataset,
+    id: datasetId(state.data, schema),
+    data: state.data,
+    schema,
+    metadata: {
+      ...dataset.metadata,
+      rowCount: state.data.length,
+      columnCount: state.fields.length,
+      recipe: [...previous, ...recipe],
+    },
+  };
+}
+
+function applyStep(
+  state: RecipeState,
+  step: TransformStep,
+  options: RecipeOptions
+): void {
+  switch (step.op) {
+    case "trim": {
+      const names = step.fields ?? state.fields.map((field) => field.name);
+      requireFields(state, names);
+      for (const row of state.data) {
+        for (const name of names) {
+          const value = row[name];
+          if (typeof value === "string") row[name] = value.trim();
+        }
+      }
+      return;
+    }
+
+    case "rename": {
+      const renames = new Map(Object.entries(step.fields));
+      requireFields(state, [...renames.keys()]);
+      const names = new Set(
+        state.fields.map((field) => renames.get(field.name) ?? field.name)
+      );
+      if (names.size < state.fields.length) {
+        throw new Error("Renamed fields must have unique names");
+      }
+      state.fields = state.fields.map((field) =>
+        renames.has(field.name)
+          ? { ...field, name: renames.get(field.name) as string }
+          : field
+      );
+      state.data = state.data.map((row) =>
+        Object.fromEntries(
+          Object.entries(row).map(([key, value]) => [
+            renames.get(key) ?? key,
+            value,
+          ])
+        )
+      );
+      return;
+    }
+
+    case "cast": {
+      requireFields(state, [step.field]);
+      const field = inferField(state, step.field, options, {
+        [step.field]: resolveTypeOverride(step.to),
+      });
+      convertValues(state.data, field, options.locale);
+      replaceField(state, step.field, [field]);
+      return;
+    }
+
+    case "fillNulls": {
+      const values = Object.entries(step.values);
+      requireFields(
+        state,
+        values.map(([name]) => name)
+      );
+      for (const row of state.data) {
+        for (const [name, value] of values) {
+          if (isMissing(row[name])) row[name] = value;
+        }
+      }
+      return;
+    }
+
+    case "drop": {
+      requireFields(state, step.fields);
+      const dropped = new Set(step.fields);
+      state.fields = state.fields.filter((field) => !dropped.has(field.name));
+      for (const row of state.data) {
+        for (const name of step.fields) delete row[name];
+      }
+      return;
+    }
+
+    case "dedupe": {
+      const names = step.fields ?? state.fields.map((field) => field.name);
+      requireFields(state, names);
+      const seen = new Set<string>();
+      state.data = state.data.filter((row) => {
+        const key = JSON.stringify(names.map((name) => row[name] ?? null));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      return;
+    }
+
+    case "filter": {
+      const predicate = compileExpression(step.expression);
+      requireFields(state, predicate.fields);
+      state.data = state.data.filter((row) => isTruthy(predicate(row)));
+      return;
+    }
+
+    case "split": {
+      requireFields(state, [step.field]);
+      if (step.into.length === 0) {
+        throw new Error("Split needs at least one field to split into");
+      }
+      requireNewFields(state, step.into, step.keep ? [] : [step.field]);
+      const last = step.into.length - 1;
+      for (const row of state.data) {
+        const value = row[step.field];
+        const parts = isMissing(value)
+          ? []
+          : String(value).split(step.separator);
+        if (!step.keep) delete row[step.field];
+        step.into.forEach((name, i) => {
+          const part =
+            i === last ? parts.slice(last).join(step.separator) : parts[i];
+          row[name] = part === undefined || part === "" ? null : part;
+        });
+      }
+      const fields = step.into.map((name) => inferField(state, name, options));
+      for (const field of fields)
+        convertValues(state.data, field, options.locale);
+      replaceField(state, step.field, fields, step.keep);
+      return;
+    }
+
+    case "merge": {
+      requireFields(state, step.fields);
+      requireNewFields(state, [step.into], step.keep ? [] : step.fields);
+      const separator = step.separator ?? " ";
+      for (const row of state.data) {
+        const merged = step.fields
+          .map((name) => row[name])
+          .filter((value) => !isMissing(value))
+          .map(String)
+          .join(separator);
+        if (!step.keep) {
+          for (const name of step.fields) delete row[name];
+        }
+        row[step.into] = merged === "" ? null : merged;
+      }
+      const field: DataField = {
+        name: step.into,
+        type: "string",
+        nullable: true,
+      };
+      if (step.keep) {
+        replaceField(state, step.fields[step.fields.length - 1], [field], true);
+      } else {
+        replaceField(state, step.fields[0], [field]);
+        const merged = new Set(step.fields);
+        state.fields = state.fields.filter(
+          (existing) => existing === field || !merged.has(existing.name)
+        );
+      }
+      return;
+    }
+
+    case "derive": {
+      const expression = compileExpression(step.expression);
+      requireFields(state, expression.fields);
+      for (const row of state.data) {
+        const value = expression(row);
+        row[step.field] = value === undefined ? null : value;
+      }
+      const field = step.type
+        ? { name: step.field, type: step.type, nullable: true }
+        : inferField(state, step.field, options);
+      if (step.type) convertValues(state.data, field, options.locale);
+      if (state.fields.some((existing) => existing.name === step.field)) {
+        replaceField(state, step.field, [field]);
+      } else {
+        state.fields.push(field);
+      }
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown operation "${(step as { op: unknown }).op}"`);
+  }
+}
+
+/**
+ * Infers the field of a column the same way parsing does, honouring an
+ * optional type override
+ */
+function inferField(
+  state: RecipeState,
+  name: string,
+  options: RecipeOptions,
+  typeMapping?: ParserOptions["typeMapping"]
+): DataField {
+  const schema = buildSchemaFromData(
+    state.data,
+    [name],
+    options.sampleSize ?? DEFAULT_SAMPLE_SIZE,
+    { locale: options.locale, typeMapping }
+  );
+  return schema.fields[0] ?? { name, type: "string", nullable: true };
+}
+
+/**
+ * Converts the values of a field to its type where parsing would: formatted
+ * numbers become numbers, and values of text and boolean fields become text
+ * and booleans. Values that cannot be converted are reported in the field's
+ * warnings.
+ */
+function convertValues(
+  data: Record<string, unknown>[],
+  field: DataField,
+  locale?: string
+): void {
+  const schema: DatasetSchema = { fields: [field] };
+  normalizeNumericValues(data, schema, locale);
+
+  if (
+    field.type === "string" ||
+    field.type === "categorical" ||
+    field.type === "boolean"
+  ) {
+    for (const row of data) {
+      const value = row[field.name];
+      if (isMissing(value)) continue;
+      if (field.type === "boolean") {
+        const converted = coerceValue(value, field);
+        if (typeof converted === "boolean") row[field.name] = converted;
+      } else if (typeof value !== "string") {
+        row[field.name] =
+          value instanceof Date ? value.toISOString() : String(value);
+      }
+    }
+  }
+
+  validateCoercion(data, schema);
+}
+
+/**
+ * Puts new fields in place of a field in the schema, or after it when the
+ * field is kept
+ */
+function replaceField(
+  state: RecipeState,
+  name: string,
+  fields: DataField[],
+  keep = false
+): void {
+  const index = state.fields.findIndex((field) => field.name === name);
+  state.fields.splice(keep ? index + 1 : index, keep ? 0 : 1, ...fields);
+}
+
+function requireFields(state: RecipeState, names: string[]): void {
+  const existing = new Set(state.fields.map((field) => field.name));
+  const missing = names.filter((name) => !existing.has(name));
+  if (missing.length > 0) {
+    throw new Error(
+      `Unknown field${missing.length > 1 ? "s" : ""} ${missing.map((name) => `"${name}"`).join(", ")}`
+    );
+  }
+}
+
+/**
+ * Checks that fields a step creates do not overwrite other fields. Fields
+ * the step removes may be reused.
+ */
+function requireNewFields(
+  state: RecipeState,
+  names: string[],
+  removed: string[]
+): void {
+  const taken = state.fields
+    .map((field) => field.name)
+    .filter((name) => !removed.includes(name));
+  const clash = names.find((name) => taken.includes(name));
+  if (clash !== undefined) {
+    throw new Error(`Field "${clash}" already exists`);
+  }
+  if (new Set(names).size < names.length) {
+    throw new Error("New fields must have unique names");
+  }
+}
+
+function withoutProfile(field: DataField): DataField {
+  if (!field.metadata || !("profile" in field.metadata)) return field;
+  const metadata = { ...field.metadata };
+  delete metadata.profile;
+  return { ...field, metadata };
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseRecordPath,
+  resolveRecordPath,
+  findRecordArrays,
+} from "./recordPath";
+
+describe("recordPath", () => {
+  describe("parseRecordPath", () => {
+    it("should parse dot paths", () => {
+      expect(parseRecordPath("data.items")).toEqual([
+        { type: "key", key: "data" },
+        { type: "key", key: "items" },
+      ]);
+    });
+
+    it("should accept an optional root prefix", () => {
+      expect(parseRecordPath("$.data")).toEqual(parseRecordPath("data"));
+      expect(parseRecordPath("$")).toEqual([]);
+    });
+
+    it("should parse indexes and wildcards", () => {
+      expect(parseRecordPath("pages[0].rows[*]")).toEqual([
+        { type: "key", key: "pages" },
+        { type: "index", index: 0 },
+        { type: "key", key: "rows" },
+        { type: "wildcard" },
+      ]);
+      expect(parseRecordPath("data.*")).toEqual([
+        { type: "key", key: "data" },
+        { type: "wildcard" },
+      ]);
+    });
+
+    it("should parse quoted bracket keys", () => {
+      expect(parseRecordPath(`['first name']["2024"]`)).toEqual([
+        { type: "key", key: "first name" },
+        { type: "key", key: "2024" },
+      ]);
+    });
+
+    it("should throw for malformed paths", () => {
+      expect(() => parseRecordPath("data..items")).toThrow(
+        'Invalid record path "data..items"'
+      );
+      expect(() => parseRecordPath("data[")).toThrow();
+      expect(() => parseRecordPath("data items")).toThrow();
+    });
+  });
+
+  describe("resolveRecordPath", () => {
+    const document = {
+      data: {
+        items: [{ id: 1 }, { id: 2 }],
+      },
+      groups: [
+        { name: "a", members: [{ user: "x" }, { user: "y" }] },
+        { name: "b", members: [{ user: "z" }] },
+      ],
+    };
+
+    it("should return the elements of the array a path ends on", () => {
+      expect(resolveRecordPath(document, "data.items")).toEqual([
+        { id: 1 },
+        { id: 2 },
+      ]);
+      expect(resolveRecordPath(document, "data.items[*]")).toEqual([
+        { id: 1 },
+        { id: 2 },
+      ]);
+    });
+
+    it("should flatten matches across wildcards", () => {
+      expect(resolveRecordPath(document, "groups[*].members[*]")).toEqual([
+        { user: "x" },
+        { user: "y" },
+        { user: "z" },
+      ]);
+    });
+
+    it("should select array elements by index", () => {
+      expect(resolveRecordPath(document, "groups[1].members")).toEqual([
+        { user: "z" },
+      ]);
+    });
+
+    it("should wrap a single matched object", () => {
+      expect(resolveRecordPath(document, "data.items[0]")).toEqual([{ id: 1 }]);
+    });
+
+    it("should return the root array for $", () => {
+      expect(resolveRecordPath([1, 2], "$")).toEqual([1, 2]);
+    });
+
+    it("should return undefined when nothing matches", () => {
+      expect(resolveRecordPath(document, "data.missing")).toBeUndefined();
+      expect(resolveRecordPath(document, "groups[5]")).toBeUndefined();
+    });
+
+    it("should not match inherited properties", () => {
+      expect(resolveRecordPath(document, "constructor")).toBeUndefined();
+      expect(resolveRecordPath(document, "data.toString")).toBeUndefined();
+    });
+  });
+
+  describe("findRecordArrays", () => {
+    it("should list arrays in document order with their paths", () => {
+      const candidates = findRecordArrays({
+        meta: { tags: ["x", "y"] },
+        results: [{ a: 1 }, { a: 2, b: 3 }, "stray"],
+      });
+
+      expect(candidates).toEqual([
+        { path: "meta.tags", length: 2, sampleKeys: [], objectRatio: 0 },
+        {
+          path: "results",
+          length: 3,
+          sampleKeys: ["a", "b"],
+          objectRatio: 2 / 3,
+        },
+      ]);
+    });
+
+    it("should quote keys that are not identifiers", () => {
+      const candidates = findRecordArrays({
+        "sales data": { "2024": [{ q: 1 }] },
+      });
+
+      expect(candidates[0].path).toBe(`$["sales data"]["2024"]`);
+      expect(
+        resolveRecordPath(
+          { "sales data": { "2024": [{ q: 1 }] } },
+          candidates[0].path
+        )
+      ).toEqual([{ q: 1 }]);
+    });
+
+    it("should respect maxDepth", () => {
+      const document = { a: { b: { c: [1] } }, d: [2] };
+
+      expect(
+        findRecordArrays(document, { maxDepth: 1 }).map((c) => c.path)
+      ).toEqual(["d"]);
+      expect(findRecordArrays(document).map((c) => c.path)).toEqual([
+        "a.b.c",
+        "d",
+      ]);
+    });
+
+    it("should only sample the first elements for keys", () => {
+      const candidates = findRecordArrays([{ a: 1 }, { b: 2 }], {
+        sampleSize: 1,
+      });
+
+      expect(candidates[0].sampleKeys).toEqual(["a"]);
+    });
+
+    it("should return an empty list when there are no arrays", () => {
+      expect(findRecordArrays({ a: 1 })).toEqual([]);
+      expect(findRecordArrays("text")).toEqual([]);
+    });
+  });
+});
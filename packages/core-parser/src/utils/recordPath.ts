@@ -0,0 +1,188 @@
+/**
+ * Record path utilities for selecting the table inside a JSON document.
+ *
+ * Supported syntax (a practical subset of JSONPath):
+ * - `$` for the document root (optional prefix)
+ * - dot segments: `data.items`
+ * - bracketed keys: `['first name']` or `["first name"]`
+ * - array indexes: `pages[0]`
+ * - wildcards: `data.items[*]`, `groups[*].members`, `data.*`
+ */
+
+export type RecordPathSegment =
+  | { type: "key"; key: string }
+  | { type: "index"; index: number }
+  | { type: "wildcard" };
+
+export interface RecordArrayCandidate {
+  /** Record path that selects this array (usable as `recordPath`) */
+  path: string;
+  /** Number of elements in the array */
+  length: number;
+  /** Union of keys found in the first few object elements */
+  sampleKeys: string[];
+  /** Share of elements that are plain objects (0-1) */
+  objectRatio: number;
+}
+
+const SEGMENT_PATTERN =
+  /\.?([A-Za-z_$][\w$-]*)|\.?\*|\[(\*|\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\]/y;
+
+/**
+ * Parses a record path expression into segments
+ *
+ * @throws {Error} If the expression is malformed
+ */
+export function parseRecordPath(path: string): RecordPathSegment[] {
+  let expression = path.trim();
+  if (expression.startsWith("$")) {
+    expression = expression.slice(1);
+  }
+
+  const segments: RecordPathSegment[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    SEGMENT_PATTERN.lastIndex = position;
+    const match = SEGMENT_PATTERN.exec(expression);
+
+    if (!match || match[0] === "" || match[0] === ".") {
+      throw new Error(
+        `Invalid record path "${path}" at position ${position + 1}`
+      );
+    }
+
+    const [token, name, bracket] = match;
+    if (name !== undefined) {
+      segments.push({ type: "key", key: name });
+    } else if (bracket === undefined || bracket === "*") {
+      // Either `.*` / `*` or `[*]`
+      segments.push({ type: "wildcard" });
+    } else if (/^\d+$/.test(bracket)) {
+      segments.push({ type: "index", index: parseInt(bracket, 10) });
+    } else {
+      segments.push({
+        type: "key",
+        key: bracket.slice(1, -1).replace(/\\(.)/g, "$1"),
+      });
+    }
+
+    position += token.length;
+  }
+
+  return segments;
+}
+
+/**
+ * Resolves a record path against a parsed JSON document
+ *
+ * A path without wildcards that ends on an array returns that array's
+ * elements. Wildcards collect every match, so `groups[*].members[*]`
+ * flattens the members of all groups into one list.
+ *
+ * @returns The selected records, or undefined if the path matched nothing
+ * @throws {Error} If the expression is malformed
+ */
+export function resolveRecordPath(
+  document: unknown,
+  path: string
+): unknown[] | undefined {
+  const segments = parseRecordPath(path);
+  let nodes: unknown[] = [document];
+
+  for (const segment of segments) {
+    nodes = nodes.flatMap((node): unknown[] => {
+      switch (segment.type) {
+        case "key":
+          return isPlainObject(node) && Object.hasOwn(node, segment.key)
+            ? [node[segment.key]]
+            : [];
+        case "index":
+          return Array.isArray(node) && segment.index < node.length
+            ? [node[segment.index]]
+            : [];
+        case "wildcard":
+          if (Array.isArray(node)) return node;
+          return isPlainObject(node) ? Object.values(node) : [];
+      }
+    });
+  }
+
+  if (nodes.length === 0) {
+    return undefined;
+  }
+
+  const hasWildcard = segments.some((segment) => segment.type === "wildcard");
+  if (!hasWildcard && nodes.length === 1 && Array.isArray(nodes[0])) {
+    return nodes[0];
+  }
+
+  return nodes;
+}
+
+/**
+ * Lists every array in a JSON document that could be loaded as a table
+ *
+ * Candidates are returned in document order. Arrays are not descended into,
+ * so only arrays reachable through object keys are listed.
+ *
+ * @param document - Parsed JSON document
+ * @param options - Traversal depth and number of elements sampled for keys
+ */
+export function findRecordArrays(
+  document: unknown,
+  options: { maxDepth?: number; sampleSize?: number } = {}
+): RecordArrayCandidate[] {
+  const maxDepth = options.maxDepth ?? 5;
+  const sampleSize = options.sampleSize ?? 10;
+  const candidates: RecordArrayCandidate[] = [];
+
+  const visit = (node: unknown, path: string, depth: number): void => {
+    if (Array.isArray(node)) {
+      const sample = node.slice(0, sampleSize);
+      const keys = new Set<string>();
+      sample.forEach((item) => {
+        if (isPlainObject(item)) {
+          Object.keys(item).forEach((key) => keys.add(key));
+        }
+      });
+
+      candidates.push({
+        path,
+        length: node.length,
+        sampleKeys: Array.from(keys),
+        objectRatio:
+          node.length > 0 ? node.filter(isPlainObject).length / node.length : 0,
+      });
+      return;
+    }
+
+    if (isPlainObject(node) && depth < maxDepth) {
+      for (const [key, value] of Object.entries(node)) {
+        visit(value, appendKey(path, key), depth + 1);
+      }
+    }
+  };
+
+  visit(document, "$", 0);
+
+  return candidates;
+}
+
+/**
+ * Appends a key to a record path, quoting keys that are not identifiers
+ */
+function appendKey(path: string, key: string): string {
+  const segment = /^[A-Za-z_$][\w$-]*$/.test(key)
+    ? key
+    : `[${JSON.stringify(key)}]`;
+
+  if (path === "$") {
+    return segment.startsWith("[") ? `$${segment}` : segment;
+  }
+  return segment.startsWith("[") ? `${path}${segment}` : `${path}.${segment}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
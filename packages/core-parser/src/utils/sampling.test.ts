@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { createRowSampler, sampleRows } from "./sampling";
+
+const rows = Array.from({ length: 1000 }, (_, i) => i);
+
+describe("sampling", () => {
+  describe("sampleRows", () => {
+    it("should keep the first rows with the head strategy", () => {
+      expect(sampleRows(rows, "head", 5)).toEqual([0, 1, 2, 3, 4]);
+      expect(sampleRows(rows)).toHaveLength(100);
+    });
+
+    it("should keep every row with a full scan", () => {
+      expect(sampleRows(rows, "full", 5)).toHaveLength(1000);
+    });
+
+    it("should draw a repeatable random sample from the whole input", () => {
+      const sample = sampleRows(rows, "reservoir", 50);
+
+      expect(sample).toHaveLength(50);
+      expect(new Set(sample).size).toBe(50);
+      expect(sample).toEqual([...sample].sort((a, b) => a - b));
+      expect(sample[sample.length - 1]).toBeGreaterThan(500);
+      expect(sampleRows(rows, "reservoir", 50)).toEqual(sample);
+    });
+
+    it("should spread a stratified sample evenly over the input", () => {
+      const sample = sampleRows(rows, "stratified", 10);
+      const gaps = sample.slice(1).map((row, i) => row - sample[i]);
+
+      expect(sample[0]).toBe(0);
+      expect(sample.length).toBeGreaterThanOrEqual(5);
+      expect(sample.length).toBeLessThanOrEqual(10);
+      expect(new Set(gaps).size).toBe(1);
+      expect(sample[sample.length - 1]).toBeGreaterThan(750);
+    });
+
+    it("should sample iterables that are not arrays", () => {
+      function* generate() {
+        yield* rows;
+      }
+
+      expect(sampleRows(generate(), "head", 3)).toEqual([0, 1, 2]);
+      expect(sampleRows(generate(), "reservoir", 3)).toHaveLength(3);
+    });
+
+    it("should return every row of inputs smaller than the sample", () => {
+      for (const strategy of ["head", "reservoir", "stratified"] as const) {
+        expect(sampleRows([1, 2, 3], strategy, 10)).toEqual([1, 2, 3]);
+      }
+    });
+  });
+
+  describe("createRowSampler", () => {
+    it("should take rows one at a time", () => {
+      const sampler = createRowSampler<number>("stratified", 4);
+      rows.slice(0, 9).forEach((row) => sampler.add(row));
+
+      expect(sampler.seen).toBe(9);
+      expect(sampler.rows()).toEqual([0, 4, 8]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import type { SamplingStrategy } from "@open-dashboard/shared/types";
+
+/**
+ * Number of rows type inference samples when no `sampleSize` is given
+ */
+export const DEFAULT_SAMPLE_SIZE = 100;
+
+export interface RowSampler<T> {
+  /** Offers the next row of the input to the sample */
+  add(row: T): void;
+  /** Rows offered so far */
+  readonly seen: number;
+  /** Sampled rows, in input order */
+  rows(): T[];
+}
+
+/**
+ * Creates a sampler that picks rows in a single pass over an input of
+ * unknown length, holding at most `sampleSize` rows (except for "full"):
+ *
+ * - `head` keeps the first rows
+ * - `reservoir` keeps a uniform random sample. The random numbers are
+ *   seeded, so the same input always gives the same sample.
+ * - `stratified` keeps rows spread evenly over the whole input, so each
+ *   part of a file is represented. When the sample fills up, every other
+ *   row is dropped and only every second row after that is taken.
+ * - `full` keeps every row
+ *
+ * @example
+ * ```typescript
+ * const sampler = createRowSampler("reservoir", 100);
+ * for await (const row of rows) sampler.add(row);
+ * inferFieldType("amount", sampler.rows().map((row) => row.amount));
+ * ```
+ */
+export function createRowSampler<T>(
+  strategy: SamplingStrategy = "head",
+  sampleSize = DEFAULT_SAMPLE_SIZE,
+  seed = 1
+): RowSampler<T> {
+  const size = Math.max(1, Math.floor(sampleSize));
+  const sample: { index: number; row: T }[] = [];
+  const random = mulberry32(seed);
+  let seen = 0;
+  let stride = 1;
+
+  const pick = (index: number, row: T) => {
+    switch (strategy) {
+      case "full":
+        sample.push({ index, row });
+        return;
+      case "reservoir": {
+        if (sample.length < size) {
+          sample.push({ index, row });
+          return;
+        }
+        const slot = Math.floor(random() * (index + 1));
+        if (slot < size) sample[slot] = { index, row };
+        return;
+      }
+      case "stratified":
+        if (index % stride !== 0) return;
+        if (sample.length === size) {
+          stride *= 2;
+          const thinned = sample.filter((entry) => entry.index % stride === 0);
+          sample.splice(0, sample.length, ...thinned);
+          if (index % stride !== 0) return;
+        }
+        sample.push({ index, row });
+        return;
+      default:
+        if (sample.length < size) sample.push({ index, row });
+    }
+  };
+
+  return {
+    add(row: T) {
+      pick(seen, row);
+      seen++;
+    },
+    get seen() {
+      return seen;
+    },
+    rows() {
+      return [...sample]
+        .sort((a, b) => a.index - b.index)
+        .map((entry) => entry.row);
+    },
+  };
+}
+
+/**
+ * Samples rows from an array or any other iterable in one pass; see
+ * `createRowSampler`
+ */
+export function sampleRows<T>(
+  rows: Iterable<T>,
+  strategy: SamplingStrategy = "head",
+  sampleSize = DEFAULT_SAMPLE_SIZE
+): T[] {
+  if (Array.isArray(rows)) {
+    if (strategy === "full") return rows;
+    if (strategy === "head") return rows.slice(0, sampleSize);
+  }
+  const sampler = createRowSampler<T>(strategy, sampleSize);
+  for (const row of rows) sampler.add(row);
+  return sampler.rows();
+}
+
+/**
+ * Small seeded pseudo-random number generator returning values in [0, 1)
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,9 +1,14 @@
 import { describe, it, expect } from "vitest";
 import {
   buildSchemaFromData,
+  finalizeDataset,
   validateSchema,
   mergeSchemas,
   getSchemaWarnings,
+  normalizeNumericValues,
+  renameFields,
+  resolveTypeOverride,
+  validateCoercion,
 } from "./schemaBuilder";
 import type { DatasetSchema } from "@open-dashboard/shared/types";
 
@@ -41,8 +46,8 @@ describe("buildSchemaFromData", () => {
       const dateField = schema.fields.find((f) => f.name === "hire_date");
 
       expect(nameField?.type).toBe("string");
-      expect(ageField?.type).toBe("number");
-      expect(salaryField?.type).toBe("number");
+      expect(ageField?.type).toBe("integer");
+      expect(salaryField?.type).toBe("integer");
       expect(dateField?.type).toBe("date");
     });
 
@@ -193,6 +198,38 @@ describe("buildSchemaFromData", () => {
     });
   });
 
+  describe("sampling option", () => {
+    // Numbers for 150 rows, then text the head of the file doesn't show
+    const data = Array.from({ length: 300 }, (_, i) => ({
+      score: i < 150 ? String(i) : `grade ${i}`,
+    }));
+
+    it("should only see the first rows by default", () => {
+      const schema = buildSchemaFromData(data, ["score"]);
+
+      expect(schema.fields[0].type).toBe("integer");
+    });
+
+    it.each(["reservoir", "stratified", "full"] as const)(
+      "should see later rows with %s sampling",
+      (sampling) => {
+        const schema = buildSchemaFromData(data, ["score"], 100, {
+          sampling,
+        });
+
+        expect(schema.fields[0].metadata?.confidence).toBeLessThan(0.7);
+      }
+    );
+
+    it("should infer from every row with a full scan", () => {
+      const schema = buildSchemaFromData(data, ["score"], 100, {
+        sampling: "full",
+      });
+
+      expect(schema.fields[0].metadata?.sampleSize).toBe(300);
+    });
+  });
+
   describe("type inference integration", () => {
     it("should infer boolean type", () => {
       const data = [{ active: true }, { active: false }, { active: true }];
@@ -283,6 +320,40 @@ describe("buildSchemaFromData", () => {
         expect(field.metadata?.confidence).toBeLessThanOrEqual(1);
       });
     });
+
+    it("should record semantic types and pair coordinates", () => {
+      const data = [
+        { email: "ada@example.com", lat: "45.76", lng: "4.83", fee: "$5.00" },
+        { email: "bob@example.org", lat: "-33.86", lng: "151.21", fee: "$7" },
+      ];
+
+      const schema = buildSchemaFromData(data, ["email", "lat", "lng", "fee"]);
+      const [email, lat, lng, fee] = schema.fields;
+
+      expect(email.metadata).toMatchObject({
+        semanticType: "email",
+        semanticConfidence: 1,
+      });
+      expect(lat.metadata).toMatchObject({
+        semanticType: "latitude",
+        pairedField: "lng",
+      });
+      expect(lng.metadata).toMatchObject({
+        semanticType: "longitude",
+        pairedField: "lat",
+      });
+      expect(fee.metadata?.semanticType).toBe("currency");
+    });
+
+    it("should drop number meanings when a type override leaves numbers", () => {
+      const data = [{ fee: "$5.00" }, { fee: "$7.50" }];
+
+      const schema = buildSchemaFromData(data, ["fee"], 100, {
+        typeMapping: { fee: "string" },
+      });
+
+      expect(schema.fields[0].metadata?.semanticType).toBeUndefined();
+    });
   });
 });
 
@@ -524,6 +595,28 @@ describe("mergeSchemas", () => {
       expect(merged.fields[0].type).toBe("string");
     });
 
+    it("should widen compatible types instead of defaulting to string", () => {
+      const schema1: DatasetSchema = {
+        fields: [
+          { name: "quantity", type: "integer", nullable: false },
+          { name: "day", type: "date" },
+        ],
+      };
+      const schema2: DatasetSchema = {
+        fields: [
+          { name: "quantity", type: "decimal", precision: 10, scale: 3 },
+          { name: "day", type: "timestamp", timezone: "UTC" },
+        ],
+      };
+
+      const merged = mergeSchemas(schema1, schema2);
+
+      expect(merged.fields).toEqual([
+        { name: "quantity", type: "decimal", precision: 10, scale: 3 },
+        { name: "day", type: "timestamp", timezone: "UTC" },
+      ]);
+    });
+
     it("should add warning for type conflicts", () => {
       const schema1: DatasetSchema = {
         fields: [{ name: "value", type: "number" }],
@@ -829,3 +922,414 @@ describe("getSchemaWarnings", () => {
     expect(warnings).toEqual(["Warning A", "Warning B", "Warning C"]);
   });
 });
+
+describe("buildSchemaFromData - typeMapping", () => {
+  const data = [
+    { code: "05/03/2024", note: "a" },
+    { code: "07/03/2024", note: "b" },
+  ];
+
+  it("should force a date format", () => {
+    const schema = buildSchemaFromData(data, ["code", "note"], 100, {
+      typeMapping: { code: "date:DD/MM/YYYY" },
+    });
+
+    expect(schema.fields[0]).toMatchObject({
+      type: "date",
+      metadata: { dateFormat: "DD/MM/YYYY" },
+    });
+    expect(schema.fields[0].metadata?.warnings).toBeUndefined();
+  });
+
+  it("should force a date type and detect its format", () => {
+    const schema = buildSchemaFromData(
+      [{ period: "2024-03" }, { period: "2024-04" }],
+      ["period"],
+      100,
+      { typeMapping: { period: "date" } }
+    );
+
+    expect(schema.fields[0]).toMatchObject({
+      type: "date",
+      metadata: { dateFormat: "YYYY-MM" },
+    });
+  });
+
+  it("should warn when most values do not match the forced format", () => {
+    const schema = buildSchemaFromData(data, ["note"], 100, {
+      typeMapping: { note: "date:YYYY-MM-DD" },
+    });
+
+    expect(schema.fields[0].type).toBe("date");
+    expect(schema.fields[0].metadata?.warnings).toContain(
+      'Only 0 of 2 values in "note" match date format "YYYY-MM-DD".'
+    );
+  });
+
+  it("should warn about invalid formats", () => {
+    const schema = buildSchemaFromData(data, ["code"], 100, {
+      typeMapping: { code: "date:[today]" },
+    });
+
+    expect(schema.fields[0].metadata?.dateFormat).toBe("MM/DD/YYYY");
+    expect(schema.fields[0].metadata?.warnings).toContain(
+      'Invalid date format "[today]" for "code". Detecting the format instead.'
+    );
+  });
+});
+
+describe("buildSchemaFromData - overrides", () => {
+  const data = [
+    { zip: "02134", sku: 1001, price: "9.99", in_stock: "yes" },
+    { zip: "10001", sku: 1002, price: "n/a", in_stock: "no" },
+    { zip: "94105", sku: 1003, price: "free", in_stock: null },
+  ];
+  const fieldNames = ["zip", "sku", "price", "in_stock"];
+
+  it("should force types over inference", () => {
+    const schema = buildSchemaFromData(data, fieldNames, 100, {
+      typeMapping: { zip: "string", sku: { type: "categorical" } },
+    });
+
+    expect(schema.fields.map((field) => field.type)).toEqual([
+      "string",
+      "categorical",
+      "string",
+      "string",
+    ]);
+  });
+
+  it("should warn when most values cannot be read as the forced type", () => {
+    const schema = buildSchemaFromData(data, fieldNames, 100, {
+      typeMapping: { price: "number", in_stock: "boolean" },
+    });
+
+    expect(schema.fields[2].type).toBe("number");
+    expect(schema.fields[2].metadata?.warnings).toContain(
+      'Only 1 of 3 values in "price" can be read as number.'
+    );
+    expect(schema.fields[3].metadata?.warnings).toBeUndefined();
+  });
+
+  it("should ignore unknown types with a warning", () => {
+    const schema = buildSchemaFromData(data, ["zip"], 100, {
+      typeMapping: { zip: "postcode" },
+    });
+
+    expect(schema.fields[0].type).toBe("integer");
+    expect(schema.fields[0].metadata?.warnings).toContain(
+      'Unknown type "postcode" in typeMapping for "zip". Keeping integer.'
+    );
+  });
+
+  it("should mark fields non-nullable and warn about empty values", () => {
+    const schema = buildSchemaFromData(data, fieldNames, 100, {
+      typeMapping: {
+        zip: { nullable: false },
+        in_stock: { nullable: false },
+      },
+    });
+
+    expect(schema.fields[0].nullable).toBe(false);
+    expect(schema.fields[0].metadata?.warnings).toBeUndefined();
+    expect(schema.fields[3].metadata?.warnings).toContain(
+      'Field "in_stock" is marked non-nullable but 1 sampled value(s) are empty.'
+    );
+  });
+
+  it("should rename fields and keep their source name", () => {
+    const schema = buildSchemaFromData(data, ["zip", "sku"], 100, {
+      typeMapping: { zip: { type: "string", rename: "postcode" } },
+    });
+
+    expect(schema.fields[0]).toMatchObject({
+      name: "postcode",
+      type: "string",
+      metadata: { sourceName: "zip" },
+    });
+  });
+
+  it("should not rename a field to a name already in use", () => {
+    const schema = buildSchemaFromData(data, ["zip", "sku"], 100, {
+      typeMapping: { zip: { rename: "sku" } },
+    });
+
+    expect(schema.fields.map((field) => field.name)).toEqual(["zip", "sku"]);
+    expect(schema.fields[0].metadata?.warnings).toContain(
+      'Cannot rename "zip" to "sku" because the name is already used.'
+    );
+  });
+
+  it("should force extended types with their parameters", () => {
+    const events = [
+      { amount: "12.5", at: "2024-03-05 10:00", wait: "PT5M" },
+      { amount: "7", at: "2024-03-06 11:30", wait: "PT1H" },
+    ];
+
+    const schema = buildSchemaFromData(events, ["amount", "at", "wait"], 100, {
+      typeMapping: {
+        amount: { type: "decimal", precision: 10, scale: 4 },
+        at: { type: "timestamp", timezone: "Europe/Paris" },
+        wait: { type: "duration", unit: "second" },
+      },
+    });
+
+    expect(schema.fields[0]).toMatchObject({
+      type: "decimal",
+      precision: 10,
+      scale: 4,
+    });
+    expect(schema.fields[1]).toMatchObject({
+      type: "timestamp",
+      timezone: "Europe/Paris",
+      metadata: { dateFormat: "YYYY-MM-DD HH:mm" },
+    });
+    expect(schema.fields[2]).toMatchObject({
+      type: "duration",
+      unit: "second",
+    });
+    expect(schema.fields[2].metadata?.warnings).toBeUndefined();
+  });
+
+  it("should not force nested types onto flat values", () => {
+    const schema = buildSchemaFromData(data, ["sku"], 100, {
+      typeMapping: { sku: "list" },
+    });
+
+    expect(schema.fields[0].type).toBe("string");
+    expect(schema.fields[0].items).toBeUndefined();
+    expect(schema.fields[0].metadata?.warnings).toContain(
+      'Type "list" in typeMapping for "sku" is inferred from nested values and cannot be forced. Keeping string.'
+    );
+  });
+});
+
+describe("buildSchemaFromData - nested values", () => {
+  it("should infer list element and struct child types", () => {
+    const data = [
+      {
+        tags: ["new", "sale"],
+        address: { city: "Lyon", zip: 69001, geo: { lat: 45.76 } },
+      },
+      { tags: [], address: { city: "Oslo", zip: 150 } },
+    ];
+
+    const schema = buildSchemaFromData(data, ["tags", "address"]);
+
+    expect(schema.fields[0]).toMatchObject({
+      type: "list",
+      items: { name: "item", type: "string", nullable: false },
+    });
+    expect(schema.fields[1]).toMatchObject({
+      type: "struct",
+      fields: [
+        { name: "city", type: "string" },
+        { name: "zip", type: "integer" },
+        {
+          name: "geo",
+          type: "struct",
+          nullable: true,
+          fields: [{ name: "lat", type: "number" }],
+        },
+      ],
+    });
+    expect(schema.fields[1].fields?.[0].metadata).toBeUndefined();
+  });
+
+  it("should record the precision of money and the timezone of instants", () => {
+    const data = [
+      { total: "$1,250.00", paid_at: "2024-03-05T10:00:00Z" },
+      { total: "$80.5", paid_at: "2024-03-06T09:15:00Z" },
+    ];
+
+    const schema = buildSchemaFromData(data, ["total", "paid_at"]);
+
+    expect(schema.fields[0]).toMatchObject({
+      type: "decimal",
+      precision: 18,
+      scale: 2,
+      metadata: { format: "currency", currency: "USD" },
+    });
+    expect(schema.fields[1]).toMatchObject({
+      type: "timestamp",
+      timezone: "UTC",
+    });
+    expect(schema.fields[1].metadata?.timezone).toBeUndefined();
+  });
+});
+
+describe("resolveTypeOverride", () => {
+  it("should expand the string form", () => {
+    expect(resolveTypeOverride("String")).toEqual({ type: "string" });
+    expect(resolveTypeOverride("date:DD/MM/YYYY HH:mm")).toEqual({
+      type: "date",
+      dateFormat: "DD/MM/YYYY HH:mm",
+    });
+    expect(resolveTypeOverride({ rename: "a" })).toEqual({ rename: "a" });
+  });
+});
+
+describe("renameFields", () => {
+  it("should rename row keys in place and keep their order", () => {
+    const data: Record<string, unknown>[] = [{ a: 1, zip: "02134", c: 3 }];
+
+    renameFields(data, {
+      fields: [
+        { name: "a", type: "number" },
+        { name: "postcode", type: "string", metadata: { sourceName: "zip" } },
+        { name: "c", type: "number" },
+      ],
+    });
+
+    expect(Object.entries(data[0])).toEqual([
+      ["a", 1],
+      ["postcode", "02134"],
+      ["c", 3],
+    ]);
+  });
+});
+
+describe("normalizeNumericValues", () => {
+  it("should replace formatted numbers in number fields", () => {
+    const data: Record<string, unknown>[] = [
+      { name: "A", revenue: "1.200,50 €", growth: "12%" },
+      { name: "B", revenue: 980, growth: "n/a" },
+      { name: "C", revenue: "75 €", growth: "-4%" },
+    ];
+    const schema = buildSchemaFromData(
+      data,
+      ["name", "revenue", "growth"],
+      100,
+      { locale: "de-DE" }
+    );
+
+    normalizeNumericValues(data, schema, "de-DE");
+
+    expect(data).toEqual([
+      { name: "A", revenue: 1200.5, growth: 0.12 },
+      { name: "B", revenue: 980, growth: "n/a" },
+      { name: "C", revenue: 75, growth: -0.04 },
+    ]);
+    expect(schema.fields[1].metadata).toMatchObject({
+      format: "currency",
+      currency: "EUR",
+    });
+  });
+
+  it("should leave string fields untouched", () => {
+    const data: Record<string, unknown>[] = [{ code: "1,234" }, { code: "x" }];
+
+    normalizeNumericValues(data, {
+      fields: [{ name: "code", type: "string" }],
+    });
+
+    expect(data).toEqual([{ code: "1,234" }, { code: "x" }]);
+  });
+  it("should keep integers beyond 2^53 as digit strings", () => {
+    const data: Record<string, unknown>[] = [
+      { id: "9007199254740993" },
+      { id: "1,024" },
+    ];
+
+    normalizeNumericValues(data, {
+      fields: [{ name: "id", type: "integer" }],
+    });
+
+    expect(data).toEqual([{ id: "9007199254740993" }, { id: 1024 }]);
+  });
+});
+
+describe("validateCoercion", () => {
+  it("should count values that cannot be stored as the field's type", () => {
+    const data = [
+      { amount: 10, day: "2024-01-05", name: "a" },
+      { amount: "N/A", day: "soon", name: "b" },
+      { amount: "n/a", day: null, name: "" },
+      { amount: null, day: "2024-01-07", name: "d" },
+    ];
+    const schema: DatasetSchema = {
+      fields: [
+        { name: "amount", type: "number" },
+        { name: "day", type: "date", metadata: { dateFormat: "YYYY-MM-DD" } },
+        { name: "name", type: "string" },
+      ],
+    };
+
+    const report = validateCoercion(data, schema);
+
+    expect(report).toEqual({
+      rowCount: 4,
+      failedValues: 3,
+      fields: {
+        amount: {
+          type: "number",
+          failed: 2,
+          checked: 3,
+          examples: ["N/A", "n/a"],
+        },
+        day: { type: "date", failed: 1, checked: 3, examples: ["soon"] },
+      },
+    });
+    expect(schema.fields[0].metadata).toMatchObject({
+      coercionFailures: 2,
+      warnings: [
+        '2 of 3 values in "amount" cannot be read as number and will be null (e.g. "N/A").',
+      ],
+    });
+    expect(schema.fields[2].metadata).toBeUndefined();
+  });
+
+  it("should report values past the sample used for inference", () => {
+    const data: Record<string, unknown>[] = Array.from(
+      { length: 150 },
+      (_, i) => ({ qty: i < 120 ? String(i) : "unknown" })
+    );
+    const schema = buildSchemaFromData(data, ["qty"]);
+    normalizeNumericValues(data, schema);
+
+    const report = validateCoercion(data, schema);
+
+    expect(schema.fields[0].type).toBe("integer");
+    expect(report.failedValues).toBe(30);
+    expect(getSchemaWarnings(schema)).toContain(
+      '30 of 150 values in "qty" cannot be read as integer and will be null (e.g. "unknown").'
+    );
+  });
+});
+
+describe("finalizeDataset", () => {
+  it("should rename fields, normalize numbers and report coercion failures", () => {
+    const data: Record<string, unknown>[] = [
+      { zip: "02134", price: "1,200", qty: "3" },
+      { zip: "10001", price: "980", qty: "many" },
+      { zip: "94105", price: "75", qty: "4" },
+    ];
+
+    const schema = finalizeDataset(data, ["zip", "price", "qty"], {
+      typeMapping: {
+        zip: { type: "string", rename: "postcode" },
+        qty: "integer",
+      },
+    });
+
+    expect(schema?.fields.map((field) => field.name)).toEqual([
+      "postcode",
+      "price",
+      "qty",
+    ]);
+    expect(data[0]).toEqual({ postcode: "02134", price: 1200, qty: 3 });
+    expect(schema?.fields[2].metadata?.coercionFailures).toBe(1);
+  });
+
+  it("should leave formatted numbers as they are when inferTypes is false", () => {
+    const data: Record<string, unknown>[] = [{ price: "1,200" }];
+
+    finalizeDataset(data, ["price"], { inferTypes: false });
+
+    expect(data).toEqual([{ price: "1,200" }]);
+  });
+
+  it("should return undefined for rows without fields", () => {
+    expect(finalizeDataset([{}], [])).toBeUndefined();
+  });
+});
@@ -1,44 +1,580 @@
-import type { DatasetSchema, DataField } from "@open-dashboard/shared/types";
-import type { TypeInferenceResult } from "../types/parser";
-import { inferFieldType } from "./typeInference";
+import type {
+  DatasetSchema,
+  DataField,
+  TypeOverride,
+} from "@open-dashboard/shared/types";
+import {
+  coerceValue,
+  isValidDateFormat,
+  parseDateWithFormat,
+  parseISODuration,
+  parseTimeOfDay,
+  widenField,
+} from "@open-dashboard/core-schema";
+import type {
+  CoercionReport,
+  ParserOptions,
+  TypeInferenceResult,
+} from "../types/parser";
+import { inferFieldType, parseLocaleNumber } from "./typeInference";
+import { detectDateFormat } from "./dateInference";
+import { pairCoordinateFields } from "./semanticInference";
+import { sampleRows } from "./sampling";
 
 /**
- * Builds a schema from raw data by inferring types for each field
+ * Builds a schema from raw data by inferring types for each field. Number
+ * fields written with a percent sign record it in their metadata as
+ * `format`; amounts of money become decimals that also record `format` and
+ * `currency`. Date fields record `dateFormat`, and dates written with an
+ * offset become timestamps with a `timezone`. Arrays and objects become
+ * lists and structs, with their element and child types inferred the same
+ * way.
+ *
+ * Fields whose values mean something more specific than their type, such as
+ * emails, URLs or coordinates, record it as `semanticType` with its
+ * `semanticConfidence`. Latitude and longitude fields that belong together
+ * name each other in `pairedField`.
+ *
+ * Types are inferred from `sampleSize` rows picked by `options.sampling`:
+ * the first rows by default, or a reservoir, stratified or full sample of
+ * the data; see `createRowSampler`.
+ *
+ * `typeMapping` entries take precedence over inference: they force a type
+ * (e.g. "string" for ZIP codes, or "date:DD/MM/YYYY" with a fixed format),
+ * mark fields non-nullable or rename them. Renamed fields keep their source
+ * name in `metadata.sourceName`; see `renameFields`.
  */
 export function buildSchemaFromData(
   data: Record<string, unknown>[],
   fieldNames: string[],
-  sampleSize = 100
+  sampleSize = 100,
+  options: Pick<ParserOptions, "locale" | "typeMapping" | "sampling"> = {}
 ): DatasetSchema {
   if (data.length === 0 || fieldNames.length === 0) {
     return { fields: [] };
   }
 
+  const rows = sampleRows(data, options.sampling, sampleSize);
+  const limit = rows.length;
+
   const fields: DataField[] = fieldNames.map((fieldName) => {
     // Extract sample values for this field
-    const samples = data.map((row) => row[fieldName]);
+    const samples = rows.map((row) => row[fieldName]);
 
     // Infer type from samples
     const inference: TypeInferenceResult = inferFieldType(
       fieldName,
       samples,
-      sampleSize
+      limit,
+      options.locale
     );
+    const { format, currency, dateFormat } = inference.metadata ?? {};
 
-    return {
+    const field: DataField = {
       name: fieldName,
       type: inference.type,
       nullable: inference.nullable,
+      ...describeType(inference, samples, limit, options.locale),
       metadata: {
         confidence: inference.confidence,
-        sampleSize: Math.min(samples.length, sampleSize),
+        sampleSize: limit,
         uniqueValueCount: inference.metadata?.uniqueValueCount,
+        ...(format && { format }),
+        ...(currency && { currency }),
+        ...(dateFormat && { dateFormat }),
+        ...(inference.semantic && {
+          semanticType: inference.semantic.type,
+          semanticConfidence: inference.semantic.confidence,
+        }),
         warnings: inference.metadata?.warnings,
       },
     };
+
+    const mapping = options.typeMapping?.[fieldName];
+    return mapping
+      ? applyTypeOverride(
+          field,
+          resolveTypeOverride(mapping),
+          samples,
+          options.locale
+        )
+      : field;
+  });
+
+  return { fields: pairCoordinates(renameConflicts(fields)) };
+}
+
+/**
+ * Records the matching longitude field of each latitude field as
+ * `metadata.pairedField`, and the other way round
+ */
+function pairCoordinates(fields: DataField[]): DataField[] {
+  const pairs = pairCoordinateFields(fields);
+  return fields.map((field) => {
+    const pairedField = pairs.get(field.name);
+    return pairedField
+      ? { ...field, metadata: { ...field.metadata, pairedField } }
+      : field;
+  });
+}
+
+/**
+ * Returns the parameters of an inferred type: decimal precision and scale,
+ * timestamp timezone, and the element or child fields of lists and structs
+ */
+function describeType(
+  inference: TypeInferenceResult,
+  samples: unknown[],
+  sampleSize: number,
+  locale?: string
+): Partial<DataField> {
+  switch (inference.type) {
+    case "decimal":
+      return { precision: inference.precision, scale: inference.scale };
+    case "timestamp":
+      return { timezone: inference.timezone };
+    case "list": {
+      const elements = samples
+        .slice(0, sampleSize)
+        .filter(Array.isArray)
+        .flat();
+      return { items: inferNestedField("item", elements, sampleSize, locale) };
+    }
+    case "struct": {
+      const records = samples.slice(0, sampleSize).filter(isRecord);
+      const keys = [
+        ...new Set(records.flatMap((record) => Object.keys(record))),
+      ];
+      return {
+        fields: keys.map((key) =>
+          inferNestedField(
+            key,
+            records.map((record) => record[key]),
+            sampleSize,
+            locale
+          )
+        ),
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Infers the type of a list element or struct child, without the sampling
+ * metadata recorded for top-level fields. Children missing from some
+ * records are nullable rather than inferred from the gaps.
+ */
+function inferNestedField(
+  name: string,
+  samples: unknown[],
+  sampleSize: number,
+  locale?: string
+): DataField {
+  const present = samples.filter(
+    (sample) => sample !== null && sample !== undefined
+  );
+  const inference = inferFieldType(name, present, sampleSize, locale);
+  return {
+    name,
+    type: inference.type,
+    nullable: inference.nullable || present.length < samples.length,
+    ...describeType(inference, present, sampleSize, locale),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Expands the string form of a `typeMapping` entry ("number",
+ * "date:DD/MM/YYYY") into a TypeOverride
+ */
+export function resolveTypeOverride(
+  mapping: string | TypeOverride
+): TypeOverride {
+  if (typeof mapping !== "string") return mapping;
+
+  const separator = mapping.indexOf(":");
+  const type = (separator === -1 ? mapping : mapping.slice(0, separator))
+    .trim()
+    .toLowerCase() as DataField["type"];
+  const dateFormat =
+    separator === -1 ? undefined : mapping.slice(separator + 1).trim();
+  return { type, ...(dateFormat && { dateFormat }) };
+}
+
+/**
+ * Applies a `typeMapping` entry to an inferred field. Forced types that most
+ * sampled values cannot be read as, and empty values in non-nullable fields,
+ * are reported as warnings.
+ */
+function applyTypeOverride(
+  field: DataField,
+  override: TypeOverride,
+  samples: unknown[],
+  locale?: string
+): DataField {
+  let warnings = Array.isArray(field.metadata?.warnings)
+    ? (field.metadata.warnings as string[])
+    : [];
+  const metadata: Record<string, unknown> = { ...field.metadata };
+  const values = samples.filter(
+    (value) => value !== null && value !== undefined && value !== ""
+  );
+  let type = field.type;
+  let timezone = field.timezone;
+
+  if (override.type && !FIELD_TYPES.includes(override.type)) {
+    warnings = [
+      ...warnings,
+      `Unknown type "${override.type}" in typeMapping for "${field.name}". Keeping ${field.type}.`,
+    ];
+  } else if (
+    (override.type === "list" || override.type === "struct") &&
+    override.type !== field.type
+  ) {
+    warnings = [
+      ...warnings,
+      `Type "${override.type}" in typeMapping for "${field.name}" is inferred from nested values and cannot be forced. Keeping ${field.type}.`,
+    ];
+  } else if (
+    override.type &&
+    override.type !== "date" &&
+    override.type !== "timestamp"
+  ) {
+    type = override.type;
+    const matched = values.filter((value) =>
+      canReadAs(value, override.type as DataField["type"], locale)
+    ).length;
+    if (values.length > 0 && matched / values.length < 0.5) {
+      warnings = [
+        ...warnings,
+        `Only ${matched} of ${values.length} values in "${field.name}" can be read as ${type}.`,
+      ];
+    }
+    // Units and date details of the inferred type no longer apply
+    if (type !== field.type && !(isNumeric(type) && isNumeric(field.type))) {
+      delete metadata.format;
+      delete metadata.currency;
+      if (isNumberUnit(metadata.semanticType)) {
+        delete metadata.semanticType;
+        delete metadata.semanticConfidence;
+      }
+    }
+    if (type !== field.type) {
+      delete metadata.dateFormat;
+    }
+  } else if (
+    override.type === "date" ||
+    override.type === "timestamp" ||
+    override.dateFormat
+  ) {
+    type = override.type ?? (field.type === "timestamp" ? "timestamp" : "date");
+    let format = override.dateFormat ?? "";
+    if (format && !isValidDateFormat(format)) {
+      warnings = [
+        ...warnings,
+        `Invalid date format "${format}" for "${field.name}". Detecting the format instead.`,
+      ];
+      format = "";
+    }
+    if (format) {
+      // A forced format settles the day and month order
+      warnings = warnings.filter(
+        (warning) => !warning.startsWith("Day and month order")
+      );
+    }
+
+    const detection = detectDateFormat(samples, format ? [format] : undefined);
+    const dateFormat =
+      format || detection?.format || field.metadata?.dateFormat || undefined;
+
+    if (typeof dateFormat === "string") {
+      const matched = values.filter(
+        (value) =>
+          (typeof value === "string" || typeof value === "number") &&
+          parseDateWithFormat(value, dateFormat) !== undefined
+      ).length;
+      if (values.length > 0 && matched / values.length < 0.5) {
+        warnings = [
+          ...warnings,
+          `Only ${matched} of ${values.length} values in "${field.name}" match date format "${dateFormat}".`,
+        ];
+      }
+    }
+
+    // Number units, meanings and inferred date details no longer apply
+    delete metadata.format;
+    delete metadata.currency;
+    delete metadata.semanticType;
+    delete metadata.semanticConfidence;
+    delete metadata.dateFormat;
+    if (typeof dateFormat === "string") metadata.dateFormat = dateFormat;
+    timezone = detection?.timezone ?? field.timezone;
+  }
+
+  let nullable = field.nullable;
+  if (override.nullable !== undefined) {
+    nullable = override.nullable;
+    const empty = samples.length - values.length;
+    if (!nullable && empty > 0) {
+      warnings = [
+        ...warnings,
+        `Field "${field.name}" is marked non-nullable but ${empty} sampled value(s) are empty.`,
+      ];
+    }
+  }
+
+  const rename = override.rename?.trim();
+  if (rename && rename !== field.name) {
+    metadata.sourceName = field.name;
+  }
+
+  // Parameters of the inferred type carry over only while the type is kept
+  const kept = type === field.type;
+  const precision = override.precision ?? (kept ? field.precision : undefined);
+  const scale = override.scale ?? (kept ? field.scale : undefined);
+  const unit = override.unit ?? (kept ? field.unit : undefined);
+
+  return {
+    name: rename || field.name,
+    type,
+    nullable,
+    ...(type === "decimal" && precision !== undefined && { precision }),
+    ...(type === "decimal" && scale !== undefined && { scale }),
+    ...(type === "timestamp" && {
+      timezone: override.timezone ?? timezone ?? "UTC",
+    }),
+    ...(isTemporal(type) && unit && { unit }),
+    ...(kept && field.items && { items: field.items }),
+    ...(kept && field.fields && { fields: field.fields }),
+    metadata: {
+      ...metadata,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    },
+  };
+}
+
+const FIELD_TYPES: DataField["type"][] = [
+  "string",
+  "number",
+  "integer",
+  "decimal",
+  "date",
+  "timestamp",
+  "time",
+  "duration",
+  "boolean",
+  "categorical",
+  "list",
+  "struct",
+];
+
+const BOOLEAN_STRINGS = ["true", "false", "yes", "no", "1", "0", "y", "n"];
+
+function isNumeric(type: DataField["type"]): boolean {
+  return type === "number" || type === "integer" || type === "decimal";
+}
+
+function isNumberUnit(semanticType: unknown): boolean {
+  return semanticType === "currency" || semanticType === "percentage";
+}
+
+function isTemporal(type: DataField["type"]): boolean {
+  return type === "timestamp" || type === "time" || type === "duration";
+}
+
+/**
+ * Checks whether a non-empty value can be read as a type without being lost
+ */
+function canReadAs(
+  value: unknown,
+  type: DataField["type"],
+  locale?: string
+): boolean {
+  switch (type) {
+    case "number":
+    case "decimal":
+      return (
+        typeof value === "number" ||
+        (typeof value === "string" &&
+          parseLocaleNumber(value, locale) !== undefined)
+      );
+    case "integer": {
+      const number =
+        typeof value === "string"
+          ? parseLocaleNumber(value, locale)?.value
+          : value;
+      return typeof number === "number" && Number.isInteger(number);
+    }
+    case "time":
+      return (
+        typeof value === "number" ||
+        (typeof value === "string" && parseTimeOfDay(value) !== undefined)
+      );
+    case "duration":
+      return (
+        typeof value === "number" ||
+        (typeof value === "string" &&
+          (parseISODuration(value) !== undefined ||
+            (value.trim() !== "" && isFinite(Number(value)))))
+      );
+    case "boolean":
+      return (
+        typeof value === "boolean" ||
+        value === 0 ||
+        value === 1 ||
+        (typeof value === "string" &&
+          BOOLEAN_STRINGS.includes(value.trim().toLowerCase()))
+      );
+    default:
+      return true;
+  }
+}
+
+/**
+ * Undoes renames that would give two fields the same name
+ */
+function renameConflicts(fields: DataField[]): DataField[] {
+  const taken = new Set(
+    fields
+      .filter((field) => field.metadata?.sourceName === undefined)
+      .map((field) => field.name)
+  );
+
+  return fields.map((field) => {
+    const sourceName = field.metadata?.sourceName;
+    if (typeof sourceName !== "string") return field;
+    if (!taken.has(field.name)) {
+      taken.add(field.name);
+      return field;
+    }
+
+    const metadata = { ...field.metadata };
+    delete metadata.sourceName;
+    const warnings = Array.isArray(metadata.warnings) ? metadata.warnings : [];
+    return {
+      ...field,
+      name: sourceName,
+      metadata: {
+        ...metadata,
+        warnings: [
+          ...warnings,
+          `Cannot rename "${sourceName}" to "${field.name}" because the name is already used.`,
+        ],
+      },
+    };
   });
+}
+
+/**
+ * Renames the keys of each row to match fields renamed through
+ * `typeMapping`, in place and keeping the column order
+ */
+export function renameFields(
+  data: Record<string, unknown>[],
+  schema: DatasetSchema
+): void {
+  const renames = new Map<string, string>();
+  for (const field of schema.fields) {
+    const sourceName = field.metadata?.sourceName;
+    if (typeof sourceName === "string") renames.set(sourceName, field.name);
+  }
+  if (renames.size === 0) return;
 
-  return { fields };
+  for (const row of data) {
+    const entries = Object.entries(row);
+    for (const [key] of entries) delete row[key];
+    for (const [key, value] of entries) row[renames.get(key) ?? key] = value;
+  }
+}
+
+/**
+ * Replaces formatted numeric strings ("1.234,56", "$1,200", "12%") in the
+ * number, integer and decimal fields of a schema with their values, in
+ * place. Percentages become fractions; strings that are not numbers are left
+ * as they are, and so are integers too large to be exact as numbers.
+ */
+export function normalizeNumericValues(
+  data: Record<string, unknown>[],
+  schema: DatasetSchema,
+  locale?: string
+): void {
+  const numericFields = schema.fields
+    .filter(
+      (field) =>
+        field.type === "number" ||
+        field.type === "integer" ||
+        field.type === "decimal"
+    )
+    .map((field) => [field.name, field.type] as const);
+  if (numericFields.length === 0) return;
+
+  for (const row of data) {
+    for (const [name, type] of numericFields) {
+      const value = row[name];
+      if (typeof value !== "string") continue;
+      const parsed = parseLocaleNumber(value, locale);
+      if (!parsed) continue;
+      if (type === "integer" && !Number.isSafeInteger(parsed.value)) continue;
+      row[name] = parsed.value;
+    }
+  }
+}
+
+/**
+ * Checks every value of a parsed dataset against the type chosen for its
+ * field, since inference only sees a sample. Non-empty values that would
+ * become null when stored as that type, such as "N/A" in a number field,
+ * are counted in the field's `metadata.coercionFailures` and reported in
+ * its warnings.
+ *
+ * Run it after `normalizeNumericValues`, so formatted numbers are not
+ * reported.
+ */
+export function validateCoercion(
+  data: Record<string, unknown>[],
+  schema: DatasetSchema
+): CoercionReport {
+  const report: CoercionReport = {
+    rowCount: data.length,
+    failedValues: 0,
+    fields: {},
+  };
+
+  for (const field of schema.fields) {
+    let failed = 0;
+    let checked = 0;
+    const examples: unknown[] = [];
+    for (const row of data) {
+      const value = row[field.name];
+      if (value === null || value === undefined || value === "") continue;
+      checked++;
+      if (coerceValue(value, field) !== null) continue;
+      failed++;
+      if (examples.length < 5) examples.push(value);
+    }
+    if (failed === 0) continue;
+
+    report.failedValues += failed;
+    report.fields[field.name] = { type: field.type, failed, checked, examples };
+    const warnings = Array.isArray(field.metadata?.warnings)
+      ? (field.metadata.warnings as string[])
+      : [];
+    field.metadata = {
+      ...field.metadata,
+      coercionFailures: failed,
+      warnings: [
+        ...warnings,
+        `${failed} of ${checked} values in "${field.name}" cannot be read as ${field.type} and will be null (e.g. ${JSON.stringify(examples[0])}).`,
+      ],
+    };
+  }
+
+  return report;
 }
 
 /**
@@ -51,16 +587,45 @@ export function validateSchema(schema: DatasetSchema): boolean {
 
   return schema.fields.every(
     (field) =>
-      field.name &&
-      field.name.trim() !== "" &&
-      ["string", "number", "date", "boolean", "categorical"].includes(
-        field.type
-      )
+      field.name && field.name.trim() !== "" && FIELD_TYPES.includes(field.type)
   );
 }
 
+/**
+ * Builds the schema of parsed rows and prepares the rows for it, as every
+ * adapter does once its rows are read: fields renamed through `typeMapping`
+ * are renamed in the rows, formatted numbers become values unless
+ * `inferTypes` is false, and values that fail coercion are reported.
+ *
+ * Returns undefined when the schema is not valid, so each adapter can report
+ * it for its own source.
+ */
+export function finalizeDataset(
+  data: Record<string, unknown>[],
+  fields: string[],
+  options: Pick<
+    ParserOptions,
+    "sampleSize" | "inferTypes" | "locale" | "typeMapping" | "sampling"
+  > = {}
+): DatasetSchema | undefined {
+  const schema = buildSchemaFromData(data, fields, options.sampleSize, options);
+  renameFields(data, schema);
+  if (options.inferTypes !== false) {
+    normalizeNumericValues(data, schema, options.locale);
+  }
+  validateCoercion(data, schema);
+
+  return validateSchema(schema) ? schema : undefined;
+}
+
 /**
  * Merges two schemas (useful for combining multiple datasets)
+ *
+ * Fields of both schemas are kept, those of the first schema first. When a
+ * field has different types, it takes the narrowest type that holds both
+ * (see `widenField`), e.g. integer and decimal become decimal; types that
+ * cannot be widened, such as number and boolean, default to string with a
+ * warning.
  */
 export function mergeSchemas(
   schema1: DatasetSchema,
@@ -77,8 +642,9 @@ export function mergeSchemas(
   schema2.fields.forEach((field) => {
     const existing = fieldMap.get(field.name);
     if (existing) {
-      // If types differ, default to string
-      if (existing.type !== field.type) {
+      const widened = widenField(existing, field);
+      if (!widened) {
+        // Incompatible types, default to string
         fieldMap.set(field.name, {
           ...existing,
           type: "string",
@@ -94,9 +660,9 @@ export function mergeSchemas(
           },
         });
       } else {
-        // Types are the same, merge nullable flags
+        // Same or widened type, merge nullable flags
         fieldMap.set(field.name, {
-          ...existing,
+          ...widened,
           nullable: existing.nullable || field.nullable,
           metadata: existing.metadata,
         });
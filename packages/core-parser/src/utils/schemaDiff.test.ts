@@ -0,0 +1,237 @@
+import { describe, it, expect } from "vitest";
+import type {
+  DatasetSchema,
+  ParsedDataset,
+  SchemaDiff,
+} from "@open-dashboard/shared/types";
+import { detectSchemaDrift, diffSchemas, evaluateDrift } from "./schemaDiff";
+
+const previous: DatasetSchema = {
+  fields: [
+    { name: "order_id", type: "string", nullable: false },
+    { name: "quantity", type: "integer", nullable: false },
+    { name: "amount", type: "number", nullable: true },
+    { name: "status", type: "categorical", nullable: true },
+  ],
+};
+
+function emptyDiff(): SchemaDiff {
+  return {
+    addedFields: [],
+    removedFields: [],
+    changedFields: [],
+    nullabilityChanges: [],
+    renamedFields: [],
+  };
+}
+
+function createDataset(
+  schema: DatasetSchema,
+  data: Record<string, unknown>[]
+): ParsedDataset {
+  return {
+    id: "orders",
+    name: "orders.csv",
+    data,
+    schema,
+    sourceType: "csv",
+    createdAt: new Date(),
+  };
+}
+
+describe("diffSchemas", () => {
+  it("should report no changes for the same schema", () => {
+    expect(diffSchemas(previous, previous)).toEqual(emptyDiff());
+  });
+
+  it("should list added and removed fields", () => {
+    const diff = diffSchemas(previous, {
+      fields: [
+        previous.fields[0],
+        previous.fields[1],
+        { name: "channel", type: "string" },
+      ],
+    });
+
+    expect(diff.addedFields).toEqual(["channel"]);
+    expect(diff.removedFields).toEqual(["amount", "status"]);
+    expect(diff.renamedFields).toEqual([]);
+  });
+
+  it("should list type and nullability changes", () => {
+    const diff = diffSchemas(previous, {
+      fields: [
+        previous.fields[0],
+        { name: "quantity", type: "decimal", nullable: true },
+        { name: "amount", type: "string", nullable: true },
+        { name: "status", type: "categorical" },
+      ],
+    });
+
+    expect(diff.changedFields).toEqual([
+      { name: "quantity", from: "integer", to: "decimal" },
+      { name: "amount", from: "number", to: "string" },
+    ]);
+    expect(diff.nullabilityChanges).toEqual([
+      { name: "quantity", from: false, to: true },
+    ]);
+  });
+
+  it("should detect renames from similar names", () => {
+    const diff = diffSchemas(previous, {
+      fields: [
+        { name: "Order ID", type: "string", nullable: false },
+        ...previous.fields.slice(1),
+      ],
+    });
+
+    expect(diff.renamedFields).toEqual([
+      { from: "order_id", to: "Order ID", confidence: 1 },
+    ]);
+    expect(diff.addedFields).toEqual([]);
+    expect(diff.removedFields).toEqual([]);
+  });
+
+  it("should detect renames from shared values", () => {
+    const next: DatasetSchema = {
+      fields: [
+        ...previous.fields.filter((field) => field.name !== "amount"),
+        { name: "total_amount", type: "number", nullable: true },
+      ],
+    };
+    const previousData = [{ amount: 10 }, { amount: 20 }, { amount: 35 }];
+    const data = [{ total_amount: 20 }, { total_amount: 35 }];
+
+    expect(diffSchemas(previous, next).renamedFields).toEqual([]);
+    expect(
+      diffSchemas(previous, next, { previousData, data }).renamedFields
+    ).toEqual([{ from: "amount", to: "total_amount", confidence: 0.77 }]);
+  });
+
+  it("should not pair fields of incompatible types or unrelated values", () => {
+    const diff = diffSchemas(
+      previous,
+      {
+        fields: [
+          ...previous.fields.slice(0, 3),
+          { name: "state", type: "boolean" },
+          { name: "stats", type: "string" },
+        ],
+      },
+      {
+        previousData: [{ status: "open" }, { status: "closed" }],
+        data: [{ stats: "a" }, { stats: "b" }],
+      }
+    );
+
+    expect(diff.renamedFields).toEqual([]);
+    expect(diff.removedFields).toEqual(["status"]);
+  });
+
+  it("should report type changes of renamed fields under the new name", () => {
+    const diff = diffSchemas(previous, {
+      fields: [
+        ...previous.fields.slice(0, 3),
+        { name: "Status", type: "string", nullable: true },
+      ],
+    });
+
+    expect(diff.changedFields).toEqual([
+      { name: "Status", from: "categorical", to: "string" },
+    ]);
+  });
+});
+
+describe("evaluateDrift", () => {
+  it("should accept an unchanged schema", () => {
+    expect(evaluateDrift(emptyDiff())).toMatchObject({
+      action: "accept",
+      issues: [],
+    });
+  });
+
+  it("should apply the default policy", () => {
+    const added = { ...emptyDiff(), addedFields: ["channel"] };
+    const widened = {
+      ...emptyDiff(),
+      changedFields: [
+        { name: "quantity", from: "integer" as const, to: "number" as const },
+      ],
+    };
+    const renamed = {
+      ...emptyDiff(),
+      renamedFields: [{ from: "amount", to: "total", confidence: 0.8 }],
+    };
+    const removed = { ...emptyDiff(), removedFields: ["amount"] };
+    const narrowed = {
+      ...emptyDiff(),
+      changedFields: [
+        { name: "amount", from: "number" as const, to: "integer" as const },
+      ],
+    };
+
+    expect(evaluateDrift(added).action).toBe("accept");
+    expect(evaluateDrift(widened).action).toBe("accept");
+    expect(evaluateDrift(renamed).action).toBe("warn");
+    expect(evaluateDrift(removed).action).toBe("reject");
+    expect(evaluateDrift(narrowed).action).toBe("reject");
+  });
+
+  it("should follow a custom policy and explain each issue", () => {
+    const diff: SchemaDiff = {
+      ...emptyDiff(),
+      removedFields: ["amount"],
+      renamedFields: [{ from: "status", to: "state", confidence: 0.9 }],
+    };
+
+    const report = evaluateDrift(diff, {
+      removedFields: "warn",
+      renamedFields: "reject",
+    });
+
+    expect(report.action).toBe("reject");
+    expect(report.issues).toEqual([
+      {
+        kind: "removedFields",
+        field: "amount",
+        action: "warn",
+        message: 'Field "amount" was removed',
+      },
+      {
+        kind: "renamedFields",
+        field: "state",
+        action: "reject",
+        message:
+          'Field "status" was likely renamed to "state" (confidence 0.9)',
+      },
+    ]);
+  });
+});
+
+describe("detectSchemaDrift", () => {
+  it("should use the rows of both datasets to find renames", () => {
+    const before = createDataset(previous, [
+      { order_id: "A1", quantity: 1, amount: 9.5, status: "open" },
+      { order_id: "A2", quantity: 2, amount: 12, status: "closed" },
+    ]);
+    const after = createDataset(
+      {
+        fields: [
+          ...previous.fields.filter((field) => field.name !== "amount"),
+          { name: "net_amount", type: "number", nullable: true },
+        ],
+      },
+      [
+        { order_id: "A2", quantity: 2, net_amount: 12, status: "closed" },
+        { order_id: "A3", quantity: 1, net_amount: 9.5, status: "open" },
+      ]
+    );
+
+    const report = detectSchemaDrift(before, after);
+
+    expect(report.action).toBe("warn");
+    expect(report.diff.renamedFields).toEqual([
+      expect.objectContaining({ from: "amount", to: "net_amount" }),
+    ]);
+  });
+});
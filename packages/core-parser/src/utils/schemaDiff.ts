@@ -0,0 +1,361 @@
+/**
+ * Schema drift
+ *
+ * Compares the schema of a refreshed upload with the previous one, listing
+ * added, removed, retyped and renamed fields, and decides with a policy
+ * whether the refresh is accepted, accepted with warnings or rejected.
+ */
+
+import type {
+  DataField,
+  DatasetSchema,
+  FieldRename,
+  ParsedDataset,
+  SchemaDiff,
+} from "@open-dashboard/shared/types";
+import { widenField } from "@open-dashboard/core-schema";
+
+export interface SchemaDiffOptions {
+  /** Rows of the previous version, used to match renamed fields by value */
+  previousData?: Record<string, unknown>[];
+  /** Rows of the new version */
+  data?: Record<string, unknown>[];
+  /**
+   * Smallest score, between 0 and 1, at which a removed and an added field
+   * count as a rename (default 0.7)
+   */
+  renameThreshold?: number;
+}
+
+export type DriftAction = "accept" | "warn" | "reject";
+
+/**
+ * What to do with each kind of change
+ */
+export interface DriftPolicy {
+  /** Default "accept" */
+  addedFields?: DriftAction;
+  /** Default "reject" */
+  removedFields?: DriftAction;
+  /** Default "warn" */
+  renamedFields?: DriftAction;
+  /** Types widened without losing values, e.g. integer to decimal (default "accept") */
+  widenedTypes?: DriftAction;
+  /** Other type changes (default "reject") */
+  changedTypes?: DriftAction;
+  /** Default "warn" */
+  nullabilityChanges?: DriftAction;
+}
+
+export interface DriftIssue {
+  kind: keyof DriftPolicy;
+  field: string;
+  action: DriftAction;
+  message: string;
+}
+
+export interface DriftReport {
+  /** The most severe action among the issues, "accept" if there are none */
+  action: DriftAction;
+  issues: DriftIssue[];
+  diff: SchemaDiff;
+}
+
+export const DEFAULT_DRIFT_POLICY: Required<DriftPolicy> = {
+  addedFields: "accept",
+  removedFields: "reject",
+  renamedFields: "warn",
+  widenedTypes: "accept",
+  changedTypes: "reject",
+  nullabilityChanges: "warn",
+};
+
+export const DEFAULT_RENAME_THRESHOLD = 0.7;
+
+/** Distinct values compared per field when matching renames */
+const RENAME_SAMPLE_SIZE = 1000;
+
+const SEVERITY: Record<DriftAction, number> = { accept: 0, warn: 1, reject: 2 };
+
+/**
+ * Compares two versions of a schema
+ *
+ * A removed and an added field of compatible types are reported as a rename
+ * when their names are similar enough, or, given the rows of both versions,
+ * when their names are somewhat similar and they share most values. Fields
+ * without a `nullable` flag count as nullable.
+ *
+ * @example
+ * ```typescript
+ * const diff = diffSchemas(previous.schema, refreshed.schema, {
+ *   previousData: previous.data,
+ *   data: refreshed.data,
+ * });
+ * // diff.renamedFields: [{ from: "amount", to: "total_amount", confidence: 0.77 }]
+ * ```
+ */
+export function diffSchemas(
+  previous: DatasetSchema,
+  next: DatasetSchema,
+  options: SchemaDiffOptions = {}
+): SchemaDiff {
+  const previousFields = new Map(
+    previous.fields.map((field) => [field.name, field])
+  );
+  const nextFields = new Map(next.fields.map((field) => [field.name, field]));
+
+  const removed = previous.fields.filter(
+    (field) => !nextFields.has(field.name)
+  );
+  const added = next.fields.filter((field) => !previousFields.has(field.name));
+  const renamedFields = matchRenames(removed, added, options);
+  const renamedFrom = new Set(renamedFields.map((rename) => rename.from));
+  const renamedTo = new Set(renamedFields.map((rename) => rename.to));
+
+  const diff: SchemaDiff = {
+    addedFields: added
+      .filter((field) => !renamedTo.has(field.name))
+      .map((field) => field.name),
+    removedFields: removed
+      .filter((field) => !renamedFrom.has(field.name))
+      .map((field) => field.name),
+    changedFields: [],
+    nullabilityChanges: [],
+    renamedFields,
+  };
+
+  const pairs: Array<[DataField, DataField]> = [
+    ...next.fields
+      .filter((field) => previousFields.has(field.name))
+      .map((field): [DataField, DataField] => [
+        previousFields.get(field.name) as DataField,
+        field,
+      ]),
+    ...renamedFields.map((rename): [DataField, DataField] => [
+      previousFields.get(rename.from) as DataField,
+      nextFields.get(rename.to) as DataField,
+    ]),
+  ];
+  for (const [before, after] of pairs) {
+    if (before.type !== after.type) {
+      diff.changedFields.push({
+        name: after.name,
+        from: before.type,
+        to: after.type,
+      });
+    }
+    const wasNullable = before.nullable !== false;
+    const isNullable = after.nullable !== false;
+    if (wasNullable !== isNullable) {
+      diff.nullabilityChanges.push({
+        name: after.name,
+        from: wasNullable,
+        to: isNullable,
+      });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Decides what to do with a schema diff
+ *
+ * @example
+ * ```typescript
+ * const { action, issues } = evaluateDrift(diff, { removedFields: "warn" });
+ * if (action === "reject") throw new Error(issues[0].message);
+ * ```
+ */
+export function evaluateDrift(
+  diff: SchemaDiff,
+  policy: DriftPolicy = {}
+): DriftReport {
+  const actions = { ...DEFAULT_DRIFT_POLICY, ...policy };
+  const issues: DriftIssue[] = [];
+  const report = (kind: keyof DriftPolicy, field: string, message: string) =>
+    issues.push({ kind, field, action: actions[kind], message });
+
+  for (const name of diff.addedFields) {
+    report("addedFields", name, `Field "${name}" was added`);
+  }
+  for (const name of diff.removedFields) {
+    report("removedFields", name, `Field "${name}" was removed`);
+  }
+  for (const { from, to, confidence } of diff.renamedFields) {
+    report(
+      "renamedFields",
+      to,
+      `Field "${from}" was likely renamed to "${to}" (confidence ${confidence})`
+    );
+  }
+  for (const { name, from, to } of diff.changedFields) {
+    const widened =
+      widenField({ name, type: from }, { name, type: to })?.type === to;
+    report(
+      widened ? "widenedTypes" : "changedTypes",
+      name,
+      `Field "${name}" changed from ${from} to ${to}`
+    );
+  }
+  for (const { name, to } of diff.nullabilityChanges) {
+    report(
+      "nullabilityChanges",
+      name,
+      `Field "${name}" became ${to ? "nullable" : "non-nullable"}`
+    );
+  }
+
+  const action = issues.reduce<DriftAction>(
+    (worst, issue) =>
+      SEVERITY[issue.action] > SEVERITY[worst] ? issue.action : worst,
+    "accept"
+  );
+  return { action, issues, diff };
+}
+
+/**
+ * Compares a refreshed dataset with the previous version and applies a
+ * drift policy, using the rows of both to detect renames
+ */
+export function detectSchemaDrift(
+  previous: ParsedDataset,
+  next: ParsedDataset,
+  options: Pick<SchemaDiffOptions, "renameThreshold"> & {
+    policy?: DriftPolicy;
+  } = {}
+): DriftReport {
+  const diff = diffSchemas(previous.schema, next.schema, {
+    previousData: previous.data,
+    data: next.data,
+    renameThreshold: options.renameThreshold,
+  });
+  return evaluateDrift(diff, options.policy);
+}
+
+/**
+ * Pairs removed with added fields, best scores first, each field at most
+ * once
+ */
+function matchRenames(
+  removed: DataField[],
+  added: DataField[],
+  options: SchemaDiffOptions
+): FieldRename[] {
+  const threshold = options.renameThreshold ?? DEFAULT_RENAME_THRESHOLD;
+  const candidates: FieldRename[] = [];
+
+  for (const before of removed) {
+    for (const after of added) {
+      if (!widenField(before, after) && !widenField(after, before)) continue;
+
+      const names = nameSimilarity(before.name, after.name);
+      const overlap =
+        options.previousData && options.data
+          ? valueOverlap(
+              options.previousData,
+              before.name,
+              options.data,
+              after.name
+            )
+          : undefined;
+      const score = overlap === undefined ? names : (names + overlap) / 2;
+      if (score >= threshold) {
+        candidates.push({
+          from: before.name,
+          to: after.name,
+          confidence: Math.round(score * 100) / 100,
+        });
+      }
+    }
+  }
+
+  const matchedFrom = new Set<string>();
+  const matchedTo = new Set<string>();
+  return candidates
+    .sort((a, b) => b.confidence - a.confidence)
+    .filter((candidate) => {
+      if (matchedFrom.has(candidate.from) || matchedTo.has(candidate.to)) {
+        return false;
+      }
+      matchedFrom.add(candidate.from);
+      matchedTo.add(candidate.to);
+      return true;
+    });
+}
+
+/**
+ * Similarity of two field names between 0 and 1, ignoring case and
+ * separators: the better of their edit-distance similarity and the share
+ * of words they have in common
+ */
+function nameSimilarity(a: string, b: string): number {
+  const compactA = a.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+  const compactB = b.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+  const longest = Math.max(compactA.length, compactB.length);
+  const edits =
+    longest === 0 ? 1 : 1 - editDistance(compactA, compactB) / longest;
+
+  const wordsA = new Set(words(a));
+  const wordsB = new Set(words(b));
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const union = new Set([...wordsA, ...wordsB]).size;
+  return Math.max(edits, union === 0 ? 0 : shared / union);
+}
+
+function words(name: string): string[] {
+  return name
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(
+        row[j] + 1,
+        next[j - 1] + 1,
+        row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    row = next;
+  }
+  return row[b.length];
+}
+
+/**
+ * Share of the smaller set of distinct values found in the other, or
+ * undefined when either field has no values
+ */
+function valueOverlap(
+  previousData: Record<string, unknown>[],
+  previousName: string,
+  data: Record<string, unknown>[],
+  name: string
+): number | undefined {
+  const a = distinctValues(previousData, previousName);
+  const b = distinctValues(data, name);
+  if (a.size === 0 || b.size === 0) return undefined;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const value of smaller) if (larger.has(value)) shared++;
+  return shared / smaller.size;
+}
+
+function distinctValues(
+  data: Record<string, unknown>[],
+  name: string
+): Set<string> {
+  const values = new Set<string>();
+  for (const row of data) {
+    const value = row[name];
+    if (value === null || value === undefined || value === "") continue;
+    values.add(value instanceof Date ? value.toISOString() : String(value));
+    if (values.size >= RENAME_SAMPLE_SIZE) break;
+  }
+  return values;
+}
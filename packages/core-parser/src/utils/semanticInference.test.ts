@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import type { DataField } from "@open-dashboard/shared/types";
+import { detectSemanticType, pairCoordinateFields } from "./semanticInference";
+import { parseLocaleNumber } from "./typeInference";
+
+describe("semanticInference", () => {
+  describe("detectSemanticType", () => {
+    it.each([
+      ["email", ["ada@example.com", "grace@example.org"]],
+      ["url", ["https://example.com/a", "http://example.org", "www.test.io"]],
+      ["ip", ["10.0.0.1", "192.168.1.254", "2001:db8::1", "::ffff:192.0.2.1"]],
+      [
+        "uuid",
+        [
+          "9b2f6a3e-4c1d-4e8a-9f0b-1c2d3e4f5a6b",
+          "00000000-0000-0000-0000-000000000000",
+        ],
+      ],
+      ["phone", ["+1 (555) 123-4567", "+44 20 7946 0958", "555-123-4567"]],
+      ["country", ["France", "Germany", "united states"]],
+      ["coordinates", ["45.76, 4.83", "-33.86,151.21"]],
+    ])("should detect %s values", (expected, samples) => {
+      const result = detectSemanticType("value", samples, "string");
+
+      expect(result?.type).toBe(expected);
+      expect(result?.confidence).toBe(1);
+    });
+
+    it("should report the confidence and the matching samples", () => {
+      const samples = [
+        "a@example.com",
+        "b@example.com",
+        "c@example.com",
+        "d@example.com",
+        "not an email",
+        null,
+        "",
+      ];
+
+      const result = detectSemanticType("contact", samples, "categorical");
+
+      expect(result).toEqual({
+        type: "email",
+        confidence: 0.8,
+        samples: samples.slice(0, 4),
+        metadata: { sampleCount: 5, matchCount: 4 },
+      });
+    });
+
+    it("should not tag fields below the confidence threshold", () => {
+      const result = detectSemanticType(
+        "contact",
+        ["a@example.com", "b@example.com", "n/a", "unknown"],
+        "string"
+      );
+
+      expect(result).toBeUndefined();
+    });
+
+    it("should prefer URLs over emails for URLs with a user name", () => {
+      const result = detectSemanticType(
+        "link",
+        ["https://user@example.com/path", "https://admin@example.org"],
+        "string"
+      );
+
+      expect(result?.type).toBe("url");
+    });
+
+    it("should reject invalid addresses", () => {
+      expect(
+        detectSemanticType("host", ["256.1.1.1", "1.2.3"], "string")
+      ).toBeUndefined();
+      expect(
+        detectSemanticType("host", ["1:2:3", "2001:db8::1::2"], "string")
+      ).toBeUndefined();
+    });
+
+    it("should only read country codes in fields named after countries", () => {
+      const codes = ["FR", "DE", "US", "GB"];
+
+      expect(
+        detectSemanticType("country_code", codes, "categorical")?.type
+      ).toBe("country");
+      expect(detectSemanticType("state", codes, "categorical")).toBeUndefined();
+      expect(
+        detectSemanticType("country", ["EU", "ZZ"], "string")
+      ).toBeUndefined();
+    });
+
+    it("should only read bare digits as phones in fields named after phones", () => {
+      const digits = ["5551234567", "5559876543"];
+
+      expect(detectSemanticType("order_ref", digits, "string")).toBeUndefined();
+      expect(detectSemanticType("mobilePhone", digits, "string")?.type).toBe(
+        "phone"
+      );
+      expect(
+        detectSemanticType("phone", [5551234567, 5559876543], "integer")?.type
+      ).toBe("phone");
+    });
+
+    it("should detect latitudes and longitudes from their names and ranges", () => {
+      expect(
+        detectSemanticType("lat", ["45.76", "-33.86", 51.5], "number")?.type
+      ).toBe("latitude");
+      expect(
+        detectSemanticType("pickupLng", ["151.21", "-0.12"], "number")?.type
+      ).toBe("longitude");
+      expect(
+        detectSemanticType("latitude", ["120.5", "95"], "number")
+      ).toBeUndefined();
+      expect(
+        detectSemanticType("altitude", ["45.76", "12.1"], "number")
+      ).toBeUndefined();
+    });
+
+    it("should detect currencies and percentages with the given number parser", () => {
+      const parse = (value: string) => parseLocaleNumber(value, "de-DE");
+
+      expect(
+        detectSemanticType("price", ["1.234,50 €", "12,00 €"], "decimal", parse)
+          ?.type
+      ).toBe("currency");
+      expect(
+        detectSemanticType("rate", ["12,5%", "3%"], "number", parse)?.type
+      ).toBe("percentage");
+    });
+
+    it("should not look for meanings in other types", () => {
+      expect(
+        detectSemanticType("email", [true, false], "boolean")
+      ).toBeUndefined();
+      expect(detectSemanticType("email", [], "string")).toBeUndefined();
+    });
+  });
+
+  describe("pairCoordinateFields", () => {
+    const field = (name: string, semanticType?: string): DataField => ({
+      name,
+      type: "number",
+      metadata: { semanticType },
+    });
+
+    it("should pair fields whose names differ in the coordinate word", () => {
+      const pairs = pairCoordinateFields([
+        field("pickup_lat", "latitude"),
+        field("pickup_lng", "longitude"),
+        field("dropoffLatitude", "latitude"),
+        field("dropoffLongitude", "longitude"),
+        field("fare"),
+      ]);
+
+      expect(Object.fromEntries(pairs)).toEqual({
+        pickup_lat: "pickup_lng",
+        pickup_lng: "pickup_lat",
+        dropoffLatitude: "dropoffLongitude",
+        dropoffLongitude: "dropoffLatitude",
+      });
+    });
+
+    it("should leave unmatched coordinates unpaired", () => {
+      const pairs = pairCoordinateFields([
+        field("start_lat", "latitude"),
+        field("end_lon", "longitude"),
+      ]);
+
+      expect(pairs.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import type { DataField, SemanticType } from "@open-dashboard/shared/types";
+import { isValidEmail } from "@open-dashboard/shared/utils";
+import type { SemanticTypeResult } from "../types/parser";
+import type { ParsedNumber } from "./typeInference";
+
+/**
+ * Share of the non-empty samples that must match before a field is tagged
+ * with a semantic type
+ */
+export const SEMANTIC_CONFIDENCE_THRESHOLD = 0.8;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const IPV4_OCTET = "(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+const IPV4_PATTERN = new RegExp(`^(?:${IPV4_OCTET}\\.){3}${IPV4_OCTET}$`);
+
+const PHONE_PATTERN = /^\+?(?:\(\d+\)|\d)[\d\s().-]*\d$/;
+
+const COORDINATES_PATTERN =
+  /^\(?\s*(-?\d{1,3}(?:\.\d+)?)\s*[,;]\s*(-?\d{1,3}(?:\.\d+)?)\s*\)?$/;
+
+// Name words that make numeric columns coordinates, and short codes countries
+const LATITUDE_WORDS = ["lat", "latitude"];
+const LONGITUDE_WORDS = ["lng", "lon", "long", "longitude"];
+const COUNTRY_WORDS = ["country", "countries", "nation", "nationality"];
+const PHONE_WORDS = ["phone", "telephone", "tel", "mobile", "cell", "fax"];
+
+// Region codes that are not countries
+const NON_COUNTRY_CODES = ["EU", "EZ", "QO", "UN", "XA", "XB"];
+
+let countries: { codes: Set<string>; names: Set<string> } | undefined;
+
+/**
+ * Detects what the values of a field mean on top of its type: emails, URLs,
+ * IP addresses, UUIDs, phone numbers and countries in text fields; amounts
+ * of money, percentages and coordinates in numeric fields. A semantic type
+ * is reported when at least 80% of the non-empty samples match it.
+ *
+ * Latitudes and longitudes can't be told apart from other numbers by their
+ * values, so they also need a field name such as "lat" or "pickup_lng".
+ * Two-letter country codes need a name such as "country" for the same
+ * reason; country names do not.
+ *
+ * @param parseNumber - Reads formatted numbers, such as `parseLocaleNumber`
+ * with the field's locale; plain `Number()` syntax is read by default
+ *
+ * @example
+ * ```typescript
+ * detectSemanticType("contact", ["a@example.com", "b@example.com"], "string");
+ * // { type: "email", confidence: 1, samples: [...], metadata: { ... } }
+ * ```
+ */
+export function detectSemanticType(
+  fieldName: string,
+  samples: unknown[],
+  type: DataField["type"],
+  parseNumber: (value: string) => ParsedNumber | undefined = parsePlainNumber
+): SemanticTypeResult | undefined {
+  const values = samples.filter(
+    (value) => value !== null && value !== undefined && value !== ""
+  );
+  if (values.length === 0) return undefined;
+
+  const words = splitFieldName(fieldName);
+  const hinted = (candidates: string[]) =>
+    words.some((word) => candidates.includes(word));
+
+  const readNumber = (value: unknown): ParsedNumber | undefined =>
+    typeof value === "number"
+      ? { value }
+      : typeof value === "string"
+        ? parseNumber(value)
+        : undefined;
+
+  const matchers: [SemanticType, (value: unknown) => boolean][] = [];
+  if (type === "number" || type === "integer" || type === "decimal") {
+    matchers.push(
+      ["currency", (value) => readNumber(value)?.format === "currency"],
+      ["percentage", (value) => readNumber(value)?.format === "percentage"]
+    );
+    if (hinted(LATITUDE_WORDS)) {
+      matchers.push(["latitude", (value) => inRange(readNumber(value), 90)]);
+    }
+    if (hinted(LONGITUDE_WORDS)) {
+      matchers.push(["longitude", (value) => inRange(readNumber(value), 180)]);
+    }
+    if (hinted(PHONE_WORDS)) {
+      matchers.push(["phone", (value) => isPhoneNumber(value, true)]);
+    }
+  } else if (type === "string" || type === "categorical") {
+    // Earlier matchers win ties, so URLs with a user name are not emails
+    matchers.push(
+      [
+        "uuid",
+        (value) => matchesText(value, (text) => UUID_PATTERN.test(text)),
+      ],
+      ["url", (value) => matchesText(value, isURL)],
+      ["email", (value) => matchesText(value, isValidEmail)],
+      ["ip", (value) => matchesText(value, isIPAddress)],
+      ["coordinates", (value) => matchesText(value, isCoordinatePair)],
+      ["phone", (value) => isPhoneNumber(value, hinted(PHONE_WORDS))],
+      [
+        "country",
+        (value) =>
+          matchesText(value, (text) => isCountry(text, hinted(COUNTRY_WORDS))),
+      ]
+    );
+  }
+
+  let best: SemanticTypeResult | undefined;
+  for (const [semanticType, matches] of matchers) {
+    const matched = values.filter(matches);
+    const confidence = matched.length / values.length;
+    if (
+      confidence >= SEMANTIC_CONFIDENCE_THRESHOLD &&
+      confidence > (best?.confidence ?? 0)
+    ) {
+      best = {
+        type: semanticType,
+        confidence,
+        samples: matched,
+        metadata: { sampleCount: values.length, matchCount: matched.length },
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds the longitude field paired with each latitude field, and the other
+ * way round. Fields pair when their names only differ in the coordinate
+ * word, such as "lat" and "lng" or "pickup_latitude" and "pickup_longitude".
+ */
+export function pairCoordinateFields(fields: DataField[]): Map<string, string> {
+  const pairs = new Map<string, string>();
+  const longitudes = fields.filter(
+    (field) => field.metadata?.semanticType === "longitude"
+  );
+
+  for (const latitude of fields) {
+    if (latitude.metadata?.semanticType !== "latitude") continue;
+    const key = coordinateKey(latitude.name, LATITUDE_WORDS);
+    const longitude = longitudes.find(
+      (candidate) =>
+        !pairs.has(candidate.name) &&
+        coordinateKey(candidate.name, LONGITUDE_WORDS) === key
+    );
+    if (longitude) {
+      pairs.set(latitude.name, longitude.name);
+      pairs.set(longitude.name, latitude.name);
+    }
+  }
+  return pairs;
+}
+
+function parsePlainNumber(value: string): ParsedNumber | undefined {
+  const num = Number(value);
+  return value.trim() !== "" && isFinite(num) ? { value: num } : undefined;
+}
+
+/**
+ * Splits a field name into lower-case words ("pickupLat" -> pickup, lat)
+ */
+function splitFieldName(fieldName: string): string[] {
+  return fieldName
+    .replace(/([a-z\d])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z\d]+/)
+    .filter((word) => word !== "");
+}
+
+/**
+ * Replaces the coordinate word of a field name, so paired names compare equal
+ */
+function coordinateKey(fieldName: string, coordinateWords: string[]): string {
+  return splitFieldName(fieldName)
+    .map((word) => (coordinateWords.includes(word) ? "*" : word))
+    .join(" ");
+}
+
+function matchesText(
+  value: unknown,
+  matches: (text: string) => boolean
+): boolean {
+  return typeof value === "string" && matches(value.trim());
+}
+
+function inRange(parsed: ParsedNumber | undefined, limit: number): boolean {
+  return (
+    parsed !== undefined && !parsed.format && Math.abs(parsed.value) <= limit
+  );
+}
+
+function isURL(text: string): boolean {
+  if (/^www\.[^\s.]+\.\S+$/i.test(text)) return true;
+  if (!/^(?:https?|ftp):\/\/\S+$/i.test(text)) return false;
+  try {
+    return new URL(text).hostname !== "";
+  } catch {
+    return false;
+  }
+}
+
+function isIPAddress(text: string): boolean {
+  return IPV4_PATTERN.test(text) || isIPv6Address(text);
+}
+
+function isIPv6Address(text: string): boolean {
+  let address = text;
+  // An embedded IPv4 address ("::ffff:192.0.2.1") takes two groups
+  const ipv4 = /^(.*:)(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (ipv4) {
+    if (!IPV4_PATTERN.test(ipv4[2])) return false;
+    address = `${ipv4[1]}0:0`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return false;
+  const groups = halves.flatMap((half) => (half === "" ? [] : half.split(":")));
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return false;
+  return halves.length === 2 ? groups.length < 8 : groups.length === 8;
+}
+
+function isCoordinatePair(text: string): boolean {
+  const match = COORDINATES_PATTERN.exec(text);
+  return (
+    match !== null &&
+    Math.abs(Number(match[1])) <= 90 &&
+    Math.abs(Number(match[2])) <= 180
+  );
+}
+
+/**
+ * Checks whether a value is a phone number. Bare digits are only read as one
+ * in fields named like phones, since IDs and codes look the same.
+ */
+function isPhoneNumber(value: unknown, hinted: boolean): boolean {
+  const text =
+    typeof value === "number" && Number.isInteger(value)
+      ? String(value)
+      : typeof value === "string"
+        ? value.trim()
+        : "";
+  if (!hinted && /^\d+$/.test(text)) return false;
+  const digits = text.replace(/\D/g, "").length;
+  return PHONE_PATTERN.test(text) && digits >= 7 && digits <= 15;
+}
+
+/**
+ * Checks whether a value is an English country name or, when the field name
+ * points to countries, an ISO 3166-1 alpha-2 code
+ */
+function isCountry(text: string, codesAllowed: boolean): boolean {
+  const { codes, names } = loadCountries();
+  if (/^[A-Za-z]{2}$/.test(text)) {
+    return codesAllowed && codes.has(text.toUpperCase());
+  }
+  return names.has(text.toLowerCase());
+}
+
+/**
+ * Lists the region codes and names known to the runtime's Intl data
+ */
+function loadCountries(): { codes: Set<string>; names: Set<string> } {
+  if (countries) return countries;
+  countries = { codes: new Set(), names: new Set() };
+
+  const displayNames = new Intl.DisplayNames(["en"], { type: "region" });
+  const letters = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+  for (const first of letters) {
+    for (const second of letters) {
+      const code = first + second;
+      if (NON_COUNTRY_CODES.includes(code)) continue;
+      const name = displayNames.of(code);
+      // Unknown codes are echoed back or named "Unknown Region"
+      if (!name || name === code || name === "Unknown Region") continue;
+      countries.codes.add(code);
+      countries.names.add(name.toLowerCase());
+    }
+  }
+  return countries;
+}
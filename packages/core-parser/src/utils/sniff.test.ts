@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  isBinarySample,
+  readDetectionSample,
+  sampleLines,
+  scoreDelimiters,
+  sniffCSVDialect,
+} from "./sniff";
+
+describe("sniff", () => {
+  describe("readDetectionSample", () => {
+    it("should sample strings", async () => {
+      const sample = await readDetectionSample("a,b\n1,2\n3,4", 6);
+
+      expect(sample).toMatchObject({
+        source: "string",
+        text: "a,b\n1,",
+        truncated: true,
+      });
+      expect(sample.url).toBeUndefined();
+    });
+
+    it("should recognize strings holding a URL", async () => {
+      const sample = await readDetectionSample(" https://example.com/data ");
+
+      expect(sample.url?.hostname).toBe("example.com");
+    });
+
+    it("should read only the leading bytes of files", async () => {
+      const file = new File(["id,name\n1,Alice"], "people.csv", {
+        type: "text/csv",
+      });
+
+      const sample = await readDetectionSample(file, 7);
+
+      expect(sample).toMatchObject({
+        source: "file",
+        text: "id,name",
+        truncated: true,
+        filename: "people.csv",
+        mimeType: "text/csv",
+      });
+      expect(sample.bytes).toHaveLength(7);
+    });
+
+    it("should not fetch URLs", async () => {
+      const sample = await readDetectionSample(
+        new URL("https://example.com/exports/orders.csv?day=1")
+      );
+
+      expect(sample).toMatchObject({
+        source: "url",
+        text: "",
+        filename: "orders.csv",
+      });
+      expect(sample.bytes).toHaveLength(0);
+    });
+  });
+
+  describe("sampleLines", () => {
+    it("should drop empty lines and the incomplete last line", async () => {
+      const sample = await readDetectionSample("a\r\n\nb\nc\nincompl", 12);
+
+      expect(sampleLines(sample)).toEqual(["a", "b", "c"]);
+    });
+  });
+
+  describe("isBinarySample", () => {
+    it("should flag NUL bytes and control characters", async () => {
+      const binary = new File([new Uint8Array([0x50, 0x4b, 0x00, 0x01])], "x");
+      const text = new File(["plain\ttext\r\n"], "x");
+
+      expect(isBinarySample(await readDetectionSample(binary))).toBe(true);
+      expect(isBinarySample(await readDetectionSample(text))).toBe(false);
+    });
+  });
+
+  describe("scoreDelimiters", () => {
+    it("should pick the delimiter with consistent counts", () => {
+      const result = scoreDelimiters(["a;b;c", "1;2,5;3", "4;5;6,1"]);
+
+      expect(result?.delimiter).toBe(";");
+      expect(result?.confidence).toBeCloseTo(0.95);
+    });
+
+    it("should ignore delimiters inside quotes", () => {
+      const result = scoreDelimiters(["name,city", '"Smith, J",Paris']);
+
+      expect(result).toEqual({ delimiter: ",", confidence: 0.75 });
+    });
+
+    it("should lower confidence for inconsistent lines", () => {
+      const result = scoreDelimiters(["a,b,c", "1,2,3", "free text"]);
+
+      expect(result?.confidence).toBeCloseTo((2 / 3) * 0.95);
+    });
+
+    it("should return undefined without delimiters", () => {
+      expect(scoreDelimiters(["just words", "more words"])).toBeUndefined();
+      expect(scoreDelimiters([])).toBeUndefined();
+    });
+  });
+
+  describe("sniffCSVDialect", () => {
+    it("should default to a plain comma-separated file with a header", () => {
+      expect(sniffCSVDialect("name,age\nAlice,30\nBob,25")).toEqual({
+        delimiter: ",",
+        quoteChar: '"',
+        escapeChar: '"',
+        decimalSeparator: ".",
+        hasHeader: true,
+        skipLines: 0,
+        comments: false,
+      });
+    });
+
+    it("should count preamble lines with fewer delimiters", () => {
+      const dialect = sniffCSVDialect(
+        "Sales report\nGenerated: March 4, 2024\n\nday;store;amount\n2024-03-04;Paris;3"
+      );
+
+      expect(dialect.delimiter).toBe(";");
+      expect(dialect.skipLines).toBe(3);
+    });
+
+    it("should detect comment lines", () => {
+      const dialect = sniffCSVDialect("# exported by crm\nid,name\n1,Alice");
+
+      expect(dialect.comments).toBe("#");
+      expect(dialect.skipLines).toBe(1);
+    });
+
+    it("should tell doubled quotes from backslash escapes", () => {
+      expect(sniffCSVDialect('id,text\n1,"say ""hi"""\n2,""').escapeChar).toBe(
+        '"'
+      );
+      expect(sniffCSVDialect('id,text\n1,"say \\"hi\\""').escapeChar).toBe(
+        "\\"
+      );
+    });
+
+    it("should detect the decimal separator", () => {
+      expect(
+        sniffCSVDialect("item;price\ntea;1,50\ncake;1.234,5").decimalSeparator
+      ).toBe(",");
+      expect(
+        sniffCSVDialect("item,price\ntea,1.50\ncake,2.00").decimalSeparator
+      ).toBe(".");
+      // Three digits after the separator may be thousands
+      expect(sniffCSVDialect("item;price\ntea;1,500").decimalSeparator).toBe(
+        "."
+      );
+    });
+
+    it("should decide whether the first row is a header", () => {
+      expect(sniffCSVDialect("year,total\n2023,10\n2024,12").hasHeader).toBe(
+        true
+      );
+      expect(sniffCSVDialect("2023,10\n2024,12").hasHeader).toBe(false);
+      expect(sniffCSVDialect("Paris,open\nLyon,open").hasHeader).toBe(false);
+      expect(sniffCSVDialect("city,country\nParis,France").hasHeader).toBe(
+        true
+      );
+    });
+  });
+});
@@ -0,0 +1,372 @@
+import type { DetectionSample } from "@open-dashboard/shared/types";
+import type { CSVDialect } from "../types/parser";
+import { decodeText, detectEncoding } from "./encoding";
+
+/**
+ * Number of leading bytes read from an input to detect its format (64 KB)
+ */
+export const DETECTION_SAMPLE_BYTES = 64 * 1024;
+
+/** Delimiters considered when scoring delimited text */
+const CANDIDATE_DELIMITERS = [",", "\t", ";", "|"];
+
+/** Lines read from the start of CSV text to sniff its dialect */
+const DIALECT_SAMPLE_LINES = 50;
+
+/** Start or end of a value, for any candidate delimiter */
+const VALUE_START = "(?:^|[,\\t;|])\\s*";
+const VALUE_END = "\\s*(?=[,\\t;|]|$)";
+
+const DECIMAL_COMMA = /^[-+]?(\d{1,3}(\.\d{3})+|\d+),\d+$/;
+const DECIMAL_POINT = /^[-+]?(\d{1,3}(,\d{3})+|\d+)\.\d+$/;
+// "1,234" and "1.234" may use the separator for thousands instead
+const AMBIGUOUS_DECIMAL = /^[-+]?\d{1,3}[.,]\d{3}$/;
+const DATE_VALUE = /^(\d{4}-\d{2}-\d{2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})\b/;
+
+export interface DelimiterScore {
+  delimiter: string;
+  /** Confidence between 0 and 1 that the lines are delimited by it */
+  confidence: number;
+}
+
+/**
+ * Reads the leading content of an input for format detection. URLs are not
+ * fetched, so their samples only carry the URL and its file name.
+ */
+export async function readDetectionSample(
+  input: string | File | URL,
+  size = DETECTION_SAMPLE_BYTES
+): Promise<DetectionSample> {
+  if (input instanceof URL) {
+    return {
+      source: "url",
+      bytes: new Uint8Array(0),
+      text: "",
+      truncated: true,
+      filename: input.pathname.split("/").pop() || undefined,
+      url: input,
+    };
+  }
+
+  if (input instanceof File) {
+    const bytes = new Uint8Array(await input.slice(0, size).arrayBuffer());
+    return {
+      source: "file",
+      bytes,
+      // The sample may end mid-character, which full UTF-8 validation rejects
+      text: decodeText(bytes, detectEncoding(bytes).encoding).text,
+      truncated: input.size > size,
+      filename: input.name,
+      mimeType: input.type || undefined,
+    };
+  }
+
+  const text = input.slice(0, size);
+  return {
+    source: "string",
+    bytes: new TextEncoder().encode(text),
+    text,
+    truncated: input.length > size,
+    url: parseHttpURL(input),
+  };
+}
+
+/**
+ * Returns the non-empty lines of a sample. The last line of a truncated
+ * sample is dropped because it is probably incomplete.
+ */
+export function sampleLines(sample: DetectionSample, maxLines = 20): string[] {
+  const lines = sample.text.split(/\r?\n/);
+  if (sample.truncated && lines.length > 1) {
+    lines.pop();
+  }
+  return lines.filter((line) => line.trim() !== "").slice(0, maxLines);
+}
+
+/**
+ * Checks whether a sample looks like binary data: a NUL character or mostly
+ * control characters in its first kilobyte of text
+ */
+export function isBinarySample(sample: DetectionSample): boolean {
+  const head = sample.text.slice(0, 1024);
+  let control = 0;
+  for (let i = 0; i < head.length; i++) {
+    const code = head.charCodeAt(i);
+    if (code === 0) return true;
+    if (code < 0x09 || (code > 0x0d && code < 0x20)) control++;
+  }
+  return head.length > 0 && control / head.length > 0.1;
+}
+
+/**
+ * Scores how consistently lines are split by each candidate delimiter and
+ * returns the best one. Delimiters inside double quotes are not counted.
+ *
+ * @example
+ * ```typescript
+ * scoreDelimiters(["a;b;c", "1;2;3"]); // { delimiter: ";", confidence: 0.95 }
+ * ```
+ */
+export function scoreDelimiters(
+  lines: string[],
+  quoteChar = '"'
+): DelimiterScore | undefined {
+  if (lines.length === 0) return undefined;
+
+  let best: DelimiterScore | undefined;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = lines.map((line) =>
+      countUnquoted(line, delimiter, quoteChar)
+    );
+    const modal = mostFrequent(counts);
+    if (modal === 0) continue;
+
+    const consistency =
+      counts.filter((count) => count === modal).length / counts.length;
+    // A single line or a single delimiter per line is weak evidence
+    const confidence =
+      consistency * (lines.length > 1 ? 1 : 0.5) * (modal > 1 ? 0.95 : 0.75);
+
+    if (confidence > (best?.confidence ?? 0)) {
+      best = { delimiter, confidence };
+    }
+  }
+  return best;
+}
+
+/**
+ * Sniffs the dialect of CSV text from its first lines: the delimiter, the
+ * quote character and how quotes are escaped, the decimal separator,
+ * whether the first row is a header and how many lines precede the table.
+ *
+ * Leading lines with fewer delimiters than most lines are skipped as a
+ * title or preamble, as are blank lines and lines starting with `#` that do
+ * not fit the table. The first row is a header unless it looks like the
+ * rows below it, e.g. numbers in columns of numbers.
+ *
+ * @example
+ * ```typescript
+ * sniffCSVDialect("Sales report\n\nday;amount\n2024-03-04;1,5");
+ * // { delimiter: ";", decimalSeparator: ",", hasHeader: true, skipLines: 2, ... }
+ * ```
+ */
+export function sniffCSVDialect(text: string): CSVDialect {
+  const lines = text
+    .split(/\r?\n/, DIALECT_SAMPLE_LINES + 1)
+    .slice(0, DIALECT_SAMPLE_LINES);
+  const quoteChar = detectQuoteChar(lines);
+
+  // Titles without any delimiter would outvote short tables
+  const candidates = lines.filter(
+    (line) =>
+      !line.startsWith("#") &&
+      CANDIDATE_DELIMITERS.some((delimiter) => line.includes(delimiter))
+  );
+  const delimiter = scoreDelimiters(candidates, quoteChar)?.delimiter ?? ",";
+  const count = (line: string) => countUnquoted(line, delimiter, quoteChar);
+  const modal = candidates.length > 0 ? mostFrequent(candidates.map(count)) : 0;
+
+  const comments = lines.some(
+    (line) => line.startsWith("#") && count(line) !== modal
+  )
+    ? "#"
+    : false;
+  const isSkipped = (line: string) =>
+    line.trim() === "" || (comments !== false && line.startsWith(comments));
+
+  let skipLines = 0;
+  while (
+    skipLines < lines.length &&
+    (isSkipped(lines[skipLines]) || count(lines[skipLines]) < modal)
+  ) {
+    skipLines++;
+  }
+
+  const escapeChar = detectEscapeChar(lines, delimiter, quoteChar);
+  const rows = lines
+    .slice(skipLines)
+    .filter((line) => !isSkipped(line))
+    .map((line) => splitValues(line, delimiter, quoteChar, escapeChar));
+  const decimalSeparator = detectDecimalSeparator(rows.slice(1));
+
+  return {
+    delimiter,
+    quoteChar,
+    escapeChar,
+    decimalSeparator,
+    hasHeader: detectHeader(rows, decimalSeparator),
+    skipLines,
+    comments,
+  };
+}
+
+/**
+ * Picks `'` over `"` when more values are wrapped in single quotes
+ */
+function detectQuoteChar(lines: string[]): string {
+  const quotedValues = (quote: string) => {
+    const pattern = new RegExp(
+      `${VALUE_START}${quote}[^${quote}]*${quote}${VALUE_END}`,
+      "g"
+    );
+    return lines.reduce(
+      (total, line) => total + (line.match(pattern)?.length ?? 0),
+      0
+    );
+  };
+  return quotedValues("'") > quotedValues('"') ? "'" : '"';
+}
+
+/**
+ * Returns a backslash when quotes are more often escaped by one than
+ * doubled, and the quote character otherwise. Empty quoted values ("") do
+ * not count as doubled quotes.
+ */
+function detectEscapeChar(
+  lines: string[],
+  delimiter: string,
+  quoteChar: string
+): string {
+  let backslashed = 0;
+  let doubled = 0;
+  for (const line of lines) {
+    for (let i = 0; i < line.length - 1; i++) {
+      if (line[i] === "\\" && line[i + 1] === quoteChar) {
+        backslashed++;
+        i++;
+      } else if (line[i] === quoteChar && line[i + 1] === quoteChar) {
+        const emptyValue =
+          (i === 0 || line[i - 1] === delimiter) &&
+          (i + 2 === line.length || line[i + 2] === delimiter);
+        if (!emptyValue) doubled++;
+        i++;
+      }
+    }
+  }
+  return backslashed > doubled ? "\\" : quoteChar;
+}
+
+function detectDecimalSeparator(rows: string[][]): "." | "," {
+  let comma = 0;
+  let point = 0;
+  for (const value of rows.flat()) {
+    if (AMBIGUOUS_DECIMAL.test(value)) continue;
+    if (DECIMAL_COMMA.test(value)) comma++;
+    else if (DECIMAL_POINT.test(value)) point++;
+  }
+  return comma > point ? "," : ".";
+}
+
+/**
+ * Scores each column: text above a column of numbers, dates or booleans
+ * points to a header, a value of the column's own kind points away from
+ * one, as does a text value repeated further down. Ties keep the header.
+ */
+function detectHeader(rows: string[][], decimalSeparator: "." | ","): boolean {
+  if (rows.length < 2) return true;
+  const [first, ...body] = rows;
+
+  let score = 0;
+  first.forEach((value, column) => {
+    if (value === "") return;
+    const values = body
+      .map((row) => row[column] ?? "")
+      .filter((cell) => cell !== "");
+    const kinds = new Set(
+      values.map((cell) => valueKind(cell, decimalSeparator))
+    );
+    const kind = valueKind(value, decimalSeparator);
+
+    if (kinds.size === 1 && !kinds.has("text")) {
+      score += kind === "text" ? 1 : kinds.has(kind) ? -1 : 0;
+    } else if (kind === "text" && values.includes(value)) {
+      score--;
+    }
+  });
+  return score >= 0;
+}
+
+function valueKind(
+  value: string,
+  decimalSeparator: "." | ","
+): "number" | "date" | "boolean" | "text" {
+  const plain =
+    decimalSeparator === ","
+      ? value.replace(/\./g, "").replace(",", ".")
+      : value.replace(/,/g, "");
+  if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?%?$/i.test(plain)) return "number";
+  if (DATE_VALUE.test(value)) return "date";
+  if (/^(true|false)$/i.test(value)) return "boolean";
+  return "text";
+}
+
+/**
+ * Splits a line into its values without quotes. Quoted delimiters stay in
+ * their value and escaped quotes become plain quotes.
+ */
+function splitValues(
+  line: string,
+  delimiter: string,
+  quoteChar: string,
+  escapeChar: string
+): string[] {
+  const values: string[] = [];
+  let value = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes && char === escapeChar && line[i + 1] === quoteChar) {
+      value += quoteChar;
+      i++;
+    } else if (char === quoteChar) {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      values.push(value.trim());
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+  values.push(value.trim());
+  return values;
+}
+
+function countUnquoted(
+  line: string,
+  delimiter: string,
+  quoteChar = '"'
+): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === quoteChar) {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function mostFrequent(values: number[]): number {
+  const frequencies = new Map<number, number>();
+  let best = values[0];
+  for (const value of values) {
+    const frequency = (frequencies.get(value) ?? 0) + 1;
+    frequencies.set(value, frequency);
+    if (frequency > (frequencies.get(best) ?? 0)) {
+      best = value;
+    }
+  }
+  return best;
+}
+
+function parseHttpURL(input: string): URL | undefined {
+  const trimmed = input.trim();
+  if (!/^https?:\/\/\S+$/i.test(trimmed)) return undefined;
+  try {
+    return new URL(trimmed);
+  } catch {
+    return undefined;
+  }
+}
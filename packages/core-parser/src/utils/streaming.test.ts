@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  readTextChunks,
+  chunkPercentage,
+  DEFAULT_CHUNK_SIZE,
+} from "./streaming";
+
+async function collect(
+  source: Blob | ReadableStream<Uint8Array>,
+  options?: Parameters<typeof readTextChunks>[1]
+) {
+  const chunks = [];
+  for await (const chunk of readTextChunks(source, options)) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("streaming", () => {
+  describe("readTextChunks", () => {
+    it("should read a Blob in chunks of the requested size", async () => {
+      const blob = new Blob(["abcdefghij"]);
+
+      const chunks = await collect(blob, { chunkSize: 4 });
+
+      expect(chunks.map((c) => c.text)).toEqual(["abcd", "efgh", "ij"]);
+      expect(chunks.map((c) => c.bytesRead)).toEqual([4, 8, 10]);
+      expect(chunks.every((c) => c.totalBytes === 10)).toBe(true);
+    });
+
+    it("should decode multi-byte characters split across chunks", async () => {
+      const blob = new Blob(["München,Zürich"]);
+
+      const chunks = await collect(blob, { chunkSize: 2 });
+
+      expect(chunks.map((c) => c.text).join("")).toBe("München,Zürich");
+    });
+
+    it("should switch to a legacy encoding when a later chunk is not UTF-8", async () => {
+      const latin1 = Uint8Array.from(
+        "name,city\nAnna,Berlin\nJürgen,Köln",
+        (char) => char.charCodeAt(0)
+      );
+
+      const chunks = await collect(new Blob([latin1]), { chunkSize: 16 });
+
+      expect(chunks[0].encoding?.encoding).toBe("UTF-8");
+      expect(chunks.map((c) => c.text).join("")).toBe(
+        "name,city\nAnna,Berlin\nJürgen,Köln"
+      );
+      expect(chunks[chunks.length - 1].encoding?.encoding).toBe("ISO-8859-1");
+    });
+
+    it("should read byte streams", async () => {
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode("hello "));
+          controller.enqueue(encoder.encode("world"));
+          controller.close();
+        },
+      });
+
+      const chunks = await collect(stream, { totalBytes: 11 });
+
+      expect(chunks.map((c) => c.text).join("")).toBe("hello world");
+      expect(chunks[chunks.length - 1].bytesRead).toBe(11);
+      expect(chunks[0].totalBytes).toBe(11);
+    });
+
+    it("should stop reading when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const chunks = [];
+
+      for await (const chunk of readTextChunks(new Blob(["a".repeat(100)]), {
+        chunkSize: 10,
+        signal: controller.signal,
+      })) {
+        chunks.push(chunk);
+        if (chunks.length === 3) controller.abort();
+      }
+
+      expect(chunks).toHaveLength(3);
+    });
+
+    it("should fall back to the default chunk size", async () => {
+      const chunks = await collect(new Blob(["small"]), { chunkSize: 0 });
+
+      expect(chunks).toHaveLength(1);
+      expect(DEFAULT_CHUNK_SIZE).toBe(1024 * 1024);
+    });
+
+    it("should yield nothing for an empty Blob", async () => {
+      expect(await collect(new Blob([]))).toEqual([]);
+    });
+  });
+
+  describe("chunkPercentage", () => {
+    it("should compute the percentage of bytes read", () => {
+      expect(
+        chunkPercentage({ text: "", bytesRead: 25, totalBytes: 100 })
+      ).toBe(25);
+    });
+
+    it("should return 0 when the total size is unknown", () => {
+      expect(chunkPercentage({ text: "", bytesRead: 25 })).toBe(0);
+    });
+  });
+});
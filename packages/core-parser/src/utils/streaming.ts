@@ -0,0 +1,106 @@
+import { createChunkDecoder, type EncodingDetection } from "./encoding";
+
+/**
+ * Default number of bytes read per chunk when streaming (1 MB)
+ */
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+export interface TextChunk {
+  /** Decoded text of this chunk */
+  text: string;
+  /** Total bytes consumed from the source so far */
+  bytesRead: number;
+  /** Total size of the source in bytes, when known */
+  totalBytes?: number;
+  /** Encoding the source is decoded with */
+  encoding?: EncodingDetection;
+}
+
+export interface ReadTextChunksOptions {
+  /** Bytes per chunk for Blob/File sources */
+  chunkSize?: number;
+  /** Total size in bytes for stream sources (e.g. Content-Length) */
+  totalBytes?: number;
+  /** Stops reading when aborted */
+  signal?: AbortSignal;
+  /** Text encoding of the source; detected while reading if omitted */
+  encoding?: string;
+}
+
+/**
+ * Reads a Blob/File or byte stream as a sequence of decoded text chunks.
+ *
+ * Blob sources are sliced so that only one chunk is held in memory at a time.
+ * Multi-byte characters split across chunk boundaries are decoded correctly.
+ * Without an explicit encoding, the encoding is detected from the first chunk,
+ * and switches to a legacy encoding if a later chunk turns out not to be
+ * UTF-8 (see `createChunkDecoder`).
+ * Every chunk is awaited, so the event loop gets a chance to run in between.
+ */
+export async function* readTextChunks(
+  source: Blob | ReadableStream<Uint8Array>,
+  options: ReadTextChunksOptions = {}
+): AsyncGenerator<TextChunk> {
+  const decoder = createChunkDecoder(options.encoding);
+  const chunkSize =
+    options.chunkSize && options.chunkSize > 0
+      ? options.chunkSize
+      : DEFAULT_CHUNK_SIZE;
+
+  if (source instanceof Blob) {
+    const totalBytes = source.size;
+    let offset = 0;
+
+    while (offset < totalBytes) {
+      if (options.signal?.aborted) return;
+
+      const end = Math.min(offset + chunkSize, totalBytes);
+      const bytes = await source.slice(offset, end).arrayBuffer();
+      offset = end;
+
+      const text = decoder.decode(new Uint8Array(bytes), offset < totalBytes);
+      yield { text, bytesRead: offset, totalBytes, encoding: decoder.encoding };
+    }
+    return;
+  }
+
+  const reader = source.getReader();
+  let bytesRead = 0;
+
+  try {
+    while (true) {
+      if (options.signal?.aborted) return;
+
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      bytesRead += value.byteLength;
+      yield {
+        text: decoder.decode(value, true),
+        bytesRead,
+        totalBytes: options.totalBytes,
+        encoding: decoder.encoding,
+      };
+    }
+
+    const tail = decoder.decode();
+    if (tail) {
+      yield {
+        text: tail,
+        bytesRead,
+        totalBytes: options.totalBytes,
+        encoding: decoder.encoding,
+      };
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Calculates a 0-100 progress percentage from a text chunk
+ */
+export function chunkPercentage(chunk: TextChunk): number {
+  if (!chunk.totalBytes) return 0;
+  return Math.min(100, (chunk.bytesRead / chunk.totalBytes) * 100);
+}
@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { isValidDate, inferType, inferFieldType } from "./typeInference";
+import {
+  isValidDate,
+  inferType,
+  inferFieldType,
+  parseLocaleNumber,
+} from "./typeInference";
 
 describe("isValidDate", () => {
   describe("valid dates", () => {
@@ -26,6 +31,17 @@ describe("isValidDate", () => {
       expect(isValidDate("01/5/2024")).toBe(true);
       expect(isValidDate("1/05/2024")).toBe(true);
     });
+
+    it("should validate timestamps, month names and day-first dates", () => {
+      expect(isValidDate("2024-03-05T10:30:00Z")).toBe(true);
+      expect(isValidDate("2024-03-05 10:30:00.123+01:00")).toBe(true);
+      expect(isValidDate("2024-03")).toBe(true);
+      expect(isValidDate("Mar 5, 2024")).toBe(true);
+      expect(isValidDate("January 15, 2024")).toBe(true);
+      expect(isValidDate("15 Jan 2024")).toBe(true);
+      expect(isValidDate("25/12/2024")).toBe(true);
+      expect(isValidDate("25.12.2024 18:00")).toBe(true);
+    });
   });
 
   describe("invalid dates", () => {
@@ -60,9 +76,9 @@ describe("isValidDate", () => {
       expect(isValidDate("01-15-2024")).toBe(false); // Wrong delimiter
     });
 
-    it("should reject plain text that looks like dates", () => {
-      expect(isValidDate("January 15, 2024")).toBe(false);
-      expect(isValidDate("15 Jan 2024")).toBe(false);
+    it("should reject plain text that mentions dates", () => {
+      expect(isValidDate("Meeting on January 15")).toBe(false);
+      expect(isValidDate("Q1 2024")).toBe(false);
     });
   });
 });
@@ -137,6 +153,15 @@ describe("inferType", () => {
       expect(inferType(0.0000001)).toBe("number");
       expect(inferType("0.0000001")).toBe("number");
     });
+
+    it("should infer number from formatted strings", () => {
+      expect(inferType("1,234.5")).toBe("number");
+      expect(inferType("$1,200")).toBe("number");
+      expect(inferType("12%")).toBe("number");
+      expect(inferType("(300)")).toBe("number");
+      expect(inferType("1.234,56", "de-DE")).toBe("number");
+      expect(inferType("1.234,56")).toBe("string");
+    });
   });
 
   describe("string type inference", () => {
@@ -184,16 +209,58 @@ describe("inferType", () => {
       expect(inferType("-42")).toBe("number");
     });
 
-    it("should handle objects", () => {
-      expect(inferType({})).toBe("string");
-      expect(inferType({ key: "value" })).toBe("string");
+    it("should handle objects as structs", () => {
+      expect(inferType({})).toBe("struct");
+      expect(inferType({ key: "value" })).toBe("struct");
     });
 
-    it("should handle arrays", () => {
-      expect(inferType([])).toBe("string");
-      expect(inferType([1, 2, 3])).toBe("string");
+    it("should handle arrays as lists", () => {
+      expect(inferType([])).toBe("list");
+      expect(inferType([1, 2, 3])).toBe("list");
     });
+
+    it("should detect times of day and ISO durations", () => {
+      expect(inferType("14:30")).toBe("time");
+      expect(inferType("2:30:15 PM")).toBe("time");
+      expect(inferType("PT1H30M")).toBe("duration");
+      expect(inferType("P2DT3H")).toBe("duration");
+      expect(inferType("25:99")).toBe("string");
+    });
+  });
+});
+
+describe("parseLocaleNumber", () => {
+  it.each([
+    ["1,234.56", "en-US", 1234.56],
+    ["1.234,56", "de-DE", 1234.56],
+    ["1\u202f234,5", "fr-FR", 1234.5],
+    ["1 234,5", "fr-FR", 1234.5],
+    ["1’234.5", "de-CH", 1234.5],
+    ["12,34,567", "en-IN", 1234567],
+    ["3.5", "de-DE", 3.5],
+    ["-42", "en-US", -42],
+    ["1e5", "en-US", 100000],
+  ])("should parse %s in %s", (value, locale, expected) => {
+    expect(parseLocaleNumber(value, locale)).toEqual({ value: expected });
   });
+
+  it.each([
+    ["$1,200", { value: 1200, format: "currency", currency: "USD" }],
+    ["-$5", { value: -5, format: "currency", currency: "USD" }],
+    ["(€300)", { value: -300, format: "currency", currency: "EUR" }],
+    ["100 CHF", { value: 100, format: "currency", currency: "CHF" }],
+    ["12%", { value: 0.12, format: "percentage" }],
+    ["(300)", { value: -300 }],
+  ])("should parse the unit of %s", (value, expected) => {
+    expect(parseLocaleNumber(value)).toEqual(expected);
+  });
+
+  it.each(["", "abc", "1,2", "1,234,56", "ABC1", "(555) 123-4567", "%"])(
+    "should not parse %j",
+    (value) => {
+      expect(parseLocaleNumber(value)).toBeUndefined();
+    }
+  );
 });
 
 describe("inferFieldType", () => {
@@ -207,11 +274,11 @@ describe("inferFieldType", () => {
       expect(result.nullable).toBe(false);
     });
 
-    it("should infer number type from numeric samples", () => {
+    it("should infer integer type from whole-number samples", () => {
       const samples = [10, 20, 30, 40, 50];
       const result = inferFieldType("age", samples);
 
-      expect(result.type).toBe("number");
+      expect(result.type).toBe("integer");
       expect(result.confidence).toBe(1.0);
       expect(result.nullable).toBe(false);
     });
@@ -338,7 +405,8 @@ describe("inferFieldType", () => {
         const samples = [1704067200000, 1704153600000, 1704240000000];
         const result = inferFieldType("created_at", samples);
 
-        expect(result.type).toBe("date");
+        expect(result.type).toBe("timestamp");
+        expect(result.timezone).toBe("UTC");
         expect(
           result.metadata?.warnings?.some((w) => w.includes("Unix timestamps"))
         ).toBe(true);
@@ -348,21 +416,56 @@ describe("inferFieldType", () => {
         const samples = [1704067200000, 1704153600000, 1704240000000];
         const result = inferFieldType("updated_at", samples);
 
-        expect(result.type).toBe("date");
+        expect(result.type).toBe("timestamp");
       });
 
       it("should detect dates in fields ending with _on", () => {
         const samples = [1704067200000, 1704153600000, 1704240000000];
         const result = inferFieldType("published_on", samples);
 
-        expect(result.type).toBe("date");
+        expect(result.type).toBe("timestamp");
+      });
+
+      it("should record whether timestamps are seconds or milliseconds", () => {
+        const seconds = inferFieldType("created_at", [1709632800, 1709719200]);
+        const millis = inferFieldType("created_at", [
+          "1709632800000",
+          "1709719200000",
+        ]);
+
+        expect(seconds.metadata?.dateFormat).toBe("X");
+        expect(millis.type).toBe("timestamp");
+        expect(millis.metadata?.dateFormat).toBe("x");
+      });
+
+      it("should record the format and timezone of date strings", () => {
+        const result = inferFieldType("shipped", [
+          "2024-03-05T10:00:00+02:00",
+          "2024-03-06T11:30:00+02:00",
+        ]);
+
+        expect(result.type).toBe("timestamp");
+        expect(result.timezone).toBe("+02:00");
+        expect(result.metadata).toMatchObject({
+          dateFormat: "YYYY-MM-DDTHH:mm:ssZ",
+          timezone: "+02:00",
+        });
+      });
+
+      it("should warn when day and month order is ambiguous", () => {
+        const result = inferFieldType("shipped", ["05/03/2024", "06/04/2024"]);
+
+        expect(result.metadata?.dateFormat).toBe("MM/DD/YYYY");
+        expect(result.metadata?.warnings).toContain(
+          'Day and month order in "shipped" is ambiguous. Assuming MM/DD/YYYY.'
+        );
       });
 
       it("should not convert small numbers to dates", () => {
         const samples = [1, 2, 3, 4, 5];
         const result = inferFieldType("created_at", samples);
 
-        expect(result.type).toBe("number");
+        expect(result.type).toBe("integer");
       });
     });
 
@@ -442,7 +545,7 @@ describe("inferFieldType", () => {
       const samples = [1, 2, 3, "text", 5, 6, 7, 8, 9];
       const result = inferFieldType("value", samples);
 
-      expect(result.type).toBe("number");
+      expect(result.type).toBe("integer");
       expect(result.confidence).toBeLessThan(1.0);
     });
 
@@ -623,14 +726,54 @@ describe("inferFieldType", () => {
       const samples = ["10", "20", "30", "40"];
       const result = inferFieldType("percentage", samples);
 
-      expect(result.type).toBe("number");
+      expect(result.type).toBe("integer");
     });
 
     it("should handle boolean-like numbers", () => {
       const samples = [1, 0, 1, 0, 1];
       const result = inferFieldType("is_active", samples);
 
-      expect(result.type).toBe("number");
+      expect(result.type).toBe("integer");
+    });
+
+    it("should report the unit of formatted numbers", () => {
+      const prices = inferFieldType("price", ["€10", "€12,50", "7"], 100, "de");
+      const margins = inferFieldType("margin", ["12%", "7.5%"]);
+
+      expect(prices.type).toBe("decimal");
+      expect(prices.metadata).toMatchObject({
+        format: "currency",
+        currency: "EUR",
+      });
+      expect(margins.type).toBe("number");
+      expect(margins.metadata?.format).toBe("percentage");
+      expect(inferFieldType("age", ["30", "25"]).metadata?.format).toBe(
+        undefined
+      );
+    });
+
+    it("should size decimals to hold every amount", () => {
+      const prices = inferFieldType("price", ["$1,200.5", "$3.125", "$80"]);
+      const totals = inferFieldType("total", ["$12345678901234567.89"]);
+
+      expect(prices).toMatchObject({
+        type: "decimal",
+        precision: 18,
+        scale: 3,
+      });
+      expect(totals).toMatchObject({ precision: 38, scale: 2 });
+    });
+
+    it("should keep fractional numbers as numbers", () => {
+      expect(inferFieldType("ratio", [0.5, 1, 1.25]).type).toBe("number");
+      expect(inferFieldType("ratio", ["2", "2.5"]).type).toBe("number");
+    });
+
+    it("should keep dates without an offset as dates", () => {
+      const result = inferFieldType("shipped", ["2024-03-05T10:00:00"]);
+
+      expect(result.type).toBe("date");
+      expect(result.timezone).toBeUndefined();
     });
 
     it("should preserve samples in result", () => {
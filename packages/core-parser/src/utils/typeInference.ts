@@ -1,46 +1,191 @@
+import type { DataField } from "@open-dashboard/shared/types";
+import { parseISODuration, parseTimeOfDay } from "@open-dashboard/core-schema";
 import type { TypeInferenceResult } from "../types/parser";
+import {
+  detectDateFormat,
+  detectEpochFormat,
+  hasOffsetToken,
+  matchDateFormat,
+} from "./dateInference";
+import { detectSemanticType } from "./semanticInference";
+
+/** Locale used to read formatted numbers when none is given */
+export const DEFAULT_NUMBER_LOCALE = "en-US";
+
+/** ISO codes of currency symbols recognised in formatted numbers */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: "USD",
+  US$: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+  "₩": "KRW",
+  "₽": "RUB",
+  R$: "BRL",
+};
+
+// Currency codes need a space, so codes such as "ABC1" stay strings
+const CURRENCY_PREFIX = /^(?:(US\$|R\$|[$€£¥₹₩₽])\s*|([A-Z]{3})\s+)/;
+const CURRENCY_SUFFIX = /(?:\s*([$€£¥₹₩₽])|\s+([A-Z]{3}))$/;
+
+export interface ParsedNumber {
+  value: number;
+  /** Unit the value was written in; percentages are returned as fractions */
+  format?: "currency" | "percentage";
+  /** ISO 4217 code of the currency */
+  currency?: string;
+}
+
+interface NumberSeparators {
+  pattern: RegExp;
+  group: string;
+  decimal: string;
+}
+
+const separatorCache = new Map<string, NumberSeparators>();
+
+function getNumberSeparators(locale: string): NumberSeparators {
+  const cached = separatorCache.get(locale);
+  if (cached) return cached;
+
+  const formatter = new Intl.NumberFormat(locale);
+  const parts = formatter.formatToParts(1234567.5);
+  const group = parts.find((part) => part.type === "group")?.value ?? ",";
+  const decimal = parts.find((part) => part.type === "decimal")?.value ?? ".";
+  // Spaces and apostrophes are written in several ways
+  const groupPattern = /\s/.test(group)
+    ? "\\s"
+    : /['’]/.test(group)
+      ? "['’]"
+      : escapeRegExp(group);
+  const decimalPattern = escapeRegExp(decimal);
+  // Indian grouping puts two digits in all but the last group (12,34,567)
+  const groups = /\d\D\d{2}\D\d{3}/.test(formatter.format(1234567))
+    ? `(?:${groupPattern}\\d{2})*${groupPattern}\\d{3}`
+    : `(?:${groupPattern}\\d{3})+`;
+
+  const separators = {
+    pattern: new RegExp(
+      `^(?:\\d{1,3}${groups}|\\d+)?(?:${decimalPattern}\\d+)?$`
+    ),
+    group: groupPattern,
+    decimal,
+  };
+  separatorCache.set(locale, separators);
+  return separators;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
 
 /**
- * Checks if a string represents a valid date
+ * Parses a number written for people: with the locale's group and decimal
+ * separators, a currency symbol or code, a percent sign or an accounting
+ * negative in parentheses. Falls back to `Number()` for other notations.
+ *
+ * @example
+ * ```typescript
+ * parseLocaleNumber("1.234,56", "de-DE"); // { value: 1234.56 }
+ * parseLocaleNumber("(€300)"); // { value: -300, format: "currency", currency: "EUR" }
+ * parseLocaleNumber("12%"); // { value: 0.12, format: "percentage" }
+ * ```
  */
-export function isValidDate(value: string): boolean {
-  if (!value || typeof value !== "string") return false;
+export function parseLocaleNumber(
+  value: string,
+  locale = DEFAULT_NUMBER_LOCALE
+): ParsedNumber | undefined {
+  const trimmed = value.trim();
+  if (trimmed === "") return undefined;
+
+  const formatted = parseFormattedNumber(trimmed, locale);
+  if (formatted) return formatted;
+
+  const num = Number(trimmed);
+  return isFinite(num) ? { value: num } : undefined;
+}
 
-  // Check format first
-  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (!match) {
-    // Try MM/DD/YYYY format
-    const usMatch = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
-    if (!usMatch) return false;
+function parseFormattedNumber(
+  text: string,
+  locale: string
+): ParsedNumber | undefined {
+  let body = text;
+  let negative = false;
+  let format: ParsedNumber["format"];
+  let currency: string | undefined;
+
+  const accounting = body.match(/^\((.*)\)$/);
+  if (accounting) {
+    negative = true;
+    body = accounting[1].trim();
   }
 
-  // Validate with Date constructor
-  const date = new Date(value);
-  if (isNaN(date.getTime())) return false;
-
-  // For ISO format, verify components match (catches invalid dates)
-  if (match) {
-    const [, year, month, day] = match;
-    const parsed = new Date(value);
-    // Compare year, month (0-indexed), day
-    if (
-      parsed.getUTCFullYear() !== parseInt(year) ||
-      parsed.getUTCMonth() !== parseInt(month) - 1 ||
-      parsed.getUTCDate() !== parseInt(day)
-    ) {
-      return false;
+  // The sign may come before or after a currency symbol (-$5, $-5)
+  const readSign = () => {
+    const sign = body.match(/^[-−]\s*/);
+    if (sign) {
+      if (negative) return false;
+      negative = true;
+      body = body.slice(sign[0].length);
+    }
+    return true;
+  };
+  if (!readSign()) return undefined;
+
+  if (body.endsWith("%")) {
+    format = "percentage";
+    body = body.slice(0, -1).trimEnd();
+  } else {
+    const unit = body.match(CURRENCY_PREFIX) ?? body.match(CURRENCY_SUFFIX);
+    if (unit) {
+      format = "currency";
+      currency = unit[1] ? CURRENCY_SYMBOLS[unit[1]] : unit[2];
+      body =
+        unit.index === 0
+          ? body.slice(unit[0].length)
+          : body.slice(0, unit.index);
+      if (unit.index === 0 && !readSign()) return undefined;
     }
   }
 
-  return true;
+  const { pattern, group, decimal } = getNumberSeparators(locale);
+  if (!/\d/.test(body) || !pattern.test(body)) return undefined;
+
+  const normalized = body
+    .replace(new RegExp(group, "g"), "")
+    .replace(decimal, ".");
+  let parsed = Number(normalized);
+  if (!isFinite(parsed)) return undefined;
+  if (format === "percentage") parsed /= 100;
+  if (negative) parsed = -parsed;
+
+  return {
+    value: parsed,
+    ...(format && { format }),
+    ...(currency && { currency }),
+  };
+}
+
+/**
+ * Checks if a string is a date in one of the formats known to date
+ * inference, such as "2024-01-15", "15/01/2024 10:30" or "Jan 15, 2024"
+ */
+export function isValidDate(value: string): boolean {
+  if (!value || typeof value !== "string") return false;
+  return matchDateFormat(value) !== undefined;
 }
 
 /**
- * Infers the data type of a single value
+ * Infers the data type of a single value. Strings are read as numbers in the
+ * given locale (default en-US), including currencies and percentages, and as
+ * times of day ("14:30") or ISO 8601 durations ("PT1H30M"). Arrays are lists
+ * and plain objects are structs.
+ *
+ * Numbers are reported as "number"; whether a column holds integers or
+ * decimals is decided by `inferFieldType` across all of its samples.
  */
-export function inferType(
-  value: unknown
-): "string" | "number" | "date" | "boolean" | "categorical" {
+export function inferType(value: unknown, locale?: string): DataField["type"] {
   // Null/undefined/empty string should be treated as string
   if (value === null || value === undefined) return "string";
 
@@ -53,14 +198,13 @@ export function inferType(
     if (isValidDate(value)) return "date";
 
     // Check for numbers (but not whitespace-only)
-    const trimmed = value.trim();
-    if (trimmed !== "") {
-      const num = Number(trimmed);
-      if (!isNaN(num) && isFinite(num)) {
-        return "number";
-      }
+    if (parseLocaleNumber(value, locale)) {
+      return "number";
     }
 
+    if (parseTimeOfDay(value) !== undefined) return "time";
+    if (parseISODuration(value) !== undefined) return "duration";
+
     // Whitespace or any other string
     return "string";
   }
@@ -75,11 +219,16 @@ export function inferType(
     return "date";
   }
 
+  if (Array.isArray(value)) return "list";
+  if (typeof value === "object") return "struct";
+
   // Check for string-based dates
   if (typeof value === "string" && isValidDate(value)) {
     return "date";
   }
 
+  if (typeof value === "bigint") return "number";
+
   // Check for numbers (including scientific notation)
   if (typeof value === "string" || typeof value === "number") {
     const num = Number(value);
@@ -141,12 +290,15 @@ function analyzeFieldName(fieldName: string): {
 }
 
 /**
- * Performs comprehensive type inference on a field across multiple samples
+ * Performs comprehensive type inference on a field across multiple samples.
+ * Fields whose values mean something more specific, such as emails or
+ * latitudes, also report it as `semantic`; see `detectSemanticType`.
  */
 export function inferFieldType(
   fieldName: string,
   samples: unknown[],
-  sampleSize = 100
+  sampleSize = 100,
+  locale?: string
 ): TypeInferenceResult {
   const limitedSamples = samples.slice(0, sampleSize);
   const typeCount = new Map<string, number>();
@@ -157,7 +309,7 @@ export function inferFieldType(
 
   // Count occurrences of each type
   limitedSamples.forEach((value) => {
-    const type = inferType(value);
+    const type = inferType(value, locale);
     typeCount.set(type, (typeCount.get(type) || 0) + 1);
   });
 
@@ -211,18 +363,22 @@ export function inferFieldType(
     );
   }
 
+  let epochFormat: string | undefined;
   if (
     fieldHints.isLikelyDate &&
     mostCommonType === "number" &&
     confidence > 0.8
   ) {
     const firstValue = limitedSamples.find(
-      (v) => v !== null && v !== undefined
+      (v) => v !== null && v !== undefined && v !== ""
     );
-    if (typeof firstValue === "number" && firstValue > 1000000000) {
+    const timestamp =
+      typeof firstValue === "string" ? Number(firstValue) : firstValue;
+    if (typeof timestamp === "number" && timestamp > 1000000000) {
       finalType = "date";
+      epochFormat = detectEpochFormat(timestamp);
       warnings.push(
-        `Field "${fieldName}" contains Unix timestamps. Treating as date.`
+        `Field "${fieldName}" contains Unix timestamps. Treating as timestamp.`
       );
     }
   }
@@ -269,16 +425,156 @@ export function inferFieldType(
     );
   }
 
+  const unit =
+    finalType === "number" ? detectNumberUnit(limitedSamples, locale) : {};
+
+  // Amounts of money are exact decimals; columns of whole numbers are integers
+  let decimal: Pick<TypeInferenceResult, "precision" | "scale"> = {};
+  if (finalType === "number" && unit.format === "currency") {
+    finalType = "decimal";
+    decimal = detectDecimalShape(limitedSamples, locale);
+  } else if (
+    finalType === "number" &&
+    !unit.format &&
+    isWholeNumberColumn(limitedSamples, locale)
+  ) {
+    finalType = "integer";
+  }
+
+  const dateFormat =
+    finalType === "date" && !epochFormat
+      ? detectDateFormat(limitedSamples)
+      : undefined;
+  if (dateFormat?.ambiguous) {
+    warnings.push(
+      `Day and month order in "${fieldName}" is ambiguous. Assuming ${dateFormat.format}.`
+    );
+  }
+  // Epoch numbers and dates written with an offset are instants in time
+  let timezone: string | undefined;
+  if (
+    finalType === "date" &&
+    (epochFormat || (dateFormat && hasOffsetToken(dateFormat.format)))
+  ) {
+    finalType = "timestamp";
+    timezone = dateFormat?.timezone ?? "UTC";
+  }
+
+  const dateMetadata = epochFormat
+    ? { dateFormat: epochFormat }
+    : dateFormat && {
+        dateFormat: dateFormat.format,
+        ...(dateFormat.timezone && { timezone: dateFormat.timezone }),
+      };
+
+  const semantic = detectSemanticType(
+    fieldName,
+    limitedSamples,
+    finalType,
+    (value) => parseLocaleNumber(value, locale)
+  );
+
   return {
     type: finalType,
     confidence,
     samples: limitedSamples,
     nullable,
+    ...decimal,
+    ...(timezone && { timezone }),
+    ...(semantic && { semantic }),
     metadata: {
       fieldName,
       sampleCount: limitedSamples.length,
       uniqueValueCount: uniqueValues,
+      ...unit,
+      ...dateMetadata,
       warnings: warnings.length > 0 ? warnings : undefined,
     },
   };
 }
+
+/**
+ * Finds the unit most formatted numbers in a field are written in, such as
+ * a currency or a percent sign
+ */
+function detectNumberUnit(
+  samples: unknown[],
+  locale?: string
+): Pick<ParsedNumber, "format" | "currency"> {
+  const units = new Map<string, Pick<ParsedNumber, "format" | "currency">>();
+  const counts = new Map<string, number>();
+
+  for (const sample of samples) {
+    if (typeof sample !== "string") continue;
+    const parsed = parseLocaleNumber(sample, locale);
+    if (!parsed?.format) continue;
+    const key = `${parsed.format}:${parsed.currency ?? ""}`;
+    units.set(key, {
+      format: parsed.format,
+      ...(parsed.currency && { currency: parsed.currency }),
+    });
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  let best: string | undefined;
+  for (const [key, count] of counts) {
+    if (count > (counts.get(best ?? "") ?? 0)) best = key;
+  }
+  return best ? (units.get(best) ?? {}) : {};
+}
+
+/**
+ * Checks whether every numeric sample of a field is a whole number
+ */
+function isWholeNumberColumn(samples: unknown[], locale?: string): boolean {
+  let count = 0;
+  for (const sample of samples) {
+    const value =
+      typeof sample === "string"
+        ? parseLocaleNumber(sample, locale)?.value
+        : typeof sample === "number"
+          ? sample
+          : undefined;
+    if (value === undefined) continue;
+    if (!Number.isInteger(value)) return false;
+    count++;
+  }
+  return count > 0;
+}
+
+/**
+ * Finds a precision and scale that hold every amount of a decimal field.
+ * The scale is the most decimal places written, and at least 2; the
+ * precision is 18, or 38 when the amounts need more digits.
+ */
+function detectDecimalShape(
+  samples: unknown[],
+  locale?: string
+): { precision: number; scale: number } {
+  const { decimal } = getNumberSeparators(locale ?? DEFAULT_NUMBER_LOCALE);
+  let scale = 2;
+  let wholeDigits = 1;
+
+  for (const sample of samples) {
+    const value =
+      typeof sample === "string"
+        ? parseLocaleNumber(sample, locale)?.value
+        : typeof sample === "number"
+          ? sample
+          : undefined;
+    if (value === undefined || !isFinite(value)) continue;
+
+    const text = typeof sample === "string" ? sample : String(sample);
+    const separator = typeof sample === "string" ? decimal : ".";
+    const places = text.includes(separator)
+      ? text.slice(text.lastIndexOf(separator) + 1).replace(/\D/g, "").length
+      : 0;
+    scale = Math.max(scale, Math.min(places, 18));
+    wholeDigits = Math.max(
+      wholeDigits,
+      String(Math.trunc(Math.abs(value))).length
+    );
+  }
+
+  return { precision: wholeDigits + scale <= 18 ? 18 : 38, scale };
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from "vitest";
+import { datasetId } from "@open-dashboard/core-schema";
+import { DataParsingError } from "../adapters/csvAdapter";
+import { ParserWorkerPool } from "./ParserWorkerPool";
+import { createParseHandler } from "./serve";
+import type { ParseRequestMessage, ParseResponseMessage } from "./protocol";
+
+/**
+ * Stands in for a Web Worker by answering requests with the worker's own
+ * handler on this thread
+ */
+class FakeWorker {
+  static created = 0;
+  onmessage: ((event: MessageEvent<ParseResponseMessage>) => void) | null =
+    null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: ParseRequestMessage[] = [];
+  terminated = false;
+  private handle = createParseHandler((message) => {
+    if (!this.terminated) {
+      this.onmessage?.({ data: message } as MessageEvent<ParseResponseMessage>);
+    }
+  });
+
+  constructor(private readonly hold = false) {
+    FakeWorker.created++;
+  }
+
+  postMessage(request: ParseRequestMessage) {
+    this.requests.push(structuredClone(request));
+    if (!this.hold) void this.handle(this.requests[this.requests.length - 1]);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  fail(message: string) {
+    this.onerror?.({ message, preventDefault() {} } as ErrorEvent);
+  }
+}
+
+const csv = "id,name,amount\n1,Alice,10.5\n2,Bob,20\n3,Carol,7.25";
+
+function createPool(poolSize = 2, hold = false) {
+  const workers: FakeWorker[] = [];
+  const pool = new ParserWorkerPool({
+    poolSize,
+    createWorker: () => {
+      const worker = new FakeWorker(hold);
+      workers.push(worker);
+      return worker as unknown as Worker;
+    },
+  });
+  return { pool, workers };
+}
+
+describe("ParserWorkerPool", () => {
+  it("should parse in a worker and decode the rows", async () => {
+    const { pool } = createPool();
+
+    const dataset = await pool.parse(csv, "csv", { recipe: [] });
+
+    expect(dataset.sourceType).toBe("csv");
+    expect(dataset.schema.fields.map((field) => field.name)).toEqual([
+      "id",
+      "name",
+      "amount",
+    ]);
+    expect(dataset.data[1]).toMatchObject({ name: "Bob", amount: 20 });
+  });
+
+  it("should keep field names that Arrow stores sanitized", async () => {
+    const { pool } = createPool();
+
+    const dataset = await pool.parse(
+      "unit price,order date\n10.5,2024-01-05\n20,2024-01-06"
+    );
+
+    expect(dataset.schema.fields.map((field) => field.name)).toEqual([
+      "unit price",
+      "order date",
+    ]);
+    expect(dataset.data[0]).toEqual({
+      "unit price": 10.5,
+      "order date": new Date(Date.UTC(2024, 0, 5)),
+    });
+    expect(dataset.id).toBe(datasetId(dataset.data, dataset.schema));
+  });
+
+  it("should return the rows as an Arrow IPC buffer", async () => {
+    const { pool } = createPool();
+
+    const result = await pool.parseToIPC(csv);
+
+    expect(result.buffer).toBeInstanceOf(ArrayBuffer);
+    expect(result.buffer.byteLength).toBeGreaterThan(0);
+    expect(result.dataset).not.toHaveProperty("data");
+    expect(result.dataset.metadata?.detection).toMatchObject({
+      adapter: "csv",
+    });
+  });
+
+  it("should report progress without sending callbacks to the worker", async () => {
+    const { pool, workers } = createPool();
+    const onProgress = vi.fn();
+
+    await pool.parse(csv, "csv", { onProgress });
+
+    expect(onProgress).toHaveBeenCalled();
+    expect(onProgress.mock.calls.at(-1)?.[0]).not.toHaveProperty("currentRow");
+    expect(workers[0].requests[0].options).not.toHaveProperty("onProgress");
+  });
+
+  it("should start at most poolSize workers and queue the rest", async () => {
+    const { pool, workers } = createPool(2);
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((i) => pool.parse(`id\n${i}`, "csv"))
+    );
+
+    expect(workers).toHaveLength(2);
+    expect(results.map((result) => result.data[0].id)).toEqual([
+      "1",
+      "2",
+      "3",
+      "4",
+      "5",
+    ]);
+    expect(pool.pending).toBe(0);
+  });
+
+  it("should reject with the worker's parsing error", async () => {
+    const { pool } = createPool();
+
+    await expect(pool.parse("{not json", "json")).rejects.toBeInstanceOf(
+      DataParsingError
+    );
+    await expect(pool.parse(csv, "missing")).rejects.toThrow(
+      "No suitable adapter found for the input"
+    );
+  });
+
+  it("should stop the worker of an aborted input and continue with a new one", async () => {
+    const { pool, workers } = createPool(1, true);
+    const controller = new AbortController();
+
+    const aborted = pool.parse(csv, "csv", { signal: controller.signal });
+    const queued = pool.parse(csv, "csv");
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow("Parsing was aborted");
+    expect(workers[0].terminated).toBe(true);
+    expect(workers).toHaveLength(2);
+    expect(workers[1].requests).toHaveLength(1);
+    pool.terminate();
+    await expect(queued).rejects.toThrow("terminated");
+  });
+
+  it("should reject inputs aborted before they start", async () => {
+    const { pool, workers } = createPool();
+
+    await expect(
+      pool.parse(csv, "csv", { signal: AbortSignal.abort() })
+    ).rejects.toThrow("Parsing was aborted");
+    expect(workers).toHaveLength(0);
+  });
+
+  it("should replace a worker that crashes", async () => {
+    const { pool, workers } = createPool(1, true);
+
+    const first = pool.parse(csv, "csv");
+    workers[0].fail("out of memory");
+
+    await expect(first).rejects.toThrow("Parser worker failed: out of memory");
+    expect(pool.pending).toBe(0);
+    pool.terminate();
+    await expect(pool.parse(csv)).rejects.toThrow("terminated");
+  });
+
+  it("should reject invalid pool sizes", () => {
+    expect(() => new ParserWorkerPool({ poolSize: 0 })).toThrow(
+      /positive integer/
+    );
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Off-main-thread parsing
+ *
+ * Parses inputs with the registered adapters inside Web Workers, so large
+ * uploads don't block rendering. Rows come back as Arrow IPC buffers that
+ * are transferred to the main thread instead of structured-cloning every
+ * row object.
+ */
+
+import type { DataField, ParsedDataset } from "@open-dashboard/shared/types";
+import {
+  datasetId,
+  ipcToDataset,
+  sanitizeFieldName,
+} from "@open-dashboard/core-schema";
+import { DataParsingError } from "../adapters/csvAdapter";
+import type { ParserOptions } from "../types/parser";
+import type {
+  ParseRequestMessage,
+  ParseResponseMessage,
+  WorkerParseInput,
+} from "./protocol";
+
+export interface ParserWorkerPoolOptions {
+  /**
+   * Number of workers, and so of inputs parsed at once (default: the number
+   * of processors, at most 4)
+   */
+  poolSize?: number;
+  /**
+   * Creates a worker that answers parse requests. Defaults to the bundled
+   * `parseWorker` script; pass your own to parse with custom adapters (see
+   * `serveParseRequests`).
+   */
+  createWorker?: () => Worker;
+}
+
+export interface WorkerParseResult {
+  /** Arrow IPC stream of the parsed rows */
+  buffer: ArrayBuffer;
+  /** The parsed dataset without its rows */
+  dataset: Omit<ParsedDataset, "data">;
+  /** Warnings from converting the rows to Arrow */
+  warnings: string[];
+}
+
+interface ParseJob {
+  request: ParseRequestMessage;
+  options: ParserOptions;
+  resolve: (result: WorkerParseResult) => void;
+  reject: (error: Error) => void;
+  /** Stops listening to the job's abort signal */
+  release: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job?: ParseJob;
+}
+
+const MAX_DEFAULT_POOL_SIZE = 4;
+
+/**
+ * Pool of Web Workers that parse inputs off the main thread
+ *
+ * Inputs are queued and handed to the next idle worker; workers are started
+ * when first needed. `onProgress` is called with the progress the worker
+ * reports, and aborting `signal` stops the worker parsing that input.
+ *
+ * @example
+ * ```typescript
+ * const pool = new ParserWorkerPool({ poolSize: 2 });
+ *
+ * // Rows as objects
+ * const dataset = await pool.parse(file, undefined, {
+ *   onProgress: ({ percentage }) => setProgress(percentage),
+ * });
+ *
+ * // Or keep them as Arrow IPC, e.g. to store or query them
+ * const { buffer, dataset: header } = await pool.parseToIPC(file);
+ *
+ * pool.terminate();
+ * ```
+ */
+export class ParserWorkerPool {
+  private readonly poolSize: number;
+  private readonly createWorker: () => Worker;
+  private workers: PoolWorker[] = [];
+  private queue: ParseJob[] = [];
+  private nextId = 1;
+  private terminated = false;
+
+  constructor(options: ParserWorkerPoolOptions = {}) {
+    const poolSize =
+      options.poolSize ??
+      Math.min(
+        MAX_DEFAULT_POOL_SIZE,
+        globalThis.navigator?.hardwareConcurrency || 1
+      );
+    if (!Number.isInteger(poolSize) || poolSize < 1) {
+      throw new Error(
+        `Worker pool size must be a positive integer, got ${poolSize}`
+      );
+    }
+    this.poolSize = poolSize;
+    this.createWorker =
+      options.createWorker ??
+      (() =>
+        new Worker(new URL("./parseWorker.js", import.meta.url), {
+          type: "module",
+        }));
+  }
+
+  /**
+   * Parses an input in a worker and decodes the rows on this thread
+   *
+   * Values come back as Arrow stores them; dates, for instance, become
+   * `Date` objects, and the dataset id is computed from the decoded rows.
+   * Fields keep their parsed names, which Arrow stores sanitized.
+   *
+   * @throws {DataParsingError} If parsing fails or is aborted
+   */
+  async parse(
+    input: string | File | URL,
+    adapterName?: string,
+    options?: ParserOptions
+  ): Promise<ParsedDataset> {
+    const { buffer, dataset } = await this.parseToIPC(
+      input,
+      adapterName,
+      options
+    );
+    const decoded = await ipcToDataset(buffer);
+
+    // Arrow keeps the first of the fields whose sanitized names collide
+    const fieldsByColumn = new Map<string, DataField>();
+    for (const field of dataset.schema.fields) {
+      const column = sanitizeFieldName(field.name);
+      if (!fieldsByColumn.has(column)) fieldsByColumn.set(column, field);
+    }
+    const schema = {
+      ...dataset.schema,
+      fields: decoded.schema.fields.map(
+        (column) => fieldsByColumn.get(column.name) ?? column
+      ),
+    };
+    const data = decoded.data.map((row) =>
+      Object.fromEntries(
+        schema.fields.map((field, index) => [
+          field.name,
+          row[decoded.schema.fields[index].name],
+        ])
+      )
+    );
+    return { ...dataset, id: datasetId(data, schema), schema, data };
+  }
+
+  /**
+   * Parses an input in a worker, leaving the rows as an Arrow IPC buffer
+   *
+   * Options are copied to the worker, so apart from `onProgress` and
+   * `signal` they must be plain data.
+   *
+   * @throws {DataParsingError} If parsing fails or is aborted
+   */
+  parseToIPC(
+    input: string | File | URL,
+    adapterName?: string,
+    options: ParserOptions = {}
+  ): Promise<WorkerParseResult> {
+    if (this.terminated) {
+      return Promise.reject(
+        new Error("Parser worker pool has been terminated")
+      );
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(abortError(toWorkerInput(input)));
+    }
+
+    return new Promise((resolve, reject) => {
+      const { signal } = options;
+      const workerOptions: ParserOptions = { ...options };
+      delete workerOptions.onProgress;
+      delete workerOptions.signal;
+      const onAbort = () => this.cancel(job);
+      const job: ParseJob = {
+        request: {
+          type: "parse",
+          id: this.nextId++,
+          input: toWorkerInput(input),
+          adapterName,
+          options: workerOptions,
+        },
+        options,
+        resolve,
+        reject,
+        release: () => signal?.removeEventListener("abort", onAbort),
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Number of inputs being parsed or waiting for a worker
+   */
+  get pending(): number {
+    return this.queue.length + this.workers.filter((entry) => entry.job).length;
+  }
+
+  /**
+   * Stops every worker. Inputs being parsed or queued are rejected, and the
+   * pool cannot be used afterwards.
+   */
+  terminate(): void {
+    this.terminated = true;
+    const error = new Error("Parser worker pool has been terminated");
+    for (const entry of this.workers) {
+      entry.worker.terminate();
+      if (entry.job) this.settle(entry.job, error);
+    }
+    for (const job of this.queue) this.settle(job, error);
+    this.workers = [];
+    this.queue = [];
+  }
+
+  /**
+   * Hands queued inputs to idle workers, starting workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let entry = this.workers.find((candidate) => !candidate.job);
+      if (!entry) {
+        if (this.workers.length >= this.poolSize) return;
+        entry = this.spawn();
+      }
+      const job = this.queue.shift() as ParseJob;
+      entry.job = job;
+      entry.worker.postMessage(job.request);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const entry: PoolWorker = { worker: this.createWorker() };
+    entry.worker.onmessage = (event: MessageEvent<ParseResponseMessage>) =>
+      this.handleMessage(entry, event.data);
+    entry.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      this.discard(
+        entry,
+        new DataParsingError(
+          `Parser worker failed: ${event.message || "unknown error"}`
+        )
+      );
+    };
+    this.workers.push(entry);
+    return entry;
+  }
+
+  private handleMessage(entry: PoolWorker, message: ParseResponseMessage) {
+    const job = entry.job;
+    if (!job || message.id !== job.request.id) return;
+
+    switch (message.type) {
+      case "progress":
+        job.options.onProgress?.(message.progress);
+        return;
+      case "result":
+        entry.job = undefined;
+        this.settle(job, {
+          buffer: message.buffer,
+          dataset: message.dataset,
+          warnings: message.warnings,
+        });
+        break;
+      case "error": {
+        entry.job = undefined;
+        const error =
+          message.name === "DataParsingError"
+            ? new DataParsingError(
+                message.message,
+                message.filename,
+                message.line
+              )
+            : Object.assign(new Error(message.message), {
+                name: message.name,
+              });
+        this.settle(job, error);
+        break;
+      }
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Rejects an aborted input. A worker already parsing it is stopped, since
+   * not every adapter checks the signal, and replaced when next needed.
+   */
+  private cancel(job: ParseJob): void {
+    const error = abortError(job.request.input);
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      this.settle(job, error);
+      return;
+    }
+    const entry = this.workers.find((candidate) => candidate.job === job);
+    if (entry) this.discard(entry, error);
+  }
+
+  /**
+   * Stops a worker, rejects the input it was parsing and moves on
+   */
+  private discard(entry: PoolWorker, error: Error): void {
+    entry.worker.terminate();
+    this.workers = this.workers.filter((candidate) => candidate !== entry);
+    if (entry.job) this.settle(entry.job, error);
+    this.dispatch();
+  }
+
+  private settle(job: ParseJob, outcome: WorkerParseResult | Error): void {
+    job.release();
+    if (outcome instanceof Error) {
+      job.reject(outcome);
+    } else {
+      job.resolve(outcome);
+    }
+  }
+}
+
+function toWorkerInput(input: string | File | URL): WorkerParseInput {
+  return input instanceof URL ? { url: input.href } : input;
+}
+
+function abortError(input: WorkerParseInput): DataParsingError {
+  const filename =
+    typeof input === "object" && "name" in input ? input.name : undefined;
+  return new DataParsingError("Parsing was aborted", filename);
+}
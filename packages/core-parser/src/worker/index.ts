@@ -0,0 +1,12 @@
+export { ParserWorkerPool } from "./ParserWorkerPool";
+export type {
+  ParserWorkerPoolOptions,
+  WorkerParseResult,
+} from "./ParserWorkerPool";
+export { serveParseRequests, createParseHandler } from "./serve";
+export type {
+  ParseRequestMessage,
+  ParseResponseMessage,
+  WorkerParseInput,
+  WorkerParserOptions,
+} from "./protocol";
@@ -0,0 +1,7 @@
+/**
+ * Worker script used by `ParserWorkerPool` by default
+ */
+
+import { serveParseRequests } from "./serve";
+
+serveParseRequests();
@@ -0,0 +1,43 @@
+/**
+ * Messages exchanged between `ParserWorkerPool` and the parse worker
+ */
+
+import type { ParsedDataset } from "@open-dashboard/shared/types";
+import type { ParseProgress, ParserOptions } from "../types/parser";
+
+/** Parser options that can be sent to a worker; callbacks and signals stay behind */
+export type WorkerParserOptions = Omit<ParserOptions, "onProgress" | "signal">;
+
+/** Parse input in a form that survives structured cloning */
+export type WorkerParseInput = string | File | { url: string };
+
+export interface ParseRequestMessage {
+  type: "parse";
+  id: number;
+  input: WorkerParseInput;
+  adapterName?: string;
+  options?: WorkerParserOptions;
+}
+
+export type ParseResponseMessage =
+  | {
+      type: "progress";
+      id: number;
+      progress: Omit<ParseProgress, "currentRow">;
+    }
+  | {
+      type: "result";
+      id: number;
+      /** Arrow IPC stream of the rows, transferred rather than copied */
+      buffer: ArrayBuffer;
+      dataset: Omit<ParsedDataset, "data">;
+      warnings: string[];
+    }
+  | {
+      type: "error";
+      id: number;
+      name: string;
+      message: string;
+      filename?: string;
+      line?: number;
+    };
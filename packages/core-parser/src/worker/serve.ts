@@ -0,0 +1,106 @@
+/**
+ * Worker side of off-main-thread parsing
+ */
+
+import { datasetToIPC } from "@open-dashboard/core-schema";
+import { parseData } from "../index";
+import { DataParsingError } from "../adapters/csvAdapter";
+import type {
+  ParseRequestMessage,
+  ParseResponseMessage,
+  WorkerParseInput,
+} from "./protocol";
+
+type PostResponse = (
+  message: ParseResponseMessage,
+  transfer?: Transferable[]
+) => void;
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<ParseRequestMessage>) => void) | null;
+  postMessage(message: ParseResponseMessage, transfer?: Transferable[]): void;
+}
+
+/**
+ * Answers parse requests posted to this worker. Call it from a custom worker
+ * script after registering extra adapters with `defaultRegistry`; the
+ * bundled `parseWorker` script only has the default adapters.
+ *
+ * @example
+ * ```typescript
+ * // logWorker.ts
+ * import { defaultRegistry } from "@open-dashboard/core-parser";
+ * import { serveParseRequests } from "@open-dashboard/core-parser/worker";
+ *
+ * defaultRegistry.register("log", new LogAdapter());
+ * serveParseRequests();
+ * ```
+ */
+export function serveParseRequests(
+  scope: WorkerScope = globalThis as unknown as WorkerScope
+): void {
+  const handle = createParseHandler((message, transfer) =>
+    scope.postMessage(message, transfer)
+  );
+  scope.onmessage = (event) => void handle(event.data);
+}
+
+/**
+ * Creates the function that parses one request with `parseData` and posts
+ * progress, then either the result as an Arrow IPC buffer or the error.
+ * Inputs are streamed unless the request turns `streaming` off, so progress
+ * is reported for large files.
+ */
+export function createParseHandler(
+  post: PostResponse
+): (request: ParseRequestMessage) => Promise<void> {
+  return async ({ id, input, adapterName, options }) => {
+    try {
+      const dataset = await parseData(toInput(input), adapterName, {
+        streaming: true,
+        ...options,
+        onProgress: ({ percentage, rowsParsed, bytesRead, totalBytes }) =>
+          post({
+            type: "progress",
+            id,
+            progress: { percentage, rowsParsed, bytesRead, totalBytes },
+          }),
+      });
+      const { buffer, warnings } = await datasetToIPC(dataset);
+      post(
+        {
+          type: "result",
+          id,
+          buffer,
+          dataset: {
+            id: dataset.id,
+            name: dataset.name,
+            schema: dataset.schema,
+            metadata: dataset.metadata,
+            sourceType: dataset.sourceType,
+            createdAt: dataset.createdAt,
+          },
+          warnings,
+        },
+        [buffer]
+      );
+    } catch (error) {
+      post({
+        type: "error",
+        id,
+        name: error instanceof Error ? error.name : "Error",
+        message: error instanceof Error ? error.message : String(error),
+        ...(error instanceof DataParsingError && {
+          filename: error.filename,
+          line: error.line,
+        }),
+      });
+    }
+  };
+}
+
+function toInput(input: WorkerParseInput): string | File | URL {
+  return typeof input === "object" && "url" in input
+    ? new URL(input.url)
+    : input;
+}
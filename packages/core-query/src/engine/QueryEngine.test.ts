@@ -492,6 +492,105 @@ describeOrSkip("QueryEngine", () => {
     });
   });
 
+  describe("appending", () => {
+    it("should append rows and widen column types", async () => {
+      const history: ParsedDataset = {
+        ...testDataset,
+        schema: {
+          fields: [
+            { name: "region", type: "string" },
+            { name: "product", type: "string" },
+            { name: "amount", type: "integer" },
+            { name: "date", type: "string" },
+          ],
+        },
+      };
+      const today: ParsedDataset = {
+        ...testDataset,
+        data: [{ region: "North", amount: 99.5, channel: "web" }],
+        schema: {
+          fields: [
+            { name: "region", type: "string" },
+            { name: "amount", type: "number" },
+            { name: "channel", type: "string" },
+          ],
+        },
+      };
+      await engine.registerDataset(history);
+
+      const result = await engine.appendDataset(today);
+
+      expect(result).toEqual({
+        addedFields: ["channel"],
+        removedFields: ["product", "date"],
+        changedFields: [{ name: "amount", from: "integer", to: "number" }],
+        appendedRows: 1,
+        rowCount: 6,
+      });
+      const appended = await engine.query(
+        "SELECT amount, channel, product FROM sales WHERE channel = 'web'"
+      );
+      expect(appended.data).toEqual([
+        { amount: 99.5, channel: "web", product: null },
+      ]);
+    });
+
+    it("should throw RegistrationError for unregistered tables", async () => {
+      await expect(engine.appendDataset(testDataset)).rejects.toThrow(
+        RegistrationError
+      );
+    });
+  });
+
+  describe("profiling", () => {
+    it("should profile a registered dataset in DuckDB", async () => {
+      await engine.registerDataset(testDataset);
+
+      const profiled = await engine.profileDataset(testDataset);
+      const [region, , amount] = profiled.schema.fields.map(
+        (field) => field.metadata?.profile
+      );
+
+      expect(region).toMatchObject({
+        count: 5,
+        nullCount: 0,
+        distinctCount: 4,
+        lengths: { min: 4, max: 5 },
+      });
+      expect(amount).toMatchObject({
+        distinctCount: 5,
+        numeric: { min: 100, max: 200, mean: 150 },
+      });
+    });
+
+    it("should match the in-memory profile", async () => {
+      const inMemory = await engine.profileDataset(testDataset);
+      await engine.registerDataset(testDataset);
+      const pushedDown = await engine.profileDataset(testDataset);
+
+      expect(pushedDown.schema.fields[2].metadata?.profile).toEqual(
+        inMemory.schema.fields[2].metadata?.profile
+      );
+    });
+
+    it("should profile a table from its column types", async () => {
+      await engine.registerDataset(testDataset);
+
+      const profiles = await engine.profileTable("sales", { topK: 2 });
+
+      expect(Object.keys(profiles)).toEqual([
+        "region",
+        "product",
+        "amount",
+        "date",
+      ]);
+      expect(profiles.amount.numeric?.quantiles).toContainEqual({
+        quantile: 0.5,
+        value: 150,
+      });
+    });
+  });
+
   describe("table name sanitization", () => {
     it("should convert to lowercase", async () => {
       const dataset = { ...testDataset, name: "MyTable" };
@@ -2,14 +2,34 @@
 import * as duckdb from "@duckdb/duckdb-wasm";
 import * as arrow from "apache-arrow";
 
-import { datasetToArrow } from "@open-dashboard/core-schema";
-import type { ParsedDataset } from "@open-dashboard/shared/types";
+import {
+  arrowValueToJS,
+  attachProfiles,
+  datasetToArrow,
+  extractDataFieldFromArrowField,
+  histogramBins,
+  profileDataset,
+  DATE_GRANULARITIES,
+  DEFAULT_PROFILE_OPTIONS,
+  EXACT_DISTINCT_LIMIT,
+  widenField,
+  type ProfileOptions,
+} from "@open-dashboard/core-schema";
+import type {
+  DataField,
+  DataFieldType,
+  FieldProfile,
+  HistogramBin,
+  ParsedDataset,
+  SchemaChanges,
+} from "@open-dashboard/shared/types";
 import type {
   QueryResult,
   QueryOptions,
   QueryEngineConfig,
   QueryCacheEntry,
   RegistrationOptions,
+  TableAppendResult,
 } from "../types/query";
 import { QueryExecutionError, RegistrationError } from "../types/query";
 
@@ -21,8 +41,14 @@ import {
   buildTableInfoQuery,
   buildCountQuery,
   buildSampleQuery,
+  buildProfileQuery,
+  buildHistogramQuery,
+  buildTopValuesQuery,
+  buildAlterColumnQuery,
+  buildInsertByNameQuery,
   type JoinOptions,
   type AggregateOptions,
+  type ProfileColumnKind,
 } from "../utils/queryHelpers";
 import { formatErrorMessage, validateSQL } from "../utils/errorHandling";
 
@@ -217,9 +243,24 @@ export class QueryEngine {
         type: field.type.toString(),
       }));
 
+      // BIGINT, DECIMAL, TIME and nested columns come back as Arrow values
+      // (BigInts, 128-bit words, vectors), so convert them to plain values
+      const fields = arrowResult.schema.fields.map((field) =>
+        extractDataFieldFromArrowField(field)
+      );
+      const data = table.map((row) => {
+        const record = row.toJSON() as Record<string, unknown>;
+        return Object.fromEntries(
+          fields.map((field) => [
+            field.name,
+            arrowValueToJS(record[field.name], field),
+          ])
+        );
+      });
+
       // Convert Arrow result to QueryResult
       const result: QueryResult = {
-        data: table.map((row) => row.toJSON()) as Record<string, unknown>[],
+        data,
         rowCount: table.length,
         columnCount: columns.length,
         executionTime,
@@ -314,7 +355,10 @@ export class QueryEngine {
    * Register a ParsedDataset for querying
    *
    * Converts the dataset to Apache Arrow format and registers it with DuckDB.
-   * The table can then be queried using standard SQL.
+   * The table can then be queried using standard SQL. Field types become
+   * the matching DuckDB types: integer → BIGINT, decimal → DECIMAL(p, s),
+   * timestamp → TIMESTAMP WITH TIME ZONE, time → TIME, duration → INTERVAL,
+   * list → LIST and struct → STRUCT.
    *
    * @param dataset - The parsed dataset to register
    * @param options - Registration options (table name, replace behavior)
@@ -405,6 +449,140 @@ export class QueryEngine {
     }
   }
 
+  /**
+   * Append the rows of a dataset to a registered table
+   *
+   * Columns the dataset adds are added to the table, and columns whose
+   * types differ are widened as `mergeSchemas` in
+   * `@open-dashboard/core-parser` widens them (see `widenField`): integer
+   * columns become decimal or double, dates become timestamps, and types
+   * that cannot be widened become VARCHAR. Columns the dataset lacks are
+   * NULL in its rows. The table is left unchanged if appending fails.
+   *
+   * @param dataset - Dataset whose rows to append
+   * @param options - The table to append to (default: the sanitized dataset name)
+   * @returns The columns added, missing and retyped, and the new row count
+   * @throws {RegistrationError} If the table is not registered or appending fails
+   *
+   * @example
+   * ```typescript
+   * await engine.registerDataset(history, { tableName: "sales" });
+   * const { changedFields } = await engine.appendDataset(today, {
+   *   tableName: "sales",
+   * });
+   * ```
+   */
+  async appendDataset(
+    dataset: ParsedDataset,
+    options?: Pick<RegistrationOptions, "tableName">
+  ): Promise<TableAppendResult> {
+    if (!this.conn) {
+      throw new Error("QueryEngine not initialized. Call create() first.");
+    }
+
+    const tableName =
+      options?.tableName ?? this.sanitizeTableName(dataset.name);
+    if (!this.registeredTables.has(tableName)) {
+      throw new RegistrationError(
+        `Table '${tableName}' is not registered. Register it with registerDataset() first.`,
+        tableName
+      );
+    }
+
+    const stagingName = `${tableName}__append`;
+    let inTransaction = false;
+    try {
+      const { table } = datasetToArrow(dataset);
+      // See registerDataset for why the type assertion is needed
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await this.conn.insertArrowTable(table as any, { name: stagingName });
+
+      const current = await this.describeColumns(tableName);
+      const incoming = await this.describeColumns(stagingName);
+      const currentByName = new Map(
+        current.map((column) => [column.name, column])
+      );
+      const incomingNames = new Set(incoming.map((column) => column.name));
+
+      const statements: string[] = [];
+      const changes: SchemaChanges = {
+        addedFields: [],
+        removedFields: current
+          .filter((column) => !incomingNames.has(column.name))
+          .map((column) => column.name),
+        changedFields: [],
+      };
+      for (const column of incoming) {
+        const existing = currentByName.get(column.name);
+        if (!existing) {
+          statements.push(
+            buildAlterColumnQuery(tableName, column.name, column.type, "add")
+          );
+          changes.addedFields.push(column.name);
+          continue;
+        }
+
+        const before = duckDBColumnToField(existing.name, existing.type);
+        const widened = widenField(
+          before,
+          duckDBColumnToField(column.name, column.type)
+        );
+        const type = !widened
+          ? "VARCHAR"
+          : widened.type === "decimal"
+            ? `DECIMAL(${widened.precision},${widened.scale})`
+            : widened.type === before.type
+              ? existing.type
+              : column.type;
+        if (type === existing.type) continue;
+
+        statements.push(
+          buildAlterColumnQuery(tableName, column.name, type, "retype")
+        );
+        const after = widened?.type ?? "string";
+        if (after !== before.type) {
+          changes.changedFields.push({
+            name: column.name,
+            from: before.type,
+            to: after,
+          });
+        }
+      }
+      statements.push(buildInsertByNameQuery(tableName, stagingName));
+
+      await this.conn.query("BEGIN TRANSACTION");
+      inTransaction = true;
+      for (const statement of statements) {
+        if (this.config.logQueries) {
+          console.log(`🔍 Executing query: ${statement}`);
+        }
+        await this.conn.query(statement);
+      }
+      await this.conn.query("COMMIT");
+      inTransaction = false;
+
+      this.clearCache();
+      const rowCount = await this.getRowCount(tableName);
+
+      if (this.config.logQueries) {
+        console.log(
+          `✅ Appended ${table.numRows} rows to '${tableName}' (${rowCount} rows)`
+        );
+      }
+
+      return { ...changes, appendedRows: table.numRows, rowCount };
+    } catch (error) {
+      if (inTransaction) await this.conn.query("ROLLBACK");
+      throw new RegistrationError(
+        `Failed to append dataset '${dataset.name}' to '${tableName}': ${error instanceof Error ? error.message : String(error)}`,
+        tableName,
+        error instanceof Error ? error : undefined
+      );
+    } finally {
+      await this.conn.query(`DROP TABLE IF EXISTS "${stagingName}"`);
+    }
+  }
+
   /**
    * Unregister a table
    */
@@ -472,6 +650,21 @@ export class QueryEngine {
     };
   }
 
+  /**
+   * Read the column names and DuckDB types of a table, registered or not
+   */
+  private async describeColumns(
+    tableName: string
+  ): Promise<Array<{ name: string; type: string }>> {
+    const result = await this.query(buildTableInfoQuery(tableName), {
+      skipCache: true,
+    });
+    return result.data.map((row) => ({
+      name: row.column_name as string,
+      type: row.data_type as string,
+    }));
+  }
+
   /**
    * Sanitize table name for SQL safety
    *
@@ -813,6 +1006,208 @@ export class QueryEngine {
     return this.query(sql);
   }
 
+  /**
+   * Profile every column of a registered table in DuckDB
+   *
+   * Computes the same statistics as `profileDataset` from
+   * `@open-dashboard/core-schema` without loading the rows into JavaScript.
+   * Column types are read from DuckDB: text columns are profiled as strings
+   * and enum columns as categoricals.
+   *
+   * @param tableName - Name of the registered table
+   * @param options - Profiling options
+   * @returns Profiles keyed by column name
+   * @throws {QueryExecutionError} If the table is not registered or a query fails
+   *
+   * @example
+   * ```typescript
+   * const profiles = await engine.profileTable("sales");
+   * console.log(profiles.amount.numeric?.mean);
+   * ```
+   */
+  async profileTable(
+    tableName: string,
+    options: ProfileOptions = {}
+  ): Promise<Record<string, FieldProfile>> {
+    const info = await this.getTableInfo(tableName);
+    return this.profileColumns(
+      tableName,
+      info.columns.map((column) => ({
+        name: column.name,
+        type: duckDBTypeToFieldType(column.type),
+      })),
+      info.rowCount,
+      options
+    );
+  }
+
+  /**
+   * Profile a dataset, attaching the profiles as `metadata.profile` on its
+   * fields
+   *
+   * When the dataset is registered (under `tableName`, or the name
+   * `registerDataset` gave it) the statistics are computed in DuckDB;
+   * otherwise the rows are profiled in memory.
+   *
+   * @param dataset - Dataset to profile
+   * @param options - Profiling options and the table the dataset is registered as
+   * @returns A copy of the dataset with profiled fields
+   * @throws {QueryExecutionError} If a profiling query fails
+   *
+   * @example
+   * ```typescript
+   * await engine.registerDataset(salesDataset);
+   * const profiled = await engine.profileDataset(salesDataset);
+   * ```
+   */
+  async profileDataset(
+    dataset: ParsedDataset,
+    options: ProfileOptions & { tableName?: string } = {}
+  ): Promise<ParsedDataset> {
+    const { tableName = this.sanitizeTableName(dataset.name), ...profile } =
+      options;
+    if (!this.isTableRegistered(tableName)) {
+      return profileDataset(dataset, profile);
+    }
+
+    const info = await this.getTableInfo(tableName);
+    const columns = new Set(info.columns.map((column) => column.name));
+    const profiles = await this.profileColumns(
+      tableName,
+      dataset.schema.fields.filter((field) => columns.has(field.name)),
+      info.rowCount,
+      profile
+    );
+    return { ...dataset, schema: attachProfiles(dataset.schema, profiles) };
+  }
+
+  /**
+   * Profile columns of a registered table, one query per statistic group
+   */
+  private async profileColumns(
+    tableName: string,
+    columns: Array<{ name: string; type: DataFieldType }>,
+    rowCount: number,
+    options: ProfileOptions
+  ): Promise<Record<string, FieldProfile>> {
+    const { topK, bins, quantiles } = {
+      ...DEFAULT_PROFILE_OPTIONS,
+      ...options,
+    };
+    const approximate = options.distinct
+      ? options.distinct === "approximate"
+      : rowCount > EXACT_DISTINCT_LIMIT;
+    const profiles: Record<string, FieldProfile> = {};
+
+    for (const column of columns) {
+      const kind = profileColumnKind(column.type);
+      const result = await this.query(
+        buildProfileQuery(tableName, column.name, kind, {
+          approximate,
+          quantiles,
+        })
+      );
+      const stats = result.data[0] ?? {};
+      const count = Number(stats.count ?? 0);
+      const nullCount = Number(stats.null_count ?? 0);
+      const profile: FieldProfile = {
+        count,
+        nullCount,
+        nullRate: count > 0 ? nullCount / count : 0,
+        distinctCount: Number(stats.distinct_count ?? 0),
+        ...(approximate && { distinctApproximate: true }),
+      };
+
+      if (kind === "numeric" && stats.min != null) {
+        const min = Number(stats.min);
+        const max = Number(stats.max);
+        profile.numeric = {
+          min,
+          max,
+          mean: Number(stats.mean),
+          stddev: Number(stats.stddev),
+          quantiles: quantiles.map((quantile, i) => ({
+            quantile,
+            value: Number(stats[`q_${i}`]),
+          })),
+          histogram: await this.queryHistogram(
+            tableName,
+            column.name,
+            "numeric",
+            min,
+            max,
+            bins
+          ),
+        };
+      }
+
+      if (kind === "temporal" && stats.min_ms != null) {
+        profile.temporal = {
+          min: new Date(Number(stats.min_ms)).toISOString(),
+          max: new Date(Number(stats.max_ms)).toISOString(),
+          granularity: DATE_GRANULARITIES[Number(stats.granularity)],
+        };
+      }
+
+      if (column.type === "categorical" || column.type === "boolean") {
+        const top = await this.query(
+          buildTopValuesQuery(tableName, column.name, topK, kind === "text")
+        );
+        profile.topValues = top.data.map((row) => ({
+          value: row.value as string | number | boolean,
+          count: Number(row.count),
+        }));
+      }
+
+      if (kind === "text" && stats.min_length != null) {
+        const min = Number(stats.min_length);
+        const max = Number(stats.max_length);
+        profile.lengths = {
+          min,
+          max,
+          mean: Number(stats.mean_length),
+          histogram: await this.queryHistogram(
+            tableName,
+            column.name,
+            "length",
+            min,
+            max,
+            bins
+          ),
+        };
+      }
+
+      profiles[column.name] = profile;
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Count the values of a column in the bins `histogramBins` lays out
+   */
+  private async queryHistogram(
+    tableName: string,
+    column: string,
+    kind: "numeric" | "length",
+    min: number,
+    max: number,
+    bins: number
+  ): Promise<HistogramBin[]> {
+    const histogram = histogramBins(min, max, bins);
+    const result = await this.query(
+      buildHistogramQuery(tableName, column, kind, {
+        min,
+        max,
+        bins: histogram.length,
+      })
+    );
+    for (const row of result.data) {
+      histogram[Number(row.bin)].count = Number(row.count);
+    }
+    return histogram;
+  }
+
   /**
    * Validate SQL query before execution
    *
@@ -838,3 +1233,64 @@ export class QueryEngine {
     return validateSQL(sql);
   }
 }
+
+/**
+ * Map a DuckDB column type to the field type it is profiled as
+ */
+function duckDBTypeToFieldType(duckdbType: string): DataFieldType {
+  const type = duckdbType.toUpperCase();
+  if (
+    /^(U?(TINYINT|SMALLINT|INTEGER|BIGINT)|HUGEINT|FLOAT|REAL|DOUBLE|DECIMAL)/.test(
+      type
+    )
+  ) {
+    return "number";
+  }
+  if (/^(DATE|TIMESTAMP)/.test(type)) return "timestamp";
+  if (type.startsWith("TIME")) return "time";
+  if (type === "INTERVAL") return "duration";
+  if (type === "BOOLEAN") return "boolean";
+  if (type.startsWith("ENUM")) return "categorical";
+  if (type.endsWith("[]")) return "list";
+  if (type.startsWith("STRUCT")) return "struct";
+  return "string";
+}
+
+/**
+ * Map a DuckDB column to the field its values widen as. Unlike
+ * `duckDBTypeToFieldType`, integers, decimals and dates keep their own types.
+ */
+function duckDBColumnToField(name: string, duckdbType: string): DataField {
+  const type = duckdbType.toUpperCase();
+  const decimal = /^DECIMAL\((\d+),\s*(\d+)\)/.exec(type);
+  if (decimal) {
+    return {
+      name,
+      type: "decimal",
+      precision: Number(decimal[1]),
+      scale: Number(decimal[2]),
+    };
+  }
+  if (/^(U?(TINYINT|SMALLINT|INTEGER|BIGINT)|HUGEINT)$/.test(type)) {
+    return { name, type: "integer" };
+  }
+  if (type === "DATE") return { name, type: "date" };
+  return { name, type: duckDBTypeToFieldType(type) };
+}
+
+function profileColumnKind(type: DataFieldType): ProfileColumnKind {
+  switch (type) {
+    case "number":
+    case "integer":
+    case "decimal":
+      return "numeric";
+    case "date":
+    case "timestamp":
+      return "temporal";
+    case "string":
+    case "categorical":
+      return "text";
+    default:
+      return "other";
+  }
+}
@@ -7,6 +7,7 @@ export type {
   QueryResult,
   QueryOptions,
   RegistrationOptions,
+  TableAppendResult,
   QueryCacheEntry,
 } from "./types/query";
 export { QueryError, RegistrationError } from "./types/query";
@@ -19,11 +20,18 @@ export {
   buildTableInfoQuery,
   buildCountQuery,
   buildSampleQuery,
+  buildProfileQuery,
+  buildHistogramQuery,
+  buildTopValuesQuery,
+  buildAlterColumnQuery,
+  buildInsertByNameQuery,
   sanitizeIdentifier,
   escapeString,
   extractTableNames,
   type JoinOptions,
   type AggregateOptions,
+  type ProfileColumnKind,
+  type ProfileQueryOptions,
 } from "./utils/queryHelpers";
 
 // Export error utilities (for error handling)
@@ -5,6 +5,7 @@ export type {
   QueryEngineConfig,
   QueryCacheEntry,
   RegistrationOptions,
+  TableAppendResult,
 } from "./query";
 
 export { QueryError, RegistrationError } from "./query";
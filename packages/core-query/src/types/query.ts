@@ -1,3 +1,5 @@
+import type { SchemaChanges } from "@open-dashboard/shared/types";
+
 /**
  * Query engine configuration options
  */
@@ -73,6 +75,16 @@ export interface RegistrationOptions {
   replace?: boolean;
 }
 
+/**
+ * Outcome of appending a dataset to a registered table
+ */
+export interface TableAppendResult extends SchemaChanges {
+  /** Rows inserted from the dataset */
+  appendedRows: number;
+  /** Rows in the table after appending */
+  rowCount: number;
+}
+
 /**
  * Query execution options
  */
@@ -10,11 +10,18 @@ export {
   buildTableInfoQuery,
   buildCountQuery,
   buildSampleQuery,
+  buildProfileQuery,
+  buildHistogramQuery,
+  buildTopValuesQuery,
+  buildAlterColumnQuery,
+  buildInsertByNameQuery,
   sanitizeIdentifier,
   escapeString,
   extractTableNames,
   type JoinOptions,
   type AggregateOptions,
+  type ProfileColumnKind,
+  type ProfileQueryOptions,
 } from "./queryHelpers";
 
 // Export error handling utilities
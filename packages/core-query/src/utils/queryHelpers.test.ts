@@ -11,6 +11,11 @@ import {
   buildParameterizedQuery,
   buildCountQuery,
   buildSampleQuery,
+  buildProfileQuery,
+  buildHistogramQuery,
+  buildTopValuesQuery,
+  buildAlterColumnQuery,
+  buildInsertByNameQuery,
   sanitizeIdentifier,
   escapeString,
   validateClause,
@@ -355,6 +360,123 @@ describe("buildSampleQuery", () => {
   });
 });
 
+describe("buildProfileQuery", () => {
+  it("should summarize numeric columns", () => {
+    const sql = buildProfileQuery("sales", "amount", "numeric", {
+      quantiles: [0.25, 0.5],
+    });
+    expect(sql).toContain('COUNT(*) - COUNT("amount") AS null_count');
+    expect(sql).toContain('COUNT(DISTINCT "amount") AS distinct_count');
+    expect(sql).toContain('STDDEV_SAMP("amount"::DOUBLE)');
+    expect(sql).toContain('QUANTILE_CONT("amount"::DOUBLE, 0.5) AS q_1');
+    expect(sql).toMatch(/FROM "sales"$/);
+  });
+
+  it("should treat empty strings in text columns as nulls", () => {
+    const sql = buildProfileQuery("sales", "region", "text", {
+      approximate: true,
+    });
+    expect(sql).toContain(
+      "APPROX_COUNT_DISTINCT(NULLIF(\"region\", '')) AS distinct_count"
+    );
+    expect(sql).toContain("MAX(LENGTH(NULLIF(\"region\", ''))) AS max_length");
+  });
+
+  it("should return the date range and granularity of temporal columns", () => {
+    const sql = buildProfileQuery("sales", "date", "temporal");
+    expect(sql).toContain('EPOCH_MS(MIN("date"::TIMESTAMP)) AS min_ms');
+    expect(sql).toContain("AS granularity");
+  });
+
+  it("should quote column names with spaces and quotes", () => {
+    const sql = buildProfileQuery("sales", 'unit "net" price', "other");
+    expect(sql).toContain('COUNT("unit ""net"" price")');
+  });
+
+  it("should throw on quantiles outside 0 to 1", () => {
+    expect(() =>
+      buildProfileQuery("sales", "amount", "numeric", { quantiles: [1.5] })
+    ).toThrow(/between 0 and 1/);
+  });
+});
+
+describe("buildHistogramQuery", () => {
+  it("should count values per bin", () => {
+    const sql = buildHistogramQuery("sales", "amount", "numeric", {
+      min: -10,
+      max: 10,
+      bins: 4,
+    });
+    expect(sql).toContain(
+      'LEAST(GREATEST(FLOOR(("amount"::DOUBLE - (-10)) / 20 * 4), 0), 3)::INTEGER AS bin'
+    );
+    expect(sql).toContain("GROUP BY 1");
+  });
+
+  it("should put every value in one bin when the range is empty", () => {
+    const sql = buildHistogramQuery("sales", "region", "length", {
+      min: 5,
+      max: 5,
+      bins: 10,
+    });
+    expect(sql).toMatch(/^SELECT 0 AS bin/);
+    expect(sql).toContain("LENGTH(NULLIF(\"region\", '')) IS NOT NULL");
+  });
+
+  it("should throw on invalid bins", () => {
+    expect(() =>
+      buildHistogramQuery("sales", "amount", "numeric", {
+        min: 0,
+        max: 1,
+        bins: 0,
+      })
+    ).toThrow(/positive integer/);
+  });
+});
+
+describe("buildTopValuesQuery", () => {
+  it("should list the most frequent values first", () => {
+    const sql = buildTopValuesQuery("sales", "region", 5, true);
+    expect(sql).toBe(
+      `SELECT NULLIF("region", '') AS value, COUNT(*) AS count FROM "sales" WHERE NULLIF("region", '') IS NOT NULL GROUP BY 1 ORDER BY 2 DESC, 1 LIMIT 5`
+    );
+  });
+
+  it("should throw on negative limit", () => {
+    expect(() => buildTopValuesQuery("sales", "region", -1)).toThrow(
+      /non-negative integer/
+    );
+  });
+});
+
+describe("buildAlterColumnQuery", () => {
+  it("should add a column", () => {
+    expect(buildAlterColumnQuery("sales", "unit price", "DOUBLE", "add")).toBe(
+      `ALTER TABLE "sales" ADD COLUMN "unit price" DOUBLE`
+    );
+  });
+
+  it("should change the type of a column", () => {
+    expect(
+      buildAlterColumnQuery("sales", "qty", "DECIMAL(12,4)", "retype")
+    ).toBe(`ALTER TABLE "sales" ALTER COLUMN "qty" TYPE DECIMAL(12,4)`);
+  });
+
+  it("should reject types that end the statement", () => {
+    expect(() =>
+      buildAlterColumnQuery("sales", "qty", "INT; DROP TABLE sales", "add")
+    ).toThrow(/Invalid column type/);
+  });
+});
+
+describe("buildInsertByNameQuery", () => {
+  it("should insert matching columns by name", () => {
+    expect(buildInsertByNameQuery("sales", "sales_append")).toBe(
+      `INSERT INTO "sales" BY NAME SELECT * FROM "sales_append"`
+    );
+  });
+});
+
 describe("buildWhereClause", () => {
   it("should build simple equality conditions", () => {
     const { whereClause, params } = buildWhereClause({
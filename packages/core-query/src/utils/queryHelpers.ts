@@ -657,6 +657,203 @@ export function buildSampleQuery(
   return query;
 }
 
+/**
+ * How a column is summarized by `buildProfileQuery`
+ */
+export type ProfileColumnKind = "numeric" | "temporal" | "text" | "other";
+
+/**
+ * Options for profiling queries
+ */
+export interface ProfileQueryOptions {
+  /** Estimate distinct values with HyperLogLog instead of counting them */
+  approximate?: boolean;
+  /** Quantiles of numeric columns, returned as q_0, q_1, ... */
+  quantiles?: number[];
+}
+
+/**
+ * Build a query returning one row of statistics for a column: count,
+ * null_count and distinct_count, plus
+ * - numeric: min, max, mean, stddev and the requested quantiles
+ * - temporal: min_ms and max_ms (epoch milliseconds) and granularity, the
+ *   index of the finest unit the values differ in (0 = year ... 6 = millisecond)
+ * - text: min_length, max_length and mean_length
+ *
+ * Empty strings in text columns count as nulls.
+ *
+ * @example
+ * ```typescript
+ * const sql = buildProfileQuery("sales", "amount", "numeric", {
+ *   quantiles: [0.5],
+ * });
+ * // SELECT COUNT(*) AS count, ..., QUANTILE_CONT("amount"::DOUBLE, 0.5) AS q_0
+ * // FROM "sales"
+ * ```
+ */
+export function buildProfileQuery(
+  tableName: string,
+  column: string,
+  kind: ProfileColumnKind,
+  options: ProfileQueryOptions = {}
+): string {
+  const value = profileValue(column, kind);
+  const distinct = options.approximate
+    ? `APPROX_COUNT_DISTINCT(${value})`
+    : `COUNT(DISTINCT ${value})`;
+  const select = [
+    "COUNT(*) AS count",
+    `COUNT(*) - COUNT(${value}) AS null_count`,
+    `${distinct} AS distinct_count`,
+  ];
+
+  switch (kind) {
+    case "numeric": {
+      const number = `${value}::DOUBLE`;
+      select.push(
+        `MIN(${number}) AS min`,
+        `MAX(${number}) AS max`,
+        `AVG(${number}) AS mean`,
+        `COALESCE(STDDEV_SAMP(${number}), 0) AS stddev`,
+        ...(options.quantiles ?? []).map((quantile, i) => {
+          if (!Number.isFinite(quantile) || quantile < 0 || quantile > 1) {
+            throw new Error("Quantiles must be numbers between 0 and 1");
+          }
+          return `QUANTILE_CONT(${number}, ${quantile}) AS q_${i}`;
+        })
+      );
+      break;
+    }
+    case "temporal": {
+      const time = `${value}::TIMESTAMP`;
+      select.push(
+        `EPOCH_MS(MIN(${time})) AS min_ms`,
+        `EPOCH_MS(MAX(${time})) AS max_ms`,
+        `MAX(CASE
+          WHEN MILLISECOND(${time}) % 1000 <> 0 THEN 6
+          WHEN SECOND(${time}) <> 0 THEN 5
+          WHEN MINUTE(${time}) <> 0 THEN 4
+          WHEN HOUR(${time}) <> 0 THEN 3
+          WHEN DAY(${time}) <> 1 THEN 2
+          WHEN MONTH(${time}) <> 1 THEN 1
+          ELSE 0
+        END) AS granularity`
+      );
+      break;
+    }
+    case "text":
+      select.push(
+        `MIN(LENGTH(${value})) AS min_length`,
+        `MAX(LENGTH(${value})) AS max_length`,
+        `AVG(LENGTH(${value})) AS mean_length`
+      );
+      break;
+  }
+
+  return `SELECT ${select.join(", ")} FROM ${sanitizeIdentifier(tableName)}`;
+}
+
+/**
+ * Build a query counting the values of a column, or the lengths of a text
+ * column, in `bins` equal-width bins from `min` to `max`. Returns bin (the
+ * zero-based bin index) and count for each non-empty bin.
+ *
+ * @throws {Error} If the range or bin count is invalid
+ */
+export function buildHistogramQuery(
+  tableName: string,
+  column: string,
+  kind: "numeric" | "length",
+  range: { min: number; max: number; bins: number }
+): string {
+  const { min, max, bins } = range;
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    throw new Error("Histogram range must be finite numbers");
+  }
+  if (!Number.isInteger(bins) || bins < 1) {
+    throw new Error("Histogram bins must be a positive integer");
+  }
+
+  const value =
+    kind === "length"
+      ? `LENGTH(${profileValue(column, "text")})`
+      : `${quoteColumn(column)}::DOUBLE`;
+  const bin =
+    max > min
+      ? `LEAST(GREATEST(FLOOR((${value} - (${min})) / ${max - min} * ${bins}), 0), ${bins - 1})::INTEGER`
+      : "0";
+
+  return `SELECT ${bin} AS bin, COUNT(*) AS count FROM ${sanitizeIdentifier(tableName)} WHERE ${value} IS NOT NULL GROUP BY 1 ORDER BY 1`;
+}
+
+/**
+ * Build a query returning the `limit` most frequent values of a column with
+ * their counts, most frequent first
+ *
+ * @throws {Error} If limit is not a non-negative integer
+ */
+export function buildTopValuesQuery(
+  tableName: string,
+  column: string,
+  limit: number,
+  text = false
+): string {
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error("Top values limit must be a non-negative integer");
+  }
+
+  const value = profileValue(column, text ? "text" : "other");
+  return `SELECT ${value} AS value, COUNT(*) AS count FROM ${sanitizeIdentifier(tableName)} WHERE ${value} IS NOT NULL GROUP BY 1 ORDER BY 2 DESC, 1 LIMIT ${limit}`;
+}
+
+/**
+ * Build a statement that adds a column to a table, or changes the type of
+ * one of its columns
+ *
+ * @param type - DuckDB column type, e.g. "DOUBLE" or "DECIMAL(18,2)"
+ * @throws {Error} If the type contains statement separators or comments
+ */
+export function buildAlterColumnQuery(
+  tableName: string,
+  column: string,
+  type: string,
+  action: "add" | "retype"
+): string {
+  if (/;|--|\/\*/.test(type)) {
+    throw new Error(`Invalid column type: ${type}`);
+  }
+
+  const table = sanitizeIdentifier(tableName);
+  return action === "add"
+    ? `ALTER TABLE ${table} ADD COLUMN ${quoteColumn(column)} ${type}`
+    : `ALTER TABLE ${table} ALTER COLUMN ${quoteColumn(column)} TYPE ${type}`;
+}
+
+/**
+ * Build a statement that inserts every row of one table into another,
+ * matching columns by name. Columns the source lacks are filled with NULL.
+ */
+export function buildInsertByNameQuery(
+  tableName: string,
+  sourceTable: string
+): string {
+  return `INSERT INTO ${sanitizeIdentifier(tableName)} BY NAME SELECT * FROM ${sanitizeIdentifier(sourceTable)}`;
+}
+
+/**
+ * Quotes a column name of a registered table. Unlike `sanitizeIdentifier`
+ * this accepts any name, since dataset fields may contain spaces or
+ * punctuation; doubling the quotes keeps the name inside the identifier.
+ */
+function quoteColumn(column: string): string {
+  return `"${column.replace(/"/g, '""')}"`;
+}
+
+function profileValue(column: string, kind: ProfileColumnKind): string {
+  const quoted = quoteColumn(column);
+  return kind === "text" ? `NULLIF(${quoted}, '')` : quoted;
+}
+
 /**
  * Extract table names from SQL query (basic parser)
  *
@@ -473,6 +473,184 @@ describe("arrowConverter", () => {
         expect(timestampColumn?.get(1)).toBe(date2);
       });
 
+      it("should parse dates with the field's date format", () => {
+        const dataset: ParsedDataset = {
+          id: "coerce-4",
+          name: "test-dataset",
+          sourceType: "csv",
+          createdAt: new Date(),
+          schema: {
+            fields: [
+              {
+                name: "shipped",
+                type: "date",
+                metadata: { dateFormat: "DD/MM/YYYY" },
+              },
+              {
+                name: "created",
+                type: "date",
+                metadata: { dateFormat: "X" },
+              },
+            ],
+          },
+          data: [
+            { shipped: "05/03/2024", created: 1709632800 },
+            { shipped: "2024-03-05", created: null },
+          ],
+        };
+
+        const { table } = datasetToArrow(dataset);
+
+        expect(table.getChildAt(0)?.get(0)).toBe(Date.UTC(2024, 2, 5));
+        expect(table.getChildAt(0)?.get(1)).toBeNull();
+        expect(table.getChildAt(1)?.get(0)).toBe(Date.UTC(2024, 2, 5, 10));
+      });
+
+      it("should dictionary-encode categorical columns", () => {
+        const dataset: ParsedDataset = {
+          id: "coerce-5",
+          name: "test-dataset",
+          sourceType: "json",
+          createdAt: new Date(),
+          schema: {
+            fields: [{ name: "status", type: "categorical" }],
+          },
+          data: [{ status: "open" }, { status: "closed" }, { status: "open" }],
+        };
+
+        const { table } = datasetToArrow(dataset);
+
+        const statusColumn = table.getChildAt(0);
+        expect(statusColumn?.type).toBeInstanceOf(arrow.Dictionary);
+        expect(statusColumn?.data[0].dictionary?.length).toBe(2);
+        expect(statusColumn?.toArray()).toEqual(["open", "closed", "open"]);
+
+        const roundTripped = arrow.tableFromIPC(arrow.tableToIPC(table));
+        expect(roundTripped.getChildAt(0)?.toArray()).toEqual([
+          "open",
+          "closed",
+          "open",
+        ]);
+      });
+
+      it("should keep large integers exact in Int64 columns", () => {
+        const dataset: ParsedDataset = {
+          id: "coerce-6",
+          name: "test-dataset",
+          sourceType: "csv",
+          createdAt: new Date(),
+          schema: { fields: [{ name: "order_no", type: "integer" }] },
+          data: [
+            { order_no: "9007199254740993" },
+            { order_no: 42 },
+            { order_no: 4.5 },
+          ],
+        };
+
+        const { table } = datasetToArrow(dataset);
+        const column = table.getChildAt(0);
+
+        expect(column?.type).toBeInstanceOf(arrow.Int64);
+        expect(column?.get(0)).toBe(9007199254740993n);
+        expect(column?.get(1)).toBe(42n);
+        expect(column?.get(2)).toBeNull();
+      });
+
+      it("should store decimals at their scale without floating point", () => {
+        const dataset: ParsedDataset = {
+          id: "coerce-7",
+          name: "test-dataset",
+          sourceType: "csv",
+          createdAt: new Date(),
+          schema: {
+            fields: [
+              { name: "amount", type: "decimal", precision: 6, scale: 2 },
+            ],
+          },
+          data: [
+            { amount: "1234.565" },
+            { amount: -0.1 },
+            { amount: "12345.67" },
+          ],
+        };
+
+        const { table } = datasetToArrow(dataset);
+        const { data } = arrowToDataset(table);
+
+        expect(table.getChildAt(0)?.type).toBeInstanceOf(arrow.Decimal);
+        // The last value needs 7 digits, more than the precision allows
+        expect(data.map((row) => row.amount)).toEqual([1234.57, -0.1, null]);
+      });
+
+      it("should coerce times and ISO durations to their unit", () => {
+        const dataset: ParsedDataset = {
+          id: "coerce-8",
+          name: "test-dataset",
+          sourceType: "csv",
+          createdAt: new Date(),
+          schema: {
+            fields: [
+              { name: "opens", type: "time" },
+              { name: "wait", type: "duration", unit: "second" },
+            ],
+          },
+          data: [
+            { opens: "09:30", wait: "PT1H30M" },
+            { opens: "2:15:30 PM", wait: 45 },
+            { opens: "25:00", wait: "soon" },
+          ],
+        };
+
+        const { table } = datasetToArrow(dataset);
+
+        expect(table.getChildAt(0)?.toArray()).toEqual(
+          new Int32Array([34_200_000, 51_330_000, 0])
+        );
+        expect(table.getChildAt(0)?.get(2)).toBeNull();
+        expect(table.getChildAt(1)?.get(0)).toBe(5400n);
+        expect(table.getChildAt(1)?.get(1)).toBe(45n);
+        expect(table.getChildAt(1)?.get(2)).toBeNull();
+      });
+
+      it("should build list and struct columns from nested values", () => {
+        const dataset: ParsedDataset = {
+          id: "coerce-9",
+          name: "test-dataset",
+          sourceType: "json",
+          createdAt: new Date(),
+          schema: {
+            fields: [
+              {
+                name: "tags",
+                type: "list",
+                items: { name: "item", type: "string" },
+              },
+              {
+                name: "address",
+                type: "struct",
+                fields: [
+                  { name: "city", type: "string" },
+                  { name: "zip", type: "integer" },
+                ],
+              },
+            ],
+          },
+          data: [
+            { tags: ["new", "sale"], address: { city: "Lyon", zip: "69001" } },
+            { tags: '["clearance"]', address: null },
+          ],
+        };
+
+        const { table, warnings } = datasetToArrow(dataset);
+        const { data } = arrowToDataset(table);
+
+        expect(warnings).toEqual([]);
+        expect(data).toEqual([
+          { tags: ["new", "sale"], address: { city: "Lyon", zip: 69001 } },
+          { tags: ["clearance"], address: null },
+        ]);
+      });
+
       it("should handle failed coercion", () => {
         const dataset: ParsedDataset = {
           id: "coerce-4",
@@ -861,6 +1039,60 @@ describe("arrowConverter", () => {
       );
     });
 
+    it("should preserve extended types through round-trip", () => {
+      const original: ParsedDataset = {
+        id: "round-trip-6",
+        name: "test-dataset",
+        sourceType: "json",
+        createdAt: new Date(),
+        schema: {
+          fields: [
+            { name: "id", type: "integer" },
+            { name: "placed_at", type: "timestamp", timezone: "+02:00" },
+            { name: "opens", type: "time" },
+          ],
+        },
+        data: [
+          {
+            id: "12345678901234567890",
+            placed_at: "2024-03-05T10:00:00+02:00",
+            opens: "08:05:09.5",
+          },
+          { id: 7, placed_at: null, opens: null },
+        ],
+      };
+
+      const { table } = datasetToArrow(original);
+      const converted = arrowToDataset(table);
+
+      // Beyond Int64, so the first id cannot be stored
+      expect(converted.data[0].id).toBeNull();
+      expect(converted.data[1].id).toBe(7);
+      expect(converted.data[0].placed_at).toEqual(
+        new Date("2024-03-05T08:00:00Z")
+      );
+      expect(converted.data[0].opens).toBe("08:05:09.5");
+      expect(converted.schema.fields[1]).toMatchObject({
+        type: "timestamp",
+        timezone: "+02:00",
+      });
+    });
+
+    it("should return integers beyond 2^53 as digit strings", () => {
+      const original: ParsedDataset = {
+        id: "round-trip-7",
+        name: "test-dataset",
+        sourceType: "json",
+        createdAt: new Date(),
+        schema: { fields: [{ name: "id", type: "integer" }] },
+        data: [{ id: "9007199254740993" }],
+      };
+
+      const converted = arrowToDataset(datasetToArrow(original).table);
+
+      expect(converted.data[0].id).toBe("9007199254740993");
+    });
+
     it("should handle large dataset round-trip", () => {
       const largeData = Array.from({ length: 1000 }, (_, i) => ({
         id: i,
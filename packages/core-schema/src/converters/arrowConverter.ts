@@ -3,12 +3,21 @@ import type {
   DatasetSchema,
   DataField,
   ParsedDataset,
+  TimeUnit,
 } from "@open-dashboard/shared/types";
 import type { ArrowConversionOptions } from "../types/converters";
 import { normalizeSchema } from "../utils/schemaNormaliser";
+import {
+  parseDateWithFormat,
+  parseISODuration,
+  parseTimeOfDay,
+} from "../utils/dateFormat";
 import {
   createArrowField,
+  dataFieldToArrowType,
   extractDataFieldFromArrowField,
+  DEFAULT_DECIMAL_PRECISION,
+  DEFAULT_DECIMAL_SCALE,
 } from "../utils/typeMapper";
 
 /**
@@ -103,19 +112,20 @@ function validateDatasetForConversion(dataset: ParsedDataset): {
 }
 
 /**
- * Coerces a value to the target type
+ * Coerces a value to the type of a field, as stored in Arrow columns
  *
  * @param value - Value to coerce
- * @param targetType - Target data type
+ * @param field - Target field; dates are parsed with its `dateFormat`
+ * metadata when present
  * @returns Coerced value or null if coercion fails
  */
-function coerceValue(value: unknown, targetType: DataField["type"]): unknown {
+export function coerceValue(value: unknown, field: DataField): unknown {
   // Handle null/undefined
   if (value === null || value === undefined) {
     return null;
   }
 
-  switch (targetType) {
+  switch (field.type) {
     case "string":
       return String(value);
 
@@ -139,6 +149,12 @@ function coerceValue(value: unknown, targetType: DataField["type"]): unknown {
       return null;
     }
 
+    case "integer":
+      return coerceInteger(value);
+
+    case "decimal":
+      return coerceDecimal(value, field);
+
     case "boolean": {
       // Already boolean
       if (typeof value === "boolean") {
@@ -160,12 +176,21 @@ function coerceValue(value: unknown, targetType: DataField["type"]): unknown {
       return null;
     }
 
-    case "date": {
+    case "date":
+    case "timestamp": {
       // Already a Date
       if (value instanceof Date) {
         return isNaN(value.getTime()) ? null : value.getTime();
       }
 
+      const dateFormat = field.metadata?.dateFormat;
+      if (
+        typeof dateFormat === "string" &&
+        (typeof value === "string" || typeof value === "number")
+      ) {
+        return parseDateWithFormat(value, dateFormat) ?? null;
+      }
+
       // Number (timestamp)
       if (typeof value === "number") {
         return isNaN(value) ? null : value;
@@ -184,11 +209,189 @@ function coerceValue(value: unknown, targetType: DataField["type"]): unknown {
       // Treat as string for now (proper Dictionary encoding is complex)
       return String(value);
 
+    case "time":
+      return coerceTime(value, field);
+
+    case "duration":
+      return coerceDuration(value, field);
+
+    case "list": {
+      const items = typeof value === "string" ? parseJSON(value) : value;
+      if (!Array.isArray(items) || !field.items) return null;
+      const itemField = field.items;
+      return items.map((item) => coerceValue(item, itemField));
+    }
+
+    case "struct": {
+      const record = typeof value === "string" ? parseJSON(value) : value;
+      if (!isRecord(record) || !field.fields) return null;
+      return Object.fromEntries(
+        field.fields.map((child) => [
+          child.name,
+          coerceValue(record[child.name], child),
+        ])
+      );
+    }
+
     default:
       return null;
   }
 }
 
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+/**
+ * Coerces a whole number to a BigInt for Int64 columns. Numeric strings are
+ * read exactly, so IDs beyond 2^53 keep every digit.
+ */
+function coerceInteger(value: unknown): bigint | null {
+  let result: bigint | null = null;
+  if (typeof value === "bigint") {
+    result = value;
+  } else if (typeof value === "number") {
+    result = Number.isInteger(value) ? BigInt(value) : null;
+  } else if (typeof value === "boolean") {
+    result = value ? 1n : 0n;
+  } else if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (/^[+-]?\d+$/.test(trimmed)) {
+      result = BigInt(trimmed);
+    } else {
+      const parsed = Number(trimmed);
+      result =
+        trimmed !== "" && Number.isInteger(parsed) ? BigInt(parsed) : null;
+    }
+  }
+  return result !== null && result >= INT64_MIN && result <= INT64_MAX
+    ? result
+    : null;
+}
+
+/**
+ * Coerces a number or numeric string to the 128-bit words of a Decimal
+ * column, rounding half away from zero to the field's scale. Strings are read
+ * digit by digit, so amounts are not routed through floating point.
+ */
+function coerceDecimal(value: unknown, field: DataField): Uint32Array | null {
+  const scale = field.scale ?? DEFAULT_DECIMAL_SCALE;
+  const precision = field.precision ?? DEFAULT_DECIMAL_PRECISION;
+
+  let text: string;
+  if (typeof value === "number") {
+    // toFixed switches to exponent notation from 1e21
+    if (!isFinite(value) || Math.abs(value) >= 1e21) return null;
+    text = value.toFixed(Math.min(scale + 1, 100));
+  } else if (typeof value === "bigint") {
+    text = value.toString();
+  } else if (typeof value === "string") {
+    text = value.trim();
+  } else {
+    return null;
+  }
+
+  const match = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (match[2] === "" && !match[3])) return null;
+  const [, sign, whole, fraction = ""] = match;
+
+  let unscaled = BigInt(whole + fraction.slice(0, scale).padEnd(scale, "0"));
+  if (Number(fraction.charAt(scale)) >= 5) unscaled += 1n;
+  if (unscaled.toString().length > precision) return null;
+  if (sign === "-") unscaled = -unscaled;
+
+  // Two's complement, least significant word first
+  const bits = unscaled < 0n ? (1n << 128n) + unscaled : unscaled;
+  const words = new Uint32Array(4);
+  for (let i = 0; i < 4; i++) {
+    words[i] = Number((bits >> BigInt(32 * i)) & 0xffffffffn);
+  }
+  return words;
+}
+
+const MILLISECONDS_PER_UNIT: Record<TimeUnit, number> = {
+  second: 1000,
+  millisecond: 1,
+  microsecond: 0.001,
+  nanosecond: 0.000001,
+};
+
+/**
+ * Coerces a time of day ("14:30", "2:30:15 PM", "14:30:15.250") to the
+ * field's unit. Numbers are taken to already be in that unit.
+ */
+function coerceTime(value: unknown, field: DataField): number | bigint | null {
+  const unit = field.unit ?? "millisecond";
+  let milliseconds: number;
+  if (typeof value === "number" || typeof value === "bigint") {
+    milliseconds = Number(value) * MILLISECONDS_PER_UNIT[unit];
+  } else if (value instanceof Date) {
+    milliseconds =
+      value.getTime() - Math.floor(value.getTime() / 86_400_000) * 86_400_000;
+  } else if (typeof value === "string") {
+    const parsed = parseTimeOfDay(value);
+    if (parsed === undefined) return null;
+    milliseconds = parsed;
+  } else {
+    return null;
+  }
+
+  if (
+    !isFinite(milliseconds) ||
+    milliseconds < 0 ||
+    milliseconds >= 86_400_000
+  ) {
+    return null;
+  }
+  return toTimeUnit(
+    milliseconds,
+    unit,
+    unit === "second" || unit === "millisecond"
+  );
+}
+
+/**
+ * Coerces a duration to the field's unit. Strings may be ISO 8601 durations
+ * ("PT1H30M", "P2DT3H"); numbers are taken to already be in that unit.
+ */
+function coerceDuration(value: unknown, field: DataField): bigint | null {
+  const unit = field.unit ?? "millisecond";
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number") {
+    return isFinite(value) ? BigInt(Math.round(value)) : null;
+  }
+  if (typeof value !== "string") return null;
+
+  const trimmed = value.trim();
+  const numeric = Number(trimmed);
+  if (trimmed !== "" && isFinite(numeric)) return BigInt(Math.round(numeric));
+
+  const milliseconds = parseISODuration(trimmed);
+  return milliseconds === undefined
+    ? null
+    : (toTimeUnit(milliseconds, unit, false) as bigint);
+}
+
+function toTimeUnit(
+  milliseconds: number,
+  unit: TimeUnit,
+  asNumber: boolean
+): number | bigint {
+  const amount = Math.round(milliseconds / MILLISECONDS_PER_UNIT[unit]);
+  return asNumber ? amount : BigInt(amount);
+}
+
+function parseJSON(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
 /**
  * Builds an Arrow Vector for a single column
  *
@@ -205,7 +408,7 @@ function buildColumnVector(
   // Extract and coerce column values
   for (const row of data) {
     const rawValue = row[field.name];
-    const coercedValue = coerceValue(rawValue, field.type);
+    const coercedValue = coerceValue(rawValue, field);
     columnData.push(coercedValue);
   }
 
@@ -241,14 +444,23 @@ function buildColumnVector(
     }
 
     case "categorical": {
-      // TODO: Implement proper Dictionary encoding
-      // For now, use Utf8 (still queryable, just not as space-efficient)
+      // Dictionary-encode to match the schema type from dataFieldToArrowType
       return arrow.vectorFromArray(
         columnData as (string | null)[],
-        new arrow.Utf8()
+        new arrow.Dictionary(new arrow.Utf8(), new arrow.Int32())
       );
     }
 
+    case "integer":
+    case "decimal":
+    case "timestamp":
+    case "time":
+    case "duration":
+    case "list":
+    case "struct": {
+      return arrow.vectorFromArray(columnData, dataFieldToArrowType(field));
+    }
+
     default:
       // Fallback to Utf8
       return arrow.vectorFromArray(
@@ -349,6 +561,128 @@ export function datasetToArrow(
   return { table, warnings };
 }
 
+/**
+ * Converts a value read from an Arrow column to a plain JavaScript value
+ *
+ * - date, timestamp → Date
+ * - integer, decimal → number when exact, otherwise a digit string
+ * - time → "HH:mm:ss" string, with fractions of a second when present
+ * - duration → number in the field's unit
+ * - list → array, struct → object, converted element by element
+ *
+ * @param value - Value returned by `Vector.get`
+ * @param field - Field describing the column, as from `arrowTypeToDataField`
+ * @returns JavaScript value, or null for missing values
+ */
+export function arrowValueToJS(value: unknown, field: DataField): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  switch (field.type) {
+    case "date":
+    case "timestamp":
+      // Handle date/timestamp conversion - Arrow returns numbers or BigInts
+      if (typeof value === "number") {
+        return new Date(value);
+      } else if (typeof value === "bigint") {
+        // Convert BigInt timestamp to Date (microsecond/nanosecond precision)
+        return new Date(Number(value / 1000n));
+      } else if (value instanceof Date) {
+        return value;
+      }
+      // Fallback: try to parse as timestamp
+      return new Date(Number(value));
+
+    case "integer":
+      return typeof value === "bigint" ? exactNumber(value) : value;
+
+    case "decimal": {
+      if (typeof value === "number") return value;
+      const unscaled =
+        typeof value === "bigint"
+          ? value
+          : wordsToBigInt(value as ArrayLike<number>);
+      return decimalToJS(unscaled, field.scale ?? DEFAULT_DECIMAL_SCALE);
+    }
+
+    case "time": {
+      const unit = field.unit ?? "millisecond";
+      return formatTimeOfDay(Number(value) * MILLISECONDS_PER_UNIT[unit]);
+    }
+
+    case "duration":
+      return Number(value);
+
+    case "list": {
+      const itemField = field.items;
+      const items = Array.from(value as Iterable<unknown>);
+      return itemField
+        ? items.map((item) => arrowValueToJS(item, itemField))
+        : items;
+    }
+
+    case "struct": {
+      const record = value as Record<string, unknown>;
+      return Object.fromEntries(
+        (field.fields ?? []).map((child) => [
+          child.name,
+          arrowValueToJS(record[child.name], child),
+        ])
+      );
+    }
+
+    default:
+      if (typeof value === "bigint") {
+        // Convert BigInt to Number (may lose precision for very large values)
+        return Number(value);
+      }
+      return value;
+  }
+}
+
+/**
+ * Returns a BigInt as a number when it is exactly representable
+ */
+function exactNumber(value: bigint): number | string {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) &&
+    value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value.toString();
+}
+
+/**
+ * Reads little-endian 32-bit words as a two's complement integer
+ */
+function wordsToBigInt(words: ArrayLike<number>): bigint {
+  let result = 0n;
+  for (let i = words.length - 1; i >= 0; i--) {
+    result = (result << 32n) | BigInt(words[i] >>> 0);
+  }
+  const bits = BigInt(words.length * 32);
+  return result >> (bits - 1n) ? result - (1n << bits) : result;
+}
+
+function decimalToJS(unscaled: bigint, scale: number): number | string {
+  const digits = (unscaled < 0n ? -unscaled : unscaled)
+    .toString()
+    .padStart(scale + 1, "0");
+  const text =
+    (unscaled < 0n ? "-" : "") +
+    (scale > 0 ? `${digits.slice(0, -scale)}.${digits.slice(-scale)}` : digits);
+  // Up to 15 significant digits survive a round trip through a double
+  return digits.replace(/^0+/, "").length <= 15 ? Number(text) : text;
+}
+
+function formatTimeOfDay(milliseconds: number): string {
+  const pad = (n: number) => String(Math.floor(n)).padStart(2, "0");
+  const time = `${pad(milliseconds / 3_600_000)}:${pad((milliseconds / 60_000) % 60)}:${pad((milliseconds / 1000) % 60)}`;
+  const fraction = Math.round((milliseconds % 1000) * 1000);
+  return fraction === 0
+    ? time
+    : `${time}.${String(fraction).padStart(6, "0").replace(/0+$/, "")}`;
+}
+
 /**
  * Converts Apache Arrow Table back to ParsedDataset
  *
@@ -370,35 +704,12 @@ export function arrowToDataset(table: arrow.Table): ParsedDataset {
     for (let colIndex = 0; colIndex < table.numCols; colIndex++) {
       const column = table.getChildAt(colIndex);
       const fieldName = schema.fields[colIndex].name;
-      const fieldType = schema.fields[colIndex].type;
 
       if (column) {
-        const value = column.get(rowIndex);
-
-        // Convert Arrow value to JavaScript primitive
-        if (value === null || value === undefined) {
-          row[fieldName] = null;
-        } else if (fieldType === "date") {
-          // Handle date/timestamp conversion - Arrow returns numbers or BigInts
-          if (typeof value === "number") {
-            row[fieldName] = new Date(value);
-          } else if (typeof value === "bigint") {
-            // Convert BigInt timestamp to Date (microsecond/nanosecond precision)
-            row[fieldName] = new Date(Number(value / 1000n));
-          } else if (value instanceof Date) {
-            row[fieldName] = value;
-          } else {
-            // Fallback: try to parse as timestamp
-            row[fieldName] = new Date(Number(value));
-          }
-        } else if (value instanceof Date) {
-          row[fieldName] = value;
-        } else if (typeof value === "bigint") {
-          // Convert BigInt to Number (may lose precision for very large values)
-          row[fieldName] = Number(value);
-        } else {
-          row[fieldName] = value;
-        }
+        row[fieldName] = arrowValueToJS(
+          column.get(rowIndex),
+          schema.fields[colIndex]
+        );
       } else {
         row[fieldName] = null;
       }
@@ -2,7 +2,7 @@
  * Core Schema Converters
  *
  * Data format conversion utilities for Open Dashboard.
- * Enables transformation between ParsedDataset, Apache Arrow, and Arrow IPC formats.
+ * Enables transformation between ParsedDataset, Apache Arrow, Arrow IPC and Parquet formats.
  */
 
 // Arrow Table Converters
@@ -11,6 +11,8 @@ export {
   arrowTableSchemaToDatasetSchema,
   datasetToArrow,
   arrowToDataset,
+  arrowValueToJS,
+  coerceValue,
 } from "./arrowConverter";
 
 // Arrow IPC (Binary Serialization) Converters
@@ -28,6 +30,14 @@ export {
   mergeIPCFiles,
 } from "./arrowIPCConverter";
 
+// Parquet Converters
+export {
+  datasetToParquet,
+  parquetToDataset,
+  getParquetMetadata,
+  isValidParquet,
+} from "./parquetConverter";
+
 // Type Mapping Utilities
 export {
   dataFieldToArrowType,
@@ -41,3 +51,4 @@ export { normalizeSchema } from "../utils/schemaNormaliser";
 
 // Type exports
 export type { IPCFormat, IPCOptions } from "./arrowIPCConverter";
+export type { ParquetReadOptions } from "./parquetConverter";
@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import {
+  datasetToParquet,
+  parquetToDataset,
+  getParquetMetadata,
+  isValidParquet,
+} from "./parquetConverter";
+import type { ParsedDataset } from "@open-dashboard/shared/types";
+import { datasetId } from "../utils/fingerprint";
+
+function createDataset(rowCount = 3): ParsedDataset {
+  const regions = ["north", "south", "east"];
+
+  return {
+    id: "test-parquet",
+    name: "sales",
+    sourceType: "csv",
+    createdAt: new Date(),
+    schema: {
+      fields: [
+        { name: "id", type: "number", nullable: false },
+        { name: "product", type: "string", nullable: true },
+        { name: "orderedAt", type: "date", nullable: true },
+        { name: "shipped", type: "boolean", nullable: true },
+        {
+          name: "region",
+          type: "categorical",
+          nullable: true,
+          metadata: { confidence: 0.95 },
+        },
+      ],
+    },
+    data: Array.from({ length: rowCount }, (_, i) => ({
+      id: i + 1,
+      product: i === 1 ? null : `Product ${i + 1}`,
+      orderedAt: new Date(Date.UTC(2024, 0, i + 1, 9, 30)),
+      shipped: i % 2 === 0,
+      region: regions[i % regions.length],
+    })),
+  };
+}
+
+describe("parquetConverter", () => {
+  describe("datasetToParquet", () => {
+    it("should write a Parquet file", async () => {
+      const { buffer, warnings } = await datasetToParquet(createDataset());
+
+      expect(buffer).toBeInstanceOf(ArrayBuffer);
+      expect(isValidParquet(buffer)).toBe(true);
+      expect(warnings).toHaveLength(0);
+    });
+
+    it("should use snappy compression and format version 2 by default", async () => {
+      const { buffer } = await datasetToParquet(createDataset());
+
+      const metadata = await getParquetMetadata(buffer);
+
+      expect(metadata.compression).toBe("snappy");
+      expect(metadata.version).toBe(2);
+      expect(metadata.numRows).toBe(3);
+    });
+
+    it.each(["uncompressed", "gzip", "zstd", "lz4"] as const)(
+      "should honor %s compression",
+      async (compression) => {
+        const { buffer } = await datasetToParquet(createDataset(), {
+          compression,
+        });
+
+        const metadata = await getParquetMetadata(buffer);
+
+        expect(metadata.compression).toBe(
+          compression === "lz4" ? "lz4_raw" : compression
+        );
+      }
+    );
+
+    it("should honor version and row group size", async () => {
+      const { buffer } = await datasetToParquet(createDataset(10), {
+        version: "1.0",
+        rowGroupSize: 4,
+        pageSize: 1024,
+      });
+
+      const metadata = await getParquetMetadata(buffer);
+
+      expect(metadata.version).toBe(1);
+      expect(metadata.rowGroups).toEqual([4, 4, 2]);
+    });
+
+    it("should write empty datasets", async () => {
+      const dataset = { ...createDataset(), data: [] };
+
+      const { buffer, warnings } = await datasetToParquet(dataset);
+      const result = await parquetToDataset(buffer);
+
+      expect(warnings).toContain(
+        "Dataset is empty - creating table with schema only"
+      );
+      expect(result.data).toEqual([]);
+      expect(result.schema.fields).toHaveLength(5);
+    });
+
+    it("should throw for invalid datasets", async () => {
+      const dataset = { ...createDataset(), schema: { fields: [] } };
+
+      await expect(datasetToParquet(dataset)).rejects.toThrow(
+        "Invalid dataset"
+      );
+    });
+  });
+
+  describe("parquetToDataset", () => {
+    it("should round-trip data and field types", async () => {
+      const dataset = createDataset();
+      const { buffer } = await datasetToParquet(dataset);
+
+      const result = await parquetToDataset(buffer, { name: "sales.parquet" });
+
+      expect(result.name).toBe("sales.parquet");
+      expect(result.sourceType).toBe("parquet");
+      expect(result.id).toBe(datasetId(result.data, result.schema));
+      expect(result.schema.fields.map((f) => [f.name, f.type])).toEqual([
+        ["id", "number"],
+        ["product", "string"],
+        ["orderedAt", "date"],
+        ["shipped", "boolean"],
+        ["region", "categorical"],
+      ]);
+      expect(result.data).toEqual(dataset.data);
+    });
+
+    it("should keep field nullability and metadata", async () => {
+      const { buffer } = await datasetToParquet(createDataset());
+
+      const result = await parquetToDataset(buffer);
+
+      expect(result.schema.fields[0].nullable).toBe(false);
+      expect(result.schema.fields[4].metadata).toEqual({
+        confidence: "0.95",
+      });
+    });
+
+    it("should read selected columns and limit rows", async () => {
+      const { buffer } = await datasetToParquet(createDataset(10));
+
+      const result = await parquetToDataset(new Uint8Array(buffer), {
+        columns: ["id", "region"],
+        limit: 2,
+      });
+
+      expect(result.data).toEqual([
+        { id: 1, region: "north" },
+        { id: 2, region: "south" },
+      ]);
+    });
+
+    it("should throw for unknown columns", async () => {
+      const { buffer } = await datasetToParquet(createDataset());
+
+      await expect(
+        parquetToDataset(buffer, { columns: ["id", "missing"] })
+      ).rejects.toThrow("Columns not found in Parquet file: missing");
+    });
+
+    it("should throw for buffers that are not Parquet", async () => {
+      await expect(parquetToDataset(new ArrayBuffer(0))).rejects.toThrow(
+        "buffer is empty"
+      );
+      await expect(
+        parquetToDataset(new TextEncoder().encode("not parquet"))
+      ).rejects.toThrow("missing PAR1 magic bytes");
+    });
+
+    it("should throw for corrupt Parquet files", async () => {
+      const corrupt = new TextEncoder().encode("PAR1 garbage PAR1");
+
+      await expect(parquetToDataset(corrupt)).rejects.toThrow(
+        "Failed to parse Parquet"
+      );
+    });
+  });
+
+  describe("isValidParquet", () => {
+    it("should require magic bytes at both ends", () => {
+      expect(isValidParquet(new TextEncoder().encode("PAR1....PAR1"))).toBe(
+        true
+      );
+      expect(isValidParquet(new TextEncoder().encode("PAR1....."))).toBe(false);
+      expect(isValidParquet(new ArrayBuffer(4))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import * as arrow from "apache-arrow";
+import type { ParsedDataset } from "@open-dashboard/shared/types";
+import type { Compression, WriterProperties } from "parquet-wasm";
+import type { ParquetOptions } from "../types/converters";
+import { datasetId } from "../utils/fingerprint";
+import { datasetToArrow, arrowToDataset } from "./arrowConverter";
+
+/**
+ * Parquet Converter
+ *
+ * Reads and writes Parquet through parquet-wasm, using Arrow IPC streams to
+ * move tables in and out of WebAssembly memory. Field types go through the
+ * same typeMapper as the Arrow converters, and field metadata is kept in the
+ * Arrow schema that parquet-wasm embeds in the file.
+ */
+
+export interface ParquetReadOptions {
+  /** Dataset name (default: "parquet-dataset") */
+  name?: string;
+  /** Only read these columns */
+  columns?: string[];
+  /** Maximum number of rows to read */
+  limit?: number;
+}
+
+type ParquetWasm = typeof import("parquet-wasm");
+
+// Parquet magic bytes at the start and end of every file
+const PARQUET_MAGIC = new Uint8Array([0x50, 0x41, 0x52, 0x31]); // "PAR1"
+
+let parquetWasm: Promise<ParquetWasm> | undefined;
+
+/**
+ * Loads parquet-wasm once. The browser build must be initialised with its
+ * .wasm file; the Node build loads it on import.
+ */
+function loadParquetWasm(): Promise<ParquetWasm> {
+  parquetWasm ??= import("parquet-wasm").then(async (module) => {
+    if (typeof module.default === "function") {
+      await module.default();
+    }
+    return module;
+  });
+  return parquetWasm;
+}
+
+/**
+ * Checks for the "PAR1" magic bytes at both ends of a buffer
+ */
+export function isValidParquet(buffer: ArrayBuffer | Uint8Array): boolean {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  if (bytes.length < PARQUET_MAGIC.length * 2) {
+    return false;
+  }
+
+  const tail = bytes.length - PARQUET_MAGIC.length;
+  return PARQUET_MAGIC.every(
+    (byte, i) => bytes[i] === byte && bytes[tail + i] === byte
+  );
+}
+
+/**
+ * Converts ParsedDataset to a Parquet file
+ *
+ * @param dataset - Dataset to convert
+ * @param options - Compression (default "snappy"), format version (default
+ *   "2.0"), data page size in bytes and row group size in rows
+ * @returns Parquet buffer and any conversion warnings
+ *
+ * @example
+ * ```typescript
+ * const { buffer } = await datasetToParquet(dataset, {
+ *   compression: 'zstd',
+ *   rowGroupSize: 50_000
+ * });
+ * await saveFile('data.parquet', buffer);
+ * ```
+ */
+export async function datasetToParquet(
+  dataset: ParsedDataset,
+  options?: ParquetOptions
+): Promise<{
+  buffer: ArrayBuffer;
+  warnings: string[];
+}> {
+  const { table, warnings } = datasetToArrow(dataset);
+  const parquet = await loadParquetWasm();
+
+  try {
+    const wasmTable = parquet.Table.fromIPCStream(
+      arrow.tableToIPC(table, "stream")
+    );
+    const bytes = parquet.writeParquet(
+      wasmTable,
+      buildWriterProperties(parquet, options)
+    );
+
+    return { buffer: toArrayBuffer(bytes), warnings };
+  } catch (error) {
+    throw new Error(
+      `Failed to convert to Parquet: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Converts a Parquet file to ParsedDataset
+ *
+ * @param buffer - Parquet file contents
+ * @param options - Dataset name, column selection and row limit
+ * @returns Parsed dataset
+ *
+ * @example
+ * ```typescript
+ * const buffer = await loadFile('data.parquet');
+ * const dataset = await parquetToDataset(buffer, { name: 'data.parquet' });
+ * ```
+ */
+export async function parquetToDataset(
+  buffer: ArrayBuffer | Uint8Array,
+  options?: ParquetReadOptions
+): Promise<ParsedDataset> {
+  if (!buffer || buffer.byteLength === 0) {
+    throw new Error("Invalid buffer: buffer is empty or null");
+  }
+  if (!isValidParquet(buffer)) {
+    throw new Error("Invalid Parquet file: missing PAR1 magic bytes");
+  }
+
+  const parquet = await loadParquetWasm();
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+
+  let table: arrow.Table;
+  try {
+    const wasmTable = parquet.readParquet(bytes, {
+      columns: options?.columns,
+      limit: options?.limit,
+    });
+    table = arrow.tableFromIPC(wasmTable.intoIPCStream());
+  } catch (error) {
+    throw new Error(
+      `Failed to parse Parquet: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (options?.columns) {
+    const names = new Set(table.schema.fields.map((field) => field.name));
+    const missing = options.columns.filter((column) => !names.has(column));
+    if (missing.length > 0) {
+      throw new Error(
+        `Columns not found in Parquet file: ${missing.join(", ")}`
+      );
+    }
+    // parquet-wasm may return every column, so project explicitly
+    table = table.select(options.columns);
+  }
+
+  const dataset = arrowToDataset(table);
+  return {
+    ...dataset,
+    id: datasetId(dataset.data, dataset.schema),
+    name: options?.name ?? "parquet-dataset",
+    sourceType: "parquet",
+  };
+}
+
+/**
+ * Gets metadata from a Parquet buffer without decoding its rows
+ *
+ * @param buffer - Parquet file contents
+ * @returns Metadata information
+ */
+export async function getParquetMetadata(
+  buffer: ArrayBuffer | Uint8Array
+): Promise<{
+  numRows: number;
+  /** Number of rows in each row group */
+  rowGroups: number[];
+  /** Codec of the first column chunk, e.g. "zstd" */
+  compression: string;
+  /** Parquet format version (1 or 2) */
+  version: number;
+  createdBy?: string;
+  fileSize: number;
+}> {
+  if (!isValidParquet(buffer)) {
+    throw new Error("Invalid Parquet file: missing PAR1 magic bytes");
+  }
+
+  const parquet = await loadParquetWasm();
+  try {
+    const file = await parquet.ParquetFile.fromFile(new Blob([buffer]));
+    const metadata = file.metadata();
+    const fileMetadata = metadata.fileMetadata();
+    const rowGroups = metadata.rowGroups();
+    const codec = rowGroups[0]?.column(0).compression();
+
+    return {
+      numRows: fileMetadata.numRows(),
+      rowGroups: rowGroups.map((group) => group.numRows()),
+      compression:
+        codec === undefined
+          ? "uncompressed"
+          : parquet.Compression[codec].toLowerCase(),
+      version: fileMetadata.version(),
+      createdBy: fileMetadata.createdBy(),
+      fileSize: buffer.byteLength,
+    };
+  } catch (error) {
+    throw new Error(
+      `Failed to read Parquet metadata: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Maps ParquetOptions onto parquet-wasm writer properties
+ */
+function buildWriterProperties(
+  parquet: ParquetWasm,
+  options?: ParquetOptions
+): WriterProperties {
+  const compression: Record<
+    NonNullable<ParquetOptions["compression"]>,
+    Compression
+  > = {
+    uncompressed: parquet.Compression.UNCOMPRESSED,
+    snappy: parquet.Compression.SNAPPY,
+    gzip: parquet.Compression.GZIP,
+    zstd: parquet.Compression.ZSTD,
+    lz4: parquet.Compression.LZ4_RAW,
+  };
+
+  let builder = new parquet.WriterPropertiesBuilder()
+    .setCompression(compression[options?.compression ?? "snappy"])
+    .setWriterVersion(
+      options?.version === "1.0"
+        ? parquet.WriterVersion.V1
+        : parquet.WriterVersion.V2
+    );
+
+  if (options?.pageSize !== undefined) {
+    builder = builder.setDataPageSizeLimit(options.pageSize);
+  }
+  if (options?.rowGroupSize !== undefined) {
+    builder = builder.setMaxRowGroupSize(options.rowGroupSize);
+  }
+
+  return builder.build();
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(bytes.byteLength);
+  new Uint8Array(buffer).set(bytes);
+  return buffer;
+}
@@ -2,7 +2,7 @@
  * @open-dashboard/core-schema
  *
  * Schema inference, normalization, and format conversion utilities.
- * Supports Apache Arrow, Arrow IPC and dataset transformations.
+ * Supports Apache Arrow, Arrow IPC, Parquet and dataset transformations.
  */
 
 // Re-export all converters
@@ -11,5 +11,12 @@ export * from "./converters";
 // Re-export utilities
 export * from "./utils/typeMapper";
 export * from "./utils/schemaNormaliser";
+export * from "./utils/dateFormat";
+export * from "./utils/profiler";
+export * from "./utils/hyperLogLog";
+export * from "./utils/fingerprint";
 
-export type { ArrowConversionOptions } from "./types/converters";
+export type {
+  ArrowConversionOptions,
+  ParquetOptions,
+} from "./types/converters";
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  isValidDateFormat,
+  parseDateWithFormat,
+  parseOffset,
+} from "./dateFormat";
+
+describe("dateFormat", () => {
+  describe("parseDateWithFormat", () => {
+    it.each([
+      ["05/03/2024", "DD/MM/YYYY", "2024-03-05T00:00:00.000Z"],
+      ["05/03/2024", "MM/DD/YYYY", "2024-05-03T00:00:00.000Z"],
+      ["2024-03", "YYYY-MM", "2024-03-01T00:00:00.000Z"],
+      ["Mar 5, 2024", "MMM D, YYYY", "2024-03-05T00:00:00.000Z"],
+      ["5 September 24", "D MMMM YY", "2024-09-05T00:00:00.000Z"],
+      ["3/5/2024 12:15 AM", "M/D/YYYY h:mm A", "2024-03-05T00:15:00.000Z"],
+      ["3/5/2024 1:15 pm", "M/D/YYYY h:mm A", "2024-03-05T13:15:00.000Z"],
+      [
+        "2024-03-05T10:30:00.5+02:00",
+        "YYYY-MM-DDTHH:mm:ss.SSSZ",
+        "2024-03-05T08:30:00.500Z",
+      ],
+      ["20240305", "YYYYMMDD", "2024-03-05T00:00:00.000Z"],
+      ["Q1 2024", "[Q1] YYYY", "2024-01-01T00:00:00.000Z"],
+    ])("should parse %s as %s", (value, format, expected) => {
+      const result = parseDateWithFormat(value, format);
+
+      expect(
+        result === undefined ? undefined : new Date(result).toISOString()
+      ).toBe(expected);
+    });
+
+    it("should reject values that do not match the format", () => {
+      expect(parseDateWithFormat("2024-03-05", "DD/MM/YYYY")).toBeUndefined();
+      expect(parseDateWithFormat("Foo 5, 2024", "MMM D, YYYY")).toBeUndefined();
+    });
+
+    it("should reject impossible dates and times", () => {
+      expect(parseDateWithFormat("30/02/2024", "DD/MM/YYYY")).toBeUndefined();
+      expect(parseDateWithFormat("29/02/2023", "DD/MM/YYYY")).toBeUndefined();
+      expect(
+        parseDateWithFormat("2024-03-05 24:00", "YYYY-MM-DD HH:mm")
+      ).toBeUndefined();
+      expect(
+        parseDateWithFormat("3/5/2024 13:00 PM", "M/D/YYYY h:mm A")
+      ).toBeUndefined();
+    });
+
+    it("should read Unix timestamps", () => {
+      const expected = Date.UTC(2024, 2, 5, 10);
+
+      expect(parseDateWithFormat(expected / 1000, "X")).toBe(expected);
+      expect(parseDateWithFormat(String(expected / 1000), "X")).toBe(expected);
+      expect(parseDateWithFormat(expected, "x")).toBe(expected);
+      expect(parseDateWithFormat(expected, "YYYY-MM-DD")).toBeUndefined();
+    });
+  });
+
+  describe("parseOffset", () => {
+    it("should read offsets in minutes", () => {
+      expect(parseOffset("Z")).toBe(0);
+      expect(parseOffset("+02:00")).toBe(120);
+      expect(parseOffset("-0530")).toBe(-330);
+      expect(parseOffset("+09")).toBe(540);
+    });
+  });
+
+  describe("isValidDateFormat", () => {
+    it("should require at least one token", () => {
+      expect(isValidDateFormat("DD/MM/YYYY")).toBe(true);
+      expect(isValidDateFormat("[today]")).toBe(false);
+      expect(isValidDateFormat("")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Date Format Parsing
+ *
+ * Parses date strings with an explicit format, so that converted values do
+ * not depend on how `new Date()` guesses. Formats use moment-style tokens:
+ *
+ * - `YYYY` / `YY` - year (two-digit years are read as 1969-2068)
+ * - `MMMM` / `MMM` / `MM` / `M` - month name, abbreviation or number
+ * - `DD` / `D` - day of month
+ * - `HH` / `H` - hour (0-23); `hh` / `h` with `A` - hour (1-12) and AM/PM
+ * - `mm` / `ss` / `SSS` - minutes, seconds and fractions of a second
+ * - `Z` - UTC offset ("Z", "+02:00" or "+0200")
+ * - `X` / `x` - Unix timestamp in seconds / milliseconds
+ *
+ * Text in square brackets is matched literally. Values without an offset
+ * are read as UTC.
+ *
+ * Times of day and ISO 8601 durations, which have no format of their own,
+ * are read by `parseTimeOfDay` and `parseISODuration`.
+ */
+
+const MONTH_NAMES = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const TOKEN_PATTERN =
+  /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|hh|h|mm|ss|SSS|A|Z|X|x/g;
+
+const TOKEN_REGEX: Record<string, string> = {
+  YYYY: "(\\d{4})",
+  YY: "(\\d{2})",
+  MMMM: "([A-Za-z]+)",
+  MMM: "([A-Za-z]{3})\\.?",
+  MM: "(\\d{2})",
+  M: "(\\d{1,2})",
+  DD: "(\\d{2})",
+  D: "(\\d{1,2})",
+  HH: "(\\d{2})",
+  H: "(\\d{1,2})",
+  hh: "(\\d{2})",
+  h: "(\\d{1,2})",
+  mm: "(\\d{2})",
+  ss: "(\\d{2})",
+  SSS: "(\\d{1,9})",
+  A: "([AaPp][Mm])",
+  Z: "(Z|[+-]\\d{2}(?::?\\d{2})?)",
+  X: "(-?\\d+(?:\\.\\d+)?)",
+  x: "(-?\\d+)",
+};
+
+interface CompiledDateFormat {
+  regex: RegExp;
+  tokens: string[];
+}
+
+const compiledFormats = new Map<string, CompiledDateFormat>();
+
+function compileDateFormat(format: string): CompiledDateFormat {
+  const cached = compiledFormats.get(format);
+  if (cached) return cached;
+
+  const tokens: string[] = [];
+  let source = "";
+  let lastIndex = 0;
+  for (const match of format.matchAll(TOKEN_PATTERN)) {
+    source += escapeRegExp(format.slice(lastIndex, match.index));
+    if (match[1] !== undefined) {
+      source += escapeRegExp(match[1]);
+    } else {
+      tokens.push(match[0]);
+      source += TOKEN_REGEX[match[0]];
+    }
+    lastIndex = match.index + match[0].length;
+  }
+  source += escapeRegExp(format.slice(lastIndex));
+
+  const compiled = { regex: new RegExp(`^${source}$`, "i"), tokens };
+  compiledFormats.set(format, compiled);
+  return compiled;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Checks whether a format contains at least one date token
+ */
+export function isValidDateFormat(format: string): boolean {
+  return format.trim() !== "" && compileDateFormat(format).tokens.length > 0;
+}
+
+/**
+ * Parses a date with an exact format
+ *
+ * @param value - Date string, or a number for the `X` and `x` formats
+ * @param format - Format made of the tokens listed above
+ * @returns Milliseconds since the Unix epoch, or undefined if the value does
+ * not match the format or is not a real date
+ *
+ * @example
+ * ```typescript
+ * parseDateWithFormat("05/03/2024", "DD/MM/YYYY"); // 2024-03-05T00:00:00Z
+ * parseDateWithFormat("2024-03-05T10:00:00+01:00", "YYYY-MM-DDTHH:mm:ssZ");
+ * parseDateWithFormat(1709632800, "X");
+ * ```
+ */
+export function parseDateWithFormat(
+  value: string | number,
+  format: string
+): number | undefined {
+  if (typeof value === "number") {
+    if (!isFinite(value)) return undefined;
+    if (format === "X") return Math.round(value * 1000);
+    if (format === "x") return value;
+    return undefined;
+  }
+
+  const { regex, tokens } = compileDateFormat(format);
+  const match = regex.exec(value.trim());
+  if (!match) return undefined;
+
+  let year = 1970;
+  let month = 1;
+  let day = 1;
+  let hour = 0;
+  let minute = 0;
+  let second = 0;
+  let millisecond = 0;
+  let offsetMinutes = 0;
+  let meridiem: string | undefined;
+
+  for (const [i, token] of tokens.entries()) {
+    const text = match[i + 1];
+    switch (token) {
+      case "YYYY":
+        year = Number(text);
+        break;
+      case "YY":
+        year = Number(text) + (Number(text) > 68 ? 1900 : 2000);
+        break;
+      case "MMMM":
+      case "MMM": {
+        const name = text.toLowerCase();
+        month =
+          MONTH_NAMES.findIndex((candidate) =>
+            token === "MMMM" ? candidate === name : candidate.startsWith(name)
+          ) + 1;
+        if (month === 0) return undefined;
+        break;
+      }
+      case "MM":
+      case "M":
+        month = Number(text);
+        break;
+      case "DD":
+      case "D":
+        day = Number(text);
+        break;
+      case "HH":
+      case "H":
+      case "hh":
+      case "h":
+        hour = Number(text);
+        break;
+      case "mm":
+        minute = Number(text);
+        break;
+      case "ss":
+        second = Number(text);
+        break;
+      case "SSS":
+        millisecond = Math.round(Number(`0.${text}`) * 1000);
+        break;
+      case "A":
+        meridiem = text.toUpperCase();
+        break;
+      case "Z":
+        offsetMinutes = parseOffset(text);
+        break;
+      case "X":
+        return Math.round(Number(text) * 1000);
+      case "x":
+        return Number(text);
+    }
+  }
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = (hour % 12) + (meridiem === "PM" ? 12 : 0);
+  }
+
+  if (
+    month < 1 ||
+    month > 12 ||
+    day < 1 ||
+    day > daysInMonth(year, month) ||
+    hour > 23 ||
+    minute > 59 ||
+    second > 59
+  ) {
+    return undefined;
+  }
+
+  return (
+    Date.UTC(year, month - 1, day, hour, minute, second, millisecond) -
+    offsetMinutes * 60_000
+  );
+}
+
+/**
+ * Reads a UTC offset such as "Z", "+02:00" or "-0530" in minutes
+ */
+export function parseOffset(offset: string): number {
+  if (offset.toUpperCase() === "Z") return 0;
+  const digits = offset.slice(1).replace(":", "");
+  const minutes =
+    Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0);
+  return offset.startsWith("-") ? -minutes : minutes;
+}
+
+/**
+ * Reads a time of day in milliseconds since midnight
+ */
+export function parseTimeOfDay(value: string): number | undefined {
+  const match =
+    /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?\s*([AaPp][Mm])?$/.exec(
+      value.trim()
+    );
+  if (!match) return undefined;
+
+  const [, h, m, s = "0", fraction = "", meridiem] = match;
+  let hours = Number(h);
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return undefined;
+    hours = (hours % 12) + (meridiem.toUpperCase() === "PM" ? 12 : 0);
+  }
+  if (hours > 23 || Number(m) > 59 || Number(s) > 59) return undefined;
+
+  return (
+    (hours * 3600 + Number(m) * 60 + Number(s)) * 1000 +
+    Number(`0.${fraction || "0"}`) * 1000
+  );
+}
+
+/**
+ * Reads an ISO 8601 duration ("P1DT2H30M", "PT0.5S", "P2W") in milliseconds.
+ * Years and months are not supported because their length varies.
+ */
+export function parseISODuration(value: string): number | undefined {
+  const match =
+    /^(-)?P(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i.exec(
+      value.trim()
+    );
+  if (!match || !/\d/.test(value) || /T$/i.test(value.trim())) {
+    return undefined;
+  }
+
+  const [, negative, weeks, days, hours, minutes, seconds] = match;
+  const milliseconds =
+    (Number(weeks ?? 0) * 604_800 +
+      Number(days ?? 0) * 86_400 +
+      Number(hours ?? 0) * 3600 +
+      Number(minutes ?? 0) * 60 +
+      Number(seconds ?? 0)) *
+    1000;
+  return negative ? -milliseconds : milliseconds;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
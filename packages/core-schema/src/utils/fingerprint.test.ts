@@ -0,0 +1,250 @@
+import { describe, it, expect } from "vitest";
+import type { DataField, ParsedDataset } from "@open-dashboard/shared/types";
+import {
+  compareDatasets,
+  datasetId,
+  fingerprintDataset,
+  hashRows,
+  hashSchema,
+} from "./fingerprint";
+
+function createDataset(
+  data: Record<string, unknown>[],
+  fields: DataField[] = [
+    { name: "city", type: "string" },
+    { name: "population", type: "integer" },
+  ]
+): ParsedDataset {
+  return {
+    id: "cities",
+    name: "cities.csv",
+    data,
+    schema: { fields },
+    sourceType: "csv",
+    createdAt: new Date(),
+  };
+}
+
+const rows = [
+  { city: "Paris", population: 2100000 },
+  { city: "Lyon", population: 520000 },
+];
+
+describe("fingerprint", () => {
+  describe("hashRows", () => {
+    it("should give the same hash for equal rows", () => {
+      const schema = createDataset(rows).schema;
+      const copy = rows.map((row) => ({ ...row }));
+
+      expect(hashRows(copy, schema)).toBe(hashRows(rows, schema));
+      expect(hashRows(rows, schema)).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it("should depend on values and row order", () => {
+      const schema = createDataset(rows).schema;
+      const hash = hashRows(rows, schema);
+
+      expect(hashRows([...rows].reverse(), schema)).not.toBe(hash);
+      expect(
+        hashRows([rows[0], { city: "Lyon", population: 520001 }], schema)
+      ).not.toBe(hash);
+      expect(hashRows([...rows, rows[1]], schema)).not.toBe(hash);
+    });
+
+    it("should read values in field order and ignore key order", () => {
+      const schema = createDataset(rows).schema;
+      const reordered = rows.map(({ city, population }) => ({
+        population,
+        city,
+      }));
+
+      expect(hashRows(reordered, schema)).toBe(hashRows(rows, schema));
+    });
+
+    it("should hash dates and big integers", () => {
+      const schema = {
+        fields: [
+          { name: "day", type: "date" as const },
+          { name: "count", type: "integer" as const },
+        ],
+      };
+      const hash = (day: string, count: bigint) =>
+        hashRows([{ day: new Date(day), count }], schema);
+
+      expect(hash("2024-01-01", 1n)).toBe(hash("2024-01-01", 1n));
+      expect(hash("2024-01-02", 1n)).not.toBe(hash("2024-01-01", 1n));
+      expect(hash("2024-01-01", 2n)).not.toBe(hash("2024-01-01", 1n));
+    });
+
+    it("should treat missing and null values alike", () => {
+      const schema = createDataset(rows).schema;
+
+      expect(hashRows([{ city: "Paris" }], schema)).toBe(
+        hashRows([{ city: "Paris", population: null }], schema)
+      );
+    });
+  });
+
+  describe("hashSchema", () => {
+    it("should depend on field names, types and order only", () => {
+      const hash = hashSchema(createDataset(rows).schema);
+
+      expect(
+        hashSchema({
+          fields: [
+            { name: "city", type: "string", nullable: false },
+            {
+              name: "population",
+              type: "integer",
+              metadata: { semanticType: "count" },
+            },
+          ],
+        })
+      ).toBe(hash);
+      expect(
+        hashSchema({
+          fields: [
+            { name: "city", type: "string" },
+            { name: "population", type: "number" },
+          ],
+        })
+      ).not.toBe(hash);
+      expect(
+        hashSchema({
+          fields: [
+            { name: "population", type: "integer" },
+            { name: "city", type: "string" },
+          ],
+        })
+      ).not.toBe(hash);
+    });
+
+    it("should include nested fields", () => {
+      const list = (type: "string" | "integer") => ({
+        fields: [
+          {
+            name: "tags",
+            type: "list" as const,
+            items: { name: "item", type },
+          },
+        ],
+      });
+
+      expect(hashSchema(list("string"))).not.toBe(hashSchema(list("integer")));
+    });
+  });
+
+  describe("fingerprintDataset", () => {
+    it("should return the hashes the dataset id is built from", () => {
+      const dataset = createDataset(rows);
+      const fingerprint = fingerprintDataset(dataset);
+
+      expect(fingerprint.rowCount).toBe(2);
+      expect(datasetId(dataset.data, dataset.schema)).toBe(
+        `${fingerprint.contentHash}-${fingerprint.schemaHash}`
+      );
+    });
+  });
+
+  describe("compareDatasets", () => {
+    it("should report identical datasets", () => {
+      const comparison = compareDatasets(
+        createDataset(rows.map((row) => ({ ...row }))),
+        createDataset(rows)
+      );
+
+      expect(comparison).toEqual({
+        relation: "identical",
+        addedRows: 0,
+        removedRows: 0,
+        addedFields: [],
+        removedFields: [],
+        changedFields: [],
+      });
+    });
+
+    it("should report a superset when rows were only added", () => {
+      const comparison = compareDatasets(
+        createDataset([{ city: "Nice", population: 340000 }, ...rows]),
+        createDataset(rows)
+      );
+
+      expect(comparison.relation).toBe("superset");
+      expect(comparison.addedRows).toBe(1);
+      expect(comparison.removedRows).toBe(0);
+    });
+
+    it("should count duplicate rows as often as they occur", () => {
+      const comparison = compareDatasets(
+        createDataset(rows),
+        createDataset([...rows, rows[0]])
+      );
+
+      expect(comparison.relation).toBe("refresh");
+      expect(comparison.removedRows).toBe(1);
+    });
+
+    it("should report a refresh when rows changed", () => {
+      const comparison = compareDatasets(
+        createDataset([rows[0], { city: "Lyon", population: 530000 }]),
+        createDataset(rows)
+      );
+
+      expect(comparison.relation).toBe("refresh");
+      expect(comparison.addedRows).toBe(1);
+      expect(comparison.removedRows).toBe(1);
+    });
+
+    it("should report a refresh when fields were added or widened", () => {
+      const comparison = compareDatasets(
+        createDataset(
+          rows.map((row) => ({ ...row, country: "FR" })),
+          [
+            { name: "city", type: "string" },
+            { name: "population", type: "decimal" },
+            { name: "country", type: "string" },
+          ]
+        ),
+        createDataset(rows)
+      );
+
+      expect(comparison).toEqual({
+        relation: "refresh",
+        addedRows: 0,
+        removedRows: 0,
+        addedFields: ["country"],
+        removedFields: [],
+        changedFields: [{ name: "population", from: "integer", to: "decimal" }],
+      });
+    });
+
+    it("should report different datasets when fields were removed", () => {
+      const comparison = compareDatasets(
+        createDataset(
+          rows.map(({ city }) => ({ city })),
+          [{ name: "city", type: "string" }]
+        ),
+        createDataset(rows)
+      );
+
+      expect(comparison.relation).toBe("different");
+      expect(comparison.removedFields).toEqual(["population"]);
+      expect(comparison.removedRows).toBe(0);
+    });
+
+    it("should report different datasets when a type narrowed", () => {
+      const comparison = compareDatasets(
+        createDataset(rows, [
+          { name: "city", type: "categorical" },
+          { name: "population", type: "integer" },
+        ]),
+        createDataset(rows)
+      );
+
+      expect(comparison.relation).toBe("different");
+      expect(comparison.changedFields).toEqual([
+        { name: "city", from: "string", to: "categorical" },
+      ]);
+    });
+  });
+});
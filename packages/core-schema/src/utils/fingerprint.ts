@@ -0,0 +1,243 @@
+/**
+ * Dataset fingerprints
+ *
+ * Datasets are identified by a hash of their rows and a hash of their
+ * schema, so parsing the same input twice gives the same id. Fingerprints
+ * also tell whether a newly parsed dataset repeats, extends or refreshes
+ * one that is already loaded.
+ *
+ * The hashes are 64-bit and not cryptographic: they are meant for spotting
+ * duplicates, not for detecting tampering.
+ */
+
+import type {
+  DataField,
+  DatasetSchema,
+  ParsedDataset,
+  SchemaChanges,
+} from "@open-dashboard/shared/types";
+import { widenField } from "./schemaNormaliser";
+
+export interface DatasetFingerprint {
+  /** Hash of the rows, in order, read through the schema's fields */
+  contentHash: string;
+  /** Hash of the field names and types */
+  schemaHash: string;
+  rowCount: number;
+}
+
+/**
+ * How a newly parsed dataset relates to an existing one:
+ * - `identical`: same schema and the same rows in the same order
+ * - `superset`: same schema, with every existing row and more
+ * - `refresh`: a version with rows changed, removed or reordered, or fields
+ *   added or widened (see `widenField`)
+ * - `different`: fields were removed or changed to an incompatible type
+ */
+export type DatasetRelation =
+  | "identical"
+  | "superset"
+  | "refresh"
+  | "different";
+
+export interface DatasetComparison extends SchemaChanges {
+  relation: DatasetRelation;
+  /** Rows of the new dataset that the existing one does not have */
+  addedRows: number;
+  /** Rows of the existing dataset that the new one does not have */
+  removedRows: number;
+}
+
+/**
+ * Builds the id of a dataset from its rows and schema
+ *
+ * @example
+ * ```typescript
+ * datasetId(data, schema); // "3f0c1a9e5b7d2c48-9a1e04b7c3d5f612"
+ * ```
+ */
+export function datasetId(
+  data: Record<string, unknown>[],
+  schema: DatasetSchema
+): string {
+  return `${hashRows(data, schema)}-${hashSchema(schema)}`;
+}
+
+/**
+ * Computes the content and schema hashes of a dataset
+ */
+export function fingerprintDataset(dataset: ParsedDataset): DatasetFingerprint {
+  return {
+    contentHash: hashRows(dataset.data, dataset.schema),
+    schemaHash: hashSchema(dataset.schema),
+    rowCount: dataset.data.length,
+  };
+}
+
+/**
+ * Hashes the field names and types of a schema, including those of nested
+ * fields. Nullability, descriptions and other metadata are left out, so
+ * re-inferring the same columns gives the same hash.
+ */
+export function hashSchema(schema: DatasetSchema): string {
+  return new Hash64().update(JSON.stringify(schema.fields.map(shape))).digest();
+}
+
+/**
+ * Hashes rows in order, reading the values of the schema's fields
+ */
+export function hashRows(
+  data: Record<string, unknown>[],
+  schema: DatasetSchema
+): string {
+  const names = schema.fields.map((field) => field.name);
+  const hash = new Hash64();
+  for (const row of data) hash.update(rowKey(row, names)).update("\n");
+  return hash.digest();
+}
+
+/**
+ * Compares a newly parsed dataset with an existing one
+ *
+ * Rows are matched on the fields both datasets share, so a refresh that
+ * adds a column still counts rows it kept as unchanged. Duplicate rows are
+ * counted as often as they occur.
+ *
+ * @example
+ * ```typescript
+ * const { relation } = compareDatasets(parsed, current);
+ * if (relation === "identical") return; // Same upload again
+ * if (relation !== "different") replaceDataset(current.id, parsed);
+ * ```
+ */
+export function compareDatasets(
+  candidate: ParsedDataset,
+  existing: ParsedDataset
+): DatasetComparison {
+  const candidateFields = new Map(
+    candidate.schema.fields.map((field) => [field.name, field])
+  );
+  const existingNames = new Set(
+    existing.schema.fields.map((field) => field.name)
+  );
+
+  const removedFields: string[] = [];
+  const changedFields: DatasetComparison["changedFields"] = [];
+  let compatible = true;
+  for (const field of existing.schema.fields) {
+    const match = candidateFields.get(field.name);
+    if (!match) {
+      removedFields.push(field.name);
+      compatible = false;
+    } else if (
+      hashSchema({ fields: [match] }) !== hashSchema({ fields: [field] })
+    ) {
+      changedFields.push({
+        name: field.name,
+        from: field.type,
+        to: match.type,
+      });
+      if (widenField(field, match)?.type !== match.type) compatible = false;
+    }
+  }
+  const addedFields = candidate.schema.fields
+    .map((field) => field.name)
+    .filter((name) => !existingNames.has(name));
+
+  const shared = existing.schema.fields
+    .map((field) => field.name)
+    .filter((name) => candidateFields.has(name));
+  const counts = new Map<string, number>();
+  for (const row of existing.data) {
+    const key = rowKey(row, shared);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  let addedRows = 0;
+  for (const row of candidate.data) {
+    const key = rowKey(row, shared);
+    const count = counts.get(key) ?? 0;
+    if (count > 0) {
+      counts.set(key, count - 1);
+    } else {
+      addedRows++;
+    }
+  }
+  let removedRows = 0;
+  for (const count of counts.values()) removedRows += count;
+
+  const sameSchema =
+    hashSchema(candidate.schema) === hashSchema(existing.schema);
+  let relation: DatasetRelation = "different";
+  if (
+    sameSchema &&
+    hashRows(candidate.data, candidate.schema) ===
+      hashRows(existing.data, existing.schema)
+  ) {
+    relation = "identical";
+  } else if (sameSchema && removedRows === 0 && addedRows > 0) {
+    relation = "superset";
+  } else if (compatible) {
+    relation = "refresh";
+  }
+
+  return {
+    relation,
+    addedRows,
+    removedRows,
+    addedFields,
+    removedFields,
+    changedFields,
+  };
+}
+
+function shape(field: DataField): unknown {
+  return [
+    field.name,
+    field.type,
+    field.items ? shape(field.items) : null,
+    field.fields ? field.fields.map(shape) : null,
+  ];
+}
+
+/**
+ * Serializes the values of a row in field order. Dates become ISO strings
+ * and big integers their digits, so equal values always serialize alike.
+ */
+function rowKey(row: Record<string, unknown>, names: string[]): string {
+  return JSON.stringify(
+    names.map((name) => row[name] ?? null),
+    (_key, value) => (typeof value === "bigint" ? value.toString() : value)
+  );
+}
+
+/**
+ * Incremental 64-bit hash in two 32-bit lanes, finished with MurmurHash3's
+ * mixing step
+ */
+class Hash64 {
+  private h1 = 0xdeadbeef;
+  private h2 = 0x41c6ce57;
+
+  update(text: string): this {
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      this.h1 = Math.imul(this.h1 ^ code, 2654435761);
+      this.h2 = Math.imul(this.h2 ^ code, 1597334677);
+    }
+    return this;
+  }
+
+  digest(): string {
+    let h1 = this.h1;
+    let h2 = this.h2;
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+    h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+    h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return hex(h2) + hex(h1);
+  }
+}
+
+function hex(value: number): string {
+  return (value >>> 0).toString(16).padStart(8, "0");
+}
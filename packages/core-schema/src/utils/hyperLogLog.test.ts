@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { HyperLogLog } from "./hyperLogLog";
+
+describe("HyperLogLog", () => {
+  it("should count small sets exactly", () => {
+    const sketch = new HyperLogLog();
+    ["a", "b", "c", "a", "b"].forEach((value) => sketch.add(value));
+
+    expect(sketch.count()).toBe(3);
+  });
+
+  it("should estimate large sets within a few percent", () => {
+    const sketch = new HyperLogLog();
+    for (let i = 0; i < 200_000; i++) sketch.add(`value-${i % 50_000}`);
+
+    expect(Math.abs(sketch.count() - 50_000) / 50_000).toBeLessThan(0.03);
+  });
+
+  it("should count nothing before values are added", () => {
+    expect(new HyperLogLog().count()).toBe(0);
+  });
+
+  it("should reject unsupported precisions", () => {
+    expect(() => new HyperLogLog(3)).toThrow(/between 4 and 16/);
+    expect(() => new HyperLogLog(12.5)).toThrow(/between 4 and 16/);
+  });
+});
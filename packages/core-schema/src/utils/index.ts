@@ -3,10 +3,48 @@ export {
   arrowTypeToDataField,
   createArrowField,
   extractDataFieldFromArrowField,
+  DEFAULT_DECIMAL_PRECISION,
+  DEFAULT_DECIMAL_SCALE,
 } from "./typeMapper";
 
 export {
   normalizeSchema,
   sanitizeFieldName,
   validateForArrowConversion,
+  widenField,
 } from "./schemaNormaliser";
+
+export {
+  isValidDateFormat,
+  parseDateWithFormat,
+  parseOffset,
+  parseTimeOfDay,
+  parseISODuration,
+} from "./dateFormat";
+
+export {
+  profileDataset,
+  profileField,
+  attachProfiles,
+  buildHistogram,
+  histogramBins,
+  histogramBinIndex,
+  detectGranularity,
+  DATE_GRANULARITIES,
+  EXACT_DISTINCT_LIMIT,
+  DEFAULT_PROFILE_OPTIONS,
+  type ProfileOptions,
+} from "./profiler";
+
+export { HyperLogLog } from "./hyperLogLog";
+
+export {
+  datasetId,
+  fingerprintDataset,
+  hashSchema,
+  hashRows,
+  compareDatasets,
+  type DatasetFingerprint,
+  type DatasetRelation,
+  type DatasetComparison,
+} from "./fingerprint";
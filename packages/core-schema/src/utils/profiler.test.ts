@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import type { DataField, ParsedDataset } from "@open-dashboard/shared/types";
+import {
+  attachProfiles,
+  buildHistogram,
+  detectGranularity,
+  profileDataset,
+  profileField,
+} from "./profiler";
+
+const field = (type: DataField["type"]): DataField => ({ name: "value", type });
+
+describe("profiler", () => {
+  describe("profileField", () => {
+    it("should count nulls and distinct values", () => {
+      const profile = profileField(
+        ["a", "b", "a", null, "", undefined],
+        field("string")
+      );
+
+      expect(profile).toMatchObject({
+        count: 6,
+        nullCount: 3,
+        nullRate: 0.5,
+        distinctCount: 2,
+      });
+      expect(profile.distinctApproximate).toBeUndefined();
+    });
+
+    it("should estimate distinct values when asked to", () => {
+      const values = Array.from({ length: 1000 }, (_, i) => i % 400);
+
+      const profile = profileField(values, field("integer"), {
+        distinct: "approximate",
+      });
+
+      expect(profile.distinctApproximate).toBe(true);
+      expect(Math.abs(profile.distinctCount - 400)).toBeLessThan(20);
+    });
+
+    it("should summarize numbers", () => {
+      const profile = profileField(
+        [1, 2, 3, 4, "5", null, "n/a"],
+        field("number"),
+        { bins: 2, quantiles: [0.5, 0.9] }
+      );
+
+      expect(profile.numeric).toEqual({
+        min: 1,
+        max: 5,
+        mean: 3,
+        stddev: Math.sqrt(2.5),
+        quantiles: [
+          { quantile: 0.5, value: 3 },
+          { quantile: 0.9, value: 4.6 },
+        ],
+        histogram: [
+          { start: 1, end: 3, count: 2 },
+          { start: 3, end: 5, count: 3 },
+        ],
+      });
+    });
+
+    it("should report the range and granularity of dates", () => {
+      const profile = profileField(
+        ["2024-03-01", "2024-01-01", "2024-02-01"],
+        field("date")
+      );
+
+      expect(profile.temporal).toEqual({
+        min: "2024-01-01T00:00:00.000Z",
+        max: "2024-03-01T00:00:00.000Z",
+        granularity: "month",
+      });
+    });
+
+    it("should list the most frequent categories", () => {
+      const profile = profileField(
+        ["North", "South", "North", "East", "North", "South"],
+        field("categorical"),
+        { topK: 2 }
+      );
+
+      expect(profile.topValues).toEqual([
+        { value: "North", count: 3 },
+        { value: "South", count: 2 },
+      ]);
+      expect(profile.lengths).toMatchObject({ min: 4, max: 5 });
+    });
+
+    it("should keep boolean values in top values", () => {
+      const profile = profileField([true, false, true], field("boolean"));
+
+      expect(profile.topValues).toEqual([
+        { value: true, count: 2 },
+        { value: false, count: 1 },
+      ]);
+    });
+
+    it("should leave statistics out of fields without values", () => {
+      const profile = profileField([null, ""], field("number"));
+
+      expect(profile).toEqual({
+        count: 2,
+        nullCount: 2,
+        nullRate: 1,
+        distinctCount: 0,
+      });
+    });
+  });
+
+  describe("profileDataset", () => {
+    const dataset: ParsedDataset = {
+      id: "sales",
+      name: "Sales",
+      data: [
+        { region: "North", amount: 100 },
+        { region: "South", amount: 200 },
+      ],
+      schema: {
+        fields: [
+          { name: "region", type: "categorical", metadata: { source: "csv" } },
+          { name: "amount", type: "number" },
+        ],
+      },
+      metadata: { source: "test", rowCount: 2, columnCount: 2 },
+      sourceType: "json",
+      createdAt: new Date(),
+    };
+
+    it("should attach a serializable profile to every field", () => {
+      const profiled = profileDataset(dataset);
+      const [region, amount] = profiled.schema.fields;
+
+      expect(region.metadata?.source).toBe("csv");
+      expect(region.metadata?.profile).toMatchObject({ distinctCount: 2 });
+      expect(amount.metadata?.profile).toMatchObject({
+        numeric: { min: 100, max: 200 },
+      });
+      expect(JSON.parse(JSON.stringify(profiled.schema))).toEqual(
+        profiled.schema
+      );
+      expect(dataset.schema.fields[1].metadata).toBeUndefined();
+      expect(profiled.data).toBe(dataset.data);
+    });
+  });
+
+  describe("attachProfiles", () => {
+    it("should leave fields without a profile unchanged", () => {
+      const schema = { fields: [field("string")] };
+
+      expect(attachProfiles(schema, {}).fields[0]).toBe(schema.fields[0]);
+    });
+  });
+
+  describe("buildHistogram", () => {
+    it("should put a single value in one bin", () => {
+      expect(buildHistogram([7, 7], 7, 7, 10)).toEqual([
+        { start: 7, end: 7, count: 2 },
+      ]);
+    });
+  });
+
+  describe("detectGranularity", () => {
+    it.each([
+      [["2023-01-01", "2024-01-01"], "year"],
+      [["2024-01-01", "2024-01-02"], "day"],
+      [["2024-01-01T00:00:00Z", "2024-01-01T06:00:00Z"], "hour"],
+      [["2024-01-01T00:00:00.250Z"], "millisecond"],
+    ])("should detect %j as %s", (values, expected) => {
+      expect(detectGranularity(values.map((value) => Date.parse(value)))).toBe(
+        expected
+      );
+    });
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * Dataset Profiling
+ *
+ * Computes per-field statistics (null rate, distinct count, numeric
+ * summaries, date ranges, top values, histograms) and stores them as
+ * `metadata.profile` on each field. Profiles hold only plain numbers,
+ * strings and arrays, so they survive JSON, Arrow IPC and Parquet.
+ *
+ * Profiling here runs in memory and suits datasets that are already
+ * loaded. `QueryEngine.profileDataset` computes the same profiles in DuckDB
+ * for registered tables.
+ */
+
+import type {
+  DataField,
+  DatasetSchema,
+  DateGranularity,
+  FieldProfile,
+  HistogramBin,
+  ParsedDataset,
+  ValueCount,
+} from "@open-dashboard/shared/types";
+import { coerceValue } from "../converters/arrowConverter";
+import { HyperLogLog } from "./hyperLogLog";
+
+export interface ProfileOptions {
+  /**
+   * Counts distinct values exactly or estimates them with HyperLogLog.
+   * Exact up to `EXACT_DISTINCT_LIMIT` rows by default.
+   */
+  distinct?: "exact" | "approximate";
+  /** Number of top values listed for categorical and boolean fields (default 10) */
+  topK?: number;
+  /** Number of histogram bins (default 10) */
+  bins?: number;
+  /** Quantiles of numeric fields (default 0.25, 0.5 and 0.75) */
+  quantiles?: number[];
+}
+
+/** Date granularities from coarsest to finest */
+export const DATE_GRANULARITIES: DateGranularity[] = [
+  "year",
+  "month",
+  "day",
+  "hour",
+  "minute",
+  "second",
+  "millisecond",
+];
+
+/** Largest number of rows whose distinct values are counted exactly by default */
+export const EXACT_DISTINCT_LIMIT = 100_000;
+
+export const DEFAULT_PROFILE_OPTIONS: Required<
+  Omit<ProfileOptions, "distinct">
+> = {
+  topK: 10,
+  bins: 10,
+  quantiles: [0.25, 0.5, 0.75],
+};
+
+/**
+ * Profiles every field of a dataset
+ *
+ * @returns A copy of the dataset whose fields carry `metadata.profile`; the
+ * rows are shared, not copied
+ *
+ * @example
+ * ```typescript
+ * const profiled = profileDataset(dataset);
+ * profiled.schema.fields[0].metadata?.profile;
+ * // { count: 3, nullCount: 0, nullRate: 0, distinctCount: 3, numeric: {...} }
+ * ```
+ */
+export function profileDataset(
+  dataset: ParsedDataset,
+  options: ProfileOptions = {}
+): ParsedDataset {
+  const profiles: Record<string, FieldProfile> = {};
+  for (const field of dataset.schema.fields) {
+    profiles[field.name] = profileField(
+      dataset.data.map((row) => row[field.name]),
+      field,
+      options
+    );
+  }
+  return { ...dataset, schema: attachProfiles(dataset.schema, profiles) };
+}
+
+/**
+ * Stores profiles as `metadata.profile` on the fields they were computed for
+ */
+export function attachProfiles(
+  schema: DatasetSchema,
+  profiles: Record<string, FieldProfile>
+): DatasetSchema {
+  return {
+    ...schema,
+    fields: schema.fields.map((field) =>
+      profiles[field.name]
+        ? {
+            ...field,
+            metadata: { ...field.metadata, profile: profiles[field.name] },
+          }
+        : field
+    ),
+  };
+}
+
+/**
+ * Profiles the values of a single field
+ */
+export function profileField(
+  values: unknown[],
+  field: DataField,
+  options: ProfileOptions = {}
+): FieldProfile {
+  const { topK, bins, quantiles } = { ...DEFAULT_PROFILE_OPTIONS, ...options };
+  const present = values.filter(
+    (value) => value !== null && value !== undefined && value !== ""
+  );
+  const nullCount = values.length - present.length;
+  const approximate = options.distinct
+    ? options.distinct === "approximate"
+    : values.length > EXACT_DISTINCT_LIMIT;
+
+  const profile: FieldProfile = {
+    count: values.length,
+    nullCount,
+    nullRate: values.length > 0 ? nullCount / values.length : 0,
+    ...countDistinct(present, approximate),
+  };
+
+  switch (field.type) {
+    case "number":
+    case "integer":
+    case "decimal": {
+      const numbers = present
+        .map(toNumber)
+        .filter((value): value is number => value !== undefined);
+      if (numbers.length > 0) {
+        profile.numeric = summarizeNumbers(numbers, bins, quantiles);
+      }
+      break;
+    }
+    case "date":
+    case "timestamp": {
+      const times = present
+        .map((value) => coerceValue(value, field))
+        .filter((value): value is number => typeof value === "number");
+      if (times.length > 0) {
+        const [min, max] = range(times);
+        profile.temporal = {
+          min: new Date(min).toISOString(),
+          max: new Date(max).toISOString(),
+          granularity: detectGranularity(times),
+        };
+      }
+      break;
+    }
+    case "categorical":
+    case "boolean":
+      profile.topValues = countTopValues(present, topK);
+      break;
+  }
+
+  if (field.type === "string" || field.type === "categorical") {
+    const lengths = present.map((value) => String(value).length);
+    if (lengths.length > 0) {
+      const [min, max] = range(lengths);
+      profile.lengths = {
+        min,
+        max,
+        mean: mean(lengths),
+        histogram: buildHistogram(lengths, min, max, bins),
+      };
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Splits the range from `min` to `max` into `bins` equal-width bins and
+ * counts the values in each. A range of one value gets a single bin.
+ */
+export function buildHistogram(
+  values: Iterable<number>,
+  min: number,
+  max: number,
+  bins: number
+): HistogramBin[] {
+  const histogram = histogramBins(min, max, bins);
+  for (const value of values) {
+    histogram[histogramBinIndex(value, min, max, histogram.length)].count++;
+  }
+  return histogram;
+}
+
+/**
+ * Returns the empty bins of a histogram from `min` to `max`
+ */
+export function histogramBins(
+  min: number,
+  max: number,
+  bins: number
+): HistogramBin[] {
+  const count = max > min ? Math.max(1, Math.floor(bins)) : 1;
+  const width = (max - min) / count;
+  return Array.from({ length: count }, (_, i) => ({
+    start: min + i * width,
+    end: i === count - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+}
+
+/**
+ * Returns the index of the bin a value falls into; the maximum goes into
+ * the last bin
+ */
+export function histogramBinIndex(
+  value: number,
+  min: number,
+  max: number,
+  bins: number
+): number {
+  if (max <= min) return 0;
+  const index = Math.floor(((value - min) / (max - min)) * bins);
+  return Math.min(Math.max(index, 0), bins - 1);
+}
+
+/**
+ * Finds the finest unit timestamps differ in. Values that are all at
+ * midnight on the first of a month have a granularity of "month".
+ */
+export function detectGranularity(times: number[]): DateGranularity {
+  let finest = 0;
+  for (const time of times) {
+    const date = new Date(time);
+    const parts = [
+      date.getUTCMonth(),
+      date.getUTCDate() - 1,
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds(),
+      date.getUTCMilliseconds(),
+    ];
+    // Parts after the last non-zero one don't vary; the year always does
+    let unit = parts.length;
+    while (unit > 0 && parts[unit - 1] === 0) unit--;
+    finest = Math.max(finest, unit);
+    if (finest === DATE_GRANULARITIES.length - 1) break;
+  }
+  return DATE_GRANULARITIES[finest];
+}
+
+function countDistinct(
+  values: unknown[],
+  approximate: boolean
+): Pick<FieldProfile, "distinctCount" | "distinctApproximate"> {
+  if (approximate) {
+    const sketch = new HyperLogLog();
+    for (const value of values) sketch.add(distinctKey(value));
+    return { distinctCount: sketch.count(), distinctApproximate: true };
+  }
+  return { distinctCount: new Set(values.map(distinctKey)).size };
+}
+
+function distinctKey(value: unknown): string {
+  if (value instanceof Date) return `date:${value.getTime()}`;
+  if (typeof value === "object") return JSON.stringify(value);
+  return `${typeof value}:${String(value)}`;
+}
+
+function summarizeNumbers(
+  numbers: number[],
+  bins: number,
+  quantiles: number[]
+): NonNullable<FieldProfile["numeric"]> {
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const average = mean(sorted);
+  const variance =
+    sorted.length > 1
+      ? sorted.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+        (sorted.length - 1)
+      : 0;
+
+  return {
+    min,
+    max,
+    mean: average,
+    stddev: Math.sqrt(variance),
+    quantiles: quantiles.map((quantile) => ({
+      quantile,
+      value: interpolateQuantile(sorted, quantile),
+    })),
+    histogram: buildHistogram(sorted, min, max, bins),
+  };
+}
+
+/**
+ * Reads a quantile from sorted values, interpolating between neighbours
+ * like DuckDB's `quantile_cont`
+ */
+function interpolateQuantile(sorted: number[], quantile: number): number {
+  const position = Math.min(Math.max(quantile, 0), 1) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function countTopValues(values: unknown[], topK: number): ValueCount[] {
+  const counts = new Map<string | number | boolean, number>();
+  for (const value of values) {
+    const key =
+      typeof value === "number" || typeof value === "boolean"
+        ? value
+        : String(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, topK);
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number =
+    typeof value === "number"
+      ? value
+      : typeof value === "bigint" || typeof value === "string"
+        ? Number(value)
+        : NaN;
+  return isFinite(number) ? number : undefined;
+}
+
+function range(values: number[]): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return [min, max];
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
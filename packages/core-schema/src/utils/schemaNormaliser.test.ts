@@ -3,6 +3,7 @@ import {
   normalizeSchema,
   sanitizeFieldName,
   validateForArrowConversion,
+  widenField,
 } from "./schemaNormaliser";
 import type { DatasetSchema, DataField } from "@open-dashboard/shared/types";
 
@@ -664,4 +665,83 @@ describe("schemaNormaliser", () => {
       });
     });
   });
+
+  describe("widenField", () => {
+    it("should widen numeric and temporal types", () => {
+      const widen = (a: DataField["type"], b: DataField["type"]) =>
+        widenField({ name: "value", type: a }, { name: "value", type: b })
+          ?.type;
+
+      expect(widen("integer", "decimal")).toBe("decimal");
+      expect(widen("number", "integer")).toBe("number");
+      expect(widen("decimal", "number")).toBe("number");
+      expect(widen("date", "timestamp")).toBe("timestamp");
+      expect(widen("categorical", "string")).toBe("string");
+      expect(widen("boolean", "boolean")).toBe("boolean");
+    });
+
+    it("should return undefined for incompatible types", () => {
+      expect(
+        widenField(
+          { name: "value", type: "number" },
+          { name: "value", type: "boolean" }
+        )
+      ).toBeUndefined();
+      expect(
+        widenField(
+          { name: "value", type: "string" },
+          { name: "value", type: "date" }
+        )
+      ).toBeUndefined();
+    });
+
+    it("should keep the first field's name, nullability and metadata", () => {
+      const widened = widenField(
+        {
+          name: "when",
+          type: "date",
+          nullable: false,
+          metadata: { source: "a" },
+        },
+        {
+          name: "when",
+          type: "timestamp",
+          nullable: true,
+          timezone: "Europe/Paris",
+        }
+      );
+
+      expect(widened).toEqual({
+        name: "when",
+        type: "timestamp",
+        nullable: false,
+        timezone: "Europe/Paris",
+        metadata: { source: "a" },
+      });
+    });
+
+    it("should keep enough digits for both decimals", () => {
+      const widened = widenField(
+        { name: "price", type: "decimal", precision: 10, scale: 2 },
+        { name: "price", type: "decimal", precision: 6, scale: 4 }
+      );
+
+      expect(widened).toMatchObject({ precision: 12, scale: 4 });
+    });
+
+    it("should keep the finer time unit", () => {
+      expect(
+        widenField(
+          { name: "at", type: "timestamp", unit: "second" },
+          { name: "at", type: "timestamp" }
+        )?.unit
+      ).toBeUndefined();
+      expect(
+        widenField(
+          { name: "at", type: "timestamp" },
+          { name: "at", type: "timestamp", unit: "microsecond" }
+        )?.unit
+      ).toBe("microsecond");
+    });
+  });
 });
@@ -1,4 +1,43 @@
-import type { DatasetSchema, DataField } from "@open-dashboard/shared/types";
+import type {
+  DatasetSchema,
+  DataField,
+  DataFieldType,
+  TimeUnit,
+} from "@open-dashboard/shared/types";
+import { DEFAULT_DECIMAL_PRECISION, DEFAULT_DECIMAL_SCALE } from "./typeMapper";
+
+const FIELD_TYPES: DataField["type"][] = [
+  "string",
+  "number",
+  "integer",
+  "decimal",
+  "date",
+  "timestamp",
+  "time",
+  "duration",
+  "boolean",
+  "categorical",
+  "list",
+  "struct",
+];
+
+/** Types each type widens to without losing values, narrowest first */
+const WIDER_TYPES: Partial<Record<DataFieldType, DataFieldType[]>> = {
+  integer: ["decimal", "number"],
+  decimal: ["number"],
+  date: ["timestamp"],
+  categorical: ["string"],
+};
+
+const TIME_UNIT_ORDER: TimeUnit[] = [
+  "second",
+  "millisecond",
+  "microsecond",
+  "nanosecond",
+];
+
+/** Largest precision of an Arrow Decimal128 */
+const MAX_DECIMAL_PRECISION = 38;
 
 /**
  * Normalizes a schema for Arrow conversion
@@ -39,11 +78,7 @@ export function normalizeSchema(schema: DatasetSchema): DatasetSchema {
     seenNames.add(sanitizedName);
 
     // Ensure type is valid
-    if (
-      !["string", "number", "date", "boolean", "categorical"].includes(
-        field.type
-      )
-    ) {
+    if (!FIELD_TYPES.includes(field.type)) {
       throw new Error(
         `Invalid field type: ${field.type} for field ${field.name}`
       );
@@ -114,11 +149,7 @@ export function validateForArrowConversion(schema: DatasetSchema): {
     }
     seenNames.add(field.name);
 
-    if (
-      !["string", "number", "date", "boolean", "categorical"].includes(
-        field.type
-      )
-    ) {
+    if (!FIELD_TYPES.includes(field.type)) {
       errors.push(`Invalid type '${field.type}' for field '${field.name}'`);
     }
   }
@@ -129,3 +160,83 @@ export function validateForArrowConversion(schema: DatasetSchema): {
     warnings,
   };
 }
+
+/**
+ * Finds the narrowest field that holds the values of two fields without
+ * losing any: integers widen to decimals and numbers, decimals to numbers,
+ * dates to timestamps and categoricals to strings. Decimals keep enough
+ * digits for both fields, and timestamps the finer unit.
+ *
+ * The result keeps the name, nullability and metadata of the first field.
+ *
+ * @returns The widened field, or undefined if the types are incompatible
+ *
+ * @example
+ * ```typescript
+ * widenField({ name: "qty", type: "integer" }, { name: "qty", type: "number" });
+ * // { name: "qty", type: "number" }
+ * widenField({ name: "qty", type: "integer" }, { name: "qty", type: "boolean" });
+ * // undefined
+ * ```
+ */
+export function widenField(
+  field: DataField,
+  other: DataField
+): DataField | undefined {
+  if (field.type === other.type) {
+    switch (field.type) {
+      case "decimal":
+        return { ...field, ...widenDecimal(field, other) };
+      case "timestamp":
+      case "time":
+      case "duration":
+        return { ...field, unit: finerUnit(field.unit, other.unit) };
+      default:
+        return field;
+    }
+  }
+
+  const wider = WIDER_TYPES[field.type]?.includes(other.type)
+    ? other
+    : WIDER_TYPES[other.type]?.includes(field.type)
+      ? field
+      : undefined;
+  if (!wider) return undefined;
+
+  const widened: DataField = {
+    ...wider,
+    name: field.name,
+    nullable: field.nullable,
+    metadata: field.metadata,
+  };
+  if (field.nullable === undefined) delete widened.nullable;
+  if (field.metadata === undefined) delete widened.metadata;
+  return widened;
+}
+
+function widenDecimal(
+  field: DataField,
+  other: DataField
+): Pick<DataField, "precision" | "scale"> {
+  const digits = (decimal: DataField) => {
+    const precision = decimal.precision ?? DEFAULT_DECIMAL_PRECISION;
+    const scale = decimal.scale ?? DEFAULT_DECIMAL_SCALE;
+    return { whole: precision - scale, scale };
+  };
+  const a = digits(field);
+  const b = digits(other);
+  const scale = Math.max(a.scale, b.scale);
+  return {
+    precision: Math.min(
+      MAX_DECIMAL_PRECISION,
+      Math.max(a.whole, b.whole) + scale
+    ),
+    scale,
+  };
+}
+
+function finerUnit(a?: TimeUnit, b?: TimeUnit): TimeUnit | undefined {
+  const rank = (unit?: TimeUnit) =>
+    TIME_UNIT_ORDER.indexOf(unit ?? "millisecond");
+  return rank(b) > rank(a) ? b : a;
+}
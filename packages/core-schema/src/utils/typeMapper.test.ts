@@ -134,6 +134,113 @@ describe("typeMapper", () => {
       });
     });
 
+    describe("extended type mapping", () => {
+      it("should map integer to Int64", () => {
+        const arrowType = dataFieldToArrowType({ name: "id", type: "integer" });
+
+        expect(arrowType).toBeInstanceOf(arrow.Int64);
+      });
+
+      it("should map decimal to Decimal128 with its precision and scale", () => {
+        const amount = dataFieldToArrowType({
+          name: "amount",
+          type: "decimal",
+          precision: 12,
+          scale: 4,
+        }) as arrow.Decimal;
+        const price = dataFieldToArrowType({
+          name: "price",
+          type: "decimal",
+        }) as arrow.Decimal;
+
+        expect(amount).toBeInstanceOf(arrow.Decimal);
+        expect([amount.precision, amount.scale, amount.bitWidth]).toEqual([
+          12, 4, 128,
+        ]);
+        expect([price.precision, price.scale]).toEqual([18, 2]);
+      });
+
+      it("should map timestamp to Timestamp with its timezone and unit", () => {
+        const utc = dataFieldToArrowType({
+          name: "at",
+          type: "timestamp",
+        }) as arrow.Timestamp;
+        const paris = dataFieldToArrowType({
+          name: "at",
+          type: "timestamp",
+          timezone: "Europe/Paris",
+          unit: "microsecond",
+        }) as arrow.Timestamp;
+
+        expect(utc.timezone).toBe("UTC");
+        expect(utc.unit).toBe(arrow.TimeUnit.MILLISECOND);
+        expect(paris.timezone).toBe("Europe/Paris");
+        expect(paris.unit).toBe(arrow.TimeUnit.MICROSECOND);
+      });
+
+      it("should map time and duration in their unit", () => {
+        const time = dataFieldToArrowType({
+          name: "opens",
+          type: "time",
+        }) as arrow.Time;
+        const preciseTime = dataFieldToArrowType({
+          name: "opens",
+          type: "time",
+          unit: "nanosecond",
+        }) as arrow.Time;
+        const duration = dataFieldToArrowType({
+          name: "elapsed",
+          type: "duration",
+          unit: "second",
+        }) as arrow.Duration;
+
+        expect([time.unit, time.bitWidth]).toEqual([
+          arrow.TimeUnit.MILLISECOND,
+          32,
+        ]);
+        expect([preciseTime.unit, preciseTime.bitWidth]).toEqual([
+          arrow.TimeUnit.NANOSECOND,
+          64,
+        ]);
+        expect(duration).toBeInstanceOf(arrow.Duration);
+        expect(duration.unit).toBe(arrow.TimeUnit.SECOND);
+      });
+
+      it("should map lists and structs with their child types", () => {
+        const list = dataFieldToArrowType({
+          name: "tags",
+          type: "list",
+          items: { name: "", type: "string" },
+        }) as arrow.List;
+        const struct = dataFieldToArrowType({
+          name: "address",
+          type: "struct",
+          fields: [
+            { name: "city", type: "string" },
+            { name: "zip", type: "integer" },
+          ],
+        }) as arrow.Struct;
+
+        expect(list).toBeInstanceOf(arrow.List);
+        expect(list.children[0].name).toBe("item");
+        expect(list.children[0].type).toBeInstanceOf(arrow.Utf8);
+        expect(struct.children.map((child) => child.name)).toEqual([
+          "city",
+          "zip",
+        ]);
+        expect(struct.children[1].type).toBeInstanceOf(arrow.Int64);
+      });
+
+      it("should throw for lists and structs without child types", () => {
+        expect(() =>
+          dataFieldToArrowType({ name: "tags", type: "list" })
+        ).toThrow('List field "tags" has no item type');
+        expect(() =>
+          dataFieldToArrowType({ name: "address", type: "struct" })
+        ).toThrow('Struct field "address" has no child fields');
+      });
+    });
+
     describe("error handling", () => {
       it("should throw error for unsupported type", () => {
         // @ts-expect-error: intentionally passing unsupported type for test
@@ -205,61 +312,63 @@ describe("typeMapper", () => {
 
         expect(result.type).toBe("number");
       });
+    });
 
-      it("should detect Int32 as number", () => {
+    describe("integer type detection", () => {
+      it("should detect Int32 as integer", () => {
         const arrowType = new arrow.Int32();
         const result = arrowTypeToDataField(arrowType);
 
-        expect(result.type).toBe("number");
+        expect(result.type).toBe("integer");
       });
 
-      it("should detect Int64 as number", () => {
+      it("should detect Int64 as integer", () => {
         const arrowType = new arrow.Int64();
         const result = arrowTypeToDataField(arrowType);
 
-        expect(result.type).toBe("number");
+        expect(result.type).toBe("integer");
       });
 
-      it("should detect Uint32 as number", () => {
+      it("should detect Uint32 as integer", () => {
         const arrowType = new arrow.Uint32();
         const result = arrowTypeToDataField(arrowType);
 
-        expect(result.type).toBe("number");
+        expect(result.type).toBe("integer");
       });
 
-      it("should detect Uint64 as number", () => {
+      it("should detect Uint64 as integer", () => {
         const arrowType = new arrow.Uint64();
         const result = arrowTypeToDataField(arrowType);
 
-        expect(result.type).toBe("number");
+        expect(result.type).toBe("integer");
       });
 
-      it("should detect Int16 as number", () => {
+      it("should detect Int16 as integer", () => {
         const arrowType = new arrow.Int16();
         const result = arrowTypeToDataField(arrowType);
 
-        expect(result.type).toBe("number");
+        expect(result.type).toBe("integer");
       });
 
-      it("should detect Int8 as number", () => {
+      it("should detect Int8 as integer", () => {
         const arrowType = new arrow.Int8();
         const result = arrowTypeToDataField(arrowType);
 
-        expect(result.type).toBe("number");
+        expect(result.type).toBe("integer");
       });
 
-      it("should detect Uint16 as number", () => {
+      it("should detect Uint16 as integer", () => {
         const arrowType = new arrow.Uint16();
         const result = arrowTypeToDataField(arrowType);
 
-        expect(result.type).toBe("number");
+        expect(result.type).toBe("integer");
       });
 
-      it("should detect Uint8 as number", () => {
+      it("should detect Uint8 as integer", () => {
         const arrowType = new arrow.Uint8();
         const result = arrowTypeToDataField(arrowType);
 
-        expect(result.type).toBe("number");
+        expect(result.type).toBe("integer");
       });
     });
 
@@ -316,6 +425,35 @@ describe("typeMapper", () => {
       });
     });
 
+    describe("extended type detection", () => {
+      it("should detect Decimal with its precision and scale", () => {
+        expect(arrowTypeToDataField(new arrow.Decimal(2, 10, 128))).toEqual({
+          type: "decimal",
+          precision: 10,
+          scale: 2,
+        });
+      });
+
+      it("should detect Timestamp with a timezone as timestamp", () => {
+        expect(
+          arrowTypeToDataField(new arrow.TimestampMicrosecond("+02:00"))
+        ).toEqual({
+          type: "timestamp",
+          timezone: "+02:00",
+          unit: "microsecond",
+        });
+      });
+
+      it("should detect Time and Duration with their unit", () => {
+        expect(arrowTypeToDataField(new arrow.TimeMillisecond())).toEqual({
+          type: "time",
+        });
+        expect(
+          arrowTypeToDataField(new arrow.Duration(arrow.TimeUnit.SECOND))
+        ).toEqual({ type: "duration", unit: "second" });
+      });
+    });
+
     describe("categorical type detection", () => {
       it("should detect Dictionary as categorical", () => {
         const arrowType = new arrow.Dictionary(
@@ -431,6 +569,24 @@ describe("typeMapper", () => {
         expect(arrowField.metadata?.get("ratio")).toBe("0.75");
       });
 
+      it("should store object metadata as JSON and read it back", () => {
+        const profile = { count: 3, topValues: [{ value: "a", count: 2 }] };
+        const field: DataField = {
+          name: "category",
+          type: "categorical",
+          metadata: { profile, note: "[draft" },
+        };
+        const arrowField = createArrowField(field);
+
+        expect(arrowField.metadata?.get("profile")).toBe(
+          JSON.stringify(profile)
+        );
+        expect(extractDataFieldFromArrowField(arrowField).metadata).toEqual({
+          profile,
+          note: "[draft",
+        });
+      });
+
       it("should handle empty metadata object", () => {
         const field: DataField = {
           name: "field",
@@ -587,11 +743,11 @@ describe("typeMapper", () => {
         expect(dataField.type).toBe("number");
       });
 
-      it("should extract number type from Int32", () => {
+      it("should extract integer type from Int32", () => {
         const arrowField = new arrow.Field("count", new arrow.Int32(), true);
         const dataField = extractDataFieldFromArrowField(arrowField);
 
-        expect(dataField.type).toBe("number");
+        expect(dataField.type).toBe("integer");
       });
 
       it("should extract boolean type", () => {
@@ -713,6 +869,45 @@ describe("typeMapper", () => {
         expect(converted.nullable).toBe(original.nullable);
       });
 
+      it("should preserve extended types through round trip", () => {
+        const original: DataField = {
+          name: "orders",
+          type: "list",
+          nullable: true,
+          items: {
+            name: "item",
+            type: "struct",
+            nullable: true,
+            fields: [
+              {
+                name: "amount",
+                type: "decimal",
+                nullable: false,
+                precision: 12,
+                scale: 2,
+              },
+              {
+                name: "placed_at",
+                type: "timestamp",
+                nullable: true,
+                timezone: "UTC",
+              },
+              {
+                name: "wait",
+                type: "duration",
+                nullable: true,
+                unit: "second",
+              },
+            ],
+          },
+        };
+
+        const arrowField = createArrowField(original);
+        const converted = extractDataFieldFromArrowField(arrowField);
+
+        expect(converted).toEqual({ ...original, metadata: undefined });
+      });
+
       it("should preserve metadata through round trip", () => {
         const original: DataField = {
           name: "temperature",
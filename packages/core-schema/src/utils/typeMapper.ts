@@ -1,15 +1,33 @@
 import * as arrow from "apache-arrow";
-import type { DataField } from "@open-dashboard/shared/types";
+import type { DataField, TimeUnit } from "@open-dashboard/shared/types";
+
+/** Precision and scale of decimals that do not declare them */
+export const DEFAULT_DECIMAL_PRECISION = 18;
+export const DEFAULT_DECIMAL_SCALE = 2;
+
+const TIME_UNITS: Record<TimeUnit, arrow.TimeUnit> = {
+  second: arrow.TimeUnit.SECOND,
+  millisecond: arrow.TimeUnit.MILLISECOND,
+  microsecond: arrow.TimeUnit.MICROSECOND,
+  nanosecond: arrow.TimeUnit.NANOSECOND,
+};
 
 /**
  * Maps internal DataField type to Apache Arrow DataType
  *
  * Mapping strategy:
  * - string → Utf8
- * - number → Float64 (handles integers and floats)
+ * - number → Float64
+ * - integer → Int64
+ * - decimal → Decimal128 with the field's precision and scale
  * - date → DateMillisecond (default), TimestampMicrosecond, or TimestampNanosecond
+ * - timestamp → Timestamp in the field's unit and timezone (default UTC)
+ * - time → Time32 (seconds, milliseconds) or Time64 (micro-, nanoseconds)
+ * - duration → Duration in the field's unit
  * - boolean → Bool
  * - categorical → Dictionary<Utf8, Int32> (efficient for repeated values)
+ * - list → List of the field's `items` type
+ * - struct → Struct of the field's child `fields`
  *
  * @param field - The field to convert
  * @param options - Conversion options (date format, etc.)
@@ -27,6 +45,16 @@ export function dataFieldToArrowType(
     case "number":
       return new arrow.Float64();
 
+    case "integer":
+      return new arrow.Int64();
+
+    case "decimal":
+      return new arrow.Decimal(
+        field.scale ?? DEFAULT_DECIMAL_SCALE,
+        field.precision ?? DEFAULT_DECIMAL_PRECISION,
+        128
+      );
+
     case "date": {
       const format = options?.dateFormat ?? "millisecond";
       switch (format) {
@@ -42,6 +70,21 @@ export function dataFieldToArrowType(
       }
     }
 
+    case "timestamp":
+      return new arrow.Timestamp(
+        TIME_UNITS[field.unit ?? "millisecond"],
+        field.timezone ?? "UTC"
+      );
+
+    case "time": {
+      const unit = field.unit ?? "millisecond";
+      const bitWidth = unit === "second" || unit === "millisecond" ? 32 : 64;
+      return new arrow.Time(TIME_UNITS[unit], bitWidth);
+    }
+
+    case "duration":
+      return new arrow.Duration(TIME_UNITS[field.unit ?? "millisecond"]);
+
     case "boolean":
       return new arrow.Bool();
 
@@ -49,73 +92,131 @@ export function dataFieldToArrowType(
       // Dictionary encoding: value type (Utf8), index type (Int32)
       return new arrow.Dictionary(new arrow.Utf8(), new arrow.Int32());
 
+    case "list": {
+      if (!field.items) {
+        throw new Error(`List field "${field.name}" has no item type`);
+      }
+      const items = { ...field.items, name: field.items.name || "item" };
+      return new arrow.List(createArrowField(items, options));
+    }
+
+    case "struct": {
+      if (!field.fields) {
+        throw new Error(`Struct field "${field.name}" has no child fields`);
+      }
+      return new arrow.Struct(
+        field.fields.map((child) => createArrowField(child, options))
+      );
+    }
+
     default:
       throw new Error(`Unsupported field type: ${field.type}`);
   }
 }
 
 /**
- * Maps Apache Arrow DataType back to internal DataField type string
+ * Maps Apache Arrow DataType back to internal DataField type string and the
+ * type's parameters (decimal precision, timestamp timezone, child types)
+ *
+ * Types are told apart by their type id, so tables read through another copy
+ * of apache-arrow (such as DuckDB-WASM's) map the same way. Timestamps
+ * without a timezone map to "date", matching how dates are written.
  *
  * @param arrowType - Apache Arrow DataType
- * @returns Internal type string
+ * @returns Internal type string and its parameters
  */
 export function arrowTypeToDataField(
   arrowType: arrow.DataType
-): Pick<DataField, "type"> {
-  // Use instanceof checks for reliable type detection in Apache Arrow v18
-
+): Pick<
+  DataField,
+  "type" | "precision" | "scale" | "timezone" | "unit" | "items" | "fields"
+> {
   // String types
-  if (arrowType instanceof arrow.Utf8 || arrowType instanceof arrow.LargeUtf8) {
+  if (
+    arrow.DataType.isUtf8(arrowType) ||
+    arrow.DataType.isLargeUtf8(arrowType)
+  ) {
     return { type: "string" };
   }
 
-  // Number types - including base Float class for IPC deserialization
-  if (
-    arrowType instanceof arrow.Float64 ||
-    arrowType instanceof arrow.Float32 ||
-    arrowType instanceof arrow.Float || // ← ADD THIS for IPC
-    arrowType instanceof arrow.Int32 ||
-    arrowType instanceof arrow.Int64 ||
-    arrowType instanceof arrow.Uint32 ||
-    arrowType instanceof arrow.Uint64 ||
-    arrowType instanceof arrow.Int16 ||
-    arrowType instanceof arrow.Int8 ||
-    arrowType instanceof arrow.Uint16 ||
-    arrowType instanceof arrow.Uint8 ||
-    arrowType instanceof arrow.Int // ← ADD THIS for IPC integer types
-  ) {
+  // Integer types
+  if (arrow.DataType.isInt(arrowType)) {
+    return { type: "integer" };
+  }
+
+  // Floating point types
+  if (arrow.DataType.isFloat(arrowType)) {
     return { type: "number" };
   }
 
-  // Date types - including base Date_ class for IPC deserialization
-  if (
-    arrowType instanceof arrow.DateMillisecond ||
-    arrowType instanceof arrow.DateDay ||
-    arrowType instanceof arrow.Date_ || // ← ADD THIS for IPC
-    arrowType instanceof arrow.TimestampMillisecond ||
-    arrowType instanceof arrow.TimestampMicrosecond ||
-    arrowType instanceof arrow.TimestampNanosecond ||
-    arrowType instanceof arrow.TimestampSecond ||
-    arrowType instanceof arrow.Timestamp // ← ADD THIS for IPC timestamp types
-  ) {
+  if (arrow.DataType.isDecimal(arrowType)) {
+    return {
+      type: "decimal",
+      precision: arrowType.precision,
+      scale: arrowType.scale,
+    };
+  }
+
+  if (arrow.DataType.isDate(arrowType)) {
     return { type: "date" };
   }
 
+  if (arrow.DataType.isTimestamp(arrowType)) {
+    return arrowType.timezone
+      ? {
+          type: "timestamp",
+          timezone: arrowType.timezone,
+          ...timeUnitOf(arrowType.unit),
+        }
+      : { type: "date" };
+  }
+
+  if (arrow.DataType.isTime(arrowType)) {
+    return { type: "time", ...timeUnitOf(arrowType.unit) };
+  }
+
+  if (arrow.DataType.isDuration(arrowType)) {
+    return { type: "duration", ...timeUnitOf(arrowType.unit) };
+  }
+
   // Boolean type
-  if (arrowType instanceof arrow.Bool) {
+  if (arrow.DataType.isBool(arrowType)) {
     return { type: "boolean" };
   }
 
   // Dictionary (categorical) type
-  if (arrowType instanceof arrow.Dictionary) {
+  if (arrow.DataType.isDictionary(arrowType)) {
     return { type: "categorical" };
   }
 
+  if (arrow.DataType.isList(arrowType)) {
+    return {
+      type: "list",
+      items: extractDataFieldFromArrowField(arrowType.children[0]),
+    };
+  }
+
+  if (arrow.DataType.isStruct(arrowType)) {
+    return {
+      type: "struct",
+      fields: arrowType.children.map((child) =>
+        extractDataFieldFromArrowField(child)
+      ),
+    };
+  }
+
   // Fallback to string for unknown types
   return { type: "string" };
 }
 
+function timeUnitOf(unit: arrow.TimeUnit): Pick<DataField, "unit"> {
+  const name = (Object.keys(TIME_UNITS) as TimeUnit[]).find(
+    (key) => TIME_UNITS[key] === unit
+  );
+  // Milliseconds are the default, so they are left implicit
+  return name && name !== "millisecond" ? { unit: name } : {};
+}
+
 /**
  * Creates an Arrow Field from DataField
  * Includes name, type, and nullable information
@@ -131,12 +232,19 @@ export function createArrowField(
   const arrowType = dataFieldToArrowType(field, options);
   const nullable = field.nullable ?? true;
 
-  // Convert metadata object to Map<string, string> if present and non-empty
+  // Convert metadata object to Map<string, string> if present and non-empty.
+  // Objects and arrays, such as profiles and warnings, are stored as JSON.
   let metadataMap: Map<string, string> | undefined;
   if (field.metadata && typeof field.metadata === "object") {
     const entries = Object.entries(field.metadata)
       .filter(([, v]) => v !== null && v !== undefined)
-      .map(([k, v]) => [k, String(v)] as [string, string]);
+      .map(
+        ([k, v]) =>
+          [k, typeof v === "object" ? JSON.stringify(v) : String(v)] as [
+            string,
+            string,
+          ]
+      );
 
     // Only create Map if there are entries
     if (entries.length > 0) {
@@ -161,13 +269,30 @@ export function extractDataFieldFromArrowField(
   // Convert metadata Map to object, but return undefined if empty or not present
   let metadata: Record<string, unknown> | undefined;
   if (arrowField.metadata && arrowField.metadata.size > 0) {
-    metadata = Object.fromEntries(arrowField.metadata);
+    metadata = Object.fromEntries(
+      [...arrowField.metadata].map(([key, value]) => [
+        key,
+        parseJSONMetadata(value),
+      ])
+    );
   }
 
   return {
     name: arrowField.name,
-    type: typeInfo.type,
+    ...typeInfo,
     nullable: arrowField.nullable,
     metadata,
   };
 }
+
+/**
+ * Reads back metadata values that `createArrowField` stored as JSON
+ */
+function parseJSONMetadata(value: string): unknown {
+  if (!/^[[{]/.test(value)) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
@@ -26,7 +26,11 @@ export {
   getActiveBreakpoint,
   transformLayoutForBreakpoint,
   calculateCellSize,
+  validateWidgetBindings,
+  remapWidgetFields,
+  rebindWidgets,
 } from "./utils";
+export type { WidgetBindingError } from "./utils";
 
 // Export all hooks
 export { useGridLayout, useWidgetSize, useBreakpoint } from "./hooks";
@@ -4,3 +4,9 @@ export {
   transformLayoutForBreakpoint,
 } from "./responsiveHelpers";
 export { calculateCellSize } from "./gridCalculations";
+export {
+  validateWidgetBindings,
+  remapWidgetFields,
+  rebindWidgets,
+  type WidgetBindingError,
+} from "./widgetBindings";
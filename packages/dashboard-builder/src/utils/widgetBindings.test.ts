@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import type { DatasetSchema, Widget } from "@open-dashboard/shared/types";
+import {
+  rebindWidgets,
+  remapWidgetFields,
+  validateWidgetBindings,
+} from "./widgetBindings";
+
+const schema: DatasetSchema = {
+  fields: [
+    { name: "region", type: "string" },
+    { name: "net_amount", type: "number" },
+    { name: "day", type: "date" },
+  ],
+};
+
+const chart: Widget = {
+  id: "chart-1",
+  type: "chart",
+  datasetId: "sales-v1",
+  config: { title: "Sales", xField: "day", yField: "amount" },
+};
+
+const table: Widget = {
+  id: "table-1",
+  type: "table",
+  datasetId: "sales-v1",
+  config: { columns: ["region", "amount", "day"], sortBy: "region" },
+};
+
+describe("validateWidgetBindings", () => {
+  it("should accept widgets bound to existing columns", () => {
+    const widget = { ...chart, config: { xField: "day", yField: "region" } };
+
+    expect(validateWidgetBindings([widget], schema)).toEqual({
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it("should explain bindings to missing columns", () => {
+    const result = validateWidgetBindings([chart], schema);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      {
+        widgetId: "chart-1",
+        setting: "yField",
+        field: "amount",
+        message:
+          'Widget "Sales" uses column "amount" in yField, which is not in the dataset. Choose another column for yField.',
+      },
+    ]);
+  });
+
+  it("should point bindings to renamed columns at the new name", () => {
+    const result = validateWidgetBindings([table], schema, [
+      { from: "amount", to: "net_amount", confidence: 0.8 },
+    ]);
+
+    expect(result.errors).toEqual([
+      {
+        widgetId: "table-1",
+        setting: "columns",
+        field: "amount",
+        renamedTo: "net_amount",
+        message:
+          'Widget table-1 uses column "amount" in columns, which was renamed to "net_amount". Update columns to use "net_amount".',
+      },
+    ]);
+  });
+});
+
+describe("remapWidgetFields", () => {
+  it("should follow renames in single and list settings", () => {
+    const renames = [
+      { from: "amount", to: "net_amount", confidence: 0.8 },
+      { from: "region", to: "area", confidence: 0.9 },
+    ];
+
+    expect(remapWidgetFields(table, renames).config).toEqual({
+      columns: ["area", "net_amount", "day"],
+      sortBy: "area",
+    });
+    expect(remapWidgetFields(chart, renames).config.yField).toBe("net_amount");
+    expect(table.config.columns).toEqual(["region", "amount", "day"]);
+  });
+});
+
+describe("rebindWidgets", () => {
+  it("should move widgets to the refreshed dataset and report what is left", () => {
+    const other: Widget = { ...chart, id: "chart-2", datasetId: "orders" };
+    const refreshed = {
+      id: "sales-v2",
+      schema: {
+        fields: schema.fields.filter((field) => field.name !== "day"),
+      },
+    };
+
+    const result = rebindWidgets([chart, table, other], "sales-v1", refreshed, [
+      { from: "amount", to: "net_amount", confidence: 0.8 },
+    ]);
+
+    expect(result.widgets.map((widget) => widget.datasetId)).toEqual([
+      "sales-v2",
+      "sales-v2",
+      "orders",
+    ]);
+    expect(result.widgets[0].config.yField).toBe("net_amount");
+    expect(
+      result.errors.map((error) => [error.widgetId, error.setting])
+    ).toEqual([
+      ["chart-1", "xField"],
+      ["table-1", "columns"],
+    ]);
+  });
+});
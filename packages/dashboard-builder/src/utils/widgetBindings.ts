@@ -0,0 +1,131 @@
+import type {
+  DatasetSchema,
+  FieldRename,
+  ParsedDataset,
+  Widget,
+} from "@open-dashboard/shared/types";
+
+export interface WidgetBindingError {
+  widgetId: string;
+  /** Config setting that names the column, e.g. "yField" or "columns" */
+  setting: string;
+  field: string;
+  /** Column the field was likely renamed to, if a schema diff found one */
+  renamedTo?: string;
+  message: string;
+}
+
+// Widget config settings that name a single column or a list of columns
+const FIELD_SETTINGS = ["xField", "yField", "colorField", "field", "sortBy"];
+const FIELD_LIST_SETTINGS = ["columns"];
+
+/**
+ * Checks that the columns widgets are bound to exist in a dataset's schema.
+ * Pass the renames of a schema diff (`diffSchemas` in core-parser) to point
+ * widgets bound to a renamed column at its new name.
+ */
+export function validateWidgetBindings(
+  widgets: Widget[],
+  schema: DatasetSchema,
+  renames: FieldRename[] = []
+): { valid: boolean; errors: WidgetBindingError[] } {
+  const names = new Set(schema.fields.map((field) => field.name));
+  const renamedTo = new Map(renames.map((rename) => [rename.from, rename.to]));
+  const errors: WidgetBindingError[] = [];
+
+  widgets.forEach((widget) => {
+    const label = widget.config.title ? `"${widget.config.title}"` : widget.id;
+    getBoundFields(widget).forEach(({ setting, field }) => {
+      if (names.has(field)) return;
+
+      const target = renamedTo.get(field);
+      errors.push({
+        widgetId: widget.id,
+        setting,
+        field,
+        ...(target !== undefined && { renamedTo: target }),
+        message:
+          target !== undefined
+            ? `Widget ${label} uses column "${field}" in ${setting}, which was renamed to "${target}". Update ${setting} to use "${target}".`
+            : `Widget ${label} uses column "${field}" in ${setting}, which is not in the dataset. Choose another column for ${setting}.`,
+      });
+    });
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Returns a copy of a widget whose bindings follow renamed columns
+ */
+export function remapWidgetFields(
+  widget: Widget,
+  renames: FieldRename[]
+): Widget {
+  const renamedTo = new Map(renames.map((rename) => [rename.from, rename.to]));
+  const rename = (value: unknown) =>
+    typeof value === "string" ? (renamedTo.get(value) ?? value) : value;
+
+  const config = { ...widget.config };
+  FIELD_SETTINGS.forEach((setting) => {
+    if (setting in config) config[setting] = rename(config[setting]);
+  });
+  FIELD_LIST_SETTINGS.forEach((setting) => {
+    const value = config[setting];
+    if (Array.isArray(value)) config[setting] = value.map(rename);
+  });
+  return { ...widget, config };
+}
+
+/**
+ * Points the widgets bound to a dataset at its refreshed version. Bindings
+ * follow renamed columns; those that still name a missing column are
+ * returned as errors.
+ *
+ * @example
+ * ```typescript
+ * const drift = detectSchemaDrift(previous, refreshed);
+ * const { widgets, errors } = rebindWidgets(
+ *   dashboard.widgets,
+ *   previous.id,
+ *   refreshed,
+ *   drift.diff.renamedFields
+ * );
+ * ```
+ */
+export function rebindWidgets(
+  widgets: Widget[],
+  previousDatasetId: string,
+  dataset: Pick<ParsedDataset, "id" | "schema">,
+  renames: FieldRename[] = []
+): { widgets: Widget[]; errors: WidgetBindingError[] } {
+  const rebound = widgets.map((widget) =>
+    widget.datasetId === previousDatasetId
+      ? { ...remapWidgetFields(widget, renames), datasetId: dataset.id }
+      : widget
+  );
+  const { errors } = validateWidgetBindings(
+    rebound.filter((widget) => widget.datasetId === dataset.id),
+    dataset.schema
+  );
+  return { widgets: rebound, errors };
+}
+
+function getBoundFields(
+  widget: Widget
+): Array<{ setting: string; field: string }> {
+  const bound: Array<{ setting: string; field: string }> = [];
+  FIELD_SETTINGS.forEach((setting) => {
+    const value = widget.config[setting];
+    if (typeof value === "string") bound.push({ setting, field: value });
+  });
+  FIELD_LIST_SETTINGS.forEach((setting) => {
+    const value = widget.config[setting];
+    if (Array.isArray(value)) {
+      value
+        .filter((field): field is string => typeof field === "string")
+        .forEach((field) => bound.push({ setting, field }));
+    }
+  });
+  return bound;
+}
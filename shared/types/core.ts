@@ -5,7 +5,7 @@ export interface ParsedDataset {
   data: Record<string, unknown>[];
   schema: DatasetSchema;
   metadata?: Record<string, unknown>;
-  sourceType: "csv" | "json" | "api" | "pdf" | "text";
+  sourceType: "csv" | "json" | "api" | "pdf" | "text" | "excel" | "parquet";
   createdAt: Date;
 }
 
@@ -13,29 +13,282 @@ export interface DatasetSchema {
   fields: DataField[];
 }
 
+// Differences between two versions of a dataset's schema
+export interface SchemaChanges {
+  /** Fields only the new version has */
+  addedFields: string[];
+  /** Fields only the old version has */
+  removedFields: string[];
+  /** Fields whose type differs between the versions */
+  changedFields: FieldTypeChange[];
+}
+
+export interface FieldTypeChange {
+  name: string;
+  from: DataFieldType;
+  to: DataFieldType;
+}
+
+// Structured report of how a refreshed dataset's schema drifted
+export interface SchemaDiff extends SchemaChanges {
+  /** Fields whose nullability differs between the versions */
+  nullabilityChanges: NullabilityChange[];
+  /** Fields that were likely renamed; they are not listed as added or removed */
+  renamedFields: FieldRename[];
+}
+
+export interface NullabilityChange {
+  name: string;
+  from: boolean;
+  to: boolean;
+}
+
+export interface FieldRename {
+  from: string;
+  to: string;
+  /** How likely the rename is, between 0 and 1 */
+  confidence: number;
+}
+
+export type DataFieldType =
+  | "string"
+  | "number"
+  | "integer"
+  | "decimal"
+  | "date"
+  | "timestamp"
+  | "time"
+  | "duration"
+  | "boolean"
+  | "categorical"
+  | "list"
+  | "struct";
+
+export type TimeUnit = "second" | "millisecond" | "microsecond" | "nanosecond";
+
+/**
+ * Meaning of a field's values on top of its type, recorded by inference as
+ * `metadata.semanticType` so widgets can pick defaults (a map for
+ * coordinates, links for URLs)
+ */
+export type SemanticType =
+  | "email"
+  | "url"
+  | "ip"
+  | "country"
+  | "latitude"
+  | "longitude"
+  | "coordinates"
+  | "currency"
+  | "percentage"
+  | "uuid"
+  | "phone";
+
 export interface DataField {
   name: string;
-  type: "string" | "number" | "date" | "boolean" | "categorical";
+  type: DataFieldType;
   nullable?: boolean;
+  /** Total number of digits of a decimal (default 18) */
+  precision?: number;
+  /** Number of digits after the decimal point of a decimal (default 2) */
+  scale?: number;
+  /** Time zone of a timestamp: "UTC", an offset such as "+02:00" or an IANA name */
+  timezone?: string;
+  /** Resolution of a timestamp, time or duration (default "millisecond") */
+  unit?: TimeUnit;
+  /** Element type of a list */
+  items?: DataField;
+  /** Child fields of a struct */
+  fields?: DataField[];
   metadata?: Record<string, unknown>;
 }
 
+// Column statistics, stored as `DataField.metadata.profile`
+export interface FieldProfile {
+  /** Values profiled, empty ones included */
+  count: number;
+  /** Null, undefined and empty-string values */
+  nullCount: number;
+  /** Share of empty values, between 0 and 1 */
+  nullRate: number;
+  /** Distinct non-empty values */
+  distinctCount: number;
+  /** Whether `distinctCount` is a HyperLogLog estimate */
+  distinctApproximate?: boolean;
+  /** Number, integer and decimal fields */
+  numeric?: NumericProfile;
+  /** Date and timestamp fields */
+  temporal?: TemporalProfile;
+  /** Most frequent values of categorical and boolean fields, most frequent first */
+  topValues?: ValueCount[];
+  /** Lengths of string and categorical values */
+  lengths?: LengthProfile;
+}
+
+export interface NumericProfile {
+  min: number;
+  max: number;
+  mean: number;
+  /** Sample standard deviation (0 for a single value) */
+  stddev: number;
+  quantiles: { quantile: number; value: number }[];
+  histogram: HistogramBin[];
+}
+
+export interface TemporalProfile {
+  /** Earliest value as an ISO 8601 string */
+  min: string;
+  /** Latest value as an ISO 8601 string */
+  max: string;
+  /** Finest unit the values differ in, e.g. "day" when all are at midnight */
+  granularity: DateGranularity;
+}
+
+export type DateGranularity =
+  | "year"
+  | "month"
+  | "day"
+  | "hour"
+  | "minute"
+  | "second"
+  | "millisecond";
+
+export interface LengthProfile {
+  min: number;
+  max: number;
+  mean: number;
+  histogram: HistogramBin[];
+}
+
+// Equal-width bin from `start` (inclusive) to `end` (exclusive, except the last)
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface ValueCount {
+  value: string | number | boolean;
+  count: number;
+}
+
 // Parser Options (moved here for sharing)
 export interface ParserOptions {
   /** Maximum number of rows to parse (for large files) */
   maxRows?: number;
   /** Whether to infer data types automatically */
   inferTypes?: boolean;
-  /** Custom type mappings */
-  typeMapping?: Record<string, string>;
-  /** Encoding for text files */
+  /**
+   * Per-field overrides that take precedence over inference, keyed by the
+   * field's name in the source. A string forces a type ("string", or
+   * "date:DD/MM/YYYY" for a date with a fixed format).
+   */
+  typeMapping?: Record<string, DataField["type"] | string | TypeOverride>;
+  /** Text encoding of files and URLs (e.g. "windows-1252"); detected if omitted */
   encoding?: string;
+  /** BCP 47 locale of formatted numbers (e.g. "de-DE" for "1.234,56"); default "en-US" */
+  locale?: string;
   /** Custom delimiter for CSV files */
   delimiter?: string;
   /** Whether to treat first row as header */
   hasHeader?: boolean;
   /** Sample size for type inference */
   sampleSize?: number;
+  /**
+   * Which rows type inference samples: the first `sampleSize` rows
+   * ("head", default), a random "reservoir" sample, rows spread evenly over
+   * the input ("stratified"), or every row ("full")
+   */
+  sampling?: SamplingStrategy;
+  /** Path to the records inside a JSON document (e.g. "data.items[*]") */
+  recordPath?: string;
+  /** Flatten nested JSON objects into dotted columns (e.g. "address.city") */
+  flatten?: boolean | FlattenOptions;
+  /** Cleaning steps applied to the parsed dataset, e.g. a stored recipe */
+  recipe?: TransformRecipe;
+}
+
+export type SamplingStrategy = "head" | "reservoir" | "stratified" | "full";
+
+export interface TypeOverride
+  extends Pick<DataField, "precision" | "scale" | "timezone" | "unit"> {
+  /** Type to use instead of the inferred one */
+  type?: DataField["type"];
+  /** Format of date values, in core-schema's date tokens (e.g. "DD/MM/YYYY") */
+  dateFormat?: string;
+  /** Whether the field may be empty; overrides the inferred flag */
+  nullable?: boolean;
+  /** Name to give the field in the dataset */
+  rename?: string;
+}
+
+export interface FlattenOptions {
+  /** Maximum number of path segments in a column name (default 5) */
+  maxDepth?: number;
+  /** Separator between path segments in column names (default ".") */
+  separator?: string;
+  /** How arrays are stored: one row per element, a joined string or JSON */
+  arrayPolicy?: "explode" | "join" | "json";
+  /** Separator used by the "join" array policy (default ", ") */
+  joinSeparator?: string;
+}
+
+// Transform recipes: JSON steps that clean a parsed dataset
+export type TransformStep =
+  /** Trims whitespace around text values of the given fields (default all) */
+  | { op: "trim"; fields?: string[] }
+  /** Renames fields, from old to new name */
+  | { op: "rename"; fields: Record<string, string> }
+  /** Changes a field's type; `to` takes the same forms as `typeMapping` */
+  | { op: "cast"; field: string; to: DataField["type"] | string | TypeOverride }
+  /** Replaces empty values, by field name */
+  | { op: "fillNulls"; values: Record<string, string | number | boolean> }
+  /** Removes fields */
+  | { op: "drop"; fields: string[] }
+  /** Keeps the first of rows with equal values in the given fields (default all) */
+  | { op: "dedupe"; fields?: string[] }
+  /** Keeps rows for which an expression is true */
+  | { op: "filter"; expression: string }
+  /** Splits a text field at a separator into new fields */
+  | {
+      op: "split";
+      field: string;
+      separator: string;
+      into: string[];
+      /** Keep the source field (default false) */
+      keep?: boolean;
+    }
+  /** Joins fields into a new text field */
+  | {
+      op: "merge";
+      fields: string[];
+      into: string;
+      /** Text between values (default " ") */
+      separator?: string;
+      /** Keep the source fields (default false) */
+      keep?: boolean;
+    }
+  /** Adds a field computed from an expression; its type is inferred unless given */
+  | { op: "derive"; field: string; expression: string; type?: DataFieldType };
+
+export type TransformRecipe = TransformStep[];
+
+// Leading content of an input, used to detect its format
+export interface DetectionSample {
+  /** Kind of input the sample was taken from */
+  source: "file" | "url" | "string";
+  /** First bytes of the input (empty for URLs, which are not fetched) */
+  bytes: Uint8Array;
+  /** The sampled content as text */
+  text: string;
+  /** Whether the input continues past the sample */
+  truncated: boolean;
+  /** File name or last segment of the URL path */
+  filename?: string;
+  /** MIME type reported for a File */
+  mimeType?: string;
+  /** Parsed URL for URL inputs and strings holding an http(s) URL */
+  url?: URL;
 }
 
 // Adapter interfaces
@@ -61,6 +314,14 @@ export interface DataAdapter {
    * @returns Array of supported types (e.g., ['.csv', 'text/csv'])
    */
   getSupportedTypes(): string[];
+
+  /**
+   * Scores how likely a sample is in this adapter's format, judging by
+   * content alone (magic bytes, leading characters, line structure)
+   * @param sample - Leading content of the input
+   * @returns Confidence between 0 (not this format) and 1 (certain)
+   */
+  detect?(sample: DetectionSample): number;
 }
 
 // Query interfaces
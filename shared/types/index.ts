@@ -1,9 +1,30 @@
 export type {
   ParsedDataset,
   DatasetSchema,
+  SchemaChanges,
+  FieldTypeChange,
+  SchemaDiff,
+  NullabilityChange,
+  FieldRename,
   DataField,
+  DataFieldType,
+  TimeUnit,
+  SemanticType,
+  FieldProfile,
+  NumericProfile,
+  TemporalProfile,
+  DateGranularity,
+  LengthProfile,
+  HistogramBin,
+  ValueCount,
   ParserOptions,
+  SamplingStrategy,
+  FlattenOptions,
+  TypeOverride,
+  TransformStep,
+  TransformRecipe,
   DataAdapter,
+  DetectionSample,
   QueryEngine,
   QueryResult,
   Widget,
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { DataFieldSchema, DatasetSchemaSchema } from "./schemas";
+
+describe("DataFieldSchema", () => {
+  it("should accept valid nested fields", () => {
+    const result = DataFieldSchema.safeParse({
+      name: "orders",
+      type: "list",
+      items: {
+        name: "item",
+        type: "struct",
+        fields: [
+          { name: "sku", type: "string" },
+          { name: "price", type: "decimal", precision: 9, scale: 2 },
+        ],
+      },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject a list whose item breaks a refinement", () => {
+    const result = DataFieldSchema.safeParse({
+      name: "prices",
+      type: "list",
+      items: { name: "item", type: "decimal", precision: 4, scale: 6 },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({
+      path: ["items", "scale"],
+      message: "Decimal scale cannot exceed its precision",
+    });
+  });
+
+  it("should reject a struct whose child breaks a refinement", () => {
+    const result = DatasetSchemaSchema.safeParse({
+      fields: [
+        {
+          name: "address",
+          type: "struct",
+          fields: [
+            { name: "city", type: "string" },
+            { name: "phones", type: "list" },
+          ],
+        },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({
+      path: ["fields", 0, "fields", 1, "items"],
+      message: "List fields need an item type",
+    });
+  });
+});
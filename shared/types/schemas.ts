@@ -1,13 +1,66 @@
 import { z } from "zod";
 
-// Data Field Schema
-export const DataFieldSchema = z.object({
+// Data Field Schema (nested list items and struct fields use the same shape)
+const DataFieldShapeSchema = z.object({
   name: z.string().min(1, "Field name cannot be empty"),
-  type: z.enum(["string", "number", "date", "boolean", "categorical"]),
+  type: z.enum([
+    "string",
+    "number",
+    "integer",
+    "decimal",
+    "date",
+    "timestamp",
+    "time",
+    "duration",
+    "boolean",
+    "categorical",
+    "list",
+    "struct",
+  ]),
   nullable: z.boolean().optional(),
+  precision: z.number().int().min(1).max(38).optional(),
+  scale: z.number().int().min(0).optional(),
+  timezone: z.string().min(1).optional(),
+  unit: z
+    .enum(["second", "millisecond", "microsecond", "nanosecond"])
+    .optional(),
+  get items() {
+    return DataFieldShapeSchema.optional();
+  },
+  get fields() {
+    return z.array(DataFieldShapeSchema).optional();
+  },
   metadata: z.record(z.string(), z.unknown()).optional(),
 });
 
+// The refinements apply at every level, so nested fields are checked too
+export const DataFieldSchema: z.ZodType<z.infer<typeof DataFieldShapeSchema>> =
+  z.lazy(() =>
+    DataFieldShapeSchema.extend({
+      items: DataFieldSchema.optional(),
+      fields: z.array(DataFieldSchema).optional(),
+    })
+      .refine(
+        (field) =>
+          field.scale === undefined || field.scale <= (field.precision ?? 18),
+        {
+          message: "Decimal scale cannot exceed its precision",
+          path: ["scale"],
+        }
+      )
+      .refine((field) => field.type !== "list" || field.items !== undefined, {
+        message: "List fields need an item type",
+        path: ["items"],
+      })
+      .refine(
+        (field) => field.type !== "struct" || field.fields !== undefined,
+        {
+          message: "Struct fields need child fields",
+          path: ["fields"],
+        }
+      )
+  );
+
 // Dataset Schema
 export const DatasetSchemaSchema = z.object({
   fields: z
@@ -22,7 +75,7 @@ export const ParsedDatasetSchema = z.object({
   data: z.array(z.record(z.string(), z.unknown())),
   schema: DatasetSchemaSchema,
   metadata: z.record(z.string(), z.unknown()).optional(),
-  sourceType: z.enum(["csv", "json", "api", "pdf", "text"]),
+  sourceType: z.enum(["csv", "json", "api", "pdf", "text", "excel", "parquet"]),
   createdAt: z.date(),
 });
 